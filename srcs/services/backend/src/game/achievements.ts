@@ -0,0 +1,170 @@
+/**
+ * Achievements
+ *
+ * Declarative rules: each achievement names the event it listens to and a
+ * condition on that event. The match, tournament, social and chat code only
+ * report what happened (see AchievementService); adding an achievement is
+ * adding a rule here.
+ */
+
+import type { AIDifficulty } from './aiPlayer';
+
+export type AchievementCategory = 'match' | 'tournament' | 'social' | 'chat';
+
+/**
+ * A registered player finished a match
+ */
+export interface MatchFinishedEvent {
+  type: 'match_finished';
+  userId: string;
+  mode: 'ai' | 'multiplayer' | 'tournament' | 'ffa';
+  won: boolean;
+  score: number;
+  opponentScore: number;
+  /** Difficulty of the AI opponent, if it was one */
+  aiDifficulty?: AIDifficulty;
+  /** Most paddle hits in one rally of the match, when it was tracked */
+  longestRally?: number;
+}
+
+/**
+ * A registered player won a tournament
+ */
+export interface TournamentWonEvent {
+  type: 'tournament_won';
+  userId: string;
+  tournamentId: number;
+}
+
+/**
+ * A friend request was accepted; sent to both players
+ */
+export interface FriendAddedEvent {
+  type: 'friend_added';
+  userId: string;
+  friendCount: number;
+}
+
+/**
+ * A player sent a channel or direct message
+ */
+export interface MessageSentEvent {
+  type: 'message_sent';
+  userId: string;
+  channel: 'channel' | 'direct';
+}
+
+export type AchievementEvent = MatchFinishedEvent | TournamentWonEvent | FriendAddedEvent | MessageSentEvent;
+
+export interface AchievementRule<E extends AchievementEvent = AchievementEvent> {
+  id: string;
+  category: AchievementCategory;
+  /** Badge shown on the profile */
+  icon: string;
+  event: E['type'];
+  unlocks: (event: E) => boolean;
+}
+
+/**
+ * Achievement as shown to players (the rule without its condition)
+ */
+export type Achievement = Omit<AchievementRule, 'event' | 'unlocks'>;
+
+/**
+ * Define a rule; the event type narrows the event its condition receives
+ */
+function rule<T extends AchievementEvent['type']>(
+  definition: AchievementRule<Extract<AchievementEvent, { type: T }>> & { event: T }
+): AchievementRule {
+  return definition as unknown as AchievementRule;
+}
+
+/** Points of a 10-0 shutout */
+const SHUTOUT_SCORE = 10;
+
+/** Paddle hits of a marathon rally */
+const MARATHON_RALLY_HITS = 50;
+
+/** Friends of a popular player */
+const POPULAR_FRIEND_COUNT = 10;
+
+export const ACHIEVEMENTS: readonly AchievementRule[] = [
+  rule({
+    id: 'first_win',
+    category: 'match',
+    icon: '🥇',
+    event: 'match_finished',
+    unlocks: event => event.won
+  }),
+  rule({
+    id: 'shutout',
+    category: 'match',
+    icon: '🧱',
+    event: 'match_finished',
+    unlocks: event => event.won && event.opponentScore === 0 && event.score >= SHUTOUT_SCORE
+  }),
+  rule({
+    id: 'expert_slayer',
+    category: 'match',
+    icon: '🤖',
+    event: 'match_finished',
+    unlocks: event => event.won && event.aiDifficulty === 'expert'
+  }),
+  rule({
+    id: 'marathon_rally',
+    category: 'match',
+    icon: '🏓',
+    event: 'match_finished',
+    unlocks: event => (event.longestRally ?? 0) >= MARATHON_RALLY_HITS
+  }),
+  rule({
+    id: 'free_for_all_champion',
+    category: 'match',
+    icon: '👑',
+    event: 'match_finished',
+    unlocks: event => event.won && event.mode === 'ffa'
+  }),
+  rule({
+    id: 'tournament_champion',
+    category: 'tournament',
+    icon: '🏆',
+    event: 'tournament_won',
+    unlocks: () => true
+  }),
+  rule({
+    id: 'first_friend',
+    category: 'social',
+    icon: '🤝',
+    event: 'friend_added',
+    unlocks: () => true
+  }),
+  rule({
+    id: 'popular',
+    category: 'social',
+    icon: '🎉',
+    event: 'friend_added',
+    unlocks: event => event.friendCount >= POPULAR_FRIEND_COUNT
+  }),
+  rule({
+    id: 'first_message',
+    category: 'chat',
+    icon: '💬',
+    event: 'message_sent',
+    unlocks: () => true
+  })
+];
+
+/**
+ * Achievements a single event unlocks, among the rules listening to it
+ */
+export function getUnlockedAchievements(
+  event: AchievementEvent,
+  rules: readonly AchievementRule[] = ACHIEVEMENTS
+): AchievementRule[] {
+  return rules.filter(candidate => candidate.event === event.type && candidate.unlocks(event));
+}
+
+export function getAchievement(id: string): Achievement | undefined {
+  const found = ACHIEVEMENTS.find(candidate => candidate.id === id);
+  return found && { id: found.id, category: found.category, icon: found.icon };
+}
@@ -0,0 +1,435 @@
+/**
+ * AI Paddle Controller
+ *
+ * Framework-free Pong AI that lets the server fill a player slot in a real
+ * room. It plays by the same rules as the browser AI: it refreshes its view
+ * of the game at most once per second, extrapolates the ball it last saw in
+ * between (anticipating wall bounces), and moves by holding a paddle
+ * direction like a pressed key instead of setting its paddle position.
+ *
+ * On top of the difficulty, a personality shapes how it plays (where it
+ * waits, which part of the paddle it hits with, fatigue and overshoot), and
+ * the adaptive mode moves its skill during a match with the score gap,
+ * starting from the opponent's rating.
+ */
+
+import {
+  BallState,
+  PaddleDirection,
+  PaddleSide,
+  PongConfig,
+  PongState,
+  REFERENCE_FPS,
+  advancePaddle,
+  getPaddleFaceX,
+  getPaddleHeight
+} from './pongPhysics';
+import { RandomSource } from './random';
+
+export type AIDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
+
+export const AI_DIFFICULTIES: readonly AIDifficulty[] = ['easy', 'medium', 'hard', 'expert'];
+
+export interface AIDifficultySettings {
+  /** Milliseconds the AI waits between movement decisions (it decides twice per delay) */
+  reactionDelay: number;
+  /** Chance that a movement decision is not a mistake */
+  accuracy: number;
+  /** How well bounces are judged: the impact point is off by up to (1 - predictionAccuracy) of the vertical distance the ball still travels */
+  predictionAccuracy: number;
+}
+
+export type AIPersonality = 'balanced' | 'defensive' | 'aggressive' | 'humanlike';
+
+export const AI_PERSONALITIES: readonly AIPersonality[] = ['balanced', 'defensive', 'aggressive', 'humanlike'];
+
+export interface AIPersonalityProfile {
+  /** Where the paddle waits while the ball heads away: 0 in the middle, 1 level with the ball */
+  restTracking: number;
+  /** Share of the distance to the middle the paddle gives up when going for the ball */
+  centerPull: number;
+  /** Part of the paddle aimed at the ball, as a fraction of half its height (edge hits leave at steep angles) */
+  aimOffset: number;
+  /** Extra reaction delay and mistakes per minute of play */
+  fatiguePerMinute: number;
+  /** Milliseconds a direction is still held after reaching the target */
+  overshootMs: number;
+}
+
+/**
+ * What the AI plays as: a difficulty (the starting level in adaptive mode)
+ * and a personality
+ */
+export interface AIProfile {
+  difficulty: AIDifficulty;
+  personality: AIPersonality;
+  adaptive: boolean;
+}
+
+/** The AI may only look at the game once per second */
+export const AI_VIEW_INTERVAL_MS = 1000;
+
+/** Also used by the browser AI (useAIController) */
+const DIFFICULTY_SETTINGS: Record<AIDifficulty, AIDifficultySettings> = {
+  easy: { reactionDelay: 200, accuracy: 0.65, predictionAccuracy: 0.7 },
+  medium: { reactionDelay: 100, accuracy: 0.85, predictionAccuracy: 0.85 },
+  hard: { reactionDelay: 60, accuracy: 0.92, predictionAccuracy: 0.92 },
+  expert: { reactionDelay: 30, accuracy: 0.97, predictionAccuracy: 0.97 }
+};
+
+const PERSONALITY_PROFILES: Record<AIPersonality, AIPersonalityProfile> = {
+  balanced: { restTracking: 0, centerPull: 0, aimOffset: 0, fatiguePerMinute: 0, overshootMs: 0 },
+  // Center-hugger: meets the ball with the middle of the paddle and never strays far
+  defensive: { restTracking: 0, centerPull: 0.15, aimOffset: 0, fatiguePerMinute: 0, overshootMs: 0 },
+  // Edge-hitter: follows the ball around and angles it off a paddle edge
+  aggressive: { restTracking: 0.4, centerPull: 0, aimOffset: 0.5, fatiguePerMinute: 0, overshootMs: 0 },
+  // Tires over the match and lets go of the key a little late
+  humanlike: { restTracking: 0, centerPull: 0, aimOffset: 0.1, fatiguePerMinute: 0.05, overshootMs: 30 }
+};
+
+/** Shortest gap between two movement decisions (one frame at 60 FPS) */
+const MIN_DECISION_INTERVAL_MS = 16;
+
+/** Rating at which the adaptive mode starts at medium, and rating points per difficulty level */
+const ADAPTIVE_BASE_RATING = 1000;
+const ADAPTIVE_RATING_PER_LEVEL = 200;
+
+/** Difficulty levels the adaptive mode moves per point of score gap */
+const ADAPTIVE_LEVELS_PER_POINT = 0.5;
+
+/** Fatigue stops growing once reactions are this many times slower */
+const MAX_FATIGUE = 2;
+
+export function isAIDifficulty(value: unknown): value is AIDifficulty {
+  return typeof value === 'string' && (AI_DIFFICULTIES as readonly string[]).includes(value);
+}
+
+export function getAIDifficultySettings(difficulty: AIDifficulty): AIDifficultySettings {
+  return DIFFICULTY_SETTINGS[difficulty] ?? DIFFICULTY_SETTINGS.medium;
+}
+
+export function isAIPersonality(value: unknown): value is AIPersonality {
+  return typeof value === 'string' && (AI_PERSONALITIES as readonly string[]).includes(value);
+}
+
+export function getAIPersonalityProfile(personality: AIPersonality): AIPersonalityProfile {
+  return PERSONALITY_PROFILES[personality] ?? PERSONALITY_PROFILES.balanced;
+}
+
+/**
+ * Skill of a difficulty on a continuous scale (0: easy ... 3: expert)
+ */
+export function getAISkill(difficulty: AIDifficulty): number {
+  return Math.max(0, AI_DIFFICULTIES.indexOf(difficulty));
+}
+
+/**
+ * Settings for a skill between two difficulties, interpolated between them
+ */
+export function getAISkillSettings(skill: number): AIDifficultySettings {
+  const clamped = Math.max(0, Math.min(AI_DIFFICULTIES.length - 1, skill));
+  const lower = Math.floor(clamped);
+  const upper = Math.min(AI_DIFFICULTIES.length - 1, lower + 1);
+  const t = clamped - lower;
+  const a = DIFFICULTY_SETTINGS[AI_DIFFICULTIES[lower]];
+  const b = DIFFICULTY_SETTINGS[AI_DIFFICULTIES[upper]];
+  return {
+    reactionDelay: a.reactionDelay + (b.reactionDelay - a.reactionDelay) * t,
+    accuracy: a.accuracy + (b.accuracy - a.accuracy) * t,
+    predictionAccuracy: a.predictionAccuracy + (b.predictionAccuracy - a.predictionAccuracy) * t
+  };
+}
+
+/**
+ * Skill the adaptive mode starts at against an opponent of the given rating
+ * (the chosen difficulty if the rating is unknown)
+ */
+export function getAdaptiveStartSkill(difficulty: AIDifficulty, opponentRating?: number | null): number {
+  if (opponentRating === undefined || opponentRating === null || !Number.isFinite(opponentRating)) {
+    return getAISkill(difficulty);
+  }
+  const skill = getAISkill('medium') + (opponentRating - ADAPTIVE_BASE_RATING) / ADAPTIVE_RATING_PER_LEVEL;
+  return Math.max(0, Math.min(AI_DIFFICULTIES.length - 1, skill));
+}
+
+/**
+ * Rough rating of a player from their win record: the base rating, moved up
+ * or down with the win rate as more games are played
+ */
+export function estimatePlayerRating(gamesWon: number, totalGames: number): number {
+  if (totalGames <= 0) return ADAPTIVE_BASE_RATING;
+  const confidence = Math.min(1, totalGames / 20);
+  return ADAPTIVE_BASE_RATING + (gamesWon / totalGames - 0.5) * 2 * ADAPTIVE_RATING_PER_LEVEL * confidence;
+}
+
+/**
+ * Skill of the adaptive mode at a given score: it plays better while behind
+ * and eases off while ahead
+ */
+export function getAdaptiveSkill(startSkill: number, aiScore: number, opponentScore: number): number {
+  const skill = startSkill + (opponentScore - aiScore) * ADAPTIVE_LEVELS_PER_POINT;
+  return Math.max(0, Math.min(AI_DIFFICULTIES.length - 1, skill));
+}
+
+/**
+ * Settings slowed down by `minutes` of play for a personality that tires
+ */
+export function applyAIFatigue(
+  settings: AIDifficultySettings,
+  profile: AIPersonalityProfile,
+  minutes: number
+): AIDifficultySettings {
+  const fatigue = Math.min(MAX_FATIGUE, 1 + profile.fatiguePerMinute * Math.max(0, minutes));
+  if (fatigue === 1) return settings;
+  return { ...settings, reactionDelay: settings.reactionDelay * fatigue };
+}
+
+/**
+ * How a profile is stored in match history, e.g. "hard/aggressive" or
+ * "adaptive:medium/humanlike"
+ */
+export function formatAIProfile(profile: AIProfile): string {
+  return `${profile.adaptive ? 'adaptive:' : ''}${profile.difficulty}/${profile.personality}`;
+}
+
+/**
+ * Read a profile stored by `formatAIProfile`
+ * @returns null if the value is not a valid profile
+ */
+export function parseAIProfile(value: unknown): AIProfile | null {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^(adaptive:)?([a-z]+)\/([a-z]+)$/);
+  if (!match || !isAIDifficulty(match[2]) || !isAIPersonality(match[3])) return null;
+  return { difficulty: match[2], personality: match[3], adaptive: Boolean(match[1]) };
+}
+
+/**
+ * Default name of an AI player, e.g. "AI Hard"
+ */
+export function getAIDisplayName(difficulty: AIDifficulty): string {
+  return `AI ${difficulty.charAt(0).toUpperCase()}${difficulty.slice(1)}`;
+}
+
+/**
+ * Fold a coordinate moving freely along an axis back into [min, max], as if it
+ * bounced off both ends
+ */
+function reflect(value: number, min: number, max: number): { value: number; flipped: boolean } {
+  const span = max - min;
+  if (span <= 0) return { value: min, flipped: false };
+
+  const period = 2 * span;
+  const offset = (((value - min) % period) + period) % period;
+  return offset <= span
+    ? { value: min + offset, flipped: false }
+    : { value: max - (offset - span), flipped: true };
+}
+
+/**
+ * Where the ball will be after `ms` milliseconds, bouncing off the top and
+ * bottom walls (paddles and obstacles are not taken into account)
+ */
+export function extrapolateBall(ball: BallState, ms: number, config: PongConfig): BallState {
+  const frames = (Math.max(0, ms) / 1000) * REFERENCE_FPS;
+  const radius = config.ballSize / 2;
+  const { value: y, flipped } = reflect(ball.y + ball.dy * frames, radius, config.height - radius);
+  return { x: ball.x + ball.dx * frames, y, dx: ball.dx, dy: flipped ? -ball.dy : ball.dy };
+}
+
+/**
+ * Height at which the ball will reach `targetX`, anticipating wall bounces
+ * @returns null if the ball is not heading towards `targetX`
+ */
+export function predictBallY(ball: BallState, targetX: number, config: PongConfig): number | null {
+  if (ball.dx === 0 || Math.sign(targetX - ball.x) !== Math.sign(ball.dx)) return null;
+
+  const ms = ((targetX - ball.x) / ball.dx / REFERENCE_FPS) * 1000;
+  return extrapolateBall(ball, ms, config).y;
+}
+
+/**
+ * What the AI saw the last time it looked at the game
+ */
+interface AIView {
+  ball: BallState;
+  /** Seconds the ball was still held for the serve */
+  serveCountdown: number;
+  paddleHeight: number;
+  /** Misjudgement of the impact point, as a fraction of the vertical distance to it */
+  predictionError: number;
+  /** Paddle edge aimed at the ball (-1: bottom edge, 1: top edge) */
+  aimSide: -1 | 1;
+  time: number;
+}
+
+export interface AIPlayerOptions {
+  personality?: AIPersonality;
+  /** Adjust the skill to the score gap during the match */
+  adaptive?: boolean;
+  /** Opponent's rating the adaptive mode starts from (default: the difficulty) */
+  opponentRating?: number | null;
+}
+
+/**
+ * Plays one paddle of a classic match; call `update` every frame and send the
+ * returned direction as that paddle's input
+ */
+export class AIPaddleController {
+  readonly personality: AIPersonality;
+  readonly adaptive: boolean;
+  private readonly profileSettings: AIPersonalityProfile;
+  private readonly startSkill: number;
+  private skill: number;
+  private settings: AIDifficultySettings;
+  private view: AIView | null = null;
+  private startTime: number | null = null;
+  private overshootUntil: number | null = null;
+  /** Own paddle position, tracked from the held directions between views */
+  private paddleY = 0;
+  private lastTrackTime = 0;
+  private lastDecisionTime = -Infinity;
+  private held: PaddleDirection = 0;
+
+  constructor(
+    readonly side: PaddleSide,
+    readonly difficulty: AIDifficulty,
+    private readonly config: PongConfig,
+    private readonly rng: RandomSource = Math.random,
+    options: AIPlayerOptions = {}
+  ) {
+    this.personality = options.personality ?? 'balanced';
+    this.adaptive = options.adaptive ?? false;
+    this.profileSettings = getAIPersonalityProfile(this.personality);
+    this.startSkill = this.adaptive
+      ? getAdaptiveStartSkill(difficulty, options.opponentRating)
+      : getAISkill(difficulty);
+    this.skill = this.startSkill;
+    this.settings = getAISkillSettings(this.skill);
+  }
+
+  /** Direction the AI currently holds */
+  get direction(): PaddleDirection {
+    return this.held;
+  }
+
+  /** Difficulty, personality and mode the AI plays with */
+  get profile(): AIProfile {
+    return { difficulty: this.difficulty, personality: this.personality, adaptive: this.adaptive };
+  }
+
+  /** Skill the AI currently plays at (0: easy ... 3: expert) */
+  get currentSkill(): number {
+    return this.skill;
+  }
+
+  /**
+   * Decide which direction to hold
+   * @param state - Current game state; only read when the once-per-second view is due
+   * @param now - Current time in milliseconds
+   */
+  update(state: PongState, now: number): PaddleDirection {
+    this.trackPaddle(now);
+    if (!this.view || now - this.view.time >= AI_VIEW_INTERVAL_MS) {
+      this.look(state, now);
+    }
+
+    const decisionInterval = Math.max(MIN_DECISION_INTERVAL_MS, this.settings.reactionDelay / 2);
+    if (now - this.lastDecisionTime < decisionInterval) {
+      return this.held;
+    }
+    this.lastDecisionTime = now;
+    this.held = this.decide(now);
+    if (this.held === 0) this.overshootUntil = null;
+    return this.held;
+  }
+
+  /**
+   * Forget the last view, e.g. after the match was paused or reset
+   */
+  reset(): void {
+    this.view = null;
+    this.held = 0;
+    this.lastDecisionTime = -Infinity;
+    this.overshootUntil = null;
+  }
+
+  private look(state: PongState, now: number): void {
+    const paddle = this.side === 'left' ? state.leftPaddle : state.rightPaddle;
+    const [ownScore, opponentScore] = this.side === 'left'
+      ? [state.leftScore, state.rightScore]
+      : [state.rightScore, state.leftScore];
+
+    this.startTime ??= now;
+    this.skill = this.adaptive ? getAdaptiveSkill(this.startSkill, ownScore, opponentScore) : this.startSkill;
+    this.settings = applyAIFatigue(getAISkillSettings(this.skill), this.profileSettings, (now - this.startTime) / 60000);
+
+    const predictionError = (this.rng() * 2 - 1) * (1 - this.settings.predictionAccuracy);
+    // Only personalities that aim draw a side, so the others keep the same random sequence
+    const aimSide = this.profileSettings.aimOffset > 0 && this.rng() < 0.5 ? -1 : 1;
+    this.view = {
+      ball: { ...state.ball },
+      serveCountdown: state.serveCountdown ?? 0,
+      paddleHeight: getPaddleHeight(paddle, this.config),
+      predictionError,
+      aimSide,
+      time: now
+    };
+    this.paddleY = paddle.y;
+    this.lastTrackTime = now;
+  }
+
+  private trackPaddle(now: number): void {
+    if (!this.view) return;
+    const height = this.view.paddleHeight;
+    this.paddleY = advancePaddle(this.paddleY, this.held, (now - this.lastTrackTime) / 1000, this.config, height);
+    this.lastTrackTime = now;
+  }
+
+  private decide(now: number): PaddleDirection {
+    const view = this.view!;
+    // The ball stays put until the serve countdown it saw runs out
+    const moving = now - view.time - view.serveCountdown * 1000;
+    const ball = extrapolateBall(view.ball, moving, this.config);
+
+    const faceX = getPaddleFaceX(this.side, this.config);
+    const impactY = predictBallY(ball, faceX, this.config);
+    const profile = this.profileSettings;
+    const centerY = (this.config.height - view.paddleHeight) / 2;
+    let targetY: number;
+    if (impactY === null) {
+      // Wait while the ball heads for the other side, in the middle or level with the ball
+      targetY = centerY + (ball.y - view.paddleHeight / 2 - centerY) * profile.restTracking;
+    } else {
+      // Long shots with many bounces are harder to judge than flat ones
+      const verticalTravel = Math.abs((ball.dy * (faceX - ball.x)) / ball.dx);
+      const meetY = impactY + view.predictionError * verticalTravel - view.paddleHeight / 2;
+      targetY = meetY + (centerY - meetY) * profile.centerPull + (view.aimSide * profile.aimOffset * view.paddleHeight) / 2;
+    }
+
+    // Stop within one frame of movement so the paddle does not jitter around the target
+    let direction: PaddleDirection = Math.abs(targetY - this.paddleY) <= this.config.paddleSpeed
+      ? 0
+      : targetY > this.paddleY ? 1 : -1;
+
+    // Keep the key pressed a little past the target
+    if (direction !== 0) {
+      this.overshootUntil = null;
+    } else if (this.held !== 0 && profile.overshootMs > 0) {
+      this.overshootUntil ??= now + profile.overshootMs;
+      if (now < this.overshootUntil) direction = this.held;
+    }
+
+    // Mistakes only happen while the ball is coming, like a human misjudging it
+    if (impactY !== null && this.rng() > this.settings.accuracy) {
+      if (this.skill >= getAISkill('hard')) {
+        direction = this.rng() > 0.7 ? 0 : direction;
+      } else if (this.rng() > 0.3) {
+        direction = direction === 0 ? (this.rng() > 0.5 ? 1 : -1) : (-direction as PaddleDirection);
+      } else {
+        direction = 0;
+      }
+    }
+
+    return direction;
+  }
+}
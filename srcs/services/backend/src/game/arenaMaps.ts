@@ -0,0 +1,227 @@
+/**
+ * Arena Maps
+ *
+ * JSON map definitions that place obstacles on the classic field: fixed
+ * blocks, bumpers sliding back and forth, and portal pairs. The server physics
+ * and the Svelte canvas read the same definitions, so obstacles are drawn
+ * exactly where the ball collides with them. Built-in maps live in ./maps.
+ */
+
+import type { PongConfig } from './pongPhysics';
+import classicMap from './maps/classic.json';
+import pillarsMap from './maps/pillars.json';
+import bumpersMap from './maps/bumpers.json';
+import portalsMap from './maps/portals.json';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BlockObstacle extends Rect {
+  type: 'block';
+}
+
+/**
+ * Block sliding `distance` pixels along `axis` from its position and back,
+ * once every `period` seconds
+ */
+export interface BumperObstacle extends Rect {
+  type: 'bumper';
+  axis: 'x' | 'y';
+  distance: number;
+  period: number;
+}
+
+/**
+ * Two linked portals: a ball entering one leaves from the other with the same velocity
+ */
+export interface PortalObstacle {
+  type: 'portal';
+  a: Point;
+  b: Point;
+  radius: number;
+}
+
+export type ArenaObstacle = BlockObstacle | BumperObstacle | PortalObstacle;
+
+export interface ArenaMap {
+  id: string;
+  name: string;
+  obstacles: ArenaObstacle[];
+}
+
+/**
+ * Solid rectangles and portals of a map at one point in time
+ */
+export interface ArenaLayout {
+  blocks: Rect[];
+  portals: PortalObstacle[];
+}
+
+export interface ArenaMapValidation {
+  valid: boolean;
+  map?: ArenaMap;
+  errors: string[];
+}
+
+export const DEFAULT_ARENA_MAP_ID = 'classic';
+
+/** Clear lane in front of each goal (from the field edge) where no obstacle may be placed */
+const PADDLE_LANE_WIDTH = 60;
+
+export const BUILT_IN_ARENA_MAPS: Readonly<Record<string, ArenaMap>> = ([classicMap, pillarsMap, bumpersMap, portalsMap] as ArenaMap[])
+  .reduce<Record<string, ArenaMap>>((maps, map) => ({ ...maps, [map.id]: map }), {});
+
+export const ARENA_MAP_IDS: readonly string[] = Object.keys(BUILT_IN_ARENA_MAPS);
+
+/**
+ * Built-in map by id (the empty classic field for unknown ids)
+ */
+export function getArenaMap(id: string | undefined): ArenaMap {
+  return (id && BUILT_IN_ARENA_MAPS[id]) || BUILT_IN_ARENA_MAPS[DEFAULT_ARENA_MAP_ID];
+}
+
+/**
+ * Whether a map has any obstacles (the classic map has none)
+ */
+export function hasObstacles(map: ArenaMap | undefined): map is ArenaMap {
+  return !!map && map.obstacles.length > 0;
+}
+
+/**
+ * Offset of a bumper along its axis at `time` seconds (eases in and out at both ends)
+ */
+function getBumperOffset(bumper: BumperObstacle, time: number): number {
+  return bumper.distance * (1 - Math.cos((2 * Math.PI * time) / bumper.period)) / 2;
+}
+
+/**
+ * Obstacles of a map at `time` seconds of play
+ */
+export function getArenaLayout(map: ArenaMap, time: number): ArenaLayout {
+  const layout: ArenaLayout = { blocks: [], portals: [] };
+
+  for (const obstacle of map.obstacles) {
+    if (obstacle.type === 'portal') {
+      layout.portals.push(obstacle);
+    } else if (obstacle.type === 'bumper') {
+      const offset = getBumperOffset(obstacle, time);
+      layout.blocks.push({
+        x: obstacle.x + (obstacle.axis === 'x' ? offset : 0),
+        y: obstacle.y + (obstacle.axis === 'y' ? offset : 0),
+        width: obstacle.width,
+        height: obstacle.height
+      });
+    } else {
+      layout.blocks.push({ x: obstacle.x, y: obstacle.y, width: obstacle.width, height: obstacle.height });
+    }
+  }
+
+  return layout;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPoint(value: unknown): value is Point {
+  return typeof value === 'object' && value !== null && isFiniteNumber((value as Point).x) && isFiniteNumber((value as Point).y);
+}
+
+/**
+ * Problems with an area an obstacle covers: it must stay on the field, out of
+ * the paddle lanes and away from the serve point
+ */
+function checkPlacement(label: string, area: Rect, config: PongConfig): string[] {
+  const errors: string[] = [];
+  if (area.y < 0 || area.y + area.height > config.height) {
+    errors.push(`${label} is outside the field`);
+  }
+  if (area.x < PADDLE_LANE_WIDTH || area.x + area.width > config.width - PADDLE_LANE_WIDTH) {
+    errors.push(`${label} blocks a paddle lane`);
+  }
+  const center = { x: config.width / 2, y: config.height / 2 };
+  if (center.x >= area.x && center.x <= area.x + area.width && center.y >= area.y && center.y <= area.y + area.height) {
+    errors.push(`${label} covers the serve point`);
+  }
+  return errors;
+}
+
+function validateObstacle(obstacle: unknown, label: string, config: PongConfig): string[] {
+  if (typeof obstacle !== 'object' || obstacle === null) {
+    return [`${label} must be an object`];
+  }
+
+  const candidate = obstacle as Record<string, unknown>;
+  if (candidate.type === 'portal') {
+    if (!isPoint(candidate.a) || !isPoint(candidate.b)) return [`${label} needs points a and b`];
+    if (!isFiniteNumber(candidate.radius) || candidate.radius <= 0) return [`${label} radius must be a positive number`];
+    const radius = candidate.radius;
+    return [candidate.a, candidate.b].flatMap((point, index) => checkPlacement(
+      `${label} portal ${index === 0 ? 'a' : 'b'}`,
+      { x: point.x - radius, y: point.y - radius, width: radius * 2, height: radius * 2 },
+      config
+    ));
+  }
+
+  if (candidate.type !== 'block' && candidate.type !== 'bumper') {
+    return [`${label} has unknown type: ${String(candidate.type)}`];
+  }
+  const invalidKeys = ['x', 'y', 'width', 'height'].filter(key => !isFiniteNumber(candidate[key]));
+  if (invalidKeys.length > 0) return [`${label} ${invalidKeys.join(', ')} must be numbers`];
+  const rect = candidate as unknown as Rect;
+  if (rect.width <= 0 || rect.height <= 0) return [`${label} must have a positive size`];
+
+  if (candidate.type === 'block') {
+    return checkPlacement(label, rect, config);
+  }
+
+  if (candidate.axis !== 'x' && candidate.axis !== 'y') return [`${label} axis must be x or y`];
+  if (!isFiniteNumber(candidate.distance) || candidate.distance <= 0) return [`${label} distance must be a positive number`];
+  if (!isFiniteNumber(candidate.period) || candidate.period <= 0) return [`${label} period must be a positive number`];
+
+  // The whole path the bumper travels has to be a valid placement
+  const travel: Rect = {
+    ...rect,
+    width: rect.width + (candidate.axis === 'x' ? candidate.distance : 0),
+    height: rect.height + (candidate.axis === 'y' ? candidate.distance : 0)
+  };
+  return checkPlacement(label, travel, config);
+}
+
+/**
+ * Validate a map definition (e.g. parsed from JSON) against a field config
+ */
+export function validateArenaMap(input: unknown, config: PongConfig): ArenaMapValidation {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { valid: false, errors: ['Map must be an object'] };
+  }
+
+  const candidate = input as Record<string, unknown>;
+  const errors: string[] = [];
+  if (typeof candidate.id !== 'string' || !/^[a-z0-9-]+$/.test(candidate.id)) {
+    errors.push('id must be lowercase letters, digits and dashes');
+  }
+  if (typeof candidate.name !== 'string' || candidate.name.trim() === '') {
+    errors.push('name must be a non-empty string');
+  }
+  if (!Array.isArray(candidate.obstacles)) {
+    errors.push('obstacles must be an array');
+  } else {
+    candidate.obstacles.forEach((obstacle, index) => {
+      errors.push(...validateObstacle(obstacle, `obstacles[${index}]`, config));
+    });
+  }
+
+  return errors.length === 0
+    ? { valid: true, map: input as ArenaMap, errors }
+    : { valid: false, errors };
+}
@@ -0,0 +1,319 @@
+/**
+ * Four-player Free-for-all Physics
+ *
+ * Square field with one paddle guarding the goal on each side. A player whose
+ * goal is breached loses a life; at zero lives the player is eliminated and
+ * the side is closed by a wall. The last player left wins. Uses the same
+ * units, swept collisions and bounce rules as the two-player core.
+ */
+
+import {
+  BallState,
+  GameSpeed,
+  MAX_BOUNCE_ANGLE,
+  PaddleDirection,
+  PongConfig,
+  RALLY_SPEEDUP,
+  REFERENCE_FPS,
+  createPongConfig,
+  getMaxBallSpeed,
+  normalizeDirection
+} from './pongPhysics';
+import { RandomSource } from './random';
+
+export type FfaSide = 'left' | 'right' | 'top' | 'bottom';
+
+/** Side assignment order for joining players */
+export const FFA_SIDES: readonly FfaSide[] = ['left', 'right', 'top', 'bottom'];
+
+export interface FfaConfig extends PongConfig {
+  /** Goals a player may concede before being eliminated */
+  lives: number;
+}
+
+/**
+ * Serializable free-for-all state (the `gameData` of an FFA room)
+ */
+export interface FfaState {
+  /** Paddle position along its side (top edge for left/right, left edge for top/bottom) */
+  paddles: Record<FfaSide, number>;
+  ball: BallState;
+  lives: Record<FfaSide, number>;
+  /** Sides in the order they were eliminated */
+  eliminated: FfaSide[];
+  winner?: FfaSide;
+}
+
+/**
+ * Held paddle directions; -1 moves up/left, 1 moves down/right
+ */
+export type FfaInputs = Record<FfaSide, PaddleDirection>;
+
+export interface FfaStepOptions {
+  config?: FfaConfig;
+  rng?: RandomSource;
+}
+
+/** Field size of a free-for-all room */
+const FFA_FIELD_SIZE = 600;
+const DEFAULT_LIVES = 3;
+/** Largest angle of a serve away from the straight line to a goal */
+const SERVE_SPREAD = Math.PI / 6;
+const MAX_COLLISIONS_PER_STEP = 8;
+const COLLISION_EPSILON = 1e-6;
+
+interface SideGeometry {
+  /** Axis the side's goal line is perpendicular to */
+  axis: 'x' | 'y';
+  /** Axis the paddle moves along */
+  tangent: 'x' | 'y';
+  /** Direction pointing from the goal into the field */
+  normal: 1 | -1;
+}
+
+const SIDE_GEOMETRY: Record<FfaSide, SideGeometry> = {
+  left: { axis: 'x', tangent: 'y', normal: 1 },
+  right: { axis: 'x', tangent: 'y', normal: -1 },
+  top: { axis: 'y', tangent: 'x', normal: 1 },
+  bottom: { axis: 'y', tangent: 'x', normal: -1 }
+};
+
+const VELOCITY: Record<'x' | 'y', 'dx' | 'dy'> = { x: 'dx', y: 'dy' };
+
+/**
+ * Config for a free-for-all room: square field and lives on top of the usual
+ * paddle, ball and speed values
+ */
+export function createFfaConfig(gameSpeed: GameSpeed = 'normal', overrides: Partial<FfaConfig> = {}): FfaConfig {
+  return {
+    ...createPongConfig(gameSpeed),
+    width: FFA_FIELD_SIZE,
+    height: FFA_FIELD_SIZE,
+    lives: DEFAULT_LIVES,
+    ...overrides
+  };
+}
+
+/**
+ * Closest and farthest paddle positions; paddles stay clear of the corners
+ */
+function getPaddleRange(side: FfaSide, config: FfaConfig): { min: number; max: number } {
+  const size = SIDE_GEOMETRY[side].tangent === 'x' ? config.width : config.height;
+  const margin = config.paddleOffset + config.paddleWidth;
+  return { min: margin, max: size - margin - config.paddleHeight };
+}
+
+/**
+ * Coordinate of the goal line on the side's axis
+ */
+function getGoalLine(side: FfaSide, config: FfaConfig): number {
+  const size = SIDE_GEOMETRY[side].axis === 'x' ? config.width : config.height;
+  return SIDE_GEOMETRY[side].normal === 1 ? 0 : size;
+}
+
+/**
+ * Coordinate of the paddle face the ball bounces off
+ */
+export function getFfaPaddleFace(side: FfaSide, config: FfaConfig): number {
+  return getGoalLine(side, config) + SIDE_GEOMETRY[side].normal * (config.paddleOffset + config.paddleWidth);
+}
+
+export function getAliveSides(state: FfaState): FfaSide[] {
+  return FFA_SIDES.filter(side => !state.eliminated.includes(side));
+}
+
+/**
+ * Ball at the center heading for the goal of a random remaining player
+ */
+export function serveFfaBall(state: FfaState, config: FfaConfig, rng: RandomSource): BallState {
+  const alive = getAliveSides(state);
+  const target = alive[Math.floor(rng() * alive.length)] ?? 'left';
+  const { axis, normal } = SIDE_GEOMETRY[target];
+  const angle = (rng() - 0.5) * 2 * SERVE_SPREAD;
+  const along = -normal * config.ballSpeed * Math.cos(angle);
+  const across = config.ballSpeed * Math.sin(angle);
+
+  return {
+    x: config.width / 2,
+    y: config.height / 2,
+    dx: axis === 'x' ? along : across,
+    dy: axis === 'x' ? across : along
+  };
+}
+
+/**
+ * Fresh free-for-all match: centered paddles, full lives, ball served at random
+ */
+export function createFfaState(config: FfaConfig, rng: RandomSource): FfaState {
+  const paddles = {} as Record<FfaSide, number>;
+  const lives = {} as Record<FfaSide, number>;
+  for (const side of FFA_SIDES) {
+    const size = SIDE_GEOMETRY[side].tangent === 'x' ? config.width : config.height;
+    paddles[side] = (size - config.paddleHeight) / 2;
+    lives[side] = config.lives;
+  }
+
+  const state: FfaState = { paddles, ball: { x: 0, y: 0, dx: 0, dy: 0 }, lives, eliminated: [] };
+  state.ball = serveFfaBall(state, config, rng);
+  return state;
+}
+
+/**
+ * Time (in reference frames) until the ball meets the side: its paddle while
+ * the player is alive, its closed wall once eliminated; Infinity otherwise
+ */
+function timeToSide(ball: BallState, side: FfaSide, state: FfaState, radius: number, config: FfaConfig): number {
+  const { axis, tangent, normal } = SIDE_GEOMETRY[side];
+  const velocity = ball[VELOCITY[axis]];
+  if (velocity * normal >= 0) return Infinity;
+
+  const eliminated = state.eliminated.includes(side);
+  const surface = eliminated ? getGoalLine(side, config) : getFfaPaddleFace(side, config);
+  const contact = surface + normal * radius;
+
+  // The ball must still be in front of the surface
+  if (!eliminated && (ball[axis] - contact) * normal < -COLLISION_EPSILON) return Infinity;
+
+  const time = Math.max(0, (contact - ball[axis]) / velocity);
+  if (eliminated) return time;
+
+  const contactTangent = ball[tangent] + ball[VELOCITY[tangent]] * time;
+  const paddle = state.paddles[side];
+  return contactTangent >= paddle - radius && contactTangent <= paddle + config.paddleHeight + radius ? time : Infinity;
+}
+
+/**
+ * Bounce off a paddle with the angle set by the hit position and the rally speed-up
+ */
+function bounceOffFfaPaddle(ball: BallState, side: FfaSide, state: FfaState, radius: number, config: FfaConfig): void {
+  const { axis, tangent, normal } = SIDE_GEOMETRY[side];
+  const center = state.paddles[side] + config.paddleHeight / 2;
+  const offset = Math.max(-1, Math.min(1, (ball[tangent] - center) / (config.paddleHeight / 2 + radius)));
+  const angle = offset * MAX_BOUNCE_ANGLE;
+  const speed = Math.min(Math.hypot(ball.dx, ball.dy) * RALLY_SPEEDUP, getMaxBallSpeed(config));
+
+  ball[VELOCITY[axis]] = normal * speed * Math.cos(angle);
+  ball[VELOCITY[tangent]] = speed * Math.sin(angle);
+}
+
+/**
+ * Move the ball with swept collision against paddles and closed sides
+ */
+function sweepFfaBall(ball: BallState, state: FfaState, frames: number, config: FfaConfig): void {
+  const radius = config.ballSize / 2;
+  let remaining = frames;
+
+  for (let i = 0; i < MAX_COLLISIONS_PER_STEP && remaining > 0; i++) {
+    let time = remaining;
+    let hitSide: FfaSide | null = null;
+    for (const side of FFA_SIDES) {
+      const sideTime = timeToSide(ball, side, state, radius, config);
+      if (sideTime <= time) {
+        time = sideTime;
+        hitSide = side;
+      }
+    }
+
+    ball.x += ball.dx * time;
+    ball.y += ball.dy * time;
+    remaining -= time;
+
+    if (hitSide === null) return;
+    if (state.eliminated.includes(hitSide)) {
+      const velocity = VELOCITY[SIDE_GEOMETRY[hitSide].axis];
+      ball[velocity] = -ball[velocity];
+    } else {
+      bounceOffFfaPaddle(ball, hitSide, state, radius, config);
+    }
+  }
+}
+
+/**
+ * Remaining side whose goal line the ball has crossed, if any
+ */
+function getBreachedSide(ball: BallState, state: FfaState, config: FfaConfig): FfaSide | null {
+  for (const side of getAliveSides(state)) {
+    const { axis, normal } = SIDE_GEOMETRY[side];
+    if ((ball[axis] - getGoalLine(side, config)) * normal < 0) return side;
+  }
+  return null;
+}
+
+/**
+ * Advance the free-for-all simulation by `dt` seconds.
+ *
+ * Pure: returns a new state. Once a winner is set the state is returned unchanged.
+ */
+export function stepFfa(state: FfaState, inputs: Partial<FfaInputs>, dt: number, options: FfaStepOptions = {}): FfaState {
+  if (state.winner) return state;
+
+  const config = options.config ?? createFfaConfig();
+  const rng = options.rng ?? Math.random;
+  const seconds = Math.max(0, dt);
+
+  const next: FfaState = {
+    paddles: { ...state.paddles },
+    ball: { ...state.ball },
+    lives: { ...state.lives },
+    eliminated: [...state.eliminated]
+  };
+
+  for (const side of getAliveSides(next)) {
+    const { min, max } = getPaddleRange(side, config);
+    const moved = next.paddles[side] + normalizeDirection(inputs[side] ?? 0) * config.paddleSpeed * seconds * REFERENCE_FPS;
+    next.paddles[side] = Math.max(min, Math.min(max, moved));
+  }
+
+  sweepFfaBall(next.ball, next, seconds * REFERENCE_FPS, config);
+
+  const breached = getBreachedSide(next.ball, next, config);
+  if (breached) {
+    next.lives[breached] = Math.max(0, next.lives[breached] - 1);
+    if (next.lives[breached] === 0) {
+      next.eliminated.push(breached);
+    }
+
+    const alive = getAliveSides(next);
+    if (alive.length === 1) {
+      next.winner = alive[0];
+    } else {
+      next.ball = serveFfaBall(next, config, rng);
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Final placement of every side (1 = winner); remaining players share the
+ * best open place while the match is still running
+ */
+export function getFfaPlacements(state: FfaState): Record<FfaSide, number> {
+  const placements = {} as Record<FfaSide, number>;
+  state.eliminated.forEach((side, index) => {
+    placements[side] = FFA_SIDES.length - index;
+  });
+  for (const side of getAliveSides(state)) {
+    placements[side] = 1;
+  }
+  return placements;
+}
+
+/**
+ * Eliminate a side that forfeited, whatever lives it had left; the last
+ * player standing wins. Pure: returns a new state.
+ */
+export function forfeitFfaSide(state: FfaState, side: FfaSide): FfaState {
+  if (state.winner || state.eliminated.includes(side)) return state;
+
+  const next: FfaState = {
+    ...state,
+    lives: { ...state.lives, [side]: 0 },
+    eliminated: [...state.eliminated, side]
+  };
+  const alive = getAliveSides(next);
+  if (alive.length === 1) {
+    next.winner = alive[0];
+  }
+  return next;
+}
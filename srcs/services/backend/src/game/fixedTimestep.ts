@@ -0,0 +1,57 @@
+/**
+ * Fixed Timestep Clock
+ *
+ * Accumulates wall-clock time and reports how many fixed physics ticks are due,
+ * so the simulation advances identically no matter how late timers fire.
+ */
+
+/** Physics ticks per second */
+export const TICK_RATE = 60;
+
+/** Duration of one physics tick in milliseconds */
+export const TICK_MS = 1000 / TICK_RATE;
+
+/** Duration of one physics tick in seconds (the `dt` passed to `step`) */
+export const TICK_SECONDS = 1 / TICK_RATE;
+
+export class FixedTimestep {
+  private accumulatorMs = 0;
+  private lastTime: number;
+
+  /**
+   * @param now - Current time in milliseconds
+   * @param stepMs - Fixed step duration in milliseconds
+   * @param maxStepsPerAdvance - Cap on ticks per call; backlog beyond it is dropped
+   */
+  constructor(now: number, private readonly stepMs: number = TICK_MS, private readonly maxStepsPerAdvance: number = 10) {
+    this.lastTime = now;
+  }
+
+  /**
+   * Add the time elapsed since the last call and drain whole steps
+   * @param now - Current time in milliseconds
+   * @returns number - Number of fixed steps to simulate
+   */
+  advance(now: number): number {
+    this.accumulatorMs += Math.max(0, now - this.lastTime);
+    this.lastTime = now;
+
+    const steps = Math.floor(this.accumulatorMs / this.stepMs);
+    if (steps > this.maxStepsPerAdvance) {
+      // Too far behind (e.g. event loop stall): skip ahead instead of spiralling
+      this.accumulatorMs = 0;
+      return this.maxStepsPerAdvance;
+    }
+
+    this.accumulatorMs -= steps * this.stepMs;
+    return steps;
+  }
+
+  /**
+   * Restart timing from `now`, discarding accumulated time (e.g. after a pause)
+   */
+  reset(now: number): void {
+    this.accumulatorMs = 0;
+    this.lastTime = now;
+  }
+}
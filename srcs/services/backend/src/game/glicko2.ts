@@ -0,0 +1,161 @@
+/**
+ * Glicko-2 Skill Rating
+ *
+ * Each player has a rating, a rating deviation (how uncertain the rating is)
+ * and a volatility (how erratic their results are). Every rated match updates
+ * both players as a one-game rating period, following Glickman's
+ * "Example of the Glicko-2 system". Ratings use the same scale as the
+ * adaptive AI and matchmaking, centred on 1000.
+ */
+
+export interface SkillRating {
+  rating: number;
+  /** Rating deviation: the rating is about ±2 deviations from the true skill */
+  deviation: number;
+  volatility: number;
+}
+
+/** Score of a game from one player's point of view: 1 win, 0.5 draw, 0 loss */
+export type GameScore = 0 | 0.5 | 1;
+
+/** Rating of a new player */
+export const INITIAL_RATING: SkillRating = { rating: 1000, deviation: 350, volatility: 0.06 };
+
+/** Ratings with a deviation above this are provisional: too few games to be trusted */
+export const PROVISIONAL_DEVIATION = 110;
+
+/** Lowest deviation reachable, so ratings keep moving after many games */
+export const MIN_DEVIATION = 30;
+
+/** Share of a player's distance from the initial rating they keep into a new season */
+export const SEASON_CARRY_OVER = 0.5;
+
+/** Deviation of a rating at the start of a season, at least */
+export const SEASON_START_DEVIATION = 200;
+
+/** System constant: how much the volatility may change per rating period */
+const TAU = 0.5;
+
+/** Converts between the rating scale and the Glicko-2 scale */
+const GLICKO2_SCALE = 173.7178;
+
+/** Convergence tolerance of the volatility iteration */
+const EPSILON = 0.000001;
+
+export function isProvisional(rating: Pick<SkillRating, 'deviation'>): boolean {
+  return rating.deviation > PROVISIONAL_DEVIATION;
+}
+
+/**
+ * Rating a player starts a season with: pulled halfway back to the initial
+ * rating and uncertain again, so the season standings are played out anew
+ */
+export function getSeasonStartRating(rating: SkillRating): SkillRating {
+  return {
+    rating: INITIAL_RATING.rating + (rating.rating - INITIAL_RATING.rating) * SEASON_CARRY_OVER,
+    deviation: Math.min(INITIAL_RATING.deviation, Math.max(rating.deviation, SEASON_START_DEVIATION)),
+    volatility: rating.volatility
+  };
+}
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + 3 * phi * phi / (Math.PI * Math.PI));
+}
+
+function expectation(mu: number, opponentMu: number, opponentPhi: number): number {
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+}
+
+/**
+ * Chance of `player` beating `opponent`, given both ratings
+ */
+export function getExpectedScore(player: SkillRating, opponent: SkillRating): number {
+  return expectation(
+    (player.rating - INITIAL_RATING.rating) / GLICKO2_SCALE,
+    (opponent.rating - INITIAL_RATING.rating) / GLICKO2_SCALE,
+    opponent.deviation / GLICKO2_SCALE
+  );
+}
+
+/**
+ * New volatility (step 5 of the algorithm, Illinois method)
+ */
+function getNewVolatility(sigma: number, phi: number, variance: number, delta: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + variance + ex;
+    return ex * (delta * delta - d) / (2 * d * d) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + variance) {
+    B = Math.log(delta * delta - phi * phi - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > EPSILON) {
+    const C = A + (A - B) * fA / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  return Math.exp(A / 2);
+}
+
+/**
+ * Rating of a player after a rating period with the given games
+ * (no games: only the deviation grows)
+ */
+export function updateRating(player: SkillRating, games: Array<{ opponent: SkillRating; score: GameScore }>): SkillRating {
+  const mu = (player.rating - INITIAL_RATING.rating) / GLICKO2_SCALE;
+  const phi = player.deviation / GLICKO2_SCALE;
+
+  if (games.length === 0) {
+    const deviation = Math.sqrt(phi * phi + player.volatility * player.volatility) * GLICKO2_SCALE;
+    return { ...player, deviation: Math.min(INITIAL_RATING.deviation, deviation) };
+  }
+
+  const opponents = games.map(({ opponent, score }) => {
+    const opponentMu = (opponent.rating - INITIAL_RATING.rating) / GLICKO2_SCALE;
+    const opponentPhi = opponent.deviation / GLICKO2_SCALE;
+    return { weight: g(opponentPhi), expected: expectation(mu, opponentMu, opponentPhi), score };
+  });
+
+  const variance = 1 / opponents.reduce((sum, { weight, expected }) => sum + weight * weight * expected * (1 - expected), 0);
+  const improvement = opponents.reduce((sum, { weight, expected, score }) => sum + weight * (score - expected), 0);
+
+  const volatility = getNewVolatility(player.volatility, phi, variance, variance * improvement);
+  const prePeriodPhi = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (prePeriodPhi * prePeriodPhi) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * improvement;
+
+  return {
+    rating: newMu * GLICKO2_SCALE + INITIAL_RATING.rating,
+    deviation: Math.max(MIN_DEVIATION, newPhi * GLICKO2_SCALE),
+    volatility
+  };
+}
+
+/**
+ * Ratings of two players after a game between them
+ * @param firstScore - Score of the first player (the second scores the rest)
+ */
+export function rateGame(first: SkillRating, second: SkillRating, firstScore: GameScore): [SkillRating, SkillRating] {
+  return [
+    updateRating(first, [{ opponent: second, score: firstScore }]),
+    updateRating(second, [{ opponent: first, score: (1 - firstScore) as GameScore }])
+  ];
+}
@@ -0,0 +1,103 @@
+/**
+ * Paddle Input Guard
+ *
+ * Checks the input intents players send to server-run rooms: only the
+ * directions -1, 0 and 1 are accepted, each player gets a budget of inputs
+ * per physics tick, and every violation is counted per user so cheating
+ * clients can be identified.
+ */
+
+import { PaddleDirection } from './pongPhysics';
+
+/** Inputs a player may send per physics tick on average */
+export const INPUTS_PER_TICK = 1;
+
+/** Inputs a player may send at once before the per-tick budget applies */
+export const INPUT_BURST = 6;
+
+/**
+ * - invalid_input: the direction or sequence number is malformed
+ * - rate_limited: more inputs than the per-tick budget allows
+ * - impersonation: the payload names another player than the socket's own
+ * - client_state: a client tried to write the game state of a server-run room
+ * - client_result: a client tried to end a server-run match with its own result
+ * - match_reset: a player tried to reset a match in progress, wiping its score
+ * - match_pause: a player tried to pause a match that is not running, such as a finished one
+ */
+export type InputViolation = 'invalid_input' | 'rate_limited' | 'impersonation' | 'client_state' | 'client_result' | 'match_reset' | 'match_pause';
+
+/**
+ * Direction of an input intent
+ * @returns null unless the value is exactly -1, 0 or 1
+ */
+export function parseInputIntent(direction: unknown): PaddleDirection | null {
+  return direction === -1 || direction === 0 || direction === 1 ? direction : null;
+}
+
+/**
+ * Whether an input sequence number is usable for acknowledgements
+ * (absent, or a non-negative integer)
+ */
+export function isValidInputSequence(sequence: unknown): boolean {
+  return sequence === undefined || (Number.isSafeInteger(sequence) && (sequence as number) >= 0);
+}
+
+interface InputBudget {
+  tokens: number;
+  tick: number;
+}
+
+export class InputGuard {
+  private budgets: Map<string, InputBudget> = new Map();
+  private violations: Map<string, Partial<Record<InputViolation, number>>> = new Map();
+
+  /**
+   * @param inputsPerTick - Inputs regained per physics tick
+   * @param burst - Most inputs a player can have in hand
+   */
+  constructor(private readonly inputsPerTick: number = INPUTS_PER_TICK, private readonly burst: number = INPUT_BURST) {}
+
+  /**
+   * Spend one input of a player's budget
+   * @param userId - Player sending the input
+   * @param tick - Current physics tick of the player's room
+   * @returns false if the player is over budget and the input must be dropped
+   */
+  allowInput(userId: string, tick: number): boolean {
+    const budget = this.budgets.get(userId) ?? { tokens: this.burst, tick };
+    // The tick goes back to 0 when a room is reset; no budget is regained then
+    budget.tokens = Math.min(this.burst, budget.tokens + Math.max(0, tick - budget.tick) * this.inputsPerTick);
+    budget.tick = tick;
+    this.budgets.set(userId, budget);
+
+    if (budget.tokens < 1) return false;
+    budget.tokens--;
+    return true;
+  }
+
+  /**
+   * Count a violation against a user
+   * @returns number - How many violations of this kind the user has now
+   */
+  recordViolation(userId: string, violation: InputViolation): number {
+    const counts = this.violations.get(userId) ?? {};
+    counts[violation] = (counts[violation] ?? 0) + 1;
+    this.violations.set(userId, counts);
+    return counts[violation]!;
+  }
+
+  /**
+   * Violations counted against a user, by kind
+   */
+  getViolations(userId: string): Partial<Record<InputViolation, number>> {
+    return { ...this.violations.get(userId) };
+  }
+
+  /**
+   * Drop a player's input budget, e.g. once they left their room
+   * (their violations are kept)
+   */
+  release(userId: string): void {
+    this.budgets.delete(userId);
+  }
+}
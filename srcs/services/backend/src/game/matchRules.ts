@@ -0,0 +1,160 @@
+/**
+ * Match Rules
+ *
+ * Per-room rules agreed before a match starts. They are supplied on
+ * `join_game_room` or through a tournament's `settings.matchRules`, validated
+ * here, stored on the server's GameRoom and turned into a physics config.
+ */
+
+import { GameSpeed, PongConfig, SERVE_RULES, ServeRule, createPongConfig, getSpeedValues } from './pongPhysics';
+import { POWER_UP_KINDS, PowerUpKind } from './powerUps';
+import { FfaConfig, createFfaConfig } from './ffaPhysics';
+import { ARENA_MAP_IDS, DEFAULT_ARENA_MAP_ID } from './arenaMaps';
+
+export interface MatchRules {
+  /** Points needed to win the match */
+  maxScore: number;
+  /** Ball diameter in pixels */
+  ballSize: number;
+  /** Paddle height in pixels */
+  paddleHeight: number;
+  /** Ball speed in pixels per reference frame */
+  ballSpeed: number;
+  /** Paddle speed in pixels per reference frame */
+  paddleSpeed: number;
+  /** Power-ups that may spawn during the match (empty: none) */
+  powerUps: PowerUpKind[];
+  /** Id of the built-in arena map the match is played on */
+  map: string;
+  /** Who the ball is served towards after a point */
+  serveRule: ServeRule;
+  /** Seconds counted down before each serve (0: no countdown) */
+  serveCountdown: number;
+}
+
+type NumericMatchRule = Exclude<keyof MatchRules, 'powerUps' | 'map' | 'serveRule'>;
+
+export interface MatchRulesValidation {
+  valid: boolean;
+  rules: MatchRules;
+  errors: string[];
+}
+
+/**
+ * Accepted range for each numeric rule (inclusive); `integer` rules reject fractions
+ */
+export const MATCH_RULE_LIMITS: Record<NumericMatchRule, { min: number; max: number; integer: boolean }> = {
+  maxScore: { min: 1, max: 21, integer: true },
+  ballSize: { min: 3, max: 30, integer: true },
+  paddleHeight: { min: 40, max: 160, integer: true },
+  ballSpeed: { min: 1, max: 12, integer: false },
+  paddleSpeed: { min: 1, max: 15, integer: false },
+  serveCountdown: { min: 0, max: 5, integer: true }
+};
+
+/**
+ * Default rules for a game speed setting (matches the classic 10-point game)
+ */
+export function getDefaultMatchRules(gameSpeed: GameSpeed = 'normal'): MatchRules {
+  return {
+    maxScore: 10,
+    ballSize: 10,
+    paddleHeight: 80,
+    ...getSpeedValues(gameSpeed),
+    powerUps: [],
+    map: DEFAULT_ARENA_MAP_ID,
+    serveRule: 'alternate',
+    serveCountdown: 3
+  };
+}
+
+/**
+ * Validate (possibly partial) rules supplied by a client or tournament settings.
+ * Missing rules are taken from `defaults`; unknown keys are rejected.
+ */
+export function validateMatchRules(input: unknown, defaults: MatchRules = getDefaultMatchRules()): MatchRulesValidation {
+  const rules: MatchRules = { ...defaults, powerUps: [...defaults.powerUps] };
+  const errors: string[] = [];
+
+  if (input === undefined || input === null) {
+    return { valid: true, rules, errors };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, rules, errors: ['Match rules must be an object'] };
+  }
+
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (key === 'powerUps') {
+      const invalid = Array.isArray(value) ? value.filter(kind => !POWER_UP_KINDS.includes(kind)) : null;
+      if (!invalid) {
+        errors.push('powerUps must be an array');
+      } else if (invalid.length > 0) {
+        errors.push(`Unknown power-ups: ${invalid.join(', ')}`);
+      } else {
+        rules.powerUps = Array.from(new Set(value as PowerUpKind[]));
+      }
+      continue;
+    }
+    if (key === 'map') {
+      if (typeof value === 'string' && ARENA_MAP_IDS.includes(value)) {
+        rules.map = value;
+      } else {
+        errors.push(`Unknown map: ${String(value)}`);
+      }
+      continue;
+    }
+    if (key === 'serveRule') {
+      if (SERVE_RULES.includes(value as ServeRule)) {
+        rules.serveRule = value as ServeRule;
+      } else {
+        errors.push(`Unknown serve rule: ${String(value)}`);
+      }
+      continue;
+    }
+    if (!(key in MATCH_RULE_LIMITS)) {
+      errors.push(`Unknown match rule: ${key}`);
+      continue;
+    }
+
+    const limits = MATCH_RULE_LIMITS[key as NumericMatchRule];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${key} must be a number`);
+    } else if (limits.integer && !Number.isInteger(value)) {
+      errors.push(`${key} must be an integer`);
+    } else if (value < limits.min || value > limits.max) {
+      errors.push(`${key} must be between ${limits.min} and ${limits.max}`);
+    } else {
+      rules[key as NumericMatchRule] = value;
+    }
+  }
+
+  return { valid: errors.length === 0, rules, errors };
+}
+
+/**
+ * Physics config that applies the given rules
+ */
+export function matchRulesToConfig(rules: MatchRules): PongConfig {
+  return createPongConfig('normal', {
+    winningScore: rules.maxScore,
+    ballSize: rules.ballSize,
+    paddleHeight: rules.paddleHeight,
+    ballSpeed: rules.ballSpeed,
+    paddleSpeed: rules.paddleSpeed,
+    serveRule: rules.serveRule,
+    serveDelay: rules.serveCountdown
+  });
+}
+
+/**
+ * Free-for-all config that applies the given rules (power-ups, maps and the
+ * score limit do not apply: players have lives instead)
+ */
+export function matchRulesToFfaConfig(rules: MatchRules): FfaConfig {
+  return createFfaConfig('normal', {
+    ballSize: rules.ballSize,
+    paddleHeight: rules.paddleHeight,
+    ballSpeed: rules.ballSpeed,
+    paddleSpeed: rules.paddleSpeed
+  });
+}
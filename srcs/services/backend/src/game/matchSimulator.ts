@@ -0,0 +1,266 @@
+/**
+ * Headless Match Simulator
+ *
+ * Plays classic matches without a server, socket or browser by stepping the
+ * shared physics core at the server's tick rate, so the AI difficulties can
+ * be measured against each other or against a scripted perfect player.
+ * Results are fully determined by the seed.
+ */
+
+import {
+  PaddleDirection,
+  PaddleSide,
+  PongConfig,
+  PongState,
+  createInitialState,
+  getPaddleFaceX,
+  getPaddleHeight
+} from './pongPhysics';
+import { PowerUpGameState, stepWithPowerUps } from './powerUps';
+import { MatchRules, getDefaultMatchRules, matchRulesToConfig } from './matchRules';
+import { getArenaMap } from './arenaMaps';
+import {
+  AIDifficulty,
+  AIPaddleController,
+  AIPlayerOptions,
+  AI_DIFFICULTIES,
+  formatAIProfile,
+  isAIDifficulty,
+  predictBallY
+} from './aiPlayer';
+import { RandomSource, createSeededRandom } from './random';
+import { TICK_MS, TICK_RATE, TICK_SECONDS } from './fixedTimestep';
+
+/** An AI difficulty, or a scripted player that sees the game on every tick */
+export type SimulatedPlayer = AIDifficulty | 'perfect';
+
+export const SIMULATED_PLAYERS: readonly SimulatedPlayer[] = [...AI_DIFFICULTIES, 'perfect'];
+
+/** Game time after which a match that has not been won is given up */
+export const DEFAULT_MAX_MATCH_SECONDS = 600;
+
+export interface SimulationOptions {
+  left: SimulatedPlayer;
+  right: SimulatedPlayer;
+  /** Personality and adaptive mode of an AI player (default: balanced, fixed difficulty) */
+  leftAI?: AIPlayerOptions;
+  rightAI?: AIPlayerOptions;
+  seed: number;
+  /** Rules of the match (default: the default match rules) */
+  rules?: MatchRules;
+  /** Game time after which the match is given up (default: 10 minutes) */
+  maxSeconds?: number;
+}
+
+export interface SimulatedMatch {
+  /** null if nobody had won after `maxSeconds` */
+  winner: PaddleSide | null;
+  leftScore: number;
+  rightScore: number;
+  ticks: number;
+  /** Paddle returns in each finished point, in order */
+  rallies: number[];
+}
+
+export interface BenchmarkOptions extends Omit<SimulationOptions, 'seed'> {
+  matches: number;
+  /** Seed of the first match; the others are derived from it (default: 1) */
+  seed?: number;
+}
+
+export interface BenchmarkReport {
+  /** Player and, for an AI, its profile (e.g. "hard/aggressive") */
+  left: string;
+  right: string;
+  matches: number;
+  wins: { left: number; right: number; unfinished: number };
+  winRate: { left: number; right: number };
+  /** Average paddle returns per point */
+  averageRallyLength: number;
+  longestRally: number;
+  averageMatchSeconds: number;
+  /** Final scores ("left-right") and how many matches ended on each */
+  scoreDistribution: Record<string, number>;
+}
+
+interface PaddleController {
+  update(state: PongState, now: number): PaddleDirection;
+}
+
+/**
+ * Scripted player that reads the state on every tick and heads straight for
+ * where the ball will arrive; only paddle speed and obstacles can beat it
+ */
+export class PerfectPaddleController implements PaddleController {
+  constructor(readonly side: PaddleSide, private readonly config: PongConfig) {}
+
+  update(state: PongState, _now: number): PaddleDirection {
+    const paddle = this.side === 'left' ? state.leftPaddle : state.rightPaddle;
+    const height = getPaddleHeight(paddle, this.config);
+    const impactY = predictBallY(state.ball, getPaddleFaceX(this.side, this.config), this.config);
+    const targetY = (impactY ?? this.config.height / 2) - height / 2;
+
+    if (Math.abs(targetY - paddle.y) <= this.config.paddleSpeed) return 0;
+    return targetY > paddle.y ? 1 : -1;
+  }
+}
+
+export function isSimulatedPlayer(value: unknown): value is SimulatedPlayer {
+  return value === 'perfect' || isAIDifficulty(value);
+}
+
+function createController(
+  player: SimulatedPlayer,
+  side: PaddleSide,
+  config: PongConfig,
+  rng: RandomSource,
+  options?: AIPlayerOptions
+): PaddleController {
+  return player === 'perfect'
+    ? new PerfectPaddleController(side, config)
+    : new AIPaddleController(side, player, config, rng, options);
+}
+
+/**
+ * Name of a player in reports
+ */
+function describePlayer(player: SimulatedPlayer, options: AIPlayerOptions = {}): string {
+  if (player === 'perfect') return player;
+  return formatAIProfile({
+    difficulty: player,
+    personality: options.personality ?? 'balanced',
+    adaptive: options.adaptive ?? false
+  });
+}
+
+/**
+ * Derive an independent 32-bit seed from a random source
+ */
+function nextSeed(rng: RandomSource): number {
+  return Math.floor(rng() * 0x100000000);
+}
+
+/**
+ * Side whose paddle sent the ball back between two states, if any
+ */
+function getReturningSide(before: PongState, after: PongState, config: PongConfig): PaddleSide | null {
+  const { dx: beforeDx } = before.ball;
+  const { dx: afterDx, x } = after.ball;
+  // Blocks of an arena map also turn the ball around, but not in front of a paddle
+  if (beforeDx < 0 && afterDx > 0 && x < config.width / 4) return 'left';
+  if (beforeDx > 0 && afterDx < 0 && x > (3 * config.width) / 4) return 'right';
+  return null;
+}
+
+/**
+ * Play one match to the end (or to `maxSeconds` of game time)
+ */
+export function simulateMatch(options: SimulationOptions): SimulatedMatch {
+  const rules = options.rules ?? getDefaultMatchRules();
+  const config = matchRulesToConfig(rules);
+  const stepOptions = { config, enabled: rules.powerUps, arena: getArenaMap(rules.map) };
+  const maxTicks = Math.ceil((options.maxSeconds ?? DEFAULT_MAX_MATCH_SECONDS) * TICK_RATE);
+
+  const seeds = createSeededRandom(options.seed);
+  const physicsRng = createSeededRandom(nextSeed(seeds));
+  const left = createController(options.left, 'left', config, createSeededRandom(nextSeed(seeds)), options.leftAI);
+  const right = createController(options.right, 'right', config, createSeededRandom(nextSeed(seeds)), options.rightAI);
+
+  let state: PowerUpGameState = createInitialState(config);
+  const rallies: number[] = [];
+  let returns = 0;
+  let tick = 0;
+
+  for (; tick < maxTicks && !state.winner; tick++) {
+    const now = tick * TICK_MS;
+    const inputs = { left: left.update(state, now), right: right.update(state, now) };
+    const next = stepWithPowerUps(state, inputs, TICK_SECONDS, { ...stepOptions, rng: physicsRng });
+
+    if (next.leftScore + next.rightScore > state.leftScore + state.rightScore) {
+      rallies.push(returns);
+      returns = 0;
+    } else if (getReturningSide(state, next, config)) {
+      returns++;
+    }
+    state = next;
+  }
+
+  return {
+    winner: state.winner ?? null,
+    leftScore: state.leftScore,
+    rightScore: state.rightScore,
+    ticks: tick,
+    rallies
+  };
+}
+
+/**
+ * Play `matches` seeded matches between the same two players and aggregate
+ * the results
+ */
+export function runBenchmark(options: BenchmarkOptions): BenchmarkReport {
+  const { matches, seed = 1, ...simulation } = options;
+  const seeds = createSeededRandom(seed);
+  const wins = { left: 0, right: 0, unfinished: 0 };
+  const scoreDistribution: Record<string, number> = {};
+  let points = 0;
+  let returns = 0;
+  let longestRally = 0;
+  let ticks = 0;
+
+  for (let i = 0; i < matches; i++) {
+    const match = simulateMatch({ ...simulation, seed: nextSeed(seeds) });
+
+    if (match.winner) wins[match.winner]++;
+    else wins.unfinished++;
+
+    const score = `${match.leftScore}-${match.rightScore}`;
+    scoreDistribution[score] = (scoreDistribution[score] ?? 0) + 1;
+
+    for (const rally of match.rallies) {
+      points++;
+      returns += rally;
+      longestRally = Math.max(longestRally, rally);
+    }
+    ticks += match.ticks;
+  }
+
+  return {
+    left: describePlayer(options.left, options.leftAI),
+    right: describePlayer(options.right, options.rightAI),
+    matches,
+    wins,
+    winRate: {
+      left: matches > 0 ? wins.left / matches : 0,
+      right: matches > 0 ? wins.right / matches : 0
+    },
+    averageRallyLength: points > 0 ? returns / points : 0,
+    longestRally,
+    averageMatchSeconds: matches > 0 ? ticks / TICK_RATE / matches : 0,
+    scoreDistribution
+  };
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+/**
+ * Human-readable summary of a benchmark, most frequent scores first
+ */
+export function formatBenchmarkReport(report: BenchmarkReport): string {
+  const scores = Object.entries(report.scoreDistribution)
+    .sort(([scoreA, countA], [scoreB, countB]) => countB - countA || scoreA.localeCompare(scoreB))
+    .map(([score, count]) => `    ${score.padEnd(7)} ${String(count).padStart(6)}  ${formatPercent(count / report.matches)}`);
+
+  return [
+    `${report.left} (left) vs ${report.right} (right), ${report.matches} matches`,
+    `  Wins:          ${report.wins.left} - ${report.wins.right}` +
+      (report.wins.unfinished > 0 ? ` (${report.wins.unfinished} unfinished)` : ''),
+    `  Win rate:      ${formatPercent(report.winRate.left)} - ${formatPercent(report.winRate.right)}`,
+    `  Rally length:  ${report.averageRallyLength.toFixed(2)} returns on average, ${report.longestRally} at most`,
+    `  Match length:  ${report.averageMatchSeconds.toFixed(1)}s of play on average`,
+    '  Final scores:',
+    ...scores
+  ].join('\n');
+}
@@ -0,0 +1,144 @@
+/**
+ * Match Telemetry
+ *
+ * Metrics the server loop collects while it steps a classic match: paddle
+ * hits of each player, the longest rally, ball speeds, points won straight
+ * from the serve and how long each player was ahead. They are stored with the
+ * match history of each player, from that player's side.
+ */
+
+import { PaddleSide, PongState, REFERENCE_FPS, getLongestRally } from './pongPhysics';
+
+export interface SideTelemetry {
+  hits: number;
+  /** Points won without the opponent returning the serve */
+  pointsFromServe: number;
+  /** Seconds with the higher score */
+  timeLeading: number;
+}
+
+/**
+ * Running totals of a match, as kept in room snapshots
+ */
+export interface TelemetryTotals {
+  left: SideTelemetry;
+  right: SideTelemetry;
+  /** Sum and count of the ball speeds sampled while the ball was in play */
+  ballSpeedSum: number;
+  ballSpeedSamples: number;
+  maxBallSpeed: number;
+}
+
+/**
+ * Metrics of a match from one player's side; ball speeds are in pixels per second
+ */
+export interface PlayerTelemetry {
+  hits: number;
+  opponentHits: number;
+  longestRally: number;
+  averageBallSpeed: number;
+  maxBallSpeed: number;
+  pointsFromServe: number;
+  opponentPointsFromServe: number;
+  timeLeading: number;
+  opponentTimeLeading: number;
+}
+
+/**
+ * Metrics of a finished match, from each player's side
+ */
+export type MatchTelemetry = Record<PaddleSide, PlayerTelemetry>;
+
+function createSideTelemetry(): SideTelemetry {
+  return { hits: 0, pointsFromServe: 0, timeLeading: 0 };
+}
+
+function round(value: number, decimals: number = 1): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export class TelemetryRecorder {
+  private readonly totals: TelemetryTotals;
+  /** Paddle hits during the step being recorded */
+  private stepHits = 0;
+
+  constructor(totals?: TelemetryTotals) {
+    this.totals = totals
+      ? { ...totals, left: { ...totals.left }, right: { ...totals.right } }
+      : { left: createSideTelemetry(), right: createSideTelemetry(), ballSpeedSum: 0, ballSpeedSamples: 0, maxBallSpeed: 0 };
+  }
+
+  /**
+   * Paddle hit callback for the physics step options
+   */
+  readonly recordHit = (side: PaddleSide): void => {
+    this.totals[side].hits++;
+    this.stepHits++;
+  };
+
+  /**
+   * Record a physics step of `dt` seconds from `previous` to `next`
+   */
+  recordStep(previous: PongState, next: PongState, dt: number): void {
+    const hits = this.stepHits;
+    this.stepHits = 0;
+
+    if (previous.leftScore > previous.rightScore) {
+      this.totals.left.timeLeading += dt;
+    } else if (previous.rightScore > previous.leftScore) {
+      this.totals.right.timeLeading += dt;
+    }
+
+    const scorer: PaddleSide | null = next.leftScore > previous.leftScore ? 'left'
+      : next.rightScore > previous.rightScore ? 'right'
+      : null;
+    if (scorer) {
+      // Nobody touched the ball since it was served
+      if (!previous.rallyHits && hits === 0) {
+        this.totals[scorer].pointsFromServe++;
+      }
+      return;
+    }
+
+    if (previous.serveCountdown) return;
+    const speed = Math.hypot(next.ball.dx, next.ball.dy) * REFERENCE_FPS;
+    this.totals.ballSpeedSum += speed;
+    this.totals.ballSpeedSamples++;
+    this.totals.maxBallSpeed = Math.max(this.totals.maxBallSpeed, speed);
+  }
+
+  /**
+   * Totals so far, to resume recording after a restart
+   */
+  getTotals(): TelemetryTotals {
+    return { ...this.totals, left: { ...this.totals.left }, right: { ...this.totals.right } };
+  }
+
+  /**
+   * Metrics of the match that ended in `finalState`
+   */
+  finish(finalState: PongState): MatchTelemetry {
+    return {
+      left: this.getPlayerTelemetry(finalState, 'left'),
+      right: this.getPlayerTelemetry(finalState, 'right')
+    };
+  }
+
+  private getPlayerTelemetry(finalState: PongState, side: PaddleSide): PlayerTelemetry {
+    const own = this.totals[side];
+    const opponent = this.totals[side === 'left' ? 'right' : 'left'];
+    const { ballSpeedSum, ballSpeedSamples } = this.totals;
+    return {
+      hits: own.hits,
+      opponentHits: opponent.hits,
+      longestRally: getLongestRally(finalState),
+      averageBallSpeed: round(ballSpeedSamples > 0 ? ballSpeedSum / ballSpeedSamples : 0),
+      maxBallSpeed: round(this.totals.maxBallSpeed),
+      pointsFromServe: own.pointsFromServe,
+      opponentPointsFromServe: opponent.pointsFromServe,
+      timeLeading: round(own.timeLeading),
+      opponentTimeLeading: round(opponent.timeLeading)
+    };
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Client-side Paddle Prediction
+ *
+ * Predicts the local player's paddle from its own inputs and reconciles that
+ * prediction with authoritative server snapshots. The server acknowledges the
+ * last input sequence it processed together with the tick it was first applied
+ * on, which lets the client line the snapshot up with its own input timeline
+ * and replay only the inputs the server has not seen yet.
+ */
+
+import { PongConfig, advancePaddle, normalizeDirection } from './pongPhysics';
+import { TICK_MS } from './fixedTimestep';
+
+/**
+ * Server acknowledgement of the last processed input for one paddle
+ */
+export interface InputAck {
+  /** Sequence number of the input */
+  sequence: number;
+  /** First server tick the input was applied on */
+  tick: number;
+}
+
+interface RecordedInput {
+  sequence: number;
+  direction: number;
+  /** Client time (ms) the direction took effect locally */
+  time: number;
+}
+
+export class PaddlePredictor {
+  /** Inputs sent after the last acknowledged one */
+  private inputs: RecordedInput[] = [];
+  /** Last input acknowledged by the server */
+  private acked: RecordedInput | null = null;
+  /** Direction held at `anchorTime` */
+  private baseDirection = 0;
+  /** Known position at `anchorTime` on the client input timeline */
+  private anchorY: number;
+  private anchorTime: number;
+
+  /**
+   * @param config - Physics config of the match
+   * @param initialY - Current paddle position
+   * @param now - Current client time in milliseconds
+   */
+  constructor(private readonly config: PongConfig, initialY: number, now: number) {
+    this.anchorY = initialY;
+    this.anchorTime = now;
+  }
+
+  /**
+   * Record a locally applied input that was sent to the server
+   */
+  applyInput(sequence: number, direction: number, now: number): void {
+    this.inputs.push({ sequence, direction: normalizeDirection(direction), time: now });
+  }
+
+  /**
+   * Number of inputs not yet acknowledged by the server
+   */
+  getPendingCount(): number {
+    return this.inputs.length;
+  }
+
+  /**
+   * Re-base the prediction on an authoritative snapshot
+   * @param serverY - Paddle position in the snapshot
+   * @param serverTick - Tick number of the snapshot
+   * @param ack - Last input acknowledged for this paddle, if any
+   * @param now - Current client time in milliseconds
+   */
+  reconcile(serverY: number, serverTick: number, ack: InputAck | undefined, now: number): void {
+    if (ack) {
+      const ackIndex = this.inputs.findIndex(input => input.sequence === ack.sequence);
+      if (ackIndex >= 0) {
+        this.acked = this.inputs[ackIndex];
+        this.inputs = this.inputs.slice(ackIndex + 1);
+      }
+    }
+
+    const nextInputTime = this.inputs.length > 0 ? this.inputs[0].time : now;
+
+    if (ack && this.acked && this.acked.sequence === ack.sequence) {
+      // Server held the acked input for (serverTick - ack.tick + 1) ticks; map
+      // that onto the client timeline, bounded by when the next input started
+      const heldMs = Math.max(0, serverTick - ack.tick + 1) * TICK_MS;
+      this.anchorTime = Math.min(this.acked.time + heldMs, nextInputTime);
+      this.baseDirection = this.acked.direction;
+    } else if (!ack) {
+      // The server has not processed any input yet: the paddle was idle until
+      // the first recorded input took effect
+      this.anchorTime = nextInputTime;
+      this.baseDirection = 0;
+    } else {
+      // Acknowledgement does not match our history (e.g. after a reconnect)
+      this.inputs = [];
+      this.acked = null;
+      this.anchorTime = now;
+      this.baseDirection = 0;
+    }
+
+    this.anchorTime = Math.min(this.anchorTime, now);
+    this.anchorY = serverY;
+  }
+
+  /**
+   * Predicted paddle position at `now`
+   */
+  predict(now: number): number {
+    let y = this.anchorY;
+    let time = this.anchorTime;
+    let direction = this.baseDirection;
+
+    for (const input of this.inputs) {
+      const start = Math.min(input.time, now);
+      if (start > time) {
+        y = advancePaddle(y, direction, (start - time) / 1000, this.config);
+        time = start;
+      }
+      direction = input.direction;
+    }
+
+    if (now > time) {
+      y = advancePaddle(y, direction, (now - time) / 1000, this.config);
+    }
+    return y;
+  }
+}
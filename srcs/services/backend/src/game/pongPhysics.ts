@@ -0,0 +1,555 @@
+/**
+ * Pong Physics Core
+ *
+ * Deterministic, framework-free Pong simulation shared by the authoritative
+ * Socket.IO game loop and the Svelte engine (imported there via the @game alias).
+ *
+ * Velocities are expressed in pixels per reference frame (1/60 s) and `dt` in
+ * seconds, so the same sequence of inputs, time steps and random values always
+ * produces the same rallies and the same score on both sides.
+ */
+
+import { RandomSource } from './random';
+import { ArenaMap, Point, PortalObstacle, Rect, getArenaLayout, hasObstacles } from './arenaMaps';
+
+export type PaddleSide = 'left' | 'right';
+export type GameSpeed = 'slow' | 'normal' | 'fast';
+export type PaddleDirection = -1 | 0 | 1;
+
+/**
+ * Who the ball is served towards after a point: a random side, the sides in
+ * turn, or the player who conceded
+ */
+export type ServeRule = 'random' | 'alternate' | 'conceder';
+
+export const SERVE_RULES: readonly ServeRule[] = ['random', 'alternate', 'conceder'];
+
+/**
+ * Field, paddle and ball dimensions plus speeds for one match
+ */
+export interface PongConfig {
+  width: number;
+  height: number;
+  paddleWidth: number;
+  paddleHeight: number;
+  /** Gap between the field edge and the back of each paddle */
+  paddleOffset: number;
+  ballSize: number;
+  /** Ball speed in pixels per reference frame */
+  ballSpeed: number;
+  /** Paddle speed in pixels per reference frame */
+  paddleSpeed: number;
+  winningScore: number;
+  serveRule: ServeRule;
+  /** Seconds the ball is held at the center before each serve (0: served at once) */
+  serveDelay: number;
+}
+
+export interface BallState {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+}
+
+export interface PaddleState {
+  y: number;
+  /** Current height when a modifier changed it from config.paddleHeight */
+  height?: number;
+}
+
+/**
+ * Serializable game state (this is the `gameData` broadcast to clients)
+ */
+export interface PongState {
+  leftPaddle: PaddleState;
+  rightPaddle: PaddleState;
+  ball: BallState;
+  /** Additional balls in play (multi-ball); they score but are not served again */
+  extraBalls?: BallState[];
+  leftScore: number;
+  rightScore: number;
+  winner?: PaddleSide;
+  /** Seconds of play on a map with obstacles (positions the moving bumpers) */
+  time?: number;
+  /** Seconds left in the serve countdown; the ball stays put until it runs out */
+  serveCountdown?: number;
+  /** Side the last serve went towards, for alternating serves (kickoff: right) */
+  servedTo?: PaddleSide;
+  /** Paddle hits of the main ball since it was served */
+  rallyHits?: number;
+  /** Most paddle hits in a rally that ended with a point */
+  longestRally?: number;
+}
+
+/**
+ * Currently held paddle directions (-1 up, 0 idle, 1 down)
+ */
+export interface PaddleInputs {
+  left: PaddleDirection;
+  right: PaddleDirection;
+}
+
+export interface StepOptions {
+  config?: PongConfig;
+  rng?: RandomSource;
+  /** Multiplier for ball movement during this step (1 = normal speed) */
+  ballTimeScale?: number;
+  /** Arena map whose obstacles the ball collides with (none: empty field) */
+  arena?: ArenaMap;
+  /** Called for every ball bouncing off a paddle during the step */
+  onPaddleHit?: (side: PaddleSide) => void;
+}
+
+/** Frame rate the per-frame speeds are expressed against */
+export const REFERENCE_FPS = 60;
+
+/** Vertical speed of the very first serve, relative to ballSpeed */
+const KICKOFF_VERTICAL_FACTOR = 0.6;
+/** Random vertical spread of a serve after a point, relative to ballSpeed */
+const SERVE_VERTICAL_SPREAD = 1.2;
+/** Largest bounce angle from horizontal, reached at the paddle ends */
+export const MAX_BOUNCE_ANGLE = Math.PI / 3;
+/** Ball speed multiplier applied on every paddle hit during a rally */
+export const RALLY_SPEEDUP = 1.05;
+/** Cap on the rally speed-up, relative to ballSpeed */
+const MAX_BALL_SPEED_FACTOR = 2;
+/** Collisions resolved within a single step before the rest of the motion is dropped */
+const MAX_COLLISIONS_PER_STEP = 8;
+/** Tolerance for a ball resting exactly on a collision surface */
+const COLLISION_EPSILON = 1e-6;
+
+/**
+ * Ball and paddle speeds for each game speed setting
+ */
+export function getSpeedValues(gameSpeed: GameSpeed = 'normal'): { ballSpeed: number; paddleSpeed: number } {
+  switch (gameSpeed) {
+    case 'slow':
+      return { ballSpeed: 3, paddleSpeed: 5 };
+    case 'fast':
+      return { ballSpeed: 7, paddleSpeed: 12 };
+    default:
+      return { ballSpeed: 5, paddleSpeed: 8 };
+  }
+}
+
+export const DEFAULT_PONG_CONFIG: PongConfig = {
+  width: 800,
+  height: 400,
+  paddleWidth: 10,
+  paddleHeight: 80,
+  paddleOffset: 10,
+  ballSize: 10,
+  ...getSpeedValues('normal'),
+  winningScore: 10,
+  serveRule: 'random',
+  serveDelay: 0
+};
+
+/**
+ * Build a config for a game speed, optionally overriding individual values
+ */
+export function createPongConfig(gameSpeed: GameSpeed = 'normal', overrides: Partial<PongConfig> = {}): PongConfig {
+  return {
+    ...DEFAULT_PONG_CONFIG,
+    ...getSpeedValues(gameSpeed),
+    ...overrides
+  };
+}
+
+/**
+ * Clamp any numeric input to a valid paddle direction
+ */
+export function normalizeDirection(direction: number): PaddleDirection {
+  if (!Number.isFinite(direction) || direction === 0) return 0;
+  return direction < 0 ? -1 : 1;
+}
+
+/**
+ * X coordinate of the face of a paddle the ball bounces off
+ */
+export function getPaddleFaceX(side: PaddleSide, config: PongConfig = DEFAULT_PONG_CONFIG): number {
+  return side === 'left'
+    ? config.paddleOffset + config.paddleWidth
+    : config.width - config.paddleOffset - config.paddleWidth;
+}
+
+/**
+ * Fresh match state: centered paddles and the ball served towards the right
+ * (after the serve countdown, if the config has one)
+ */
+export function createInitialState(config: PongConfig = DEFAULT_PONG_CONFIG): PongState {
+  const paddleY = (config.height - config.paddleHeight) / 2;
+  return {
+    leftPaddle: { y: paddleY },
+    rightPaddle: { y: paddleY },
+    ball: {
+      x: config.width / 2,
+      y: config.height / 2,
+      dx: config.ballSpeed,
+      dy: config.ballSpeed * KICKOFF_VERTICAL_FACTOR
+    },
+    leftScore: 0,
+    rightScore: 0,
+    ...(config.serveDelay > 0 ? { serveCountdown: config.serveDelay } : {})
+  };
+}
+
+/**
+ * Ball placed at center with a vertical spread, heading towards `towards`
+ * (a random side if not given)
+ */
+export function serveBall(config: PongConfig, rng: RandomSource, towards?: PaddleSide): BallState {
+  // Always draw the side so every serve consumes the same random numbers
+  const randomSide: PaddleSide = rng() > 0.5 ? 'right' : 'left';
+  return {
+    x: config.width / 2,
+    y: config.height / 2,
+    dx: (towards ?? randomSide) === 'right' ? config.ballSpeed : -config.ballSpeed,
+    dy: (rng() - 0.5) * config.ballSpeed * SERVE_VERTICAL_SPREAD
+  };
+}
+
+/**
+ * Side the next serve goes towards after `scorer` won a point (undefined: random)
+ */
+export function getServeTarget(state: PongState, scorer: PaddleSide, rule: ServeRule): PaddleSide | undefined {
+  switch (rule) {
+    case 'alternate':
+      return state.servedTo === 'left' ? 'right' : 'left';
+    case 'conceder':
+      return scorer === 'left' ? 'right' : 'left';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Height of a paddle, taking modifiers into account
+ */
+export function getPaddleHeight(paddle: PaddleState, config: PongConfig = DEFAULT_PONG_CONFIG): number {
+  return paddle.height ?? config.paddleHeight;
+}
+
+/**
+ * Move a paddle with a held direction for `dt` seconds, clamped to the field
+ */
+export function advancePaddle(
+  y: number,
+  direction: number,
+  dt: number,
+  config: PongConfig = DEFAULT_PONG_CONFIG,
+  paddleHeight: number = config.paddleHeight
+): number {
+  const next = y + normalizeDirection(direction) * config.paddleSpeed * Math.max(0, dt) * REFERENCE_FPS;
+  return Math.max(0, Math.min(config.height - paddleHeight, next));
+}
+
+/**
+ * Fastest the ball can travel (pixels per reference frame) after rally speed-ups
+ */
+export function getMaxBallSpeed(config: PongConfig = DEFAULT_PONG_CONFIG): number {
+  return config.ballSpeed * MAX_BALL_SPEED_FACTOR;
+}
+
+type Collision = 'wall' | PaddleSide | 'blockX' | 'blockY';
+
+/**
+ * Time (in reference frames) until the ball touches a wall, or Infinity
+ */
+function timeToWall(ball: BallState, radius: number, config: PongConfig): number {
+  if (ball.dy < 0) return Math.max(0, (radius - ball.y) / ball.dy);
+  if (ball.dy > 0) return Math.max(0, (config.height - radius - ball.y) / ball.dy);
+  return Infinity;
+}
+
+/**
+ * Time (in reference frames) until the ball reaches the face of the paddle it
+ * is moving towards while overlapping it vertically, or Infinity
+ */
+function timeToPaddle(ball: BallState, side: PaddleSide, paddle: PaddleState, radius: number, config: PongConfig): number {
+  const face = getPaddleFaceX(side, config);
+  // Leading edge of the ball must still be in front of the face
+  const contactX = side === 'left' ? face + radius : face - radius;
+  const approaching = side === 'left'
+    ? ball.dx < 0 && ball.x >= contactX - COLLISION_EPSILON
+    : ball.dx > 0 && ball.x <= contactX + COLLISION_EPSILON;
+  if (!approaching) return Infinity;
+
+  const time = Math.max(0, (contactX - ball.x) / ball.dx);
+  const contactY = ball.y + ball.dy * time;
+  const overlaps = contactY >= paddle.y - radius && contactY <= paddle.y + getPaddleHeight(paddle, config) + radius;
+  return overlaps ? time : Infinity;
+}
+
+/**
+ * Time (in reference frames) until the ball touches an obstacle block and the
+ * axis it bounces on, or null. A moving bumper that was pushed into the ball
+ * bounces it off the nearest face right away.
+ */
+function timeToBlock(ball: BallState, block: Rect, radius: number): { time: number; axis: 'x' | 'y' } | null {
+  const left = block.x - radius;
+  const right = block.x + block.width + radius;
+  const top = block.y - radius;
+  const bottom = block.y + block.height + radius;
+
+  if (ball.x > left && ball.x < right && ball.y > top && ball.y < bottom) {
+    const faces: Array<[number, 'x' | 'y', boolean]> = [
+      [ball.x - left, 'x', ball.dx > 0],
+      [right - ball.x, 'x', ball.dx < 0],
+      [ball.y - top, 'y', ball.dy > 0],
+      [bottom - ball.y, 'y', ball.dy < 0]
+    ];
+    const [, axis, movingIn] = faces.reduce((nearest, face) => (face[0] < nearest[0] ? face : nearest));
+    return movingIn ? { time: 0, axis } : null;
+  }
+
+  // Entry and exit times through the x and y slabs of the block grown by the radius
+  const slab = (position: number, velocity: number, min: number, max: number): [number, number] | null => {
+    if (velocity === 0) return position > min && position < max ? [-Infinity, Infinity] : null;
+    const first = (min - position) / velocity;
+    const second = (max - position) / velocity;
+    return [Math.min(first, second), Math.max(first, second)];
+  };
+  const slabX = slab(ball.x, ball.dx, left, right);
+  const slabY = slab(ball.y, ball.dy, top, bottom);
+  if (!slabX || !slabY) return null;
+
+  const enter = Math.max(slabX[0], slabY[0]);
+  const exit = Math.min(slabX[1], slabY[1]);
+  if (enter < -COLLISION_EPSILON || exit <= COLLISION_EPSILON || enter > exit) return null;
+  return { time: Math.max(0, enter), axis: slabX[0] >= slabY[0] ? 'x' : 'y' };
+}
+
+/**
+ * Shortest distance from a point to the segment a-b
+ */
+export function distanceToSegment(point: Point, a: Point, b: Point): number {
+  const abx = b.x - a.x;
+  const aby = b.y - a.y;
+  const lengthSquared = abx * abx + aby * aby;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * abx + (point.y - a.y) * aby) / lengthSquared));
+  return Math.hypot(point.x - (a.x + abx * t), point.y - (a.y + aby * t));
+}
+
+/**
+ * Move a ball that entered a portal this step to the center of the linked
+ * portal; it keeps its velocity and is not sent back while leaving the exit
+ */
+function passThroughPortals(ball: BallState, start: Point, portals: readonly PortalObstacle[]): void {
+  for (const portal of portals) {
+    for (const [entry, exit] of [[portal.a, portal.b], [portal.b, portal.a]]) {
+      const startedInside = Math.hypot(start.x - entry.x, start.y - entry.y) <= portal.radius;
+      if (!startedInside && distanceToSegment(entry, start, ball) <= portal.radius) {
+        ball.x = exit.x;
+        ball.y = exit.y;
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Send the ball back from a paddle: the angle follows where it hit the paddle
+ * (center is straight, ends are steepest) and the speed grows up to the cap
+ */
+function bounceOffPaddle(ball: BallState, side: PaddleSide, paddle: PaddleState, radius: number, config: PongConfig): void {
+  const paddleHeight = getPaddleHeight(paddle, config);
+  const halfReach = paddleHeight / 2 + radius;
+  const offset = Math.max(-1, Math.min(1, (ball.y - (paddle.y + paddleHeight / 2)) / halfReach));
+  const angle = offset * MAX_BOUNCE_ANGLE;
+  const speed = Math.min(Math.hypot(ball.dx, ball.dy) * RALLY_SPEEDUP, getMaxBallSpeed(config));
+
+  ball.dx = (side === 'left' ? 1 : -1) * speed * Math.cos(angle);
+  ball.dy = speed * Math.sin(angle);
+}
+
+/**
+ * Move the ball `frames` reference frames with continuous (swept) collision
+ * against walls, paddles and obstacle blocks, so no speed or step size lets it
+ * pass through
+ * @returns The paddles the ball bounced off, in order
+ */
+function sweepBall(
+  ball: BallState,
+  paddles: Record<PaddleSide, PaddleState>,
+  frames: number,
+  config: PongConfig,
+  blocks: readonly Rect[] = []
+): PaddleSide[] {
+  const radius = config.ballSize / 2;
+  let remaining = frames;
+  const paddleHits: PaddleSide[] = [];
+
+  for (let i = 0; i < MAX_COLLISIONS_PER_STEP && remaining > 0; i++) {
+    let time = remaining;
+    let collision: Collision | null = null;
+
+    const candidates: Array<[Collision, number]> = [
+      ['wall', timeToWall(ball, radius, config)],
+      ['left', timeToPaddle(ball, 'left', paddles.left, radius, config)],
+      ['right', timeToPaddle(ball, 'right', paddles.right, radius, config)]
+    ];
+    for (const block of blocks) {
+      const hit = timeToBlock(ball, block, radius);
+      if (hit) candidates.push([hit.axis === 'x' ? 'blockX' : 'blockY', hit.time]);
+    }
+    for (const [candidate, candidateTime] of candidates) {
+      if (candidateTime <= time) {
+        time = candidateTime;
+        collision = candidate;
+      }
+    }
+
+    ball.x += ball.dx * time;
+    ball.y += ball.dy * time;
+    remaining -= time;
+
+    if (collision === null) return paddleHits;
+    if (collision === 'wall') {
+      ball.y = Math.max(radius, Math.min(config.height - radius, ball.y));
+      ball.dy = -ball.dy;
+    } else if (collision === 'blockX') {
+      ball.dx = -ball.dx;
+    } else if (collision === 'blockY') {
+      ball.dy = -ball.dy;
+    } else {
+      bounceOffPaddle(ball, collision, paddles[collision], radius, config);
+      paddleHits.push(collision);
+    }
+  }
+  return paddleHits;
+}
+
+/**
+ * Move a paddle and keep its height modifier
+ */
+function movePaddle(paddle: PaddleState, direction: number, dt: number, config: PongConfig): PaddleState {
+  const moved: PaddleState = { y: advancePaddle(paddle.y, direction, dt, config, getPaddleHeight(paddle, config)) };
+  if (paddle.height !== undefined) moved.height = paddle.height;
+  return moved;
+}
+
+/**
+ * Side that scores when the ball has left the field, if it has
+ */
+function getScoringSide(ball: BallState, config: PongConfig): PaddleSide | null {
+  if (ball.x < 0) return 'right';
+  if (ball.x > config.width) return 'left';
+  return null;
+}
+
+/**
+ * Advance the simulation by `dt` seconds.
+ *
+ * Pure: the given state is not modified and a new state is returned (fields
+ * the core does not know about are carried over). Once a winner is set the
+ * state is returned unchanged.
+ */
+export function step<S extends PongState>(
+  state: S,
+  inputs: PaddleInputs,
+  dt: number,
+  options: StepOptions = {}
+): S {
+  if (state.winner) return state;
+
+  const config = options.config ?? DEFAULT_PONG_CONFIG;
+  const rng = options.rng ?? Math.random;
+  const frames = Math.max(0, dt) * REFERENCE_FPS * (options.ballTimeScale ?? 1);
+  // Obstacles stay where they were at the start of the step
+  const arena = hasObstacles(options.arena) ? getArenaLayout(options.arena, state.time ?? 0) : null;
+
+  const next: S = {
+    ...state,
+    leftPaddle: movePaddle(state.leftPaddle, inputs.left, dt, config),
+    rightPaddle: movePaddle(state.rightPaddle, inputs.right, dt, config),
+    ball: { ...state.ball }
+  };
+  const paddles = { left: next.leftPaddle, right: next.rightPaddle };
+  const moveBall = (ball: BallState): number => {
+    const start = { x: ball.x, y: ball.y };
+    const paddleHits = sweepBall(ball, paddles, frames, config, arena?.blocks);
+    if (arena) passThroughPortals(ball, start, arena.portals);
+    for (const side of paddleHits) options.onPaddleHit?.(side);
+    return paddleHits.length;
+  };
+  if (arena) {
+    next.time = (state.time ?? 0) + Math.max(0, dt);
+  }
+
+  // Serve countdown: paddles move, every ball waits for the serve
+  if (state.serveCountdown !== undefined && state.serveCountdown > 0) {
+    const countdown = state.serveCountdown - Math.max(0, dt);
+    if (countdown > 0) {
+      next.serveCountdown = countdown;
+    } else {
+      delete next.serveCountdown;
+    }
+    return next;
+  }
+
+  const paddleHits = moveBall(next.ball);
+  if (paddleHits > 0) {
+    next.rallyHits = (state.rallyHits ?? 0) + paddleHits;
+  }
+
+  // Scoring: the main ball is served again, extra balls leave play
+  const addPoint = (side: PaddleSide) => {
+    if (side === 'left') next.leftScore += 1;
+    else next.rightScore += 1;
+  };
+
+  const scorer = getScoringSide(next.ball, config);
+  if (scorer) {
+    addPoint(scorer);
+    const longestRally = getLongestRally(next);
+    if (longestRally > 0) next.longestRally = longestRally;
+    delete next.rallyHits;
+    next.ball = serveBall(config, rng, getServeTarget(state, scorer, config.serveRule));
+    next.servedTo = next.ball.dx > 0 ? 'right' : 'left';
+    if (config.serveDelay > 0) {
+      next.serveCountdown = config.serveDelay;
+    }
+  }
+
+  if (state.extraBalls) {
+    const extraBalls: BallState[] = [];
+    for (const extraBall of state.extraBalls) {
+      const moved = { ...extraBall };
+      moveBall(moved);
+      const extraScorer = getScoringSide(moved, config);
+      if (extraScorer) addPoint(extraScorer);
+      else extraBalls.push(moved);
+    }
+    if (extraBalls.length > 0) {
+      next.extraBalls = extraBalls;
+    } else {
+      delete next.extraBalls;
+    }
+  }
+
+  if (next.leftScore >= config.winningScore) {
+    next.winner = 'left';
+  } else if (next.rightScore >= config.winningScore) {
+    next.winner = 'right';
+  }
+
+  return next;
+}
+
+/**
+ * Most paddle hits in one rally of the match so far, the current one included
+ */
+export function getLongestRally(state: Pick<PongState, 'rallyHits' | 'longestRally'>): number {
+  return Math.max(state.longestRally ?? 0, state.rallyHits ?? 0);
+}
+
+/**
+ * End the match with `side` forfeiting; the opponent wins on the current score.
+ * Pure: returns a new state, or the given one if the match is already over.
+ */
+export function forfeitMatch<S extends PongState>(state: S, side: PaddleSide): S {
+  if (state.winner) return state;
+  return { ...state, winner: side === 'left' ? 'right' : 'left' };
+}
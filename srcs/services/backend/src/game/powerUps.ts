@@ -0,0 +1,210 @@
+/**
+ * Power-ups and Gameplay Modifiers
+ *
+ * Items spawn on the field and trigger when a ball passes through them. Items,
+ * active effects and the spawn timer all live in the game state and only use
+ * the room's seeded RNG, so the simulation stays deterministic and clients can
+ * render everything straight from `game_state_update`.
+ */
+
+import {
+  BallState,
+  DEFAULT_PONG_CONFIG,
+  PaddleInputs,
+  PaddleSide,
+  PaddleState,
+  PongConfig,
+  PongState,
+  REFERENCE_FPS,
+  StepOptions,
+  distanceToSegment,
+  normalizeDirection,
+  step
+} from './pongPhysics';
+
+export type PowerUpKind = 'paddleGrow' | 'paddleShrink' | 'multiBall' | 'slowMotion' | 'reverseControls';
+
+export const POWER_UP_KINDS: readonly PowerUpKind[] = ['paddleGrow', 'paddleShrink', 'multiBall', 'slowMotion', 'reverseControls'];
+
+export interface PowerUpItem {
+  id: number;
+  kind: PowerUpKind;
+  x: number;
+  y: number;
+}
+
+export interface ActiveEffect {
+  kind: PowerUpKind;
+  /** Paddle the effect applies to */
+  target: PaddleSide;
+  /** Seconds until the effect wears off */
+  remaining: number;
+}
+
+export interface PowerUpState {
+  items: PowerUpItem[];
+  effects: ActiveEffect[];
+  /** Seconds until the next item spawns */
+  spawnIn: number;
+  nextId: number;
+}
+
+/**
+ * Game state of a room with power-ups enabled
+ */
+export interface PowerUpGameState extends PongState {
+  powerUps?: PowerUpState;
+}
+
+export interface PowerUpStepOptions extends StepOptions {
+  /** Power-ups enabled by the match rules (none: plain physics step) */
+  enabled: readonly PowerUpKind[];
+}
+
+/** Radius of an item on the field */
+export const POWER_UP_RADIUS = 15;
+
+const MAX_ITEMS_ON_FIELD = 2;
+const FIRST_SPAWN_DELAY = 3;
+const SPAWN_INTERVAL_MIN = 4;
+const SPAWN_INTERVAL_SPREAD = 4;
+const MAX_EXTRA_BALLS = 2;
+const PADDLE_GROW_FACTOR = 1.5;
+const PADDLE_SHRINK_FACTOR = 0.6;
+const SLOW_MOTION_SCALE = 0.5;
+
+/** Effect duration in seconds (multi-ball acts once) */
+const EFFECT_DURATION: Record<Exclude<PowerUpKind, 'multiBall'>, number> = {
+  paddleGrow: 8,
+  paddleShrink: 8,
+  slowMotion: 5,
+  reverseControls: 5
+};
+
+/**
+ * Empty power-up state for the start of a match
+ */
+export function createPowerUpState(): PowerUpState {
+  return { items: [], effects: [], spawnIn: FIRST_SPAWN_DELAY, nextId: 1 };
+}
+
+/**
+ * Whether an effect is active, optionally only for one paddle
+ */
+export function hasEffect(state: PowerUpGameState, kind: PowerUpKind, target?: PaddleSide): boolean {
+  return (state.powerUps?.effects ?? []).some(effect => effect.kind === kind && (!target || effect.target === target));
+}
+
+function opponentOf(side: PaddleSide): PaddleSide {
+  return side === 'left' ? 'right' : 'left';
+}
+
+/**
+ * Whether a ball passed through an item during the last `frames` reference frames
+ */
+function passedThrough(ball: BallState, item: PowerUpItem, frames: number, config: PongConfig): boolean {
+  const reach = POWER_UP_RADIUS + config.ballSize / 2;
+  return distanceToSegment(item, { x: ball.x - ball.dx * frames, y: ball.y - ball.dy * frames }, ball) <= reach;
+}
+
+/**
+ * Paddle with its height set from the active effects
+ */
+function applyPaddleEffects(paddle: PaddleState, side: PaddleSide, effects: ActiveEffect[], config: PongConfig): PaddleState {
+  let factor = 1;
+  for (const effect of effects) {
+    if (effect.target !== side) continue;
+    if (effect.kind === 'paddleGrow') factor *= PADDLE_GROW_FACTOR;
+    if (effect.kind === 'paddleShrink') factor *= PADDLE_SHRINK_FACTOR;
+  }
+
+  if (factor === 1) return { y: paddle.y };
+  const height = config.paddleHeight * factor;
+  return { y: Math.max(0, Math.min(config.height - height, paddle.y)), height };
+}
+
+/**
+ * Advance the simulation by `dt` seconds with the enabled power-ups.
+ *
+ * Reversed controls and slow motion are applied to the physics step, then
+ * items touched by a ball are collected by the paddle that last hit it,
+ * effects tick down and new items spawn. Pure like `step`.
+ */
+export function stepWithPowerUps<S extends PowerUpGameState>(
+  state: S,
+  inputs: PaddleInputs,
+  dt: number,
+  options: PowerUpStepOptions
+): S {
+  if (options.enabled.length === 0 || state.winner) {
+    return step(state, inputs, dt, options);
+  }
+
+  const config = options.config ?? DEFAULT_PONG_CONFIG;
+  const rng = options.rng ?? Math.random;
+  const seconds = Math.max(0, dt);
+  const previous = state.powerUps ?? createPowerUpState();
+
+  const effectiveInputs: PaddleInputs = {
+    left: hasEffect(state, 'reverseControls', 'left') ? normalizeDirection(-inputs.left) : inputs.left,
+    right: hasEffect(state, 'reverseControls', 'right') ? normalizeDirection(-inputs.right) : inputs.right
+  };
+  const ballTimeScale = hasEffect(state, 'slowMotion') ? SLOW_MOTION_SCALE : 1;
+
+  const next = step(state, effectiveInputs, dt, { ...options, ballTimeScale });
+  const frames = seconds * REFERENCE_FPS * ballTimeScale;
+
+  // A freshly served ball did not travel through the field this step, nor
+  // did any ball during the serve countdown
+  const scored = next.leftScore + next.rightScore !== state.leftScore + state.rightScore;
+  const serving = (state.serveCountdown ?? 0) > 0;
+  const balls = serving ? [] : [...(scored ? [] : [next.ball]), ...(next.extraBalls ?? [])];
+
+  let effects = previous.effects.map(effect => ({ ...effect, remaining: effect.remaining - seconds }))
+    .filter(effect => effect.remaining > 0);
+  const extraBalls = [...(next.extraBalls ?? [])];
+  const items: PowerUpItem[] = [];
+
+  for (const item of previous.items) {
+    const ball = balls.find(candidate => passedThrough(candidate, item, frames, config));
+    if (!ball) {
+      items.push(item);
+      continue;
+    }
+
+    const collector: PaddleSide = ball.dx > 0 ? 'left' : 'right';
+    if (item.kind === 'multiBall') {
+      if (extraBalls.length < MAX_EXTRA_BALLS) {
+        extraBalls.push({ x: item.x, y: item.y, dx: ball.dx, dy: ball.dy !== 0 ? -ball.dy : config.ballSpeed / 2 });
+      }
+      continue;
+    }
+
+    const target = item.kind === 'paddleGrow' || item.kind === 'slowMotion' ? collector : opponentOf(collector);
+    effects = effects.filter(effect => effect.kind !== item.kind || effect.target !== target);
+    effects.push({ kind: item.kind, target, remaining: EFFECT_DURATION[item.kind] });
+  }
+
+  let { spawnIn, nextId } = previous;
+  spawnIn -= seconds;
+  if (spawnIn <= 0) {
+    if (items.length < MAX_ITEMS_ON_FIELD) {
+      items.push({
+        id: nextId++,
+        kind: options.enabled[Math.floor(rng() * options.enabled.length)],
+        // Spawn in the middle half of the field, away from the paddles
+        x: config.width * (0.25 + rng() * 0.5),
+        y: POWER_UP_RADIUS + rng() * (config.height - 2 * POWER_UP_RADIUS)
+      });
+    }
+    spawnIn = SPAWN_INTERVAL_MIN + rng() * SPAWN_INTERVAL_SPREAD;
+  }
+
+  if (extraBalls.length > 0) {
+    next.extraBalls = extraBalls;
+  }
+  next.leftPaddle = applyPaddleEffects(next.leftPaddle, 'left', effects, config);
+  next.rightPaddle = applyPaddleEffects(next.rightPaddle, 'right', effects, config);
+  next.powerUps = { items, effects, spawnIn, nextId };
+  return next;
+}
@@ -0,0 +1,62 @@
+/**
+ * Seeded Random Source
+ *
+ * Small deterministic PRNG used by the Pong physics core so that the server
+ * and the browser can replay the exact same serve directions from a seed.
+ */
+
+/**
+ * A function returning a float in [0, 1), compatible with Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Seeded random source that also reports how many numbers it has drawn
+ */
+export interface CountingRandom {
+  next: RandomSource;
+  draws(): number;
+}
+
+/** mulberry32 advances its state by this constant on every draw */
+const MULBERRY32_INCREMENT = 0x6d2b79f5;
+
+/**
+ * Create a seeded random source (mulberry32)
+ * @param seed - 32-bit integer seed
+ * @param skip - Numbers already drawn; the generator continues from there
+ * @returns RandomSource - Deterministic generator for the given seed
+ */
+export function createSeededRandom(seed: number, skip: number = 0): RandomSource {
+  let state = (seed + Math.imul(skip, MULBERRY32_INCREMENT)) >>> 0;
+  return () => {
+    state = (state + MULBERRY32_INCREMENT) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Create a seeded random source that counts its draws, so a replay can later
+ * resume the same sequence with `createSeededRandom(seed, draws)`
+ */
+export function createCountingRandom(seed: number, skip: number = 0): CountingRandom {
+  const random = createSeededRandom(seed, skip);
+  let draws = skip;
+  return {
+    next: () => {
+      draws++;
+      return random();
+    },
+    draws: () => draws
+  };
+}
+
+/**
+ * Generate a fresh 32-bit seed for a new match
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,258 @@
+/**
+ * Match Replays
+ *
+ * A remote match is fully determined by its rules, its RNG seed and the
+ * paddle directions players held on each tick, so a replay only stores those
+ * (plus the initial and final state for reference) instead of every frame.
+ * The server records replays while the match runs; the Svelte viewer
+ * re-simulates them with the same physics core to play, pause and seek.
+ */
+
+import { PaddleDirection, PaddleSide, forfeitMatch, normalizeDirection } from './pongPhysics';
+import { PowerUpGameState, stepWithPowerUps } from './powerUps';
+import { FfaInputs, FfaSide, FfaState, forfeitFfaSide, stepFfa } from './ffaPhysics';
+import { MatchRules, matchRulesToConfig, matchRulesToFfaConfig } from './matchRules';
+import { getArenaMap } from './arenaMaps';
+import { CountingRandom, createCountingRandom } from './random';
+import { TICK_RATE, TICK_SECONDS } from './fixedTimestep';
+
+/** Bumped whenever the replay format or the physics it depends on changes */
+export const REPLAY_VERSION = 2;
+
+export type ReplayMode = 'classic' | 'ffa';
+
+export type ReplayState = PowerUpGameState | FfaState;
+
+/**
+ * A player's held paddle direction changing; applies from step `tick` on
+ * (the step that turns tick `tick` into tick `tick + 1`)
+ */
+export interface ReplayInput {
+  tick: number;
+  side: FfaSide;
+  direction: PaddleDirection;
+}
+
+/**
+ * A player forfeiting (e.g. not returning after a disconnect); applies to the
+ * state at tick `tick`
+ */
+export interface ReplayForfeit {
+  tick: number;
+  side: FfaSide;
+}
+
+export interface MatchReplay {
+  version: number;
+  mode: ReplayMode;
+  /** Physics ticks per second of play */
+  tickRate: number;
+  seed: number;
+  /** Random numbers drawn from the seed before the first tick (e.g. the free-for-all serve) */
+  rngDraws: number;
+  rules: MatchRules;
+  initialState: ReplayState;
+  inputs: ReplayInput[];
+  /** Missing in replays recorded before forfeits were tracked */
+  forfeits?: ReplayForfeit[];
+  /** Ticks simulated until the match ended */
+  ticks: number;
+  finalState: ReplayState;
+}
+
+export type ReplayHeader = Pick<MatchReplay, 'mode' | 'seed' | 'rngDraws' | 'rules' | 'initialState'>;
+
+/** Simulated ticks between the positions the player keeps for seeking (5 s of play) */
+const KEYFRAME_INTERVAL = TICK_RATE * 5;
+
+/**
+ * Records the inputs of a running match; only changes of a held direction are kept
+ */
+export class ReplayRecorder {
+  private readonly header: ReplayHeader;
+  private readonly inputs: ReplayInput[] = [];
+  private readonly forfeits: ReplayForfeit[] = [];
+  private readonly held: Partial<Record<FfaSide, PaddleDirection>> = {};
+
+  constructor(header: ReplayHeader) {
+    this.header = { ...header, initialState: cloneState(header.initialState) };
+  }
+
+  /**
+   * Recorder that carries on with a replay finished part way through the match
+   * (a match restored after a server restart keeps its whole replay)
+   */
+  static resume(partial: MatchReplay): ReplayRecorder {
+    const { mode, seed, rngDraws, rules, initialState } = partial;
+    const recorder = new ReplayRecorder({ mode, seed, rngDraws, rules, initialState });
+    for (const input of partial.inputs) {
+      recorder.recordInput(input.tick, input.side, input.direction);
+    }
+    recorder.forfeits.push(...(partial.forfeits ?? []));
+    return recorder;
+  }
+
+  /**
+   * Record the direction a side holds from step `tick` on
+   */
+  recordInput(tick: number, side: FfaSide, direction: number): void {
+    const normalized = normalizeDirection(direction);
+    if ((this.held[side] ?? 0) === normalized) return;
+    this.held[side] = normalized;
+
+    // Several changes before the same step: only the last one is ever applied
+    for (let i = this.inputs.length - 1; i >= 0 && this.inputs[i].tick === tick; i--) {
+      if (this.inputs[i].side === side) {
+        this.inputs.splice(i, 1);
+        break;
+      }
+    }
+    this.inputs.push({ tick, side, direction: normalized });
+  }
+
+  /**
+   * Record a side forfeiting at `tick`
+   */
+  recordForfeit(tick: number, side: FfaSide): void {
+    this.forfeits.push({ tick, side });
+  }
+
+  /**
+   * Finished replay of a match that ended after `ticks` ticks in `finalState`
+   */
+  finish(ticks: number, finalState: ReplayState): MatchReplay {
+    return {
+      version: REPLAY_VERSION,
+      tickRate: TICK_RATE,
+      ...this.header,
+      inputs: [...this.inputs],
+      forfeits: [...this.forfeits],
+      ticks,
+      finalState: cloneState(finalState)
+    };
+  }
+}
+
+/**
+ * Deep copy of a plain-data game state
+ */
+function cloneState<S extends ReplayState>(state: S): S {
+  return JSON.parse(JSON.stringify(state));
+}
+
+interface ReplayKeyframe {
+  tick: number;
+  state: ReplayState;
+  draws: number;
+  nextInput: number;
+  nextForfeit: number;
+  held: Partial<FfaInputs>;
+}
+
+/**
+ * Re-simulates a replay; seeking jumps to the closest earlier keyframe and
+ * simulates forward from there
+ */
+export class ReplayPlayer {
+  readonly replay: MatchReplay;
+  private readonly keyframes: ReplayKeyframe[] = [];
+  private readonly stepState: (state: ReplayState, held: Partial<FfaInputs>, rng: CountingRandom) => ReplayState;
+  private readonly forfeitState: (state: ReplayState, side: FfaSide) => ReplayState;
+  private current!: ReplayKeyframe;
+  private rng!: CountingRandom;
+
+  constructor(replay: MatchReplay) {
+    if (replay.version !== REPLAY_VERSION) {
+      throw new Error(`Unsupported replay version: ${replay.version}`);
+    }
+    this.replay = replay;
+
+    if (replay.mode === 'ffa') {
+      const config = matchRulesToFfaConfig(replay.rules);
+      this.stepState = (state, held, rng) => stepFfa(state as FfaState, held, TICK_SECONDS, { config, rng: rng.next });
+      this.forfeitState = (state, side) => forfeitFfaSide(state as FfaState, side);
+    } else {
+      const options = {
+        config: matchRulesToConfig(replay.rules),
+        enabled: replay.rules.powerUps,
+        arena: getArenaMap(replay.rules.map)
+      };
+      this.stepState = (state, held, rng) => stepWithPowerUps(
+        state as PowerUpGameState,
+        { left: held.left ?? 0, right: held.right ?? 0 },
+        TICK_SECONDS,
+        { ...options, rng: rng.next }
+      );
+      this.forfeitState = (state, side) => forfeitMatch(state as PowerUpGameState, side as PaddleSide);
+    }
+
+    this.keyframes.push({ tick: 0, state: replay.initialState, draws: replay.rngDraws, nextInput: 0, nextForfeit: 0, held: {} });
+    this.restore(this.keyframes[0]);
+  }
+
+  /** Length of the match in ticks */
+  get duration(): number {
+    return this.replay.ticks;
+  }
+
+  get tick(): number {
+    return this.current.tick;
+  }
+
+  get state(): ReplayState {
+    return this.current.state;
+  }
+
+  /**
+   * Simulate up to `ticks` more ticks (stops at the end of the match)
+   */
+  advance(ticks: number = 1): ReplayState {
+    const target = Math.min(this.duration, this.current.tick + Math.max(0, Math.floor(ticks)));
+    const { inputs } = this.replay;
+    const frame = this.current;
+
+    this.applyForfeits(frame);
+    while (frame.tick < target) {
+      while (frame.nextInput < inputs.length && inputs[frame.nextInput].tick <= frame.tick) {
+        const input = inputs[frame.nextInput++];
+        frame.held = { ...frame.held, [input.side]: input.direction };
+      }
+      frame.state = this.stepState(frame.state, frame.held, this.rng);
+      frame.tick++;
+      this.applyForfeits(frame);
+
+      const last = this.keyframes[this.keyframes.length - 1];
+      if (frame.tick % KEYFRAME_INTERVAL === 0 && frame.tick > last.tick) {
+        this.keyframes.push({ ...frame, draws: this.rng.draws() });
+      }
+    }
+
+    return frame.state;
+  }
+
+  /**
+   * Jump to a tick of the match (clamped to its length)
+   */
+  seek(tick: number): ReplayState {
+    const target = Math.max(0, Math.min(this.duration, Math.floor(tick)));
+    if (target < this.current.tick || target - this.current.tick > KEYFRAME_INTERVAL) {
+      const keyframe = [...this.keyframes].reverse().find(candidate => candidate.tick <= target) ?? this.keyframes[0];
+      if (keyframe.tick > this.current.tick || target < this.current.tick) {
+        this.restore(keyframe);
+      }
+    }
+    return this.advance(target - this.current.tick);
+  }
+
+  private applyForfeits(frame: ReplayKeyframe): void {
+    const forfeits = this.replay.forfeits ?? [];
+    while (frame.nextForfeit < forfeits.length && forfeits[frame.nextForfeit].tick <= frame.tick) {
+      frame.state = this.forfeitState(frame.state, forfeits[frame.nextForfeit++].side);
+    }
+  }
+
+  private restore(keyframe: ReplayKeyframe): void {
+    this.current = { ...keyframe };
+    this.rng = createCountingRandom(this.replay.seed, keyframe.draws);
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Delta-compressed Game Snapshots
+ *
+ * The server keeps one encoder per client socket. Each snapshot is encoded
+ * against the last snapshot that client acknowledged, so only changed fields
+ * are sent; a full keyframe is sent periodically and whenever no usable base
+ * exists. The client-side decoder rebuilds full states and reports the ticks
+ * it received so the server can advance its base.
+ */
+
+/**
+ * Changed fields of a state. Nested plain objects are diffed recursively,
+ * arrays and primitives are replaced as a whole, and `null` marks a removed field.
+ */
+export type StateDelta = { [key: string]: unknown };
+
+/**
+ * Wire format of a `game_state_update` produced by the encoder
+ */
+export interface SnapshotMessage<T = unknown> {
+  tick: number;
+  keyframe: boolean;
+  /** Tick of the acknowledged snapshot the delta applies to */
+  baseTick?: number;
+  /** Full state (keyframes only) */
+  gameState?: T;
+  /** Changed fields (deltas only) */
+  delta?: StateDelta;
+}
+
+export interface SnapshotEncoderOptions {
+  /** Send a full keyframe at least once every this many snapshots */
+  keyframeInterval?: number;
+  /** Minimum number of ticks between two snapshots (lower update rate) */
+  minTickInterval?: number;
+  /** Maximum number of unacknowledged snapshots kept as potential bases */
+  historySize?: number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compute the fields of `next` that differ from `base`
+ * @returns StateDelta | undefined - undefined when nothing changed
+ */
+export function diffState(base: unknown, next: unknown): StateDelta | undefined {
+  if (!isPlainObject(base) || !isPlainObject(next)) {
+    throw new Error('diffState expects plain objects');
+  }
+
+  const delta: StateDelta = {};
+  let changed = false;
+
+  for (const key of Object.keys(next)) {
+    const nextValue = next[key];
+    if (nextValue === undefined) continue;
+    const baseValue = base[key];
+
+    if (isPlainObject(nextValue) && isPlainObject(baseValue)) {
+      const nested = diffState(baseValue, nextValue);
+      if (nested) {
+        delta[key] = nested;
+        changed = true;
+      }
+    } else if (!isEqualValue(baseValue, nextValue)) {
+      delta[key] = nextValue;
+      changed = true;
+    }
+  }
+
+  for (const key of Object.keys(base)) {
+    if (base[key] !== undefined && next[key] === undefined) {
+      delta[key] = null;
+      changed = true;
+    }
+  }
+
+  return changed ? delta : undefined;
+}
+
+/**
+ * Apply a delta produced by diffState, returning a new state
+ */
+export function applyDelta<T>(base: T, delta: StateDelta | undefined): T {
+  if (!delta) return base;
+  const result: Record<string, unknown> = { ...(base as unknown as Record<string, unknown>) };
+
+  for (const [key, value] of Object.entries(delta)) {
+    if (value === null) {
+      delete result[key];
+    } else if (isPlainObject(value) && isPlainObject(result[key])) {
+      result[key] = applyDelta(result[key], value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result as unknown as T;
+}
+
+/**
+ * Deep copy of a JSON-serializable state, used to freeze snapshot bases
+ */
+export function cloneState<T>(state: T): T {
+  return JSON.parse(JSON.stringify(state));
+}
+
+/**
+ * Deep copy with every number rounded to `decimals` places. Sub-pixel noise
+ * would otherwise make long float strings dominate every snapshot.
+ */
+export function quantizeState<T>(state: T, decimals: number = 2): T {
+  const factor = Math.pow(10, decimals);
+  return JSON.parse(JSON.stringify(state), (_key, value) => {
+    return typeof value === 'number' ? Math.round(value * factor) / factor : value;
+  });
+}
+
+/**
+ * Per-client snapshot encoder (server side)
+ */
+export class SnapshotEncoder<T = unknown> {
+  private readonly keyframeInterval: number;
+  private readonly minTickInterval: number;
+  private readonly historySize: number;
+  /** Snapshots sent but not yet superseded by a newer acknowledgement */
+  private sent = new Map<number, T>();
+  private ackedTick: number | null = null;
+  private lastSentTick: number | null = null;
+  private sinceKeyframe = 0;
+
+  constructor(options: SnapshotEncoderOptions = {}) {
+    this.keyframeInterval = options.keyframeInterval ?? 30;
+    this.minTickInterval = options.minTickInterval ?? 0;
+    this.historySize = options.historySize ?? 64;
+  }
+
+  /**
+   * Whether a snapshot for `tick` should be sent given the update rate
+   */
+  isDue(tick: number): boolean {
+    if (this.lastSentTick === null || tick < this.lastSentTick) return true;
+    return tick - this.lastSentTick >= this.minTickInterval;
+  }
+
+  /**
+   * Encode the state for `tick`. The state must not be mutated afterwards.
+   */
+  encode(tick: number, state: T): SnapshotMessage<T> {
+    // Ticks restart when a new match begins: previous bases are meaningless
+    if (this.lastSentTick !== null && tick <= this.lastSentTick) {
+      this.reset();
+    }
+
+    const base = this.ackedTick !== null ? this.sent.get(this.ackedTick) : undefined;
+    const needsKeyframe = base === undefined || this.sinceKeyframe >= this.keyframeInterval;
+
+    this.sent.set(tick, state);
+    this.lastSentTick = tick;
+    this.trimHistory();
+
+    if (needsKeyframe) {
+      this.sinceKeyframe = 1;
+      return { tick, keyframe: true, gameState: state };
+    }
+
+    this.sinceKeyframe++;
+    return { tick, keyframe: false, baseTick: this.ackedTick as number, delta: diffState(base, state) ?? {} };
+  }
+
+  /**
+   * Record that the client received the snapshot for `tick`
+   */
+  acknowledge(tick: number): void {
+    if (!this.sent.has(tick) || (this.ackedTick !== null && tick <= this.ackedTick)) return;
+    this.ackedTick = tick;
+    for (const sentTick of this.sent.keys()) {
+      if (sentTick < tick) this.sent.delete(sentTick);
+    }
+  }
+
+  /**
+   * Forget all bases so the next snapshot is a keyframe
+   */
+  reset(): void {
+    this.sent.clear();
+    this.ackedTick = null;
+    this.lastSentTick = null;
+    this.sinceKeyframe = 0;
+  }
+
+  private trimHistory(): void {
+    while (this.sent.size > this.historySize) {
+      const oldest = this.sent.keys().next().value as number;
+      this.sent.delete(oldest);
+      if (oldest === this.ackedTick) this.ackedTick = null;
+    }
+  }
+}
+
+/**
+ * Snapshot decoder (client side)
+ */
+export class SnapshotDecoder<T = unknown> {
+  private received = new Map<number, T>();
+  private lastTick: number | null = null;
+
+  constructor(private readonly historySize: number = 64) {}
+
+  /**
+   * Rebuild the full state carried by a snapshot message
+   * @returns T | null - null when the delta's base is unknown (wait for a keyframe)
+   */
+  decode(message: SnapshotMessage<T>): T | null {
+    // Ticks restart when a new match begins: previous bases are meaningless
+    if (this.lastTick !== null && message.tick <= this.lastTick) {
+      this.received.clear();
+    }
+
+    let state: T;
+    if (message.keyframe) {
+      if (!message.gameState) return null;
+      state = message.gameState;
+    } else {
+      const base = message.baseTick !== undefined ? this.received.get(message.baseTick) : undefined;
+      if (base === undefined) return null;
+      state = applyDelta(base, message.delta);
+    }
+
+    this.received.set(message.tick, state);
+    this.lastTick = message.tick;
+    while (this.received.size > this.historySize) {
+      this.received.delete(this.received.keys().next().value as number);
+    }
+    return state;
+  }
+
+  reset(): void {
+    this.received.clear();
+    this.lastTick = null;
+  }
+}
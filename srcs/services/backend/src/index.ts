@@ -3,15 +3,23 @@ import cors from '@fastify/cors';
 import jwt from '@fastify/jwt';
 import fastifyStatic from '@fastify/static';
 import { createServer } from 'http';
+import cluster from 'cluster';
+import crypto from 'crypto';
 import path from 'path';
 import { authRoutes } from './routes/auth';
 import { gameRoutes } from './routes/game';
 import { tournamentRoutes } from './routes/tournament';
 import { userRoutes } from './routes/users';
 import { chatRoutes } from './routes/chat';
+import { matchmakingRoutes } from './routes/matchmaking';
 import { DatabaseService } from './services/databaseService';
 import { initializeDatabase } from './utils/databaseInit';
 import SocketIOService from './services/socketIOService';
+import { createRoomStore } from './services/roomStore';
+import { SeasonService } from './services/seasonService';
+import { getWorkerCount, getWorkerIdentity } from './services/roomOwnership';
+import { IpcClusterBus, createClusterAdapter } from './services/clusterAdapter';
+import { serveClusterConnections, startClusterPrimary } from './services/clusterPrimary';
 
 /**
  * Pong Game Backend Server
@@ -21,6 +29,9 @@ import SocketIOService from './services/socketIOService';
  * - WebSocket connections for real-time game updates
  * - CORS support for frontend integration
  * - SQLite database integration
+ *
+ * With BACKEND_WORKERS > 1 this process becomes the cluster primary: it forks
+ * that many workers running the server below and routes connections to them.
  */
 
 const isProduction = process.env.NODE_ENV === 'production';
@@ -176,14 +187,20 @@ let socketIOService: SocketIOService;
 
 // Socket.IO endpoints are handled by SocketIOService
 
+const port = parseInt(process.env.PORT || '8000');
+const host = process.env.HOST || '0.0.0.0';
+
 /**
  * Start the server
- * Binds to all network interfaces on port 8000
+ * Binds to all network interfaces on port 8000, or serves the connections
+ * the cluster primary hands over when running as one of its workers
  */
 const start = async () => {
   try {
-    const port = parseInt(process.env.PORT || '8000');
-    const host = process.env.HOST || '0.0.0.0';
+    const worker = getWorkerIdentity();
+    if (cluster.isWorker) {
+      server.log.info(`Starting as backend worker ${worker.workerId + 1}/${worker.workerCount}`);
+    }
 
     server.log.info('Starting Pong Game Backend Server...');
     
@@ -196,6 +213,10 @@ const start = async () => {
     server.log.info('Initializing database schema...');
     await initializeDatabase();
     server.log.info('Database schema initialized successfully');
+
+    // Archive the seasons that ended and start the current one
+    await SeasonService.startRollover();
+    server.log.info('Seasons rolled over');
     
     // Register static file serving for uploads
     await server.register(fastifyStatic, {
@@ -222,6 +243,16 @@ const start = async () => {
         expiresIn: '24h'
       }
     });
+
+    // Guest tokens (fastify.jwt.guest) use a secret derived from JWT_SECRET,
+    // so a guest token can never pass as a user token
+    await server.register(jwt, {
+      namespace: 'guest',
+      secret: crypto.createHmac('sha256', jwtSecret).update('guest-tokens').digest('hex'),
+      sign: {
+        expiresIn: '30d'
+      }
+    });
     
     // Register authentication routes
     await server.register(authRoutes);
@@ -237,12 +268,26 @@ const start = async () => {
     
     // Register tournament routes
     await server.register(tournamentRoutes);
+
+    // Register matchmaking routes
+    await server.register(matchmakingRoutes);
     
-    // Start HTTP server with Fastify
-    await server.listen({ port, host });
+    // Start HTTP server with Fastify (workers get their connections from the primary instead)
+    if (cluster.isWorker) {
+      await server.ready();
+    } else {
+      await server.listen({ port, host });
+    }
     
-    // Initialize Socket.IO service with Fastify's underlying HTTP server
-    socketIOService = new SocketIOService(server.server);
+    // Initialize Socket.IO service with Fastify's underlying HTTP server;
+    // workers share broadcasts through the primary
+    socketIOService = new SocketIOService(
+      server.server,
+      server.jwt,
+      createRoomStore(worker.workerId),
+      worker,
+      cluster.isWorker ? createClusterAdapter(new IpcClusterBus()) : undefined
+    );
     
     // Make Socket.IO service available to routes for cleanup
     (server as any).socketIOService = socketIOService;
@@ -252,6 +297,10 @@ const start = async () => {
     (global as any).socketIOService = socketIOService;
     server.log.info('Socket.IO service initialized');
 
+    if (cluster.isWorker) {
+      serveClusterConnections(server.server);
+    }
+
     server.log.info(`Server listening on http://${host}:${port}`);
     server.log.info('Available endpoints:');
     server.log.info(`  - GET  / (health check)`);
@@ -262,12 +311,15 @@ const start = async () => {
     server.log.info(`  - POST /api/auth/login (user login)`);
     server.log.info(`  - GET  /api/auth/profile (user profile)`);
     server.log.info(`  - POST /api/auth/refresh (token refresh)`);
+    server.log.info(`  - POST /api/auth/guest (guest token)`);
     server.log.info(`  - GET  /api/auth/users (list all users)`);
     server.log.info(`  - POST /api/game/sessions (create game session)`);
     server.log.info(`  - PUT  /api/game/sessions/:id/end (end game session)`);
     server.log.info(`  - POST /api/game/results (save game result)`);
     server.log.info(`  - GET  /api/game/statistics (user statistics)`);
-    server.log.info(`  - GET  /api/game/leaderboard (top players)`);
+    server.log.info(`  - GET  /api/game/leaderboard (top players by rating, per season, mode or period)`);
+    server.log.info(`  - GET  /api/game/seasons (competitive seasons)`);
+    server.log.info(`  - GET  /api/game/rating-history (user rating history)`);
     server.log.info(`  - POST /api/tournaments (create tournament)`);
     server.log.info(`  - GET  /api/tournaments (list tournaments)`);
     server.log.info(`  - GET  /api/tournaments/:id (tournament details)`);
@@ -280,6 +332,9 @@ const start = async () => {
     server.log.info(`  - POST /api/game/:tournamentId/:matchId/ready (player ready status)`);
     server.log.info(`  - POST /api/game/:tournamentId/:matchId/control (game control sync)`);
     server.log.info(`  - GET  /api/tournaments/:id/state (tournament state polling)`);
+    server.log.info(`  - POST /api/matchmaking/queue (join matchmaking)`);
+    server.log.info(`  - GET  /api/matchmaking/queue (matchmaking status polling)`);
+    server.log.info(`  - DELETE /api/matchmaking/queue (leave matchmaking)`);
     server.log.info(`  - Socket.IO server on port ${port} (real-time game communication)`);
   } catch (err) {
     server.log.error('Failed to start server:', err);
@@ -295,6 +350,14 @@ const gracefulShutdown = async (signal: string) => {
   server.log.info(`Received ${signal}. Starting graceful shutdown...`);
   
   try {
+    // Snapshot the running matches so they can be restored on the next start
+    if (socketIOService) {
+      await socketIOService.shutdown();
+      server.log.info('Live rooms saved');
+    }
+
+    SeasonService.stopRollover();
+
     // Close database connections
     await DatabaseService.close();
     server.log.info('Database connections closed');
@@ -310,9 +373,18 @@ const gracefulShutdown = async (signal: string) => {
   }
 };
 
-// Handle shutdown signals
-process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
-process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+const workerCount = getWorkerCount();
+if (workerCount > 1 && cluster.isPrimary) {
+  // Route the connections to the workers; each worker runs start()
+  startClusterPrimary(workerCount, port, host).catch(err => {
+    console.error('Failed to start the cluster primary:', err);
+    process.exit(1);
+  });
+} else {
+  // Handle shutdown signals
+  process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+  process.on('SIGINT', () => gracefulShutdown('SIGINT'));
 
-// Start the server
-start();
\ No newline at end of file
+  // Start the server
+  start();
+}
\ No newline at end of file
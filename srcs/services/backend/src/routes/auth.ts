@@ -6,10 +6,12 @@
  */
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import crypto from 'crypto';
 import { UserService } from '../services/userService';
 import { TwoFactorService } from '../services/twoFactorService';
 import { FriendsService } from '../services/friendsService';
-import { LoginRequest, RegisterRequest, AuthResponse, ErrorResponse } from '../types/auth';
+import { TournamentService } from '../services/tournamentService';
+import { LoginRequest, RegisterRequest, AuthResponse, ErrorResponse, GuestAuthResponse, GuestTokenPayload } from '../types/auth';
 
 /**
  * JWT Payload interface for token generation
@@ -225,6 +227,62 @@ export async function authRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * POST /api/auth/guest
+   * Issue a signed guest token for playing without an account
+   * A still valid guest token in the Authorization header keeps its guest id,
+   * so a guest can sign a new tournament alias into their token; an alias
+   * another guest holds in a running tournament is refused
+   */
+  fastify.post<{ Body: { alias?: string } }>('/api/auth/guest', {
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          alias: { type: 'string', minLength: 1, maxLength: 50 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      let guestId: string | null = null;
+      const previousToken = request.headers.authorization?.replace(/^Bearer\s+/i, '');
+      if (previousToken) {
+        try {
+          guestId = fastify.jwt.guest.verify<GuestTokenPayload>(previousToken).guestId;
+        } catch (err) {
+          // Expired or not a guest token: start a new guest
+        }
+      }
+      guestId = guestId || `guest_${crypto.randomBytes(8).toString('hex')}`;
+
+      const guestAlias = request.body?.alias?.trim() || null;
+      if (guestAlias && await TournamentService.isGuestAliasClaimed(guestAlias, guestId)) {
+        const errorResponse: ErrorResponse = {
+          error: 'Alias taken',
+          message: 'This alias is already used by another guest in a tournament'
+        };
+        return reply.status(409).send(errorResponse);
+      }
+      const payload: GuestTokenPayload = guestAlias ? { guestId, guestAlias } : { guestId };
+      const token = fastify.jwt.guest.sign(payload);
+
+      const response: GuestAuthResponse = {
+        token,
+        guestId,
+        guestAlias
+      };
+
+      return reply.status(200).send(response);
+    } catch (error) {
+      const errorResponse: ErrorResponse = {
+        error: 'Guest token failed',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+      return reply.status(500).send(errorResponse);
+    }
+  });
+
   /**
    * POST /api/auth/forgot-username
    * Find username by email (for username recovery)
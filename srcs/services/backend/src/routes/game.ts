@@ -8,6 +8,12 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { UserService } from '../services/userService';
 import { DatabaseService } from '../services/databaseService';
+import { ReplayService } from '../services/replayService';
+import { RatingService } from '../services/ratingService';
+import { AchievementService } from '../services/achievementService';
+import { Season, SeasonService } from '../services/seasonService';
+import { LEADERBOARD_MODES, LEADERBOARD_PERIODS, LeaderboardMode, LeaderboardPeriod, LeaderboardService } from '../services/leaderboardService';
+import { formatAIProfile, getAIDisplayName, parseAIProfile } from '../game/aiPlayer';
 
 /**
  * JWT Payload interface for token verification
@@ -26,6 +32,12 @@ interface GameResultRequest {
   score: number;
   won: boolean;
   gameType: 'single' | 'multiplayer' | 'ai';
+  /** Games against the AI: the AI's score, how long the game took (seconds) and its profile */
+  opponentScore?: number;
+  duration?: number;
+  aiProfile?: string;
+  /** Most paddle hits in one rally */
+  longestRally?: number;
 }
 
 /**
@@ -162,14 +174,26 @@ export async function gameRoutes(fastify: FastifyInstance) {
           playerSide: { type: 'string', enum: ['left', 'right'] },
           score: { type: 'number', minimum: 0 },
           won: { type: 'boolean' },
-          gameType: { type: 'string', enum: ['single', 'multiplayer', 'ai'] }
+          gameType: { type: 'string', enum: ['single', 'multiplayer', 'ai'] },
+          opponentScore: { type: 'number', minimum: 0 },
+          duration: { type: 'number', minimum: 0 },
+          aiProfile: { type: 'string' },
+          longestRally: { type: 'integer', minimum: 0 }
         }
       }
     }
   }, async (request, reply) => {
     try {
       const decoded = request.user as JWTPayload;
-      const { sessionId, playerSide, score, won, gameType } = request.body;
+      const { sessionId, playerSide, score, won, gameType, opponentScore, duration, aiProfile, longestRally } = request.body;
+
+      const profile = aiProfile !== undefined ? parseAIProfile(aiProfile) : null;
+      if (aiProfile !== undefined && !profile) {
+        return reply.status(400).send({
+          error: 'Invalid AI profile',
+          message: `Unknown AI profile: ${aiProfile}`
+        });
+      }
 
               // Save game result - set session_id to NULL since we don't create game sessions for single player games
         const userIdInt = parseInt(decoded.userId, 10);
@@ -199,6 +223,33 @@ export async function gameRoutes(fastify: FastifyInstance) {
           [userIdInt, playerSide, score, wonInt]
         );
 
+      // Games against a known AI profile also go to match history, so AI results can be told apart
+      if (gameType === 'ai' && profile && opponentScore !== undefined) {
+        await DatabaseService.run(
+          `INSERT INTO match_history (user_id, opponent_id, opponent_name, user_score, opponent_score, result, game_mode, duration, ai_profile, played_at)
+           VALUES ($1, NULL, $2, $3, $4, $5, 'ai', $6, $7, CURRENT_TIMESTAMP)`,
+          [
+            userIdInt,
+            getAIDisplayName(profile.difficulty),
+            score,
+            opponentScore,
+            won ? 'win' : 'loss',
+            duration !== undefined ? Math.round(duration) : null,
+            formatAIProfile(profile)
+          ]
+        );
+        await AchievementService.record({
+          type: 'match_finished',
+          userId: String(decoded.userId),
+          mode: 'ai',
+          won,
+          score,
+          opponentScore,
+          aiDifficulty: profile.difficulty,
+          longestRally
+        });
+      }
+
       // Update user statistics
       await UserService.updateUserStatistics(decoded.userId, score, won);
 
@@ -244,52 +295,115 @@ export async function gameRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * GET /api/game/rating-history
+   * Get current user's rating changes, most recent first
+   */
+  fastify.get('/api/game/rating-history', {
+    preHandler: async (request, reply) => {
+      try {
+        await request.jwtVerify();
+      } catch (err) {
+        reply.status(401).send({
+          error: 'Unauthorized',
+          message: 'Valid JWT token required'
+        });
+      }
+    },
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 50 }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const decoded = request.user as JWTPayload;
+      const { limit = 50 } = request.query as { limit?: number };
+      const [rating, history] = await Promise.all([
+        RatingService.getRating(String(decoded.userId)),
+        RatingService.getHistory(String(decoded.userId), limit)
+      ]);
+
+      return reply.status(200).send({
+        rating,
+        history
+      });
+    } catch (error) {
+      return reply.status(500).send({
+        error: 'Failed to get rating history',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  });
+
+  /**
+   * GET /api/game/seasons
+   * Get all seasons, most recent first, and the one being played
+   */
+  fastify.get('/api/game/seasons', async (request, reply) => {
+    try {
+      const seasons = await SeasonService.getSeasons();
+      const current = seasons.find(season => season.status === 'active') ?? null;
+
+      return reply.status(200).send({
+        seasons,
+        currentSeasonId: current ? current.id : null
+      });
+    } catch (error) {
+      return reply.status(500).send({
+        error: 'Failed to get seasons',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  });
+
   /**
    * GET /api/game/leaderboard
-   * Get top players leaderboard
+   * Get top players leaderboard, by rating; provisional ratings rank after established ones.
+   * `season` (an id or "current"), `mode` and `period` scope it to the matches played then
    */
   fastify.get('/api/game/leaderboard', {
     schema: {
       querystring: {
         type: 'object',
         properties: {
-          limit: { type: 'number', minimum: 1, maximum: 100, default: 10 }
+          limit: { type: 'number', minimum: 1, maximum: 100, default: 10 },
+          season: { type: 'string', pattern: '^(current|[0-9]+)$' },
+          mode: { type: 'string', enum: [...LEADERBOARD_MODES] },
+          period: { type: 'string', enum: [...LEADERBOARD_PERIODS], default: 'all' }
         }
       }
     }
   }, async (request, reply) => {
     try {
-      const { limit = 10 } = request.query as { limit?: number };
+      const { limit = 10, season: seasonQuery, mode, period } = request.query as {
+        limit?: number;
+        season?: string;
+        mode?: LeaderboardMode;
+        period?: LeaderboardPeriod;
+      };
 
-      const result = await DatabaseService.query(
-        `SELECT 
-          u.username,
-          us.total_games,
-          us.games_won,
-          us.games_lost,
-          us.total_score,
-          us.highest_score,
-          us.average_score
-         FROM user_statistics us
-         JOIN users u ON us.user_id = u.id
-         WHERE u.is_active = true
-         ORDER BY us.games_won DESC, us.total_score DESC
-         LIMIT $1`,
-        [limit]
-      );
+      let season: Season | null = null;
+      if (seasonQuery) {
+        season = seasonQuery === 'current'
+          ? await SeasonService.getCurrentSeason()
+          : await SeasonService.getSeason(parseInt(seasonQuery, 10));
+        if (!season) {
+          return reply.status(404).send({
+            error: 'Season not found',
+            message: seasonQuery === 'current' ? 'No season is being played' : `Season ${seasonQuery} does not exist`
+          });
+        }
+      }
 
-      const leaderboard = result.map((row: any) => ({
-        username: row.username,
-        totalGames: parseInt(row.total_games),
-        gamesWon: parseInt(row.games_won),
-        gamesLost: parseInt(row.games_lost),
-        totalScore: parseInt(row.total_score),
-        highestScore: parseInt(row.highest_score),
-        averageScore: parseFloat(row.average_score)
-      }));
+      const leaderboard = await LeaderboardService.getLeaderboard({ season: season ?? undefined, mode, period, limit });
 
       return reply.status(200).send({
-        leaderboard
+        leaderboard,
+        season
       });
     } catch (error) {
       return reply.status(500).send({
@@ -343,6 +457,50 @@ export async function gameRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * GET /api/game/replays/:id
+   * Get the recorded replay of a game session
+   */
+  fastify.get<{ Params: { id: string } }>('/api/game/replays/:id', {
+    preHandler: async (request, reply) => {
+      try {
+        await request.jwtVerify();
+      } catch (err) {
+        reply.status(401).send({
+          error: 'Unauthorized',
+          message: 'Valid JWT token required'
+        });
+      }
+    },
+    schema: {
+      params: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string', pattern: '^[0-9]+$' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const replay = await ReplayService.getReplay(parseInt(request.params.id, 10));
+
+      if (!replay) {
+        return reply.status(404).send({
+          error: 'Replay not found',
+          message: 'No replay was recorded for this game session'
+        });
+      }
+
+      return reply.status(200).send(replay);
+    } catch (error) {
+      return reply.status(500).send({
+        error: 'Failed to get replay',
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      });
+    }
+  });
+
   /**
    * GET /api/game/:tournamentId/:matchId/state
    * Get current game state for polling
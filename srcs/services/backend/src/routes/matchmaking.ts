@@ -0,0 +1,111 @@
+/**
+ * Matchmaking Routes
+ *
+ * REST fallback of the `queue_join`/`queue_leave` socket events, for
+ * registered players: join or leave the queue, and poll it for the queue
+ * size, the wait time and the match once one is found.
+ */
+
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type SocketIOService from '../services/socketIOService';
+
+/**
+ * JWT Payload interface for token verification
+ */
+interface JWTPayload {
+  userId: string;
+  username: string;
+}
+
+/**
+ * Register matchmaking routes with the Fastify instance
+ * @param fastify - Fastify instance
+ */
+export async function matchmakingRoutes(fastify: FastifyInstance) {
+  const authenticate = async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      await request.jwtVerify();
+    } catch (err) {
+      reply.status(401).send({
+        success: false,
+        error: 'Valid JWT token required'
+      });
+    }
+  };
+
+  /**
+   * The Socket.IO service, if this worker hosts the queue; replies otherwise
+   */
+  const getMatchmakingHost = (reply: FastifyReply): SocketIOService | null => {
+    const socketIOService = (fastify as any).socketIOService as SocketIOService | undefined;
+    if (!socketIOService) {
+      reply.status(503).send({ success: false, error: 'Matchmaking is not available yet' });
+      return null;
+    }
+    if (!socketIOService.hostsMatchmaking()) {
+      // The cluster primary routes requests carrying room=matchmaking to the queue's worker
+      reply.status(421).send({ success: false, error: 'Matchmaking is hosted by another server; add room=matchmaking to the query' });
+      return null;
+    }
+    return socketIOService;
+  };
+
+  /**
+   * POST /api/matchmaking/queue
+   * Join the matchmaking queue
+   */
+  fastify.post<{ Body: { gameSpeed?: 'slow' | 'normal' | 'fast' } }>('/api/matchmaking/queue', {
+    preHandler: authenticate,
+    schema: {
+      body: {
+        type: 'object',
+        properties: {
+          gameSpeed: { type: 'string', enum: ['slow', 'normal', 'fast'] }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    const socketIOService = getMatchmakingHost(reply);
+    if (!socketIOService) return;
+
+    try {
+      const decoded = request.user as JWTPayload;
+      const status = await socketIOService.joinMatchmaking(String(decoded.userId), request.body?.gameSpeed);
+      reply.send({ success: true, data: status });
+    } catch (error) {
+      console.error('❌ Matchmaking join error:', error);
+      reply.code(400).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to join the queue'
+      });
+    }
+  });
+
+  /**
+   * GET /api/matchmaking/queue
+   * Queue size, wait time and the match found, if any; keeps the player queued
+   */
+  fastify.get('/api/matchmaking/queue', {
+    preHandler: authenticate
+  }, async (request, reply) => {
+    const socketIOService = getMatchmakingHost(reply);
+    if (!socketIOService) return;
+
+    const decoded = request.user as JWTPayload;
+    reply.send({ success: true, data: socketIOService.getMatchmakingStatus(String(decoded.userId)) });
+  });
+
+  /**
+   * DELETE /api/matchmaking/queue
+   * Leave the matchmaking queue
+   */
+  fastify.delete('/api/matchmaking/queue', {
+    preHandler: authenticate
+  }, async (request, reply) => {
+    const socketIOService = getMatchmakingHost(reply);
+    if (!socketIOService) return;
+
+    const decoded = request.user as JWTPayload;
+    reply.send({ success: true, data: socketIOService.leaveMatchmaking(String(decoded.userId)) });
+  });
+}
@@ -6,6 +6,8 @@
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { TournamentService, CreateTournamentInput, JoinTournamentInput } from '../services/tournamentService';
+import { AI_DIFFICULTIES } from '../game/aiPlayer';
+import { GuestTokenPayload } from '../types/auth';
 
 // Request/Response interfaces - using Fastify's built-in types
 
@@ -325,10 +327,25 @@ export async function tournamentRoutes(fastify: FastifyInstance) {
         display_name: body.display_name
       });
 
+      // Guests join with their guest token, whose guest id then owns the slot
+      let guestId: string | undefined;
+      if (!body.user_id) {
+        try {
+          const guestToken = request.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '';
+          guestId = fastify.jwt.guest.verify<GuestTokenPayload>(guestToken).guestId;
+        } catch (err) {
+          return reply.code(401).send({
+            success: false,
+            error: 'A guest token is required to join as a guest'
+          });
+        }
+      }
+
       const joinInput: JoinTournamentInput = {
         tournament_id: tournamentId,
         user_id: body.user_id,
         guest_alias: body.guest_alias,
+        guest_id: guestId,
         display_name: body.display_name,
         avatar_url: body.avatar_url
       };
@@ -412,6 +429,77 @@ export async function tournamentRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Add an AI player to a tournament
+  fastify.post('/api/tournaments/:id/bots', {
+    schema: {
+      description: 'Add a server-played AI participant to a tournament',
+      tags: ['tournaments'],
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }
+        },
+        required: ['id']
+      },
+      body: {
+        type: 'object',
+        required: ['difficulty'],
+        properties: {
+          difficulty: { type: 'string', enum: [...AI_DIFFICULTIES] },
+          display_name: { type: 'string', minLength: 1, maxLength: 50 }
+        }
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            data: {
+              type: 'object',
+              properties: {
+                id: { type: 'integer' },
+                tournament_id: { type: 'integer' },
+                guest_alias: { type: 'string' },
+                display_name: { type: 'string' },
+                joined_at: { type: 'string' },
+                bot_difficulty: { type: 'string' }
+              }
+            }
+          }
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' }
+          }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      const tournamentId = parseInt((request.params as any).id);
+      if (isNaN(tournamentId)) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid tournament ID'
+        });
+      }
+
+      const body = request.body as any;
+      const participant = await TournamentService.addBot(tournamentId, body.difficulty, body.display_name);
+      reply.send({
+        success: true,
+        data: participant
+      });
+    } catch (error) {
+      reply.code(400).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to add AI player'
+      });
+    }
+  });
+
   // Get tournament participants
   fastify.get('/api/tournaments/:id/participants', {
     schema: {
@@ -446,6 +534,7 @@ export async function tournamentRoutes(fastify: FastifyInstance) {
                   final_rank: { type: 'integer' },
                   seed: { type: 'integer' },
                   is_ready: { type: 'boolean' },
+                  bot_difficulty: { type: 'string' },
                   user: {
                     type: 'object',
                     additionalProperties: true,
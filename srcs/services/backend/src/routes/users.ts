@@ -7,11 +7,42 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { UserService } from '../services/userService';
 import { FriendsService } from '../services/friendsService';
+import { AchievementService } from '../services/achievementService';
+import { DEFAULT_RECENT_MATCHES, HeadToHeadService } from '../services/headToHeadService';
+import {
+  DEFAULT_PAGE_SIZE,
+  InvalidCursorError,
+  InvalidDateError,
+  MATCH_HISTORY_MODES,
+  MATCH_HISTORY_RESULTS,
+  MATCH_HISTORY_SORTS,
+  MAX_PAGE_SIZE,
+  MatchHistoryFilters,
+  MatchHistoryService,
+  toCsvLines,
+  toJsonChunks,
+  validateFilters
+} from '../services/matchHistoryService';
 import { DatabaseService } from '../services/databaseService';
+import { INITIAL_RATING, isProvisional } from '../game/glicko2';
 import multipart from '@fastify/multipart';
 import fs from 'fs';
 import path from 'path';
 import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+
+/** Date (YYYY-MM-DD) or ISO timestamp */
+const DATE_PATTERN = '^\\d{4}-\\d{2}-\\d{2}(T\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:\\d{2})?)?$';
+
+/** Query string filters shared by the match history list and export */
+const MATCH_HISTORY_FILTERS_SCHEMA = {
+  from: { type: 'string', pattern: DATE_PATTERN },
+  to: { type: 'string', pattern: DATE_PATTERN },
+  mode: { type: 'string', enum: [...MATCH_HISTORY_MODES] },
+  result: { type: 'string', enum: [...MATCH_HISTORY_RESULTS] },
+  opponent: { type: 'string', minLength: 1, maxLength: 50 },
+  sort: { type: 'string', enum: [...MATCH_HISTORY_SORTS], default: 'newest' }
+};
 
 /**
  * User routes plugin
@@ -35,9 +66,11 @@ export async function userRoutes(server: FastifyInstance) {
 
       const userResult = await DatabaseService.query(
         `SELECT u.id, u.username, u.display_name, u.avatar_url, u.bio, u.online_status, u.created_at,
-                us.total_games, us.games_won, us.games_lost, us.highest_score
+                us.total_games, us.games_won, us.games_lost, us.highest_score,
+                pr.rating, pr.rating_deviation
          FROM users u
          LEFT JOIN user_statistics us ON us.user_id = u.id
+         LEFT JOIN player_ratings pr ON pr.user_id = u.id
          WHERE u.username = $1 AND u.is_active = true`,
         [username]
       );
@@ -47,6 +80,7 @@ export async function userRoutes(server: FastifyInstance) {
       }
 
       const user = userResult[0];
+      const ratingDeviation = user.rating_deviation ?? INITIAL_RATING.deviation;
       
       return {
         id: user.id.toString(),
@@ -60,7 +94,10 @@ export async function userRoutes(server: FastifyInstance) {
           totalGames: parseInt(user.total_games) || 0,
           gamesWon: parseInt(user.games_won) || 0,
           gamesLost: parseInt(user.games_lost) || 0,
-          highestScore: parseInt(user.highest_score) || 0
+          highestScore: parseInt(user.highest_score) || 0,
+          rating: user.rating ?? INITIAL_RATING.rating,
+          ratingDeviation,
+          provisional: isProvisional({ deviation: ratingDeviation })
         }
       };
     } catch (error) {
@@ -69,6 +106,72 @@ export async function userRoutes(server: FastifyInstance) {
     }
   });
 
+  /**
+   * Get user achievements (public): every achievement, with when the user unlocked it
+   */
+  server.get('/api/users/:username/achievements', async (request: FastifyRequest<{
+    Params: { username: string }
+  }>, reply: FastifyReply) => {
+    try {
+      const { username } = request.params;
+
+      const user = await DatabaseService.get(
+        'SELECT id FROM users WHERE username = $1 AND is_active = true',
+        [username]
+      );
+
+      if (!user) {
+        return reply.status(404).send({ error: 'User not found' });
+      }
+
+      return { achievements: await AchievementService.getAchievements(user.id.toString()) };
+    } catch (error) {
+      server.log.error('Failed to get user achievements:', error);
+      return reply.status(500).send({ error: 'Failed to get user achievements' });
+    }
+  });
+
+  /**
+   * Get a user's head-to-head record against an opponent (public)
+   */
+  server.get('/api/users/:username/head-to-head/:opponent', async (request: FastifyRequest<{
+    Params: { username: string; opponent: string };
+    Querystring: { limit?: string }
+  }>, reply: FastifyReply) => {
+    try {
+      const { username, opponent } = request.params;
+
+      const limit = request.query.limit !== undefined ? parseInt(request.query.limit, 10) : DEFAULT_RECENT_MATCHES;
+      if (isNaN(limit) || limit < 0 || limit > 50) {
+        return reply.status(400).send({ error: 'limit must be between 0 and 50' });
+      }
+
+      const users = await DatabaseService.query(
+        'SELECT id, username FROM users WHERE username IN ($1, $2) AND is_active = true',
+        [username, opponent]
+      );
+      const user = users.find((row: any) => row.username === username);
+      const opponentUser = users.find((row: any) => row.username === opponent);
+
+      if (!user || !opponentUser) {
+        return reply.status(404).send({ error: 'User not found' });
+      }
+      if (user.id === opponentUser.id) {
+        return reply.status(400).send({ error: 'A player has no record against themselves' });
+      }
+
+      const record = await HeadToHeadService.getHeadToHead(user.id, opponentUser.id, limit);
+      return {
+        user: { id: user.id.toString(), username: user.username },
+        opponent: { id: opponentUser.id.toString(), username: opponentUser.username },
+        ...record
+      };
+    } catch (error) {
+      server.log.error('Failed to get head-to-head record:', error);
+      return reply.status(500).send({ error: 'Failed to get head-to-head record' });
+    }
+  });
+
   /**
    * Update user profile (authenticated)
    */
@@ -170,43 +273,78 @@ export async function userRoutes(server: FastifyInstance) {
   });
 
   /**
-   * Get match history
+   * Get match history (authenticated): a page of the user's matches, newest first
+   * unless sorted otherwise; pass nextCursor back as cursor for the next page
    */
-  server.get('/api/users/match-history', async (request: FastifyRequest, reply: FastifyReply) => {
+  server.get<{ Querystring: MatchHistoryFilters & { cursor?: string; limit?: number } }>('/api/users/match-history', {
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          ...MATCH_HISTORY_FILTERS_SCHEMA,
+          cursor: { type: 'string' },
+          limit: { type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE }
+        }
+      }
+    }
+  }, async (request, reply) => {
     try {
       await request.jwtVerify();
       const userId = (request.user as any).userId || (request.user as any).id;
 
-      const matches = await DatabaseService.query(
-        `SELECT 
-          mh.id, mh.opponent_name, mh.user_score, mh.opponent_score, 
-          mh.result, mh.game_mode, mh.duration, mh.played_at,
-          u.username as opponent_username, u.avatar_url as opponent_avatar
-         FROM match_history mh
-         LEFT JOIN users u ON u.id = mh.opponent_id
-         WHERE mh.user_id = $1
-         ORDER BY mh.played_at DESC
-         LIMIT 50`,
-        [userId]
-      );
-
-      return matches.map((match: any) => ({
-        id: match.id.toString(),
-        opponentName: match.opponent_name || match.opponent_username || 'Unknown',
-        opponentAvatar: match.opponent_avatar,
-        userScore: match.user_score,
-        opponentScore: match.opponent_score,
-        result: match.result,
-        gameMode: match.game_mode,
-        duration: match.duration,
-        playedAt: match.played_at
-      }));
+      const { cursor, limit, ...filters } = request.query;
+      return await MatchHistoryService.getPage(userId, filters, cursor, limit);
     } catch (error) {
+      if (error instanceof InvalidCursorError || error instanceof InvalidDateError) {
+        return reply.status(400).send({ error: error.message });
+      }
       server.log.error('Failed to get match history:', error);
       return reply.status(500).send({ error: 'Failed to get match history' });
     }
   });
 
+  /**
+   * Export match history (authenticated): every match matching the filters,
+   * streamed as a CSV or JSON download
+   */
+  server.get<{ Querystring: MatchHistoryFilters & { format?: 'csv' | 'json' } }>('/api/users/match-history/export', {
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          ...MATCH_HISTORY_FILTERS_SCHEMA,
+          format: { type: 'string', enum: ['csv', 'json'], default: 'csv' }
+        }
+      }
+    }
+  }, async (request, reply) => {
+    try {
+      await request.jwtVerify();
+    } catch (error) {
+      return reply.status(401).send({ error: 'Unauthorized' });
+    }
+    const userId = (request.user as any).userId || (request.user as any).id;
+
+    const { format = 'csv', ...filters } = request.query;
+    // The matches are only read once streaming starts, too late for an error status
+    try {
+      validateFilters(filters);
+    } catch (error) {
+      if (error instanceof InvalidDateError) {
+        return reply.status(400).send({ error: error.message });
+      }
+      throw error;
+    }
+    const matches = MatchHistoryService.iterate(userId, filters);
+    const body = Readable.from(format === 'csv' ? toCsvLines(matches) : toJsonChunks(matches));
+    body.on('error', error => server.log.error('Failed to export match history:', error));
+
+    return reply
+      .type(format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8')
+      .header('Content-Disposition', `attachment; filename="match-history.${format}"`)
+      .send(body);
+  });
+
   /**
    * Friends endpoints
    */
@@ -0,0 +1,167 @@
+/**
+ * AI Benchmark Script
+ *
+ * Plays headless matches between AI difficulties (or against the scripted
+ * perfect player) and prints win rates, rally lengths and final scores.
+ *
+ * Usage: npm run simulate -- [options]
+ *   --left <player>     Left player: easy, medium, hard, expert or perfect (default: medium)
+ *   --right <player>    Right player (default: perfect)
+ *   --left-personality <p>, --right-personality <p>
+ *                       AI personality: balanced, defensive, aggressive or humanlike (default: balanced)
+ *   --left-adaptive, --right-adaptive
+ *                       Let that AI adapt its difficulty to the score gap
+ *   --matches <n>       Matches per pairing (default: 1000)
+ *   --seed <n>          Seed of the first match (default: 1)
+ *   --max-score <n>     Points needed to win (default: the default match rules)
+ *   --matrix            Play every AI difficulty against every player instead
+ *   --json              Print the reports as JSON
+ */
+
+import {
+  BenchmarkReport,
+  SIMULATED_PLAYERS,
+  SimulatedPlayer,
+  formatBenchmarkReport,
+  isSimulatedPlayer,
+  runBenchmark
+} from '../game/matchSimulator';
+import { AIPersonality, AIPlayerOptions, AI_DIFFICULTIES, AI_PERSONALITIES, isAIPersonality } from '../game/aiPlayer';
+import { getDefaultMatchRules, validateMatchRules } from '../game/matchRules';
+
+interface CliOptions {
+  left: SimulatedPlayer;
+  right: SimulatedPlayer;
+  leftAI: AIPlayerOptions;
+  rightAI: AIPlayerOptions;
+  matches: number;
+  seed: number;
+  maxScore?: number;
+  matrix: boolean;
+  json: boolean;
+}
+
+function parseInteger(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${flag} expects a non-negative integer`);
+  }
+  return parsed;
+}
+
+function parsePlayer(flag: string, value: string | undefined): SimulatedPlayer {
+  if (!isSimulatedPlayer(value)) {
+    throw new Error(`${flag} expects one of: ${SIMULATED_PLAYERS.join(', ')}`);
+  }
+  return value;
+}
+
+function parsePersonality(flag: string, value: string | undefined): AIPersonality {
+  if (!isAIPersonality(value)) {
+    throw new Error(`${flag} expects one of: ${AI_PERSONALITIES.join(', ')}`);
+  }
+  return value;
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    left: 'medium',
+    right: 'perfect',
+    leftAI: {},
+    rightAI: {},
+    matches: 1000,
+    seed: 1,
+    matrix: false,
+    json: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const flag = args[i];
+    switch (flag) {
+      case '--left':
+        options.left = parsePlayer(flag, args[++i]);
+        break;
+      case '--right':
+        options.right = parsePlayer(flag, args[++i]);
+        break;
+      case '--left-personality':
+        options.leftAI.personality = parsePersonality(flag, args[++i]);
+        break;
+      case '--right-personality':
+        options.rightAI.personality = parsePersonality(flag, args[++i]);
+        break;
+      case '--left-adaptive':
+        options.leftAI.adaptive = true;
+        break;
+      case '--right-adaptive':
+        options.rightAI.adaptive = true;
+        break;
+      case '--matches':
+        options.matches = parseInteger(flag, args[++i]);
+        break;
+      case '--seed':
+        options.seed = parseInteger(flag, args[++i]);
+        break;
+      case '--max-score':
+        options.maxScore = parseInteger(flag, args[++i]);
+        break;
+      case '--matrix':
+        options.matrix = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+function main(): void {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  const validation = validateMatchRules(
+    options.maxScore !== undefined ? { maxScore: options.maxScore } : {},
+    getDefaultMatchRules()
+  );
+  if (!validation.valid) {
+    console.error(`❌ ${validation.errors.join(', ')}`);
+    process.exit(1);
+  }
+
+  const pairings: Array<[SimulatedPlayer, SimulatedPlayer]> = options.matrix
+    ? AI_DIFFICULTIES.flatMap(left => SIMULATED_PLAYERS.map(right => [left, right] as [SimulatedPlayer, SimulatedPlayer]))
+    : [[options.left, options.right]];
+
+  const reports: BenchmarkReport[] = [];
+  for (const [left, right] of pairings) {
+    const report = runBenchmark({
+      left,
+      right,
+      leftAI: options.leftAI,
+      rightAI: options.rightAI,
+      matches: options.matches,
+      seed: options.seed,
+      rules: validation.rules
+    });
+    reports.push(report);
+    if (!options.json) {
+      console.log(formatBenchmarkReport(report));
+      console.log('');
+    }
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(reports, null, 2));
+  }
+}
+
+main();
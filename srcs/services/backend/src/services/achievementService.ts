@@ -0,0 +1,96 @@
+/**
+ * Achievement Service
+ *
+ * Checks the reported match, tournament, social and chat events against the
+ * achievement rules, keeps the achievements players unlocked and tells the
+ * unlock listeners (the Socket.IO service pushes them to the player).
+ */
+
+import { DatabaseService } from './databaseService';
+import { ACHIEVEMENTS, Achievement, AchievementEvent, getAchievement, getUnlockedAchievements } from '../game/achievements';
+
+export interface UnlockedAchievement extends Achievement {
+  unlockedAt: string;
+}
+
+/**
+ * Achievement with when the player unlocked it (null: still locked)
+ */
+export interface AchievementProgress extends Achievement {
+  unlockedAt: string | null;
+}
+
+export type UnlockListener = (userId: string, achievement: UnlockedAchievement) => void;
+
+export class AchievementService {
+  private static listeners = new Set<UnlockListener>();
+
+  /**
+   * Listen to unlocks
+   * @returns Stops listening
+   */
+  static onUnlock(listener: UnlockListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Unlock the achievements an event earns the player. Errors are logged
+   * rather than thrown, so achievements never fail what triggered them.
+   * @returns The achievements unlocked for the first time
+   */
+  static async record(event: AchievementEvent): Promise<UnlockedAchievement[]> {
+    const unlocked: UnlockedAchievement[] = [];
+    try {
+      const userId = parseInt(event.userId, 10);
+      if (isNaN(userId)) return unlocked; // Guests have no achievements
+
+      for (const rule of getUnlockedAchievements(event)) {
+        const result = await DatabaseService.run(
+          'INSERT OR IGNORE INTO user_achievements (user_id, achievement_id) VALUES ($1, $2)',
+          [userId, rule.id]
+        );
+        if (result.changes === 0) continue; // Unlocked before
+
+        const row = await DatabaseService.get(
+          'SELECT unlocked_at FROM user_achievements WHERE user_id = $1 AND achievement_id = $2',
+          [userId, rule.id]
+        ) as { unlocked_at: string };
+        unlocked.push({ ...getAchievement(rule.id)!, unlockedAt: row.unlocked_at });
+      }
+    } catch (error) {
+      console.error(`❌ Error checking ${event.type} achievements for ${event.userId}:`, error);
+      return unlocked;
+    }
+
+    for (const achievement of unlocked) {
+      console.log(`🏅 User ${event.userId} unlocked ${achievement.id}`);
+      for (const listener of this.listeners) {
+        try {
+          listener(event.userId, achievement);
+        } catch (error) {
+          console.error('❌ Error in achievement unlock listener:', error);
+        }
+      }
+    }
+    return unlocked;
+  }
+
+  /**
+   * Every achievement, in rule order, with when the player unlocked it
+   */
+  static async getAchievements(userId: string): Promise<AchievementProgress[]> {
+    const rows = await DatabaseService.query(
+      'SELECT achievement_id, unlocked_at FROM user_achievements WHERE user_id = $1',
+      [parseInt(userId, 10)]
+    ) as Array<{ achievement_id: string; unlocked_at: string }>;
+    const unlockedAt = new Map(rows.map(row => [row.achievement_id, row.unlocked_at]));
+
+    return ACHIEVEMENTS.map(rule => ({
+      ...getAchievement(rule.id)!,
+      unlockedAt: unlockedAt.get(rule.id) ?? null
+    }));
+  }
+}
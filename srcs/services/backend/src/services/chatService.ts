@@ -6,6 +6,7 @@
 
 import bcrypt from 'bcryptjs';
 import { DatabaseService } from './databaseService';
+import { AchievementService } from './achievementService';
 
 export interface Channel {
   id: string;
@@ -318,6 +319,7 @@ export class ChatService {
       'INSERT INTO channel_messages (channel_id, user_id, message) VALUES (?, ?, ?)',
       [channelId, userId, sanitizedMessage]
     );
+    await AchievementService.record({ type: 'message_sent', userId, channel: 'channel' });
 
     // Get message with user info
     const messageResult = await DatabaseService.query(
@@ -405,6 +407,7 @@ export class ChatService {
       'INSERT INTO direct_messages (sender_id, receiver_id, message) VALUES (?, ?, ?)',
       [senderId, receiverId, sanitizedMessage]
     );
+    await AchievementService.record({ type: 'message_sent', userId: senderId, channel: 'direct' });
 
     // Get message with user info
     const result = await DatabaseService.query(
@@ -0,0 +1,142 @@
+/**
+ * Cluster Adapter
+ *
+ * Socket.IO adapter that carries broadcasts, room joins, fetchSockets() and
+ * server-side emits between the backend workers. The transport is pluggable:
+ * workers started by the cluster primary talk over IPC, and tests can link
+ * several Socket.IO servers in one process with the in-memory bus.
+ */
+
+import { EventEmitter } from 'events';
+import type { Namespace } from 'socket.io';
+import {
+  ClusterAdapterOptions,
+  ClusterAdapterWithHeartbeat,
+  ClusterMessage,
+  ClusterResponse,
+  Offset,
+  ServerId
+} from 'socket.io-adapter';
+
+/**
+ * What travels on the bus: a message for every server, or a response for the
+ * server that asked
+ */
+export type ClusterEnvelope =
+  | { kind: 'message'; message: ClusterMessage }
+  | { kind: 'response'; requesterUid: ServerId; response: ClusterResponse };
+
+/**
+ * Transport between the servers of a cluster. Envelopes may be delivered back
+ * to their sender; the adapter ignores its own messages.
+ */
+export interface ClusterBus {
+  publish(envelope: ClusterEnvelope): void;
+  /**
+   * @returns A function removing the listener
+   */
+  subscribe(listener: (envelope: ClusterEnvelope) => void): () => void;
+}
+
+/** IPC message type of the envelopes relayed by the cluster primary */
+export const CLUSTER_ADAPTER_MESSAGE = 'cluster:adapter';
+
+/**
+ * Links the servers of a single process (tests, local experiments).
+ * Delivery is asynchronous, like over a real transport.
+ */
+export class MemoryClusterBus implements ClusterBus {
+  private emitter = new EventEmitter();
+
+  publish(envelope: ClusterEnvelope): void {
+    setImmediate(() => this.emitter.emit('envelope', envelope));
+  }
+
+  subscribe(listener: (envelope: ClusterEnvelope) => void): () => void {
+    this.emitter.on('envelope', listener);
+    return () => {
+      this.emitter.off('envelope', listener);
+    };
+  }
+}
+
+/**
+ * Links the workers of a node cluster: envelopes go to the primary, which
+ * relays them to the other workers
+ */
+export class IpcClusterBus implements ClusterBus {
+  constructor() {
+    if (!process.send) {
+      throw new Error('IpcClusterBus needs a process started by the cluster primary');
+    }
+  }
+
+  publish(envelope: ClusterEnvelope): void {
+    process.send!({ type: CLUSTER_ADAPTER_MESSAGE, envelope });
+  }
+
+  subscribe(listener: (envelope: ClusterEnvelope) => void): () => void {
+    const onMessage = (message: any) => {
+      if (message?.type === CLUSTER_ADAPTER_MESSAGE && message.envelope) {
+        listener(message.envelope);
+      }
+    };
+    process.on('message', onMessage);
+    return () => {
+      process.off('message', onMessage);
+    };
+  }
+}
+
+/**
+ * Adapter of one namespace on one server, publishing through the bus
+ */
+class BusAdapter extends ClusterAdapterWithHeartbeat {
+  private unsubscribe: () => void;
+
+  constructor(nsp: Namespace, private bus: ClusterBus, opts: ClusterAdapterOptions) {
+    super(nsp, opts);
+    this.unsubscribe = bus.subscribe(envelope => this.onEnvelope(envelope));
+    // Announce this server to the others (the installed socket.io does not call init() itself)
+    this.init();
+  }
+
+  private onEnvelope(envelope: ClusterEnvelope) {
+    if (envelope.kind === 'message') {
+      if (envelope.message.nsp === this.nsp.name) {
+        this.onMessage(envelope.message);
+      }
+    } else if (envelope.requesterUid === this.uid && envelope.response.nsp === this.nsp.name) {
+      this.onResponse(envelope.response);
+    }
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    this.bus.publish({ kind: 'message', message });
+    // Offsets are only needed for connection state recovery, which is not enabled
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+    this.bus.publish({ kind: 'response', requesterUid, response });
+  }
+
+  close() {
+    super.close();
+    this.unsubscribe();
+  }
+}
+
+/**
+ * Adapter constructor for the Socket.IO `adapter` option
+ * @param bus - Transport shared by the servers of the cluster
+ * @param opts - Heartbeat settings used to detect servers that went away
+ */
+export function createClusterAdapter(bus: ClusterBus, opts: ClusterAdapterOptions = {}) {
+  // Socket.IO instantiates the adapter of each namespace with `new`
+  return class extends BusAdapter {
+    constructor(nsp: Namespace) {
+      super(nsp, bus, opts);
+    }
+  };
+}
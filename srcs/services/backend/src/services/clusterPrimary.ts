@@ -0,0 +1,188 @@
+/**
+ * Cluster Primary
+ *
+ * Runs the backend as several worker processes behind one port. The primary
+ * only accepts connections and hands each one to a worker:
+ * - game sockets carry their room id in the handshake query (`room`), and go
+ *   to the worker that owns that room, so all players of a match meet there
+ * - every other connection (REST API, presence and chat sockets) goes to a
+ *   worker picked from the client address, so long-polling requests of one
+ *   client keep hitting the same worker
+ * It also relays the Socket.IO adapter messages between the workers, so
+ * broadcasts reach the clients of every worker.
+ */
+
+import cluster, { Worker } from 'cluster';
+import net from 'net';
+import { Server as HTTPServer } from 'http';
+import { CLUSTER_ADAPTER_MESSAGE } from './clusterAdapter';
+import { WORKER_ID_ENV, getRoomOwner, hashKey } from './roomOwnership';
+
+/** IPC message type of a connection handed to a worker */
+export const CLUSTER_CONNECTION_MESSAGE = 'cluster:connection';
+
+/** IPC message type a worker sends once it serves requests */
+export const CLUSTER_READY_MESSAGE = 'cluster:ready';
+
+/** Delay before a crashed worker is replaced */
+const RESTART_DELAY_MS = 1000;
+
+/**
+ * Room id requested by the first HTTP request of a connection
+ * @param head - Start of the data the client sent
+ * @returns null if the request carries no `room` query parameter
+ */
+export function parseRequestedRoom(head: string): string | null {
+  const requestLine = /^[A-Z]+ (\S+) HTTP\/\d/.exec(head);
+  if (!requestLine) return null;
+  try {
+    return new URL(requestLine[1], 'http://localhost').searchParams.get('room') || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Index of the worker that should serve a connection
+ * @param head - Start of the data the client sent
+ * @param remoteAddress - Client address, for connections not tied to a room
+ * @param workerCount - Number of workers in the cluster
+ */
+export function routeConnection(head: string, remoteAddress: string, workerCount: number): number {
+  const room = parseRequestedRoom(head);
+  return room ? getRoomOwner(room, workerCount) : hashKey(remoteAddress) % workerCount;
+}
+
+/**
+ * Start the primary: fork the workers and route the connections to them
+ * @param workerCount - Number of worker processes
+ * @param port - Public port
+ * @param host - Public interface
+ */
+export async function startClusterPrimary(workerCount: number, port: number, host: string): Promise<void> {
+  const workers: Array<Worker | null> = new Array(workerCount).fill(null);
+  let shuttingDown = false;
+
+  // Adapter messages may carry binary packets; under ts-node (npm run dev)
+  // the workers need its loader too
+  const runsTypeScript = process.argv[1]?.endsWith('.ts');
+  cluster.setupPrimary({
+    serialization: 'advanced',
+    ...(runsTypeScript ? { execArgv: [...process.execArgv, '-r', 'ts-node/register'] } : {})
+  });
+
+  const fork = (workerId: number): Promise<Worker> => {
+    const worker = cluster.fork({ [WORKER_ID_ENV]: String(workerId) });
+    workers[workerId] = worker;
+
+    worker.on('message', (message: any) => {
+      if (message?.type === CLUSTER_ADAPTER_MESSAGE) {
+        for (const other of workers) {
+          if (other && other !== worker && other.isConnected()) {
+            other.send(message);
+          }
+        }
+      }
+    });
+
+    worker.on('exit', (code, signal) => {
+      if (workers[workerId] === worker) {
+        workers[workerId] = null;
+      }
+      if (shuttingDown) return;
+      console.error(`❌ Worker ${workerId} exited (${signal || code}), restarting it`);
+      // Its replacement restores the rooms it owned from their snapshots
+      setTimeout(() => {
+        fork(workerId).catch(error => console.error(`❌ Error restarting worker ${workerId}:`, error));
+      }, RESTART_DELAY_MS);
+    });
+
+    return new Promise((resolve, reject) => {
+      const onReady = (message: any) => {
+        if (message?.type === CLUSTER_READY_MESSAGE) {
+          worker.off('message', onReady);
+          worker.off('exit', onExit);
+          resolve(worker);
+        }
+      };
+      const onExit = () => reject(new Error(`Worker ${workerId} exited before it was ready`));
+      worker.on('message', onReady);
+      worker.once('exit', onExit);
+    });
+  };
+
+  // The first worker runs the database migrations alone, the others start once it is up
+  await fork(0);
+  await Promise.all(Array.from({ length: workerCount - 1 }, (_, i) => fork(i + 1)));
+  console.log(`🧩 ${workerCount} backend workers ready`);
+
+  const server = net.createServer(connection => {
+    connection.once('data', chunk => {
+      connection.pause();
+      const workerId = routeConnection(chunk.toString('latin1'), connection.remoteAddress || '', workerCount);
+      const worker = workers[workerId];
+      if (!worker || !worker.isConnected()) {
+        // The owner is restarting; the client reconnects and lands on its replacement
+        connection.destroy();
+        return;
+      }
+      worker.send(
+        { type: CLUSTER_CONNECTION_MESSAGE, data: chunk.toString('base64') },
+        connection,
+        { keepOpen: false },
+        error => {
+          if (error) {
+            console.error(`❌ Error handing a connection to worker ${workerId}:`, error);
+            connection.destroy();
+          }
+        }
+      );
+    });
+    connection.on('error', error => {
+      console.error('❌ Connection error in the cluster primary:', error.message);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => resolve());
+  });
+  console.log(`🧩 Cluster primary listening on http://${host}:${port}`);
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`🧩 Received ${signal}, stopping the workers...`);
+    server.close();
+
+    // Each worker saves its rooms before exiting
+    await Promise.all(workers.map(worker => {
+      if (!worker || worker.isDead()) return Promise.resolve();
+      return new Promise<void>(resolve => {
+        worker.once('exit', () => resolve());
+        worker.process.kill('SIGTERM');
+      });
+    }));
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+}
+
+/**
+ * Serve the connections the primary hands to this worker on its HTTP server,
+ * then tell the primary the worker is ready
+ */
+export function serveClusterConnections(httpServer: HTTPServer): void {
+  process.on('message', (message: any, connection?: net.Socket) => {
+    if (message?.type !== CLUSTER_CONNECTION_MESSAGE || !connection) return;
+    httpServer.emit('connection', connection);
+    // Replay the data the primary read to pick this worker
+    connection.push(Buffer.from(message.data, 'base64'));
+    connection.resume();
+  });
+  // Without its primary the worker is unreachable; save the rooms and stop
+  process.once('disconnect', () => process.kill(process.pid, 'SIGTERM'));
+  process.send!({ type: CLUSTER_READY_MESSAGE });
+}
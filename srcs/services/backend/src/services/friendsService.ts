@@ -5,6 +5,7 @@
  */
 
 import { DatabaseService } from './databaseService';
+import { AchievementService } from './achievementService';
 
 export interface Friend {
   id: string;
@@ -84,6 +85,16 @@ export class FriendsService {
     if (result.changes === 0) {
       throw new Error('Friend request not found or already processed');
     }
+
+    // Both players gained a friend
+    const request = await DatabaseService.get('SELECT user_id, friend_id FROM friends WHERE id = ?', [requestId]);
+    for (const playerId of [request.user_id, request.friend_id]) {
+      const { count } = await DatabaseService.get(
+        "SELECT COUNT(*) AS count FROM friends WHERE (user_id = ? OR friend_id = ?) AND status = 'accepted'",
+        [playerId, playerId]
+      );
+      await AchievementService.record({ type: 'friend_added', userId: String(playerId), friendCount: count });
+    }
   }
 
   /**
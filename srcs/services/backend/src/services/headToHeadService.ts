@@ -0,0 +1,126 @@
+/**
+ * Head-to-Head Service
+ *
+ * A player's record against one opponent. The overall record and the recent
+ * matches come from the player's match_history (tournament games included);
+ * tournament meetings come from the finished tournament_matches the two
+ * players met in, so bracket rounds show even when no history was kept.
+ */
+
+import { DatabaseService } from './databaseService';
+
+/** Recent matches returned when no limit is asked for */
+export const DEFAULT_RECENT_MATCHES = 5;
+
+export interface HeadToHeadMatch {
+  id: number;
+  userScore: number;
+  opponentScore: number;
+  result: 'win' | 'loss' | 'draw';
+  gameMode: string;
+  playedAt: string;
+}
+
+export interface TournamentMeeting {
+  tournamentId: number;
+  tournamentName: string;
+  round: number;
+  userScore: number;
+  opponentScore: number;
+  won: boolean;
+  forfeit: boolean;
+  finishedAt: string | null;
+}
+
+export interface HeadToHeadRecord {
+  matches: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  pointDifferential: number;
+  recentMatches: HeadToHeadMatch[];
+  tournamentMeetings: TournamentMeeting[];
+}
+
+export class HeadToHeadService {
+  /**
+   * Record of a player against an opponent, from the player's side
+   * @param recentLimit - How many of the latest matches to list
+   */
+  static async getHeadToHead(
+    userId: number,
+    opponentId: number,
+    recentLimit: number = DEFAULT_RECENT_MATCHES
+  ): Promise<HeadToHeadRecord> {
+    const totals = await DatabaseService.get(
+      `SELECT COUNT(*) AS matches,
+              SUM(CASE WHEN result = 'win' THEN 1 ELSE 0 END) AS wins,
+              SUM(CASE WHEN result = 'loss' THEN 1 ELSE 0 END) AS losses,
+              SUM(CASE WHEN result = 'draw' THEN 1 ELSE 0 END) AS draws,
+              COALESCE(SUM(user_score), 0) AS points_for,
+              COALESCE(SUM(opponent_score), 0) AS points_against
+       FROM match_history
+       WHERE user_id = $1 AND opponent_id = $2`,
+      [userId, opponentId]
+    );
+
+    const recent = await DatabaseService.query(
+      `SELECT id, user_score, opponent_score, result, game_mode, played_at
+       FROM match_history
+       WHERE user_id = $1 AND opponent_id = $2
+       ORDER BY played_at DESC, id DESC
+       LIMIT $3`,
+      [userId, opponentId, recentLimit]
+    );
+
+    const meetings = await DatabaseService.query(
+      `SELECT t.id AS tournament_id, t.name AS tournament_name, tm.round, tm.status, tm.finished_at,
+              tm.winner_id, p1.id AS player1_id, p1.user_id AS player1_user_id,
+              tm.player1_score, tm.player2_score
+       FROM tournament_matches tm
+       JOIN tournaments t ON t.id = tm.tournament_id
+       JOIN tournament_participants p1 ON p1.id = tm.player1_id
+       JOIN tournament_participants p2 ON p2.id = tm.player2_id
+       WHERE tm.status IN ('completed', 'forfeit')
+         AND ((p1.user_id = $1 AND p2.user_id = $2) OR (p1.user_id = $3 AND p2.user_id = $4))
+       ORDER BY tm.finished_at DESC, tm.id DESC`,
+      [userId, opponentId, opponentId, userId]
+    );
+
+    const pointsFor = parseInt(totals?.points_for) || 0;
+    const pointsAgainst = parseInt(totals?.points_against) || 0;
+    return {
+      matches: parseInt(totals?.matches) || 0,
+      wins: parseInt(totals?.wins) || 0,
+      losses: parseInt(totals?.losses) || 0,
+      draws: parseInt(totals?.draws) || 0,
+      pointsFor,
+      pointsAgainst,
+      pointDifferential: pointsFor - pointsAgainst,
+      recentMatches: recent.map((match: any) => ({
+        id: match.id,
+        userScore: match.user_score,
+        opponentScore: match.opponent_score,
+        result: match.result,
+        gameMode: match.game_mode,
+        playedAt: match.played_at
+      })),
+      tournamentMeetings: meetings.map((meeting: any) => {
+        const userIsPlayer1 = meeting.player1_user_id === userId;
+        const userParticipantWon = (meeting.winner_id === meeting.player1_id) === userIsPlayer1;
+        return {
+          tournamentId: meeting.tournament_id,
+          tournamentName: meeting.tournament_name,
+          round: meeting.round,
+          userScore: userIsPlayer1 ? meeting.player1_score : meeting.player2_score,
+          opponentScore: userIsPlayer1 ? meeting.player2_score : meeting.player1_score,
+          won: meeting.winner_id !== null && userParticipantWon,
+          forfeit: meeting.status === 'forfeit',
+          finishedAt: meeting.finished_at
+        };
+      })
+    };
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Leaderboard Service
+ *
+ * Ranks players by rating; provisional ratings rank after established ones.
+ * The overall leaderboard uses the all-time statistics and ratings. Scoped to
+ * a season, a game mode or a recent period, it is built from match_history
+ * instead, with the season's ratings for a season. A season that was archived
+ * returns its final standings as they were when it ended.
+ */
+
+import { DatabaseService } from './databaseService';
+import { INITIAL_RATING, PROVISIONAL_DEVIATION, isProvisional } from '../game/glicko2';
+import type { Season } from './seasonService';
+
+export const LEADERBOARD_MODES = ['ai', 'multiplayer', 'tournament'] as const;
+export type LeaderboardMode = typeof LEADERBOARD_MODES[number];
+
+export const LEADERBOARD_PERIODS = ['week', 'month', 'all'] as const;
+export type LeaderboardPeriod = typeof LEADERBOARD_PERIODS[number];
+
+/** match_history game modes counted for each leaderboard mode */
+const MODE_GAME_MODES: Record<LeaderboardMode, string[]> = {
+  ai: ['ai'],
+  multiplayer: ['multiplayer', 'ffa'],
+  tournament: ['tournament']
+};
+
+/** SQLite date modifier of the start of each period */
+const PERIOD_START: Record<Exclude<LeaderboardPeriod, 'all'>, string> = {
+  week: '-7 days',
+  month: '-1 month'
+};
+
+export interface LeaderboardFilters {
+  season?: Season;
+  mode?: LeaderboardMode;
+  period?: LeaderboardPeriod;
+  limit?: number; // Everyone if not set
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  id: string;
+  username: string;
+  rating: number;
+  ratingDeviation: number;
+  provisional: boolean;
+  totalGames: number;
+  gamesWon: number;
+  gamesLost: number;
+  totalScore: number;
+  highestScore: number;
+  averageScore: number;
+}
+
+function toEntry(row: any, index: number): LeaderboardEntry {
+  const totalGames = parseInt(row.total_games) || 0;
+  const totalScore = parseInt(row.total_score) || 0;
+  return {
+    rank: row.rank ?? index + 1,
+    id: row.id !== null ? row.id.toString() : '',
+    username: row.username,
+    rating: row.rating,
+    ratingDeviation: row.rating_deviation,
+    provisional: isProvisional({ deviation: row.rating_deviation }),
+    totalGames,
+    gamesWon: parseInt(row.games_won) || 0,
+    gamesLost: parseInt(row.games_lost) || 0,
+    totalScore,
+    highestScore: parseInt(row.highest_score) || 0,
+    averageScore: row.average_score !== undefined ? parseFloat(row.average_score) : (totalGames > 0 ? totalScore / totalGames : 0)
+  };
+}
+
+export class LeaderboardService {
+  static async getLeaderboard(filters: LeaderboardFilters = {}): Promise<LeaderboardEntry[]> {
+    const period = filters.period && filters.period !== 'all' ? filters.period : undefined;
+
+    if (!filters.season && !filters.mode && !period) {
+      return this.getOverallLeaderboard(filters.limit);
+    }
+    if (filters.season?.status === 'archived' && !filters.mode && !period) {
+      return this.getSeasonStandings(filters.season.id, filters.limit);
+    }
+    return this.getMatchLeaderboard(filters.season, filters.mode, period, filters.limit);
+  }
+
+  /**
+   * All-time statistics and ratings
+   */
+  private static async getOverallLeaderboard(limit: number = -1): Promise<LeaderboardEntry[]> {
+    const result = await DatabaseService.query(
+      `SELECT
+        u.id,
+        u.username,
+        COALESCE(pr.rating, ?) AS rating,
+        COALESCE(pr.rating_deviation, ?) AS rating_deviation,
+        us.total_games,
+        us.games_won,
+        us.games_lost,
+        us.total_score,
+        us.highest_score,
+        us.average_score
+       FROM user_statistics us
+       JOIN users u ON us.user_id = u.id
+       LEFT JOIN player_ratings pr ON pr.user_id = us.user_id
+       WHERE u.is_active = true
+       ORDER BY COALESCE(pr.rating_deviation, ?) > ?, COALESCE(pr.rating, ?) DESC, us.games_won DESC
+       LIMIT ?`,
+      [INITIAL_RATING.rating, INITIAL_RATING.deviation, INITIAL_RATING.deviation, PROVISIONAL_DEVIATION, INITIAL_RATING.rating, limit]
+    );
+    return result.map(toEntry);
+  }
+
+  /**
+   * Final standings archived when a season ended
+   */
+  private static async getSeasonStandings(seasonId: number, limit: number = -1): Promise<LeaderboardEntry[]> {
+    const result = await DatabaseService.query(
+      `SELECT rank, user_id AS id, username, rating, rating_deviation,
+              total_games, games_won, games_lost, total_score, highest_score
+       FROM season_standings
+       WHERE season_id = ?
+       ORDER BY rank
+       LIMIT ?`,
+      [seasonId, limit]
+    );
+    return result.map(toEntry);
+  }
+
+  /**
+   * Statistics of the matches played in a season, mode and/or period; games
+   * against the AI are unrated, so the AI leaderboard ranks by wins
+   */
+  private static async getMatchLeaderboard(
+    season: Season | undefined,
+    mode: LeaderboardMode | undefined,
+    period: Exclude<LeaderboardPeriod, 'all'> | undefined,
+    limit: number = -1
+  ): Promise<LeaderboardEntry[]> {
+    const params: any[] = [INITIAL_RATING.rating, INITIAL_RATING.deviation];
+    const ratings = season
+      ? 'LEFT JOIN season_ratings r ON r.user_id = u.id AND r.season_id = ?'
+      : 'LEFT JOIN player_ratings r ON r.user_id = u.id';
+    if (season) params.push(season.id);
+
+    const conditions = ['u.is_active = true'];
+    if (season) {
+      conditions.push('mh.played_at >= ?', 'mh.played_at < ?');
+      params.push(season.startsAt, season.endsAt);
+    }
+    if (period) {
+      conditions.push("mh.played_at >= datetime('now', ?)");
+      params.push(PERIOD_START[period]);
+    }
+    if (mode) {
+      const gameModes = MODE_GAME_MODES[mode];
+      conditions.push(`mh.game_mode IN (${gameModes.map(() => '?').join(', ')})`);
+      params.push(...gameModes);
+    }
+
+    let order = 'games_won DESC, total_score DESC';
+    if (mode !== 'ai') {
+      order = `COALESCE(r.rating_deviation, ?) > ?, COALESCE(r.rating, ?) DESC, ${order}`;
+      params.push(INITIAL_RATING.deviation, PROVISIONAL_DEVIATION, INITIAL_RATING.rating);
+    }
+    params.push(limit);
+
+    const result = await DatabaseService.query(
+      `SELECT
+        u.id,
+        u.username,
+        COALESCE(r.rating, ?) AS rating,
+        COALESCE(r.rating_deviation, ?) AS rating_deviation,
+        COUNT(*) AS total_games,
+        SUM(CASE WHEN mh.result = 'win' THEN 1 ELSE 0 END) AS games_won,
+        SUM(CASE WHEN mh.result = 'win' THEN 0 ELSE 1 END) AS games_lost,
+        SUM(mh.user_score) AS total_score,
+        MAX(mh.user_score) AS highest_score
+       FROM match_history mh
+       JOIN users u ON u.id = mh.user_id
+       ${ratings}
+       WHERE ${conditions.join(' AND ')}
+       GROUP BY u.id
+       ORDER BY ${order}
+       LIMIT ?`,
+      params
+    );
+    return result.map(toEntry);
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Match History Service
+ *
+ * Lists a player's match_history rows with filters and keyset (cursor)
+ * pagination: the cursor is the sort value and id of the last match of a
+ * page, so pages stay stable while new matches are added. Exports walk the
+ * same pages, so the full history is streamed without being held in memory.
+ */
+
+import { DatabaseService } from './databaseService';
+
+export const MATCH_HISTORY_MODES = ['ai', 'multiplayer', 'tournament', 'ffa'] as const;
+export type MatchHistoryMode = typeof MATCH_HISTORY_MODES[number];
+
+export const MATCH_HISTORY_RESULTS = ['win', 'loss', 'draw'] as const;
+export type MatchHistoryResult = typeof MATCH_HISTORY_RESULTS[number];
+
+export const MATCH_HISTORY_SORTS = ['newest', 'oldest', 'longest', 'margin'] as const;
+export type MatchHistorySort = typeof MATCH_HISTORY_SORTS[number];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/** Page size used while exporting */
+const EXPORT_PAGE_SIZE = 500;
+
+/** Expression ordered by each sort and its direction; ties are broken by id the same way */
+const SORT_ORDER: Record<MatchHistorySort, { expression: string; descending: boolean }> = {
+  newest: { expression: 'mh.played_at', descending: true },
+  oldest: { expression: 'mh.played_at', descending: false },
+  longest: { expression: 'COALESCE(mh.duration, 0)', descending: true },
+  margin: { expression: '(mh.user_score - mh.opponent_score)', descending: true }
+};
+
+export interface MatchHistoryFilters {
+  /** Played on or after: a date (YYYY-MM-DD) or a timestamp */
+  from?: string;
+  /** Played on or before; a date covers that whole day */
+  to?: string;
+  mode?: MatchHistoryMode;
+  result?: MatchHistoryResult;
+  /** Part of the opponent's name */
+  opponent?: string;
+  sort?: MatchHistorySort;
+}
+
+export interface MatchHistoryEntry {
+  id: string;
+  opponentName: string;
+  opponentAvatar: string | null;
+  userScore: number;
+  opponentScore: number;
+  result: MatchHistoryResult;
+  gameMode: string;
+  duration: number | null;
+  playedAt: string;
+  placement: number | null;
+  aiProfile: string | null;
+  telemetry: object | null; // Server-run matches only
+}
+
+export interface MatchHistoryPage {
+  matches: MatchHistoryEntry[];
+  /** Cursor of the next page, null on the last one */
+  nextCursor: string | null;
+}
+
+/**
+ * Thrown for a cursor that was not returned by getPage
+ */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Thrown for a from or to filter that is shaped like a date but is not one (2024-13-45, 2023-02-29)
+ */
+export class InvalidDateError extends Error {
+  constructor(value: string) {
+    super(`Invalid date: ${value}`);
+    this.name = 'InvalidDateError';
+  }
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDate(value: string): Date {
+  const date = new Date(value);
+  // Days past the end of a month roll over (2024-02-30 parses as March 1),
+  // so the calendar date is checked on its own as well
+  const [year, month, day] = value.slice(0, 10).split('-').map(Number);
+  const calendarDate = new Date(Date.UTC(year, month - 1, day));
+  if (Number.isNaN(date.getTime())
+      || calendarDate.getUTCFullYear() !== year
+      || calendarDate.getUTCMonth() !== month - 1
+      || calendarDate.getUTCDate() !== day) {
+    throw new InvalidDateError(value);
+  }
+  return date;
+}
+
+/**
+ * Check the date filters up front, for callers that only read the matches later
+ * @throws InvalidDateError
+ */
+export function validateFilters(filters: MatchHistoryFilters): void {
+  if (filters.from) parseDate(filters.from);
+  if (filters.to) parseDate(filters.to);
+}
+
+/**
+ * SQLite timestamp (as CURRENT_TIMESTAMP stores it) of a date or timestamp
+ */
+function toSqliteTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function encodeCursor(sortValue: string | number, id: number): string {
+  return Buffer.from(JSON.stringify([sortValue, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [string | number, number] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (Array.isArray(decoded) && decoded.length === 2
+        && ['string', 'number'].includes(typeof decoded[0]) && Number.isInteger(decoded[1])) {
+      return decoded as [string | number, number];
+    }
+  } catch {
+    // Reported below
+  }
+  throw new InvalidCursorError();
+}
+
+function toEntry(row: any): MatchHistoryEntry {
+  return {
+    id: row.id.toString(),
+    opponentName: row.opponent_name || row.opponent_username || 'Unknown',
+    opponentAvatar: row.opponent_avatar,
+    userScore: row.user_score,
+    opponentScore: row.opponent_score,
+    result: row.result,
+    gameMode: row.game_mode,
+    duration: row.duration,
+    playedAt: row.played_at,
+    placement: row.placement,
+    aiProfile: row.ai_profile,
+    telemetry: row.telemetry ? JSON.parse(row.telemetry) : null
+  };
+}
+
+export class MatchHistoryService {
+  /**
+   * One page of a player's matches
+   * @param cursor - nextCursor of the previous page (first page if not set)
+   */
+  static async getPage(
+    userId: number,
+    filters: MatchHistoryFilters = {},
+    cursor?: string,
+    limit: number = DEFAULT_PAGE_SIZE
+  ): Promise<MatchHistoryPage> {
+    const sort = SORT_ORDER[filters.sort ?? 'newest'];
+    const conditions = ['mh.user_id = ?'];
+    const params: any[] = [userId];
+
+    if (filters.from) {
+      conditions.push('mh.played_at >= ?');
+      params.push(toSqliteTimestamp(parseDate(filters.from)));
+    }
+    if (filters.to) {
+      if (DATE_ONLY.test(filters.to)) {
+        const nextDay = parseDate(filters.to);
+        nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+        conditions.push('mh.played_at < ?');
+        params.push(toSqliteTimestamp(nextDay));
+      } else {
+        conditions.push('mh.played_at <= ?');
+        params.push(toSqliteTimestamp(parseDate(filters.to)));
+      }
+    }
+    if (filters.mode) {
+      conditions.push('mh.game_mode = ?');
+      params.push(filters.mode);
+    }
+    if (filters.result) {
+      conditions.push('mh.result = ?');
+      params.push(filters.result);
+    }
+    if (filters.opponent) {
+      conditions.push("COALESCE(mh.opponent_name, u.username, '') LIKE ? ESCAPE '\\'");
+      params.push(`%${filters.opponent.replace(/[\\%_]/g, '\\$&')}%`);
+    }
+    if (cursor) {
+      const [sortValue, id] = decodeCursor(cursor);
+      const comparison = sort.descending ? '<' : '>';
+      conditions.push(`(${sort.expression} ${comparison} ? OR (${sort.expression} = ? AND mh.id ${comparison} ?))`);
+      params.push(sortValue, sortValue, id);
+    }
+
+    const direction = sort.descending ? 'DESC' : 'ASC';
+    const rows = await DatabaseService.query(
+      `SELECT
+        mh.id, mh.opponent_name, mh.user_score, mh.opponent_score,
+        mh.result, mh.game_mode, mh.duration, mh.played_at, mh.placement, mh.ai_profile, mh.telemetry,
+        u.username as opponent_username, u.avatar_url as opponent_avatar,
+        ${sort.expression} AS sort_value
+       FROM match_history mh
+       LEFT JOIN users u ON u.id = mh.opponent_id
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ${sort.expression} ${direction}, mh.id ${direction}
+       LIMIT ?`,
+      [...params, limit + 1]
+    );
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      matches: page.map(toEntry),
+      nextCursor: hasMore && last ? encodeCursor(last.sort_value, last.id) : null
+    };
+  }
+
+  /**
+   * Every match of a player matching the filters, a page at a time
+   */
+  static async *iterate(userId: number, filters: MatchHistoryFilters = {}): AsyncGenerator<MatchHistoryEntry> {
+    let cursor: string | undefined;
+    do {
+      const page = await this.getPage(userId, filters, cursor, EXPORT_PAGE_SIZE);
+      yield* page.matches;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+}
+
+/** Columns of the CSV export, in order */
+const CSV_COLUMNS: Array<keyof MatchHistoryEntry> = [
+  'id', 'playedAt', 'gameMode', 'opponentName', 'userScore', 'opponentScore',
+  'result', 'duration', 'placement', 'aiProfile'
+];
+
+/** Leading characters that make a spreadsheet run a cell as a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  // Names come from players (guest aliases included), so a formula is kept as text
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV lines (header first) of the exported matches
+ */
+export async function* toCsvLines(matches: AsyncIterable<MatchHistoryEntry>): AsyncGenerator<string> {
+  yield CSV_COLUMNS.join(',') + '\r\n';
+  for await (const match of matches) {
+    yield CSV_COLUMNS.map(column => toCsvField(match[column])).join(',') + '\r\n';
+  }
+}
+
+/**
+ * Chunks of a JSON array of the exported matches
+ */
+export async function* toJsonChunks(matches: AsyncIterable<MatchHistoryEntry>): AsyncGenerator<string> {
+  let first = true;
+  yield '[';
+  for await (const match of matches) {
+    yield (first ? '' : ',') + JSON.stringify(match);
+    first = false;
+  }
+  yield ']';
+}
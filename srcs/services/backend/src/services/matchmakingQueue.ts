@@ -0,0 +1,216 @@
+/**
+ * Matchmaking Queue
+ *
+ * Players waiting for an opponent of a similar rating. Each player accepts
+ * opponents within a rating window that starts narrow and widens the longer
+ * they wait, so nobody waits forever for a perfect match; two players are
+ * paired once each one's window covers the other.
+ */
+
+/** Id of the room whose owner worker hosts the queue (see roomOwnership) */
+export const MATCHMAKING_ROOM = 'matchmaking';
+
+/** Time between two pairing rounds */
+export const MATCHMAKING_TICK_MS = 1000;
+
+/** Rating difference accepted right after joining */
+export const MATCHMAKING_BASE_WINDOW = 100;
+
+/** Rating difference added to the window per second of waiting */
+export const MATCHMAKING_WINDOW_GROWTH = 25;
+
+/** Widest window; players further apart are never paired */
+export const MATCHMAKING_MAX_WINDOW = 1000;
+
+/** Players queued over REST leave the queue when they stop polling this long */
+export const MATCHMAKING_POLL_TIMEOUT_MS = 30000;
+
+/** Seats of a matched player who never joins the room are released after this long */
+export const MATCHMAKING_JOIN_TIMEOUT_MS = 30000;
+
+/** Rating of players without a record (guests) */
+export const MATCHMAKING_DEFAULT_RATING = 1000;
+
+/** Number of recent pairings the average wait time is taken from */
+const RECENT_WAITS = 20;
+
+export interface QueueEntry {
+  userId: string;
+  rating: number;
+  gameSpeed: 'slow' | 'normal' | 'fast'; // Only players asking for the same speed are paired
+  joinedAt: number;
+  lastSeenAt: number; // Last time the player joined or polled
+  viaSocket: boolean; // Queued from a socket, left when it disconnects rather than when polling stops
+}
+
+export interface QueuePairing {
+  first: QueueEntry; // Waited the longest of the two
+  second: QueueEntry;
+}
+
+/**
+ * What the UI shows while searching
+ */
+export interface QueueStatus {
+  queued: boolean;
+  size: number; // Players in the queue
+  waitMs: number; // How long this player has been waiting
+  searchWindow: number; // Rating difference this player currently accepts
+  averageWaitMs: number | null; // Average wait of the recent pairings
+}
+
+/**
+ * Room a player was matched into, sent with `match_found`
+ */
+export interface MatchFound {
+  roomId: string;
+  playerSide: 'left' | 'right';
+  opponentId: string;
+  gameSpeed: 'slow' | 'normal' | 'fast';
+}
+
+/**
+ * Queue status of a player, with the match found for them if any
+ * (players queued over REST learn about their match by polling)
+ */
+export interface MatchmakingStatus extends QueueStatus {
+  match: MatchFound | null;
+}
+
+/**
+ * Rating difference a player accepts after waiting for some time
+ */
+export function getSearchWindow(waitMs: number): number {
+  const window = MATCHMAKING_BASE_WINDOW + Math.max(0, waitMs) / 1000 * MATCHMAKING_WINDOW_GROWTH;
+  return Math.min(MATCHMAKING_MAX_WINDOW, Math.floor(window));
+}
+
+export class MatchmakingQueue {
+  private entries: Map<string, QueueEntry> = new Map();
+  private recentWaits: number[] = [];
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(userId: string): boolean {
+    return this.entries.has(userId);
+  }
+
+  get(userId: string): QueueEntry | undefined {
+    return this.entries.get(userId);
+  }
+
+  /**
+   * Ids of the queued players, longest waiting first
+   */
+  userIds(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Add a player; a player already queued keeps their place
+   * @returns false if the player was already queued
+   */
+  join(entry: QueueEntry): boolean {
+    if (this.entries.has(entry.userId)) {
+      this.touch(entry.userId, entry.lastSeenAt, entry.viaSocket);
+      return false;
+    }
+    this.entries.set(entry.userId, { ...entry });
+    return true;
+  }
+
+  /**
+   * @returns false if the player was not queued
+   */
+  leave(userId: string): boolean {
+    return this.entries.delete(userId);
+  }
+
+  /**
+   * Record that a queued player is still around
+   * @param viaSocket - The player now also searches from a socket
+   */
+  touch(userId: string, now: number, viaSocket: boolean = false): void {
+    const entry = this.entries.get(userId);
+    if (entry) {
+      entry.lastSeenAt = now;
+      entry.viaSocket = entry.viaSocket || viaSocket;
+    }
+  }
+
+  /**
+   * Drop the players queued over REST who stopped polling
+   * @returns The ids of the dropped players
+   */
+  prune(now: number, maxIdleMs: number = MATCHMAKING_POLL_TIMEOUT_MS): string[] {
+    const dropped: string[] = [];
+    for (const entry of this.entries.values()) {
+      if (!entry.viaSocket && now - entry.lastSeenAt > maxIdleMs) {
+        dropped.push(entry.userId);
+      }
+    }
+    dropped.forEach(userId => this.entries.delete(userId));
+    return dropped;
+  }
+
+  getStatus(userId: string, now: number): QueueStatus {
+    const entry = this.entries.get(userId);
+    const waitMs = entry ? now - entry.joinedAt : 0;
+    return {
+      queued: entry !== undefined,
+      size: this.entries.size,
+      waitMs,
+      searchWindow: getSearchWindow(waitMs),
+      averageWaitMs: this.recentWaits.length > 0
+        ? Math.round(this.recentWaits.reduce((sum, wait) => sum + wait, 0) / this.recentWaits.length)
+        : null
+    };
+  }
+
+  /**
+   * Pair the players whose windows cover each other; the longest waiting
+   * players are served first, each with the closest rated opponent available.
+   * Paired players leave the queue.
+   * @param canPair - Whether two players may play each other (e.g. neither blocked the other)
+   */
+  async findPairings(now: number, canPair: (first: QueueEntry, second: QueueEntry) => Promise<boolean>): Promise<QueuePairing[]> {
+    const waiting = Array.from(this.entries.values()).sort((a, b) => a.joinedAt - b.joinedAt);
+    const paired = new Set<string>();
+    const pairings: QueuePairing[] = [];
+
+    for (const first of waiting) {
+      if (paired.has(first.userId)) continue;
+      const firstWindow = getSearchWindow(now - first.joinedAt);
+
+      const candidates = waiting
+        .filter(second => second !== first && !paired.has(second.userId) && second.gameSpeed === first.gameSpeed)
+        .filter(second => {
+          const difference = Math.abs(first.rating - second.rating);
+          return difference <= firstWindow && difference <= getSearchWindow(now - second.joinedAt);
+        })
+        .sort((a, b) => Math.abs(first.rating - a.rating) - Math.abs(first.rating - b.rating));
+
+      for (const second of candidates) {
+        if (await canPair(first, second)) {
+          paired.add(first.userId);
+          paired.add(second.userId);
+          pairings.push({ first, second });
+          break;
+        }
+      }
+    }
+
+    // Either player may have left while the checks ran
+    const confirmed = pairings.filter(({ first, second }) => this.entries.get(first.userId) === first && this.entries.get(second.userId) === second);
+    for (const { first, second } of confirmed) {
+      this.entries.delete(first.userId);
+      this.entries.delete(second.userId);
+      this.recentWaits.push(now - first.joinedAt, now - second.joinedAt);
+    }
+    this.recentWaits.splice(0, Math.max(0, this.recentWaits.length - RECENT_WAITS));
+
+    return confirmed;
+  }
+}
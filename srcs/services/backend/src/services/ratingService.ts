@@ -0,0 +1,203 @@
+/**
+ * Rating Service
+ *
+ * Keeps the Glicko-2 rating of registered players. Every rated match (both
+ * players registered: regular multiplayer or tournament) updates both
+ * players, overall and for the current season, and appends one
+ * rating_history row per player, in one transaction.
+ */
+
+import { DatabaseService } from './databaseService';
+import { GameScore, INITIAL_RATING, SkillRating, getSeasonStartRating, isProvisional, rateGame } from '../game/glicko2';
+import { toSqlTimestamp } from './seasonService';
+
+export interface PlayerRating extends SkillRating {
+  userId: string;
+  gamesPlayed: number;
+  /** Too few games for the rating to be trusted yet */
+  provisional: boolean;
+}
+
+/**
+ * Where a rated match was played
+ */
+export interface RatedMatchSource {
+  matchType: 'multiplayer' | 'tournament';
+  tournamentId?: number;
+  matchId?: number;
+}
+
+export interface RatingChange {
+  userId: string;
+  ratingBefore: number;
+  ratingAfter: number;
+  deviationAfter: number;
+}
+
+export interface RatingHistoryEntry extends RatingChange {
+  id: string;
+  opponentId: string | null;
+  opponentRating: number;
+  result: 'win' | 'loss' | 'draw';
+  matchType: string;
+  tournamentId: number | null;
+  matchId: number | null;
+  createdAt: string;
+}
+
+interface RatingRow {
+  user_id: number;
+  rating: number;
+  rating_deviation: number;
+  volatility: number;
+  games_played: number;
+}
+
+function toPlayerRating(userId: string, row: RatingRow | undefined): PlayerRating {
+  const rating: SkillRating = row
+    ? { rating: row.rating, deviation: row.rating_deviation, volatility: row.volatility }
+    : INITIAL_RATING;
+  return {
+    userId,
+    ...rating,
+    gamesPlayed: row ? row.games_played : 0,
+    provisional: isProvisional(rating)
+  };
+}
+
+export class RatingService {
+  /**
+   * Rating of a player (the initial, provisional rating if they never played a rated match)
+   */
+  static async getRating(userId: string): Promise<PlayerRating> {
+    const row = await DatabaseService.get(
+      'SELECT user_id, rating, rating_deviation, volatility, games_played FROM player_ratings WHERE user_id = $1',
+      [parseInt(userId, 10)]
+    ) as RatingRow | undefined;
+    return toPlayerRating(userId, row);
+  }
+
+  /**
+   * Rating of a player in a season (null if they played no rated match in it)
+   */
+  static async getSeasonRating(userId: string, seasonId: number): Promise<PlayerRating | null> {
+    const row = await DatabaseService.get(
+      'SELECT user_id, rating, rating_deviation, volatility, games_played FROM season_ratings WHERE season_id = $1 AND user_id = $2',
+      [seasonId, parseInt(userId, 10)]
+    ) as RatingRow | undefined;
+    return row ? toPlayerRating(userId, row) : null;
+  }
+
+  /**
+   * Rate a finished match between two registered players
+   * @param firstScore - Score of the first player: 1 if they won, 0 if they lost
+   * @returns The rating change of each player, first player first
+   */
+  static async recordMatch(firstUserId: string, secondUserId: string, firstScore: GameScore, source: RatedMatchSource): Promise<[RatingChange, RatingChange]> {
+    if (firstUserId === secondUserId) {
+      throw new Error('A player cannot be rated against themselves');
+    }
+
+    await DatabaseService.initialize();
+    const db = DatabaseService.getDatabase();
+    const selectRating = db.prepare('SELECT user_id, rating, rating_deviation, volatility, games_played FROM player_ratings WHERE user_id = ?');
+    const upsertRating = db.prepare(
+      `INSERT INTO player_ratings (user_id, rating, rating_deviation, volatility, games_played, updated_at)
+       VALUES (?, ?, ?, ?, 1, CURRENT_TIMESTAMP)
+       ON CONFLICT(user_id) DO UPDATE SET
+         rating = excluded.rating,
+         rating_deviation = excluded.rating_deviation,
+         volatility = excluded.volatility,
+         games_played = player_ratings.games_played + 1,
+         updated_at = CURRENT_TIMESTAMP`
+    );
+    const selectSeason = db.prepare('SELECT id FROM seasons WHERE starts_at <= ? AND ends_at > ? AND archived_at IS NULL ORDER BY starts_at DESC LIMIT 1');
+    const selectSeasonRating = db.prepare('SELECT user_id, rating, rating_deviation, volatility, games_played FROM season_ratings WHERE season_id = ? AND user_id = ?');
+    const upsertSeasonRating = db.prepare(
+      `INSERT INTO season_ratings (season_id, user_id, rating, rating_deviation, volatility, games_played, updated_at)
+       VALUES (?, ?, ?, ?, ?, 1, CURRENT_TIMESTAMP)
+       ON CONFLICT(season_id, user_id) DO UPDATE SET
+         rating = excluded.rating,
+         rating_deviation = excluded.rating_deviation,
+         volatility = excluded.volatility,
+         games_played = season_ratings.games_played + 1,
+         updated_at = CURRENT_TIMESTAMP`
+    );
+    const insertHistory = db.prepare(
+      `INSERT INTO rating_history (user_id, opponent_id, result, match_type, tournament_id, match_id, rating_before, rating_after, deviation_after, opponent_rating)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const resultOf = (score: number) => score === 1 ? 'win' : score === 0 ? 'loss' : 'draw';
+
+    // Immediate: read and write the ratings without another worker rating in between
+    const rate = db.transaction((): [RatingChange, RatingChange] => {
+      const firstId = parseInt(firstUserId, 10);
+      const secondId = parseInt(secondUserId, 10);
+      const first = toPlayerRating(firstUserId, selectRating.get(firstId) as RatingRow | undefined);
+      const second = toPlayerRating(secondUserId, selectRating.get(secondId) as RatingRow | undefined);
+      const [firstAfter, secondAfter] = rateGame(first, second, firstScore);
+
+      const players = [
+        { id: firstId, opponentId: secondId, before: first, after: firstAfter, opponent: second, score: firstScore },
+        { id: secondId, opponentId: firstId, before: second, after: secondAfter, opponent: first, score: 1 - firstScore }
+      ];
+      for (const { id, opponentId, before, after, opponent, score } of players) {
+        upsertRating.run(id, after.rating, after.deviation, after.volatility);
+        insertHistory.run(
+          id, opponentId, resultOf(score), source.matchType, source.tournamentId ?? null, source.matchId ?? null,
+          before.rating, after.rating, after.deviation, opponent.rating
+        );
+      }
+
+      // Season ratings start from the overall rating, reset, on a player's first rated match of the season
+      const now = toSqlTimestamp(new Date());
+      const season = selectSeason.get(now, now) as { id: number } | undefined;
+      if (season) {
+        const seasonRating = (userId: number, overall: SkillRating): SkillRating => {
+          const row = selectSeasonRating.get(season.id, userId) as RatingRow | undefined;
+          return row ? toPlayerRating(String(userId), row) : getSeasonStartRating(overall);
+        };
+        const [firstSeasonAfter, secondSeasonAfter] = rateGame(seasonRating(firstId, first), seasonRating(secondId, second), firstScore);
+        upsertSeasonRating.run(season.id, firstId, firstSeasonAfter.rating, firstSeasonAfter.deviation, firstSeasonAfter.volatility);
+        upsertSeasonRating.run(season.id, secondId, secondSeasonAfter.rating, secondSeasonAfter.deviation, secondSeasonAfter.volatility);
+      }
+
+      return [
+        { userId: firstUserId, ratingBefore: first.rating, ratingAfter: firstAfter.rating, deviationAfter: firstAfter.deviation },
+        { userId: secondUserId, ratingBefore: second.rating, ratingAfter: secondAfter.rating, deviationAfter: secondAfter.deviation }
+      ];
+    });
+
+    return rate.immediate();
+  }
+
+  /**
+   * Rating changes of a player, most recent first
+   */
+  static async getHistory(userId: string, limit: number = 50): Promise<RatingHistoryEntry[]> {
+    const rows = await DatabaseService.query(
+      `SELECT id, user_id, opponent_id, result, match_type, tournament_id, match_id,
+              rating_before, rating_after, deviation_after, opponent_rating, created_at
+       FROM rating_history
+       WHERE user_id = $1
+       ORDER BY id DESC
+       LIMIT $2`,
+      [parseInt(userId, 10), limit]
+    );
+
+    return rows.map((row: any) => ({
+      id: row.id.toString(),
+      userId: row.user_id.toString(),
+      opponentId: row.opponent_id !== null ? row.opponent_id.toString() : null,
+      opponentRating: row.opponent_rating,
+      result: row.result,
+      matchType: row.match_type,
+      tournamentId: row.tournament_id,
+      matchId: row.match_id,
+      ratingBefore: row.rating_before,
+      ratingAfter: row.rating_after,
+      deviationAfter: row.deviation_after,
+      createdAt: row.created_at
+    }));
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Replay Service
+ *
+ * Stores recorded match replays with their game sessions and loads them back
+ * for the replay viewer.
+ */
+
+import { DatabaseService } from './databaseService';
+import { MatchReplay } from '../game/replay';
+
+export interface StoredReplay {
+  sessionId: number;
+  roomId: string;
+  gameType: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  replay: MatchReplay;
+}
+
+export class ReplayService {
+  /**
+   * Save a finished match as a game session with its replay
+   * @returns The id of the new game session
+   */
+  static async saveReplay(roomId: string, gameType: string, replay: MatchReplay): Promise<number> {
+    const durationSeconds = Math.round(replay.ticks / replay.tickRate);
+
+    // Rooms are reused for rematches, so every session gets its own room_id
+    const result = await DatabaseService.run(
+      `INSERT INTO game_sessions (room_id, game_type, status, started_at, finished_at, replay_data)
+       VALUES ($1, $2, 'finished', datetime('now', $3), CURRENT_TIMESTAMP, $4)`,
+      [`${roomId}-${Date.now()}`, gameType, `-${durationSeconds} seconds`, JSON.stringify(replay)]
+    );
+
+    return Number(result.lastInsertRowid || result.lastID);
+  }
+
+  /**
+   * Get the replay stored with a game session
+   * @returns The replay, or null if the session does not exist or has none
+   */
+  static async getReplay(sessionId: number): Promise<StoredReplay | null> {
+    const row = await DatabaseService.get(
+      `SELECT id, room_id, game_type, started_at, finished_at, replay_data
+       FROM game_sessions
+       WHERE id = $1`,
+      [sessionId]
+    );
+
+    if (!row || !row.replay_data) {
+      return null;
+    }
+
+    return {
+      sessionId: row.id,
+      roomId: row.room_id,
+      gameType: row.game_type,
+      startedAt: row.started_at,
+      finishedAt: row.finished_at,
+      replay: JSON.parse(row.replay_data)
+    };
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Room Ownership
+ *
+ * When the backend runs as several worker processes, every game room lives
+ * in exactly one of them: the owner is derived from the room id alone, so the
+ * cluster primary can route a client to the right worker before any worker
+ * has seen the room, and a room's state is never split between processes.
+ */
+
+/** Environment variable with the number of backend worker processes */
+export const WORKER_COUNT_ENV = 'BACKEND_WORKERS';
+
+/** Environment variable the cluster primary sets to each worker's index */
+export const WORKER_ID_ENV = 'BACKEND_WORKER_ID';
+
+/**
+ * Which worker this process is, out of how many
+ */
+export interface WorkerIdentity {
+  workerId: number;
+  workerCount: number;
+}
+
+/** A backend running as a single process owns every room */
+export const SINGLE_WORKER: WorkerIdentity = { workerId: 0, workerCount: 1 };
+
+/**
+ * Number of worker processes requested by BACKEND_WORKERS (at least 1)
+ */
+export function getWorkerCount(): number {
+  const count = parseInt(process.env[WORKER_COUNT_ENV] || '', 10);
+  return Number.isSafeInteger(count) && count > 1 ? count : 1;
+}
+
+/**
+ * This process's identity, as set by the cluster primary
+ * (a process not started by the primary is the single worker)
+ */
+export function getWorkerIdentity(): WorkerIdentity {
+  const workerId = parseInt(process.env[WORKER_ID_ENV] || '', 10);
+  const workerCount = getWorkerCount();
+  if (!Number.isSafeInteger(workerId) || workerId < 0 || workerId >= workerCount) {
+    return SINGLE_WORKER;
+  }
+  return { workerId, workerCount };
+}
+
+/**
+ * 32-bit FNV-1a hash; stable across processes and restarts
+ */
+export function hashKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Index of the worker that owns a room
+ * @param roomId - Game room id
+ * @param workerCount - Number of workers in the cluster
+ */
+export function getRoomOwner(roomId: string, workerCount: number): number {
+  return workerCount > 1 ? hashKey(roomId) % workerCount : 0;
+}
+
+/**
+ * Whether a worker owns a room, i.e. may create it and run its match
+ */
+export function isRoomOwner(roomId: string, worker: WorkerIdentity): boolean {
+  return getRoomOwner(roomId, worker.workerCount) === worker.workerId;
+}
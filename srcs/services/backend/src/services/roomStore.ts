@@ -0,0 +1,191 @@
+/**
+ * Room Store
+ *
+ * Holds the live game rooms and the room each player is in. The in-memory
+ * store loses them with the process; the SQLite store also snapshots the
+ * running matches every few seconds, so they can be restored (paused) after
+ * a deploy or crash and resumed once the players reconnect. With several
+ * backend workers, each worker only replaces its own snapshots.
+ */
+
+import { DatabaseService } from './databaseService';
+import { MatchRules } from '../game/matchRules';
+import { MatchReplay, ReplayState } from '../game/replay';
+import { FfaSide } from '../game/ffaPhysics';
+import { AIProfile } from '../game/aiPlayer';
+import { TelemetryTotals } from '../game/matchTelemetry';
+
+/** Default time between two snapshots of the running matches */
+export const ROOM_SNAPSHOT_INTERVAL_MS = 5000;
+
+/** Snapshots older than this are stale (the players have long given up) and are not restored */
+export const ROOM_SNAPSHOT_MAX_AGE_MS = 30 * 60 * 1000;
+
+/**
+ * A player seated in a saved room; spectators are not saved, they simply rejoin
+ */
+export interface RoomSnapshotPlayer {
+  userId: string;
+  side: FfaSide;
+  ready: boolean;
+  name?: string;
+  bot?: AIProfile; // Server AI players are seated again with the same profile
+}
+
+/**
+ * Plain-data copy of a room with a match in progress
+ */
+export interface RoomSnapshot {
+  id: string;
+  tournamentId: number;
+  matchId: number;
+  mode: 'classic' | 'ffa';
+  gameSpeed: 'slow' | 'normal' | 'fast';
+  rules: MatchRules;
+  gameState: {
+    status: string; // Room status when the snapshot was taken
+    player1Id?: string;
+    player2Id?: string;
+    player1Ready: boolean;
+    player2Ready: boolean;
+    sides?: Partial<Record<FfaSide, string>>;
+    gameData: ReplayState;
+  };
+  seed: number;
+  rngDraws: number;
+  tick: number;
+  players: RoomSnapshotPlayer[];
+  replay?: MatchReplay; // Replay recorded so far (finished at `tick`)
+  telemetry?: TelemetryTotals; // Match metrics collected so far
+  savedAt: number;
+}
+
+/**
+ * Where the live rooms are kept
+ * @typeParam Room - The live room type; only snapshots are ever persisted
+ */
+export interface RoomStore<Room> {
+  /** Live rooms by room id */
+  readonly rooms: Map<string, Room>;
+  /** Room id of every seated player, by user id */
+  readonly playerRooms: Map<string, string>;
+
+  /**
+   * Start saving the snapshots returned by `capture` periodically
+   */
+  startSnapshots(capture: () => RoomSnapshot[]): void;
+
+  /**
+   * Stop the periodic snapshots, saving a last one first
+   */
+  stopSnapshots(): Promise<void>;
+
+  /**
+   * Rooms saved by the previous processes, to be restored on startup
+   * (the caller keeps the ones it owns)
+   */
+  loadSnapshots(): Promise<RoomSnapshot[]>;
+}
+
+/**
+ * Keeps the rooms in memory only; nothing survives a restart
+ */
+export class MemoryRoomStore<Room> implements RoomStore<Room> {
+  readonly rooms: Map<string, Room> = new Map();
+  readonly playerRooms: Map<string, string> = new Map();
+
+  startSnapshots(_capture: () => RoomSnapshot[]): void {}
+
+  async stopSnapshots(): Promise<void> {}
+
+  async loadSnapshots(): Promise<RoomSnapshot[]> {
+    return [];
+  }
+}
+
+/**
+ * Keeps the rooms in memory and snapshots the running matches to the
+ * live_room_snapshots table
+ */
+export class SqliteRoomStore<Room> extends MemoryRoomStore<Room> {
+  private timer: NodeJS.Timeout | null = null;
+  private capture: (() => RoomSnapshot[]) | null = null;
+
+  /**
+   * @param intervalMs - Time between two snapshots
+   * @param workerId - Backend worker whose snapshots this store writes
+   */
+  constructor(private readonly intervalMs: number = ROOM_SNAPSHOT_INTERVAL_MS, private readonly workerId: number = 0) {
+    super();
+  }
+
+  startSnapshots(capture: () => RoomSnapshot[]): void {
+    this.capture = capture;
+    if (this.timer) clearInterval(this.timer);
+    this.timer = setInterval(() => {
+      this.saveSnapshots().catch(error => {
+        console.error('❌ Error saving room snapshots:', error);
+      });
+    }, this.intervalMs);
+  }
+
+  async stopSnapshots(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.saveSnapshots();
+    this.capture = null;
+  }
+
+  async loadSnapshots(): Promise<RoomSnapshot[]> {
+    const rows = await DatabaseService.query('SELECT room_id, snapshot FROM live_room_snapshots') as Array<{ room_id: string; snapshot: string }>;
+    const oldest = Date.now() - ROOM_SNAPSHOT_MAX_AGE_MS;
+
+    const snapshots: RoomSnapshot[] = [];
+    for (const row of rows) {
+      try {
+        const snapshot = JSON.parse(row.snapshot) as RoomSnapshot;
+        if (snapshot.savedAt >= oldest) {
+          snapshots.push(snapshot);
+        }
+      } catch (error) {
+        console.error(`❌ Unreadable snapshot of room ${row.room_id}:`, error);
+      }
+    }
+    return snapshots;
+  }
+
+  /**
+   * Replace this worker's saved snapshots with the current ones; rooms whose
+   * match ended since the last snapshot disappear with it
+   */
+  private async saveSnapshots(): Promise<void> {
+    if (!this.capture) return;
+    const snapshots = this.capture();
+
+    await DatabaseService.transaction([
+      {
+        sql: 'DELETE FROM live_room_snapshots WHERE worker_id = $1 OR room_id IN (SELECT value FROM json_each($2))',
+        params: [this.workerId, JSON.stringify(snapshots.map(snapshot => snapshot.id))]
+      },
+      ...snapshots.map(snapshot => ({
+        sql: 'INSERT INTO live_room_snapshots (room_id, worker_id, snapshot, saved_at) VALUES ($1, $2, $3, $4)',
+        params: [snapshot.id, this.workerId, JSON.stringify(snapshot), snapshot.savedAt]
+      }))
+    ]);
+  }
+}
+
+/**
+ * Room store selected by the ROOM_STORE environment variable
+ * ('memory', or 'sqlite' by default)
+ * @param workerId - Backend worker the store belongs to
+ */
+export function createRoomStore<Room>(workerId: number = 0): RoomStore<Room> {
+  if (process.env.ROOM_STORE === 'memory') {
+    return new MemoryRoomStore<Room>();
+  }
+  const intervalMs = parseInt(process.env.ROOM_SNAPSHOT_INTERVAL_MS || '', 10) || ROOM_SNAPSHOT_INTERVAL_MS;
+  return new SqliteRoomStore<Room>(intervalMs, workerId);
+}
@@ -0,0 +1,205 @@
+/**
+ * Season Service
+ *
+ * Competitive seasons follow each other back to back: the first one starts
+ * at SEASON_START (or when the server first runs) and each lasts
+ * SEASON_LENGTH_DAYS. Ratings are reset at the start of each season (see
+ * RatingService); when a season ends its final leaderboard is archived to
+ * season_standings and the next season begins.
+ */
+
+import { DatabaseService } from './databaseService';
+import { LeaderboardService } from './leaderboardService';
+
+/** Default length of a season */
+const DEFAULT_SEASON_LENGTH_DAYS = 90;
+
+/** Time between two checks for a season that ended */
+const SEASON_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SeasonStatus = 'scheduled' | 'active' | 'ended' | 'archived';
+
+export interface Season {
+  id: number;
+  name: string;
+  startsAt: string; // UTC, in SQLite's CURRENT_TIMESTAMP format like the played_at of matches
+  endsAt: string;
+  status: SeasonStatus;
+}
+
+interface SeasonRow {
+  id: number;
+  name: string;
+  starts_at: string;
+  ends_at: string;
+  archived_at: string | null;
+}
+
+/**
+ * A date in SQLite's CURRENT_TIMESTAMP format ("YYYY-MM-DD HH:MM:SS", UTC)
+ */
+export function toSqlTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function fromSqlTimestamp(timestamp: string): Date {
+  return new Date(timestamp.replace(' ', 'T') + 'Z');
+}
+
+function getSeasonLengthMs(): number {
+  const days = parseFloat(process.env.SEASON_LENGTH_DAYS || '');
+  return (days > 0 ? days : DEFAULT_SEASON_LENGTH_DAYS) * DAY_MS;
+}
+
+/**
+ * Start of the first season from SEASON_START, if set and valid
+ */
+function getConfiguredStart(): Date | null {
+  if (!process.env.SEASON_START) return null;
+  const start = new Date(process.env.SEASON_START);
+  return isNaN(start.getTime()) ? null : start;
+}
+
+function toSeason(row: SeasonRow, now: Date): Season {
+  const timestamp = toSqlTimestamp(now);
+  const status: SeasonStatus = row.archived_at ? 'archived'
+    : timestamp < row.starts_at ? 'scheduled'
+    : timestamp < row.ends_at ? 'active'
+    : 'ended';
+  return { id: row.id, name: row.name, startsAt: row.starts_at, endsAt: row.ends_at, status };
+}
+
+export class SeasonService {
+  private static rolloverTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * All seasons, most recent first
+   */
+  static async getSeasons(now: Date = new Date()): Promise<Season[]> {
+    const rows = await DatabaseService.query(
+      'SELECT id, name, starts_at, ends_at, archived_at FROM seasons ORDER BY starts_at DESC'
+    ) as SeasonRow[];
+    return rows.map(row => toSeason(row, now));
+  }
+
+  static async getSeason(seasonId: number, now: Date = new Date()): Promise<Season | null> {
+    const row = await DatabaseService.get(
+      'SELECT id, name, starts_at, ends_at, archived_at FROM seasons WHERE id = $1',
+      [seasonId]
+    ) as SeasonRow | undefined;
+    return row ? toSeason(row, now) : null;
+  }
+
+  /**
+   * Season being played (null before the first season starts)
+   */
+  static async getCurrentSeason(now: Date = new Date()): Promise<Season | null> {
+    const timestamp = toSqlTimestamp(now);
+    const row = await DatabaseService.get(
+      'SELECT id, name, starts_at, ends_at, archived_at FROM seasons WHERE starts_at <= $1 AND ends_at > $2 ORDER BY starts_at DESC LIMIT 1',
+      [timestamp, timestamp]
+    ) as SeasonRow | undefined;
+    return row ? toSeason(row, now) : null;
+  }
+
+  /**
+   * Create the season covering `now` if there is none: it follows the last
+   * season, or starts the schedule at SEASON_START (or now). A first season
+   * configured to start later is only scheduled.
+   */
+  static async ensureCurrentSeason(now: Date = new Date()): Promise<Season | null> {
+    const current = await this.getCurrentSeason(now);
+    if (current) return current;
+
+    const lengthMs = getSeasonLengthMs();
+    const latest = await DatabaseService.get(
+      'SELECT ends_at FROM seasons WHERE starts_at <= $1 ORDER BY ends_at DESC LIMIT 1',
+      [toSqlTimestamp(now)]
+    ) as { ends_at: string } | undefined;
+    const anchor = latest ? fromSqlTimestamp(latest.ends_at) : (getConfiguredStart() ?? now);
+
+    // Seasons nobody played in are skipped rather than created empty
+    const skipped = Math.max(0, Math.floor((now.getTime() - anchor.getTime()) / lengthMs));
+    const start = new Date(anchor.getTime() + skipped * lengthMs);
+    const end = new Date(start.getTime() + lengthMs);
+
+    const { count } = await DatabaseService.get('SELECT COUNT(*) AS count FROM seasons') as { count: number };
+    // Another worker may have created it meanwhile
+    await DatabaseService.run(
+      'INSERT OR IGNORE INTO seasons (name, starts_at, ends_at) VALUES ($1, $2, $3)',
+      [`Season ${count + 1}`, toSqlTimestamp(start), toSqlTimestamp(end)]
+    );
+    console.log(`🏁 Season scheduled from ${toSqlTimestamp(start)} to ${toSqlTimestamp(end)}`);
+
+    return this.getCurrentSeason(now);
+  }
+
+  /**
+   * Archive the final standings of the seasons that ended
+   * @returns The ids of the archived seasons
+   */
+  static async archiveEndedSeasons(now: Date = new Date()): Promise<number[]> {
+    const rows = await DatabaseService.query(
+      'SELECT id, name, starts_at, ends_at, archived_at FROM seasons WHERE ends_at <= $1 AND archived_at IS NULL ORDER BY ends_at',
+      [toSqlTimestamp(now)]
+    ) as SeasonRow[];
+
+    const archived: number[] = [];
+    for (const row of rows) {
+      const standings = await LeaderboardService.getLeaderboard({ season: toSeason(row, now) });
+
+      const db = DatabaseService.getDatabase();
+      const markArchived = db.prepare('UPDATE seasons SET archived_at = ? WHERE id = ? AND archived_at IS NULL');
+      const insertStanding = db.prepare(
+        `INSERT INTO season_standings (season_id, rank, user_id, username, rating, rating_deviation, total_games, games_won, games_lost, total_score, highest_score)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      const archive = db.transaction(() => {
+        // Another worker may have archived it meanwhile
+        if (markArchived.run(toSqlTimestamp(now), row.id).changes === 0) return false;
+        for (const entry of standings) {
+          insertStanding.run(
+            row.id, entry.rank, parseInt(entry.id, 10), entry.username, entry.rating, entry.ratingDeviation,
+            entry.totalGames, entry.gamesWon, entry.gamesLost, entry.totalScore, entry.highestScore
+          );
+        }
+        return true;
+      });
+
+      if (archive.immediate()) {
+        archived.push(row.id);
+        console.log(`🏆 ${row.name} ended, archived the standings of ${standings.length} players`);
+      }
+    }
+    return archived;
+  }
+
+  /**
+   * Archive the seasons that ended and start the next one
+   */
+  static async rollover(now: Date = new Date()): Promise<Season | null> {
+    await this.archiveEndedSeasons(now);
+    return this.ensureCurrentSeason(now);
+  }
+
+  /**
+   * Roll seasons over now and then periodically
+   */
+  static async startRollover(): Promise<void> {
+    await this.rollover();
+    if (this.rolloverTimer) return;
+    this.rolloverTimer = setInterval(() => {
+      this.rollover().catch(error => console.error('❌ Error rolling seasons over:', error));
+    }, SEASON_CHECK_INTERVAL_MS);
+    this.rolloverTimer.unref();
+  }
+
+  static stopRollover(): void {
+    if (this.rolloverTimer) {
+      clearInterval(this.rolloverTimer);
+      this.rolloverTimer = null;
+    }
+  }
+}
@@ -3,56 +3,193 @@
  * Provides automatic fallback and reconnection capabilities
  */
 
-import { Server as SocketIOServer, Socket } from 'socket.io';
+import { Server as SocketIOServer, ServerOptions, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
+import { JWT } from '@fastify/jwt';
+import {
+  PaddleInputs,
+  PaddleSide,
+  PongState,
+  createInitialState,
+  forfeitMatch,
+  getLongestRally
+} from '../game/pongPhysics';
+import { RandomSource, createCountingRandom, createRandomSeed } from '../game/random';
+import { FixedTimestep, TICK_SECONDS } from '../game/fixedTimestep';
+import { InputAck } from '../game/paddlePrediction';
+import { SnapshotEncoder, quantizeState } from '../game/snapshotDelta';
+import { MatchRules, getDefaultMatchRules, matchRulesToConfig, matchRulesToFfaConfig, validateMatchRules } from '../game/matchRules';
+import { PowerUpGameState, stepWithPowerUps } from '../game/powerUps';
+import { FFA_SIDES, FfaInputs, FfaSide, FfaState, createFfaState, forfeitFfaSide, getFfaPlacements, stepFfa } from '../game/ffaPhysics';
+import { getArenaMap } from '../game/arenaMaps';
+import { ReplayRecorder, ReplayState } from '../game/replay';
+import { MatchTelemetry, TelemetryRecorder } from '../game/matchTelemetry';
+import {
+  AIDifficulty,
+  AIPaddleController,
+  AIPersonality,
+  AIPlayerOptions,
+  estimatePlayerRating,
+  formatAIProfile,
+  getAIDisplayName,
+  isAIDifficulty,
+  isAIPersonality
+} from '../game/aiPlayer';
+import { InputGuard, InputViolation, isValidInputSequence, parseInputIntent } from '../game/inputGuard';
+import { GuestTokenPayload } from '../types/auth';
+import { MemoryRoomStore, RoomSnapshot, RoomStore } from './roomStore';
+import { SINGLE_WORKER, WorkerIdentity, getRoomOwner, isRoomOwner } from './roomOwnership';
+import type { RatedMatchSource } from './ratingService';
+import { AchievementService } from './achievementService';
+import {
+  MATCHMAKING_DEFAULT_RATING,
+  MATCHMAKING_JOIN_TIMEOUT_MS,
+  MATCHMAKING_ROOM,
+  MATCHMAKING_TICK_MS,
+  MatchFound,
+  MatchmakingQueue,
+  MatchmakingStatus,
+  QueueEntry,
+  QueuePairing
+} from './matchmakingQueue';
 
 // Extend Socket type to include userId
 declare module 'socket.io' {
   interface Socket {
-    userId?: string;
+    userId?: string; // Verified at the handshake: the user id, or the guest id of a guest token
+    isGuest?: boolean;
+    guestAlias?: string; // Tournament guest alias signed into a guest token
+    playerId?: string; // Id the socket plays under in its game room, set when it joins one
+    queued?: boolean; // Joined the matchmaking queue; leaving it when the socket disconnects
   }
 }
 
+type GameMode = 'classic' | 'ffa';
+
+/** 'serving': a classic match is running and the ball is held for the serve countdown */
+type RoomStatus = 'waiting' | 'ready' | 'playing' | 'serving' | 'paused' | 'finished';
+
 interface GameRoom {
   id: string;
   tournamentId: number;
   matchId: number;
   players: Map<string, any>; // Socket.IO socket
   gameSpeed: 'slow' | 'normal' | 'fast'; // Game speed setting
+  rules: MatchRules; // Agreed match rules applied by the server physics
+  mode: GameMode; // Two-player classic or four-player free-for-all
   gameState: {
-    status: 'waiting' | 'ready' | 'playing' | 'paused' | 'finished';
+    status: RoomStatus;
     player1Id?: string; // Changed to string to support unique player IDs
     player2Id?: string; // Changed to string to support unique player IDs
     player1Ready: boolean;
     player2Ready: boolean;
+    sides?: Partial<Record<FfaSide, string>>; // Free-for-all seats (side -> userId)
     gameData?: any;
   };
+  seed: number; // Seed for the room's deterministic physics RNG
+  rng: RandomSource;
+  rngDraws: () => number; // Numbers drawn from the seed so far
+  inputs: PaddleInputs; // Currently held paddle directions
+  ffaInputs: Partial<FfaInputs>; // Held paddle directions in a free-for-all room
+  tick: number; // Number of fixed physics ticks simulated
+  inputAcks: Partial<Record<PaddleSide, InputAck>>; // Last processed input sequence per side
+  clock?: FixedTimestep; // Accumulator driving the fixed-timestep loop
+  replay?: ReplayRecorder; // Inputs of the running match, saved as its replay when it ends
+  telemetry?: TelemetryRecorder; // Metrics of the running classic match, saved with its match history
+  pausedForReconnect?: boolean; // Paused because a player dropped; resumes once everyone is back
+}
+
+/** A player who dropped out of a running match and may still come back */
+interface ReconnectGrace {
+  roomId: string;
+  side: FfaSide;
+  secondsLeft: number;
+  timer: NodeJS.Timeout;
+}
+
+/** Game loop / snapshot interval (30 FPS); physics runs at a fixed 60 ticks per second */
+const GAME_LOOP_INTERVAL_MS = 33;
+
+/** Full keyframe at least once per second of snapshots */
+const SNAPSHOT_KEYFRAME_INTERVAL = 30;
+
+/** Spectators get a snapshot every 6 ticks (10 per second) */
+const SPECTATOR_SNAPSHOT_TICK_INTERVAL = 6;
+
+/** A violation is logged the first time and then every this many times, per user and kind */
+const VIOLATION_LOG_INTERVAL = 100;
+
+/** Seconds a player who dropped out of a running match has to return before forfeiting */
+const RECONNECT_GRACE_SECONDS = parseInt(process.env.RECONNECT_GRACE_SECONDS || '30', 10) || 30;
+
+/**
+ * Whether the match clock runs in this status (the serve countdown included)
+ */
+function isMatchRunning(status: RoomStatus): boolean {
+  return status === 'playing' || status === 'serving';
 }
 
 /**
- * Convert game speed setting to actual speed values
- * This must match the frontend implementation
+ * Whether a player may reset the room: resetting would wipe the score of a
+ * match in progress, so only a match that has not started or has ended is reset
  */
-function getSpeedValues(gameSpeed: 'slow' | 'normal' | 'fast' = 'normal') {
-  switch (gameSpeed) {
-    case 'slow':
-      return { ballSpeed: 3, paddleSpeed: 5 };
-    case 'fast':
-      return { ballSpeed: 7, paddleSpeed: 12 };
-    case 'normal':
-    default:
-      return { ballSpeed: 5, paddleSpeed: 8 };
-  }
+function isResettable(status: RoomStatus): boolean {
+  return status === 'waiting' || status === 'finished';
+}
+
+/**
+ * Match history profile of a tournament participant played by the server AI
+ */
+function getTournamentBotProfile(participant: { bot_difficulty: string | null } | null | undefined): string | null {
+  return participant?.bot_difficulty && isAIDifficulty(participant.bot_difficulty)
+    ? formatAIProfile({ difficulty: participant.bot_difficulty, personality: 'balanced', adaptive: false })
+    : null;
+}
+
+/**
+ * Room player id of a tournament participant played by the server AI
+ */
+function tournamentBotId(participantId: number): string {
+  return `bot-${participantId}`;
+}
+
+/**
+ * Classic side for a requested side (top and bottom only exist in free-for-all rooms)
+ */
+function toClassicSide(side?: FfaSide): PaddleSide | undefined {
+  return side === 'left' || side === 'right' ? side : undefined;
 }
 
 class SocketIOService {
   private io: SocketIOServer;
-  private gameRooms: Map<string, GameRoom> = new Map();
-  private playerRooms: Map<string, string> = new Map();
+  private gameRooms: Map<string, GameRoom>; // Kept by the room store
+  private playerRooms: Map<string, string>; // userId -> roomId, kept by the room store
   private gameLoops: Map<string, NodeJS.Timeout> = new Map(); // userId -> roomId
-  private playerIdMapping: Map<string, string> = new Map(); // tempUserId -> realUserId
+  private snapshotEncoders: WeakMap<Socket, SnapshotEncoder<PongState | FfaState>> = new WeakMap(); // per-socket delta state
+  private reconnectGraces: Map<string, ReconnectGrace> = new Map(); // userId -> pending reconnection countdown
+  private inputGuard: InputGuard = new InputGuard(); // Per-user input budgets and violation counts
+  private matchmaking: MatchmakingQueue = new MatchmakingQueue(); // Players searching for an opponent (on the queue's worker)
+  private matchmakingTimer: NodeJS.Timeout | null = null;
+  private stopAchievementPush: () => void;
+  private matchmakingRound: Promise<void> | null = null; // Pairing round in progress
+  private matchesFound: Map<string, MatchFound> = new Map(); // userId -> match not yet picked up over REST
+
+  /**
+   * @param jwt - Fastify JWT verifier; guest tokens are checked with its guest namespace
+   * @param roomStore - Where the live rooms are kept (and snapshotted, to survive a restart)
+   * @param worker - Which backend worker this is; it only hosts the rooms it owns
+   * @param adapter - Socket.IO adapter carrying broadcasts to the other workers
+   */
+  constructor(
+    httpServer: HTTPServer,
+    private jwt: JWT,
+    private roomStore: RoomStore<GameRoom> = new MemoryRoomStore(),
+    private worker: WorkerIdentity = SINGLE_WORKER,
+    adapter?: ServerOptions['adapter']
+  ) {
+    this.gameRooms = roomStore.rooms;
+    this.playerRooms = roomStore.playerRooms;
 
-  constructor(httpServer: HTTPServer) {
     // Allow CORS from environment variable or default origins
     const allowedOrigins = process.env.CORS_ORIGIN 
       ? process.env.CORS_ORIGIN.split(',')
@@ -79,10 +216,56 @@ class SocketIOService {
         credentials: true
       },
       transports: ['websocket', 'polling'], // Enable fallback to polling
-      allowEIO3: true // Backward compatibility
+      allowEIO3: true, // Backward compatibility
+      ...(adapter ? { adapter } : {})
     });
 
+    // Every connection must present a user or guest token; its identity is pinned to the socket
+    this.io.use((socket, next) => this.authenticateSocket(socket, next));
+
     this.setupSocketHandlers();
+
+    // Unlocked achievements go to every socket of the player, on any worker
+    this.stopAchievementPush = AchievementService.onUnlock((userId, achievement) => {
+      this.io.to(this.getUserRoom(userId)).emit('achievement_unlocked', achievement);
+    });
+
+    this.restoreRooms().catch(error => {
+      console.error('❌ Error restoring rooms:', error);
+    });
+  }
+
+  /**
+   * Handshake middleware: verify the token sent in the handshake auth and pin
+   * the identity it carries to the socket, so no event trusts a userId from its payload
+   */
+  private authenticateSocket(socket: Socket, next: (err?: Error) => void) {
+    const token = socket.handshake.auth?.token;
+    if (typeof token !== 'string' || !token) {
+      console.log(`🔒 Socket.IO connection ${socket.id} rejected: no token`);
+      return next(new Error('Authentication required'));
+    }
+
+    try {
+      const payload = this.jwt.verify<{ userId: string | number }>(token);
+      if (payload.userId !== undefined && payload.userId !== null) {
+        socket.userId = String(payload.userId);
+        return next();
+      }
+    } catch (error) {
+      // Not a user token; it may still be a guest token
+    }
+
+    try {
+      const payload = this.jwt.guest.verify<GuestTokenPayload>(token);
+      socket.userId = payload.guestId;
+      socket.isGuest = true;
+      socket.guestAlias = payload.guestAlias;
+      return next();
+    } catch (error) {
+      console.log(`🔒 Socket.IO connection ${socket.id} rejected: invalid or expired token`);
+      return next(new Error('Invalid or expired token'));
+    }
   }
 
   /**
@@ -90,10 +273,13 @@ class SocketIOService {
    */
   private setupSocketHandlers() {
     this.io.on('connection', (socket) => {
-      console.log(`Socket.IO connection established: ${socket.id}`);
+      console.log(`Socket.IO connection established: ${socket.id} (${socket.isGuest ? 'guest' : 'user'} ${socket.userId})`);
+
+      // Every socket of a user shares a room, so any worker can tell whether the user is still connected
+      socket.join(this.getUserRoom(socket.userId!));
 
       // Handle joining game room
-      socket.on('join_game_room', async (data: { roomId?: string, tournamentId: number, matchId: number, userId: string, token?: string, playerSide?: 'left' | 'right', gameSpeed?: 'slow' | 'normal' | 'fast' }) => {
+      socket.on('join_game_room', async (data: { roomId?: string, tournamentId: number, matchId: number, playerSide?: FfaSide, gameSpeed?: 'slow' | 'normal' | 'fast', rules?: Partial<MatchRules>, mode?: GameMode }) => {
         console.log('\n' + '🟢'.repeat(40));
         console.log('🎯 BACKEND RECEIVED join_game_room EVENT');
         console.log('🟢'.repeat(40));
@@ -101,8 +287,8 @@ class SocketIOService {
         console.log('   roomId:', data.roomId);
         console.log('   tournamentId:', data.tournamentId);
         console.log('   matchId:', data.matchId);
-        console.log('   userId:', data.userId);
-        console.log('   token:', data.token ? 'PROVIDED' : 'NOT PROVIDED');
+        console.log('   userId (from token):', socket.userId);
+        console.log('   guest:', socket.isGuest === true, socket.guestAlias ? `(alias ${socket.guestAlias})` : '');
         console.log('   playerSide:', data.playerSide);
         console.log('   playerSide type:', typeof data.playerSide);
         console.log('   playerSide === undefined:', data.playerSide === undefined);
@@ -110,6 +296,8 @@ class SocketIOService {
         console.log('   playerSide === "left":', data.playerSide === 'left');
         console.log('   playerSide === "right":', data.playerSide === 'right');
         console.log('   gameSpeed:', data.gameSpeed);
+        console.log('   rules:', data.rules);
+        console.log('   mode:', data.mode);
         console.log('   socketId:', socket.id);
         console.log('🔍 Full data object:');
         console.log(JSON.stringify(data, null, 2));
@@ -117,57 +305,53 @@ class SocketIOService {
         
         // Default gameSpeed to 'normal' if not provided
         const gameSpeed = data.gameSpeed || 'normal';
+
+        // Reject invalid match rules before joining
+        const rulesValidation = validateMatchRules(data.rules, getDefaultMatchRules(gameSpeed));
+        if (!rulesValidation.valid) {
+          console.error('❌ Invalid match rules:', rulesValidation.errors);
+          socket.emit('error', {
+            message: `Invalid match rules: ${rulesValidation.errors.join(', ')}`,
+            errors: rulesValidation.errors
+          });
+          return;
+        }
         
-        // If token is provided, try to extract real user ID
-        if (data.token) {
-          this.extractUserIdFromToken(data.token).then(async (realUserId) => {
-            if (realUserId) {
-              console.log('🔍 Extracted real user ID from token:', realUserId, '(original userId:', data.userId, ')');
-              socket.userId = realUserId; // Store real user ID in socket
-              
-              // Store mapping between temp userId and real userId
-              this.playerIdMapping.set(data.userId, realUserId);
-              console.log('🔍 Stored player ID mapping:', data.userId, '->', realUserId);
-              
-              if (data.roomId) {
-                await this.joinGameRoomById(socket, data.roomId, realUserId, data.playerSide, gameSpeed);
-              } else {
-                await this.joinGameRoom(socket, data.tournamentId, data.matchId, realUserId, data.playerSide, gameSpeed);
-              }
-            } else {
-              console.log('⚠️ Failed to extract user ID from token, using provided userId:', data.userId);
-              if (data.roomId) {
-                await this.joinGameRoomById(socket, data.roomId, data.userId, data.playerSide, gameSpeed);
-              } else {
-                await this.joinGameRoom(socket, data.tournamentId, data.matchId, data.userId, data.playerSide, gameSpeed);
-              }
-            }
-          }).catch(async (error) => {
-            console.error('❌ Error extracting user ID from token:', error);
-            if (data.roomId) {
-              await this.joinGameRoomById(socket, data.roomId, data.userId, data.playerSide, gameSpeed);
-            } else {
-              await this.joinGameRoom(socket, data.tournamentId, data.matchId, data.userId, data.playerSide, gameSpeed);
-            }
+        // A room is only ever hosted by the worker that owns it; the cluster primary
+        // routes game sockets there from the `room` handshake query
+        const requestedRoomId = data.roomId || `tournament-${data.tournamentId}-match-${data.matchId}`;
+        if (!isRoomOwner(requestedRoomId, this.worker)) {
+          const owner = getRoomOwner(requestedRoomId, this.worker.workerCount);
+          console.error(`❌ Room ${requestedRoomId} belongs to worker ${owner}, not worker ${this.worker.workerId}`);
+          socket.emit('error', {
+            message: 'This room is hosted by another server; reconnect with the room in the handshake query',
+            code: 'wrong_worker',
+            roomId: requestedRoomId
           });
+          return;
+        }
+
+        // The player is the one the handshake token identified, never the payload's userId
+        const userId = socket.userId!;
+        if (data.roomId) {
+          await this.joinGameRoomById(socket, data.roomId, userId, data.playerSide, gameSpeed, data.rules, data.mode);
         } else {
-          console.log('⚠️ No token provided, using provided userId:', data.userId);
-          if (data.roomId) {
-            await this.joinGameRoomById(socket, data.roomId, data.userId, data.playerSide, gameSpeed);
-          } else {
-            await this.joinGameRoom(socket, data.tournamentId, data.matchId, data.userId, data.playerSide, gameSpeed);
-          }
+          await this.joinGameRoom(socket, data.tournamentId, data.matchId, userId, toClassicSide(data.playerSide), gameSpeed, data.rules);
         }
       });
 
       // Handle leaving game room
-      socket.on('leave_game_room', (data: { userId: string }) => {
-        this.leaveGameRoom(data.userId);
+      socket.on('leave_game_room', () => {
+        if (socket.playerId) {
+          this.leaveGameRoom(socket.playerId);
+        }
       });
 
       // Handle player ready status
-      socket.on('player_ready', (data: { userId: string, ready: boolean }) => {
-        this.setPlayerReady(data.userId, data.ready);
+      socket.on('player_ready', (data: { ready: boolean }) => {
+        if (socket.playerId) {
+          this.setPlayerReady(socket.playerId, data?.ready === true);
+        }
       });
 
       // Handle start game request
@@ -177,30 +361,79 @@ class SocketIOService {
       });
 
       // Handle pause game request
+      // The room is the one this socket's player joined, whatever match the payload names
       socket.on('pause_game', (data: { tournamentId: number, matchId: number }) => {
         console.log('🔍 Backend received pause_game:', data);
-        this.handlePauseGame(socket, data.tournamentId, data.matchId);
+        this.handlePauseGame(socket);
       });
 
       // Handle reset game request
       socket.on('reset_game', (data: { tournamentId: number, matchId: number }) => {
         console.log('🔍 Backend received reset_game:', data);
-        this.handleResetGame(socket, data.tournamentId, data.matchId);
+        this.handleResetGame(socket);
       });
 
       // Handle paddle movement
-      socket.on('paddle_movement', (data: { tournamentId: number, matchId: number, userId: string, direction: number }) => {
-        this.handlePaddleMovement(data.userId, data.direction);
+      // Only the direction is taken from the payload; the player is the one this socket joined as
+      socket.on('paddle_movement', (data: { tournamentId: number, matchId: number, userId?: string, direction: number, sequence?: number }) => {
+        const userId = this.resolveSocketPlayer(socket, data?.userId);
+        if (userId) {
+          this.handlePaddleMovement(userId, data.direction, data.sequence);
+        }
+      });
+
+      // Handle a request for a server AI opponent
+      socket.on('add_bot', (data: { difficulty?: AIDifficulty, personality?: AIPersonality, adaptive?: boolean }) => {
+        console.log('🔍 Backend received add_bot:', data);
+        this.handleAddBot(socket, socket.userId!, data?.difficulty, data?.personality, data?.adaptive === true);
+      });
+
+      // Handle joining the matchmaking queue (the player is the socket's own)
+      socket.on('queue_join', async (data: { gameSpeed?: 'slow' | 'normal' | 'fast' }) => {
+        if (!this.hostsMatchmaking()) {
+          socket.emit('error', {
+            message: 'Matchmaking is hosted by another server; reconnect with the matchmaking room in the handshake query',
+            code: 'wrong_worker',
+            roomId: MATCHMAKING_ROOM
+          });
+          return;
+        }
+        try {
+          const status = await this.joinMatchmaking(socket.userId!, data?.gameSpeed, true);
+          socket.queued = true;
+          socket.emit('queue_status', status);
+        } catch (error) {
+          socket.emit('queue_error', { message: error instanceof Error ? error.message : 'Failed to join the queue' });
+        }
+      });
+
+      // Handle leaving the matchmaking queue
+      socket.on('queue_leave', () => {
+        if (!this.hostsMatchmaking()) return;
+        socket.queued = false;
+        socket.emit('queue_status', this.leaveMatchmaking(socket.userId!));
       });
 
       // Handle game state updates
-      socket.on('game_state_update', (data: { userId: string, gameState: any }) => {
-        this.updateGameState(data.userId, data.gameState);
+      socket.on('game_state_update', (data: { userId?: string, gameState: any }) => {
+        if (this.resolveSocketPlayer(socket, data?.userId)) {
+          this.updateGameState(socket, data.gameState);
+        }
       });
 
-      // Handle game end
-      socket.on('game_end', (data: { userId: string, gameResult: any }) => {
-        this.endGame(data.userId, data.gameResult);
+      // Matches are decided by the server physics, so results sent by clients are never applied
+      socket.on('game_end', (data: { userId?: string, gameResult: any }) => {
+        const userId = this.resolveSocketPlayer(socket, data?.userId);
+        if (userId) {
+          this.reportViolation(userId, 'client_result', JSON.stringify(data.gameResult ?? null));
+        }
+      });
+
+      // Handle snapshot acknowledgements (base for the next delta snapshot)
+      socket.on('snapshot_ack', (data: { tick: number }) => {
+        if (data && typeof data.tick === 'number') {
+          this.snapshotEncoders.get(socket)?.acknowledge(data.tick);
+        }
       });
 
       // Handle ping for connection health
@@ -208,16 +441,17 @@ class SocketIOService {
         socket.emit('pong');
       });
 
-      // Handle user online status updates
-      socket.on('user_online', async (data: { userId: string }) => {
+      // Handle user online status updates (registered users only; the user is the socket's own)
+      socket.on('user_online', async () => {
+        if (socket.isGuest) return;
         try {
           const { FriendsService } = await import('./friendsService.js');
-          await FriendsService.updateOnlineStatus(data.userId, 'online');
-          console.log(`User ${data.userId} is now online`);
+          await FriendsService.updateOnlineStatus(socket.userId!, 'online');
+          console.log(`User ${socket.userId} is now online`);
           
           // Broadcast to all connected users that this user is online
           this.io.emit('user_status_changed', {
-            userId: data.userId,
+            userId: socket.userId,
             status: 'online'
           });
         } catch (error) {
@@ -225,16 +459,17 @@ class SocketIOService {
         }
       });
 
-      // Handle user offline status updates
-      socket.on('user_offline', async (data: { userId: string }) => {
+      // Handle user offline status updates (registered users only; the user is the socket's own)
+      socket.on('user_offline', async () => {
+        if (socket.isGuest) return;
         try {
           const { FriendsService } = await import('./friendsService.js');
-          await FriendsService.updateOnlineStatus(data.userId, 'offline');
-          console.log(`User ${data.userId} is now offline`);
+          await FriendsService.updateOnlineStatus(socket.userId!, 'offline');
+          console.log(`User ${socket.userId} is now offline`);
           
           // Broadcast to all connected users that this user is offline
           this.io.emit('user_status_changed', {
-            userId: data.userId,
+            userId: socket.userId,
             status: 'offline'
           });
         } catch (error) {
@@ -242,26 +477,28 @@ class SocketIOService {
         }
       });
 
-      // Handle chat channel creation
+      // Handle chat channel creation (registered users only, sent on as coming from the socket's user)
       socket.on('channel_created', (data: { channel: any }) => {
-        console.log('Channel created, broadcasting to all users:', data.channel);
+        if (socket.isGuest) return;
+        console.log('Channel created, broadcasting to all users:', data?.channel);
         // Broadcast new channel to all connected users
-        this.io.emit('channel_created', data);
+        this.io.emit('channel_created', { channel: data?.channel, userId: socket.userId });
       });
 
-      // Handle chat channel updates
+      // Handle chat channel updates (registered users only, sent on as coming from the socket's user)
       socket.on('channel_updated', (data: { channel: any }) => {
-        console.log('Channel updated, broadcasting to all users:', data.channel);
+        if (socket.isGuest) return;
+        console.log('Channel updated, broadcasting to all users:', data?.channel);
         // Broadcast channel update to all connected users
-        this.io.emit('channel_updated', data);
+        this.io.emit('channel_updated', { channel: data?.channel, userId: socket.userId });
       });
 
       // Handle disconnection
       socket.on('disconnect', async (reason) => {
         console.log(`Socket.IO disconnected: ${socket.id}, reason: ${reason}`);
         
-        // Update user status to offline on disconnect
-        if (socket.userId) {
+        // Update user status to offline once the user's last socket is gone
+        if (socket.userId && !socket.isGuest && !(await this.isUserConnected(socket.userId))) {
           try {
             const { FriendsService } = await import('./friendsService.js');
             await FriendsService.updateOnlineStatus(socket.userId, 'offline');
@@ -277,11 +514,22 @@ class SocketIOService {
           }
         }
         
-        // Find and remove player from any room
+        // A player searching from this socket stops searching
+        if (socket.queued) {
+          this.leaveMatchmaking(socket.userId!);
+        }
+
+        // Find the player's room: a running match waits for them, otherwise they leave
         for (const [userId, roomId] of this.playerRooms.entries()) {
           const room = this.gameRooms.get(roomId);
-          if (room && room.players.get(userId) === socket) {
-            this.leaveGameRoom(userId);
+          const playerInfo = room?.players.get(userId);
+          if (room && playerInfo && (playerInfo === socket || playerInfo.socket === socket)) {
+            const inProgress = room.gameState.gameData && (isMatchRunning(room.gameState.status) || room.gameState.status === 'paused');
+            if (inProgress && !playerInfo.isSpectator && FFA_SIDES.includes(playerInfo.side)) {
+              this.startReconnectGrace(room, userId, playerInfo.side);
+            } else {
+              this.leaveGameRoom(userId);
+            }
             break;
           }
         }
@@ -295,16 +543,39 @@ class SocketIOService {
     });
   }
 
+  /**
+   * Socket.IO room holding every socket of a user
+   */
+  private getUserRoom(userId: string): string {
+    return `user-${userId}`;
+  }
+
+  /**
+   * Whether a user still has a socket open on any worker
+   * (the app, friends list, chat and game each open their own)
+   */
+  private async isUserConnected(userId: string): Promise<boolean> {
+    try {
+      const sockets = await this.io.in(this.getUserRoom(userId)).fetchSockets();
+      return sockets.length > 0;
+    } catch (error) {
+      // Some worker did not answer in time; assume the user is still around
+      console.error(`❌ Error looking up the sockets of user ${userId}:`, error);
+      return true;
+    }
+  }
+
   /**
    * Join a game room by roomId
    */
-  private async joinGameRoomById(socket: any, roomId: string, userId: string, requestedSide?: 'left' | 'right', gameSpeed: 'slow' | 'normal' | 'fast' = 'normal') {
+  private async joinGameRoomById(socket: any, roomId: string, userId: string, requestedPlayerSide?: FfaSide, gameSpeed: 'slow' | 'normal' | 'fast' = 'normal', requestedRules?: Partial<MatchRules>, mode: GameMode = 'classic') {
     console.log('='.repeat(80));
     console.log(`🎯 joinGameRoomById CALLED`);
     console.log(`   roomId: ${roomId}`);
     console.log(`   userId: ${userId}`);
-    console.log(`   requestedSide: ${requestedSide} (type: ${typeof requestedSide})`);
+    console.log(`   requestedSide: ${requestedPlayerSide} (type: ${typeof requestedPlayerSide})`);
     console.log(`   gameSpeed: ${gameSpeed}`);
+    console.log(`   mode: ${mode}`);
     console.log(`   socketId: ${socket.id}`);
     console.log('='.repeat(80));
     
@@ -332,6 +603,20 @@ class SocketIOService {
     }
     
     console.log(`🔍 Parsed tournamentId: ${tournamentId}, matchId: ${matchId}`);
+
+    // Tournament matches are always one against one
+    if (mode === 'ffa' && tournamentId > 0) {
+      console.error(`❌ Free-for-all requested for tournament room ${roomId}`);
+      socket.emit('error', { message: 'Free-for-all is not available for tournament matches' });
+      return;
+    }
+
+    const existingRoom = this.gameRooms.get(roomId);
+    if (existingRoom && existingRoom.mode !== mode) {
+      console.error(`❌ Room ${roomId} is a ${existingRoom.mode} room, ${mode} requested`);
+      socket.emit('error', { message: `Room ${roomId} is a ${existingRoom.mode === 'ffa' ? 'free-for-all' : 'classic'} room` });
+      return;
+    }
     
     // Validate that the user is authorized to join this tournament match
     if (tournamentId > 0) {
@@ -356,37 +641,37 @@ class SocketIOService {
         
         // Get tournament participants for this match
         const participant1 = match.player1_id ? await DatabaseService.get(
-          'SELECT id, user_id, guest_alias FROM tournament_participants WHERE id = ?',
+          'SELECT id, user_id, guest_alias, guest_id, bot_difficulty FROM tournament_participants WHERE id = ?',
           [match.player1_id]
-        ) as { id: number; user_id: number | null; guest_alias: string | null } | null : null;
+        ) as { id: number; user_id: number | null; guest_alias: string | null; guest_id: string | null; bot_difficulty: string | null } | null : null;
         
         const participant2 = match.player2_id ? await DatabaseService.get(
-          'SELECT id, user_id, guest_alias FROM tournament_participants WHERE id = ?',
+          'SELECT id, user_id, guest_alias, guest_id, bot_difficulty FROM tournament_participants WHERE id = ?',
           [match.player2_id]
-        ) as { id: number; user_id: number | null; guest_alias: string | null } | null : null;
+        ) as { id: number; user_id: number | null; guest_alias: string | null; guest_id: string | null; bot_difficulty: string | null } | null : null;
         
-        // Use socket.userId (from token) if available, otherwise fallback to userId parameter
-        const realUserId = socket.userId || userId;
-        console.log(`🔍 Checking participant match: realUserId=${realUserId}, userId param=${userId}, socket.userId=${socket.userId}`);
+        // The identity comes from the handshake token: registered users match by user id,
+        // guests by the guest id they joined the tournament with
+        const realUserId: string = socket.userId;
+        const guestId: string | undefined = socket.isGuest ? realUserId : undefined;
+        console.log(`🔍 Checking participant match: realUserId=${realUserId}, guestId=${guestId}`);
         
-        // Check if userId matches either participant
-        // IMPORTANT: Use socket.userId (from token) for registered users, not the userId parameter
-        // For guest users, compare guest_alias directly (not with startsWith)
-        const userIdNum = parseInt(realUserId, 10);
-        const isPlayer1 = participant1 && (
+        const userIdNum = socket.isGuest ? NaN : parseInt(realUserId, 10);
+        // AI participants are played by the server, nobody joins as them
+        const isPlayer1 = participant1 && !participant1.bot_difficulty && (
           (participant1.user_id && participant1.user_id === userIdNum) ||
-          (participant1.guest_alias && participant1.guest_alias === realUserId)
+          (!participant1.user_id && participant1.guest_id && participant1.guest_id === guestId)
         );
-        const isPlayer2 = participant2 && (
+        const isPlayer2 = participant2 && !participant2.bot_difficulty && (
           (participant2.user_id && participant2.user_id === userIdNum) ||
-          (participant2.guest_alias && participant2.guest_alias === realUserId)
+          (!participant2.user_id && participant2.guest_id && participant2.guest_id === guestId)
         );
         
         console.log(`🔍 Participant match check:`, {
-          participant1: participant1 ? { user_id: participant1.user_id, guest_alias: participant1.guest_alias } : null,
-          participant2: participant2 ? { user_id: participant2.user_id, guest_alias: participant2.guest_alias } : null,
+          participant1: participant1 ? { user_id: participant1.user_id, guest_id: participant1.guest_id } : null,
+          participant2: participant2 ? { user_id: participant2.user_id, guest_id: participant2.guest_id } : null,
           realUserId,
-          userIdNum,
+          guestId,
           isPlayer1,
           isPlayer2
         });
@@ -397,8 +682,8 @@ class SocketIOService {
         if (isSpectator) {
           console.log(`👁️ User ${realUserId} is joining as spectator (not a participant in match ${matchId})`);
           console.log(`   Match participants: player1_id=${match.player1_id}, player2_id=${match.player2_id}`);
-          console.log(`   Participant1: user_id=${participant1?.user_id}, guest_alias=${participant1?.guest_alias}`);
-          console.log(`   Participant2: user_id=${participant2?.user_id}, guest_alias=${participant2?.guest_alias}`);
+          console.log(`   Participant1: user_id=${participant1?.user_id}, guest_id=${participant1?.guest_id}`);
+          console.log(`   Participant2: user_id=${participant2?.user_id}, guest_id=${participant2?.guest_id}`);
           // Continue to allow spectator to join, but mark them as spectator
         } else {
           console.log(`✅ User ${realUserId} is authorized to join match ${matchId} (isPlayer1: ${isPlayer1}, isPlayer2: ${isPlayer2})`);
@@ -413,6 +698,9 @@ class SocketIOService {
       }
     }
     
+    // Resolve match rules before creating the room (tournament settings need a DB lookup)
+    const rules = this.gameRooms.has(roomId) ? null : await this.resolveMatchRules(tournamentId, gameSpeed, requestedRules);
+
     // Get or create game room
     let room = this.gameRooms.get(roomId);
     if (!room) {
@@ -422,11 +710,15 @@ class SocketIOService {
         matchId,
         players: new Map(),
         gameSpeed: gameSpeed, // Set gameSpeed when creating room
+        rules: rules ?? getDefaultMatchRules(gameSpeed),
+        mode,
         gameState: {
           status: 'waiting',
           player1Ready: false,
-          player2Ready: false
-        }
+          player2Ready: false,
+          ...(mode === 'ffa' ? { sides: {} } : {})
+        },
+        ...this.createPhysicsContext()
       };
       this.gameRooms.set(roomId, room);
     } else {
@@ -434,9 +726,15 @@ class SocketIOService {
       console.log(`🔍 Room ${roomId} already exists with gameSpeed: ${room.gameSpeed}, new player's gameSpeed: ${gameSpeed}`);
     }
 
-    // Use socket.userId (from token) if available, otherwise fallback to userId parameter
+    // socket.userId is the identity verified at the handshake
     const realUserId = socket.userId || userId;
     console.log(`🔍 joinGameRoomById: realUserId=${realUserId}, userId param=${userId}, socket.userId=${socket.userId}`);
+
+    if (room.mode === 'ffa') {
+      this.joinFfaRoom(socket, room, userId, realUserId, requestedPlayerSide);
+      return;
+    }
+    const requestedSide = toClassicSide(requestedPlayerSide);
     
     // Check if this userId is already in the room (reconnection)
     // Check both the original userId and realUserId to handle reconnection cases
@@ -476,8 +774,13 @@ class SocketIOService {
         preservedSide = 'spectator';
         console.log(`👁️ Player ${userId} reconnecting as SPECTATOR`);
       } else {
-        // On reconnection, prioritize requestedSide from client as it's the most reliable source
-        if (requestedSide) {
+        // A player returning within the grace period always gets their own side back
+        const grace = this.reconnectGraces.get(existingPlayerKey);
+        if (grace) {
+          preservedSide = grace.side as PaddleSide;
+          console.log(`✅ Using side held during the reconnection grace period: ${preservedSide}`);
+        } else if (requestedSide) {
+          // On reconnection, prioritize requestedSide from client as it's the most reliable source
           // Use requested side from client (this is the most reliable source on reconnection)
           preservedSide = requestedSide;
           console.log(`✅ Using requested player side: ${preservedSide} (reconnection)`);
@@ -537,6 +840,7 @@ class SocketIOService {
         console.log(`✅ Converted old format player to new format with side: ${preservedSide}, isSpectator: ${isSpectator}`);
       }
       
+      socket.playerId = realUserId;
       socket.join(roomId);
       
       // Ensure playerRooms mapping is updated with realUserId
@@ -585,7 +889,7 @@ class SocketIOService {
       // Send current game state to reconnected player
       if (room.gameState.gameData) {
         // If game is already playing, send game_playing event to restore game state
-        if (room.gameState.status === 'playing') {
+        if (isMatchRunning(room.gameState.status)) {
           socket.emit('game_playing', {
             roomState: room.gameState,
             gameState: room.gameState.gameData,
@@ -600,6 +904,9 @@ class SocketIOService {
         }
       }
       
+      // Resume the match if it was waiting for this player
+      this.endReconnectGrace(room, existingPlayerKey);
+
       // Check game readiness after reconnection
       this.checkGameReadiness(roomId);
       console.log(`✅ Player ${realUserId} reconnected successfully with side: ${preservedSide}`);
@@ -692,6 +999,7 @@ class SocketIOService {
     if (userId !== realUserId) {
       this.playerRooms.set(userId, roomId); // Also keep the original mapping
     }
+    socket.playerId = realUserId;
     socket.join(roomId);
 
     // Set player IDs in game state BEFORE logging (only for actual players, not spectators)
@@ -725,6 +1033,7 @@ class SocketIOService {
       roomState: room.gameState,
       playerSide: playerSide,
       isSpectator: isSpectator,
+      rules: room.rules, // Shown to both players before the game starts
       message: isSpectator ? `Spectator ${realUserId} joined the game room` : `Player ${realUserId} joined the game room`
     });
     
@@ -736,14 +1045,92 @@ class SocketIOService {
       });
     }
 
+    await this.seatTournamentBots(room);
+
     // Check if both players are ready
     this.checkGameReadiness(roomId);
   }
 
+  /**
+   * Seat a player in a free-for-all room: a returning player keeps their side,
+   * a new player gets the requested side if free, else the first free side.
+   * Players arriving once the match has started (or with all four sides taken) watch.
+   */
+  private joinFfaRoom(socket: any, room: GameRoom, userId: string, realUserId: string, requestedSide?: FfaSide) {
+    const sides = room.gameState.sides ?? (room.gameState.sides = {});
+    const seatedSide = FFA_SIDES.find(side => sides[side] === realUserId || sides[side] === userId);
+
+    let playerSide: FfaSide | 'spectator';
+    if (seatedSide) {
+      playerSide = seatedSide;
+    } else if (room.gameState.status !== 'waiting') {
+      playerSide = 'spectator';
+    } else if (requestedSide && FFA_SIDES.includes(requestedSide) && !sides[requestedSide]) {
+      playerSide = requestedSide;
+    } else {
+      playerSide = FFA_SIDES.find(side => !sides[side]) ?? 'spectator';
+    }
+
+    if (playerSide !== 'spectator') {
+      sides[playerSide] = realUserId;
+    }
+    const isSpectator = playerSide === 'spectator';
+
+    if (userId !== realUserId) {
+      room.players.delete(userId);
+    }
+    room.players.set(realUserId, {
+      socket: socket,
+      userId: realUserId,
+      side: playerSide,
+      ready: false,
+      isSpectator: isSpectator
+    });
+    this.playerRooms.set(realUserId, room.id);
+    if (userId !== realUserId) {
+      this.playerRooms.set(userId, room.id); // Also keep the original mapping
+    }
+    socket.playerId = realUserId;
+    socket.join(room.id);
+
+    console.log(`Player ${realUserId} joined free-for-all room ${room.id} as ${playerSide}`, { sides });
+
+    this.broadcastToRoom(room.id, seatedSide ? 'player_reconnected' : 'player_joined', {
+      userId: realUserId,
+      roomState: room.gameState,
+      playerSide: playerSide,
+      isSpectator: isSpectator,
+      mode: room.mode,
+      rules: room.rules,
+      message: isSpectator ? `Spectator ${realUserId} joined the game room` : `Player ${realUserId} joined the game room`
+    });
+
+    if (isSpectator) {
+      socket.emit('spectator_mode', {
+        message: 'You are watching this match as a spectator',
+        roomState: room.gameState
+      });
+    }
+
+    if (room.gameState.gameData && room.gameState.status === 'playing') {
+      socket.emit('game_playing', {
+        roomState: room.gameState,
+        gameState: room.gameState.gameData,
+        message: 'Game resumed after reconnection'
+      });
+    }
+
+    if (seatedSide) {
+      this.endReconnectGrace(room, realUserId);
+    }
+
+    this.checkGameReadiness(room.id);
+  }
+
   /**
    * Join a game room
    */
-  private async joinGameRoom(socket: any, tournamentId: number, matchId: number, userId: string, requestedSide?: 'left' | 'right', gameSpeed: 'slow' | 'normal' | 'fast' = 'normal') {
+  private async joinGameRoom(socket: any, tournamentId: number, matchId: number, userId: string, requestedSide?: 'left' | 'right', gameSpeed: 'slow' | 'normal' | 'fast' = 'normal', requestedRules?: Partial<MatchRules>) {
     const roomId = `tournament-${tournamentId}-match-${matchId}`;
     
     // Validate that the user is authorized to join this tournament match
@@ -769,37 +1156,37 @@ class SocketIOService {
         
         // Get tournament participants for this match
         const participant1 = match.player1_id ? await DatabaseService.get(
-          'SELECT id, user_id, guest_alias FROM tournament_participants WHERE id = ?',
+          'SELECT id, user_id, guest_alias, guest_id, bot_difficulty FROM tournament_participants WHERE id = ?',
           [match.player1_id]
-        ) as { id: number; user_id: number | null; guest_alias: string | null } | null : null;
+        ) as { id: number; user_id: number | null; guest_alias: string | null; guest_id: string | null; bot_difficulty: string | null } | null : null;
         
         const participant2 = match.player2_id ? await DatabaseService.get(
-          'SELECT id, user_id, guest_alias FROM tournament_participants WHERE id = ?',
+          'SELECT id, user_id, guest_alias, guest_id, bot_difficulty FROM tournament_participants WHERE id = ?',
           [match.player2_id]
-        ) as { id: number; user_id: number | null; guest_alias: string | null } | null : null;
+        ) as { id: number; user_id: number | null; guest_alias: string | null; guest_id: string | null; bot_difficulty: string | null } | null : null;
         
-        // Use socket.userId (from token) if available, otherwise fallback to userId parameter
-        const realUserId = socket.userId || userId;
-        console.log(`🔍 Checking participant match: realUserId=${realUserId}, userId param=${userId}, socket.userId=${socket.userId}`);
+        // The identity comes from the handshake token: registered users match by user id,
+        // guests by the guest id they joined the tournament with
+        const realUserId: string = socket.userId;
+        const guestId: string | undefined = socket.isGuest ? realUserId : undefined;
+        console.log(`🔍 Checking participant match: realUserId=${realUserId}, guestId=${guestId}`);
         
-        // Check if userId matches either participant
-        // IMPORTANT: Use socket.userId (from token) for registered users, not the userId parameter
-        // For guest users, compare guest_alias directly (not with startsWith)
-        const userIdNum = parseInt(realUserId, 10);
-        const isPlayer1 = participant1 && (
+        const userIdNum = socket.isGuest ? NaN : parseInt(realUserId, 10);
+        // AI participants are played by the server, nobody joins as them
+        const isPlayer1 = participant1 && !participant1.bot_difficulty && (
           (participant1.user_id && participant1.user_id === userIdNum) ||
-          (participant1.guest_alias && participant1.guest_alias === realUserId)
+          (!participant1.user_id && participant1.guest_id && participant1.guest_id === guestId)
         );
-        const isPlayer2 = participant2 && (
+        const isPlayer2 = participant2 && !participant2.bot_difficulty && (
           (participant2.user_id && participant2.user_id === userIdNum) ||
-          (participant2.guest_alias && participant2.guest_alias === realUserId)
+          (!participant2.user_id && participant2.guest_id && participant2.guest_id === guestId)
         );
         
         console.log(`🔍 Participant match check:`, {
-          participant1: participant1 ? { user_id: participant1.user_id, guest_alias: participant1.guest_alias } : null,
-          participant2: participant2 ? { user_id: participant2.user_id, guest_alias: participant2.guest_alias } : null,
+          participant1: participant1 ? { user_id: participant1.user_id, guest_id: participant1.guest_id } : null,
+          participant2: participant2 ? { user_id: participant2.user_id, guest_id: participant2.guest_id } : null,
           realUserId,
-          userIdNum,
+          guestId,
           isPlayer1,
           isPlayer2
         });
@@ -810,8 +1197,8 @@ class SocketIOService {
         if (isSpectator) {
           console.log(`👁️ User ${realUserId} is joining as spectator (not a participant in match ${matchId})`);
           console.log(`   Match participants: player1_id=${match.player1_id}, player2_id=${match.player2_id}`);
-          console.log(`   Participant1: user_id=${participant1?.user_id}, guest_alias=${participant1?.guest_alias}`);
-          console.log(`   Participant2: user_id=${participant2?.user_id}, guest_alias=${participant2?.guest_alias}`);
+          console.log(`   Participant1: user_id=${participant1?.user_id}, guest_id=${participant1?.guest_id}`);
+          console.log(`   Participant2: user_id=${participant2?.user_id}, guest_id=${participant2?.guest_id}`);
           // Continue to allow spectator to join, but mark them as spectator
         } else {
           console.log(`✅ User ${realUserId} is authorized to join match ${matchId} (isPlayer1: ${isPlayer1}, isPlayer2: ${isPlayer2})`);
@@ -826,6 +1213,9 @@ class SocketIOService {
       }
     }
     
+    // Resolve match rules before creating the room (tournament settings need a DB lookup)
+    const rules = this.gameRooms.has(roomId) ? null : await this.resolveMatchRules(tournamentId, gameSpeed, requestedRules);
+
     // Get or create game room
     let room = this.gameRooms.get(roomId);
     if (!room) {
@@ -835,11 +1225,14 @@ class SocketIOService {
         matchId,
         players: new Map(),
         gameSpeed: gameSpeed, // Set gameSpeed when creating room
+        rules: rules ?? getDefaultMatchRules(gameSpeed),
+        mode: 'classic',
         gameState: {
           status: 'waiting',
           player1Ready: false,
           player2Ready: false
-        }
+        },
+        ...this.createPhysicsContext()
       };
       this.gameRooms.set(roomId, room);
     } else {
@@ -849,7 +1242,7 @@ class SocketIOService {
       console.log(`🔍 Room ${roomId} already exists with gameSpeed: ${room.gameSpeed}, new player's gameSpeed: ${gameSpeed}`);
     }
 
-    // Use socket.userId (from token) if available, otherwise fallback to userId parameter
+    // socket.userId is the identity verified at the handshake
     const realUserId = socket.userId || userId;
     console.log(`🔍 joinGameRoom: realUserId=${realUserId}, userId param=${userId}, socket.userId=${socket.userId}`);
     
@@ -882,8 +1275,13 @@ class SocketIOService {
       if (isSpectator) {
         preservedSide = 'spectator';
       } else {
-        // On reconnection, prioritize requestedSide from client as it's the most reliable source
-        if (requestedSide) {
+        // A player returning within the grace period always gets their own side back
+        const grace = this.reconnectGraces.get(existingPlayerKey);
+        if (grace) {
+          preservedSide = grace.side as PaddleSide;
+          console.log(`✅ Using side held during the reconnection grace period: ${preservedSide}`);
+        } else if (requestedSide) {
+          // On reconnection, prioritize requestedSide from client as it's the most reliable source
           // Use requested side from client (this is the most reliable source on reconnection)
           preservedSide = requestedSide;
           console.log(`✅ Using requested player side: ${preservedSide} (reconnection)`);
@@ -943,6 +1341,7 @@ class SocketIOService {
         console.log(`✅ Converted old format player to new format with side: ${preservedSide}, isSpectator: ${isSpectator}`);
       }
       
+      socket.playerId = realUserId;
       socket.join(roomId);
       
       // Ensure playerRooms mapping is updated with realUserId
@@ -983,7 +1382,7 @@ class SocketIOService {
       // Send current game state to reconnected player
       if (room.gameState.gameData) {
         // If game is already playing, send game_playing event to restore game state
-        if (room.gameState.status === 'playing') {
+        if (isMatchRunning(room.gameState.status)) {
           socket.emit('game_playing', {
             roomState: room.gameState,
             gameState: room.gameState.gameData,
@@ -1006,6 +1405,9 @@ class SocketIOService {
         });
       }
       
+      // Resume the match if it was waiting for this player
+      this.endReconnectGrace(room, existingPlayerKey);
+      
       console.log(`✅ Player ${realUserId} reconnected successfully with side: ${preservedSide}`);
       return; // Don't add as new player
     }
@@ -1081,6 +1483,7 @@ class SocketIOService {
     }
 
     // Join Socket.IO room for efficient broadcasting
+    socket.playerId = realUserId;
     socket.join(roomId);
 
     // Determine player position - use string userId instead of numeric conversion (only for actual players, not spectators)
@@ -1108,6 +1511,7 @@ class SocketIOService {
       roomState: room.gameState,
       playerSide: playerSide,
       isSpectator: isSpectator,
+      rules: room.rules, // Shown to both players before the game starts
       message: isSpectator ? `Spectator ${realUserId} joined the game room` : `Player ${realUserId} joined the game room`
     });
     
@@ -1119,6 +1523,8 @@ class SocketIOService {
       });
     }
 
+    await this.seatTournamentBots(room);
+
     // Check if both players are ready
     this.checkGameReadiness(roomId);
     
@@ -1157,6 +1563,16 @@ class SocketIOService {
     // Remove player from room
     room.players.delete(userId);
     this.playerRooms.delete(userId);
+    this.inputGuard.release(userId);
+
+    // Free the free-for-all seat if the match has not started yet
+    if (room.gameState.sides && room.gameState.status === 'waiting') {
+      for (const side of FFA_SIDES) {
+        if (room.gameState.sides[side] === userId) {
+          delete room.gameState.sides[side];
+        }
+      }
+    }
 
     // Reset player positions if needed
     if (room.gameState.player1Id === userId) {
@@ -1177,6 +1593,12 @@ class SocketIOService {
       message: `Player ${userId} left the game room`
     });
 
+    // AI players do not stay on their own, unless a spectator leaves a match
+    // two of them are still playing
+    if (!playerInfo?.bot && !(playerInfo?.isSpectator && isMatchRunning(room.gameState.status))) {
+      this.dismissIdleBots(room);
+    }
+
     // Clean up empty room
     if (room.players.size === 0) {
       // Stop game loop if room is empty
@@ -1186,97 +1608,639 @@ class SocketIOService {
   }
 
   /**
-   * Player ready status
+   * Seat a server-played AI on a side of a classic room; it sends its input
+   * through handlePaddleMovement like any other player
    */
-  private setPlayerReady(userId: string, ready: boolean) {
-    const roomId = this.playerRooms.get(userId);
-    if (!roomId) return;
-
-    const room = this.gameRooms.get(roomId);
-    if (!room) return;
+  private seatBot(
+    room: GameRoom,
+    botId: string,
+    name: string,
+    side: PaddleSide,
+    difficulty: AIDifficulty,
+    options: AIPlayerOptions = {}
+  ) {
+    const bot = new AIPaddleController(side, difficulty, matchRulesToConfig(room.rules), Math.random, options);
+    room.players.set(botId, {
+      socket: null,
+      userId: botId,
+      name,
+      side,
+      ready: true,
+      isSpectator: false,
+      bot
+    });
+    this.playerRooms.set(botId, room.id);
 
-    // Set ready status
-    if (room.gameState.player1Id === userId) {
-      room.gameState.player1Ready = ready;
-    } else if (room.gameState.player2Id === userId) {
-      room.gameState.player2Ready = ready;
+    if (!room.gameState.player1Id) {
+      room.gameState.player1Id = botId;
+    } else if (!room.gameState.player2Id) {
+      room.gameState.player2Id = botId;
     }
 
-    console.log(`Player ${userId} ready status: ${ready}`, room.gameState);
-
-    // Notify all players
-    this.broadcastToRoom(roomId, 'player_ready', {
-      userId,
-      ready,
-      roomState: room.gameState
+    console.log(`🤖 AI player ${name} (${formatAIProfile(bot.profile)}) joined room ${room.id} as ${side}`);
+    this.broadcastToRoom(room.id, 'player_joined', {
+      userId: botId,
+      roomState: room.gameState,
+      playerSide: side,
+      isSpectator: false,
+      isBot: true,
+      name,
+      difficulty,
+      personality: bot.personality,
+      adaptive: bot.adaptive,
+      rules: room.rules,
+      message: `AI player ${name} joined the game room`
     });
+  }
 
-    // Check if both players are ready
-    this.checkGameReadiness(roomId);
+  /**
+   * Seat the AI participants of a tournament match: they play whoever joins,
+   * or each other once someone opens the match to watch
+   */
+  private async seatTournamentBots(room: GameRoom) {
+    if (room.tournamentId <= 0 || room.mode !== 'classic') return;
+
+    try {
+      const { TournamentService } = await import('./tournamentService.js');
+      const match = await TournamentService.getMatch(room.matchId);
+      if (!match || match.status === 'completed' || match.status === 'forfeit') return;
+
+      for (const participantId of [match.player1_id, match.player2_id]) {
+        const participant = participantId ? await TournamentService.getParticipant(participantId) : null;
+        if (!participant?.bot_difficulty) continue;
+
+        // Checked after the lookup: another join may have seated the bot meanwhile
+        const botId = tournamentBotId(participant.id);
+        const side = this.getFreeClassicSide(room);
+        if (side && !room.players.has(botId)) {
+          this.seatBot(room, botId, participant.display_name, side, participant.bot_difficulty);
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Error seating AI players in room ${room.id}:`, error);
+    }
   }
 
   /**
-   * Start game when both players are ready
+   * A player asked for a server AI opponent in their (non-tournament) room
    */
-  private checkGameReadiness(roomId: string) {
-    const room = this.gameRooms.get(roomId);
-    if (!room) {
-      console.log(`❌ Room ${roomId} not found in checkGameReadiness`);
+  private async handleAddBot(
+    socket: any,
+    userId: string,
+    difficulty: AIDifficulty = 'medium',
+    personality: AIPersonality = 'balanced',
+    adaptive: boolean = false
+  ) {
+    const roomId = this.playerRooms.get(userId);
+    const room = roomId ? this.gameRooms.get(roomId) : undefined;
+    const player = room?.players.get(userId);
+    if (!room || !player || player.isSpectator) {
+      socket.emit('error', { message: 'Join a room before adding an AI opponent' });
       return;
     }
 
-    const { player1Id, player2Id, player1Ready, player2Ready, status } = room.gameState;
-    
-    // Filter out spectators - only count actual players
-    const actualPlayers = Array.from(room.players.entries()).filter(
-      ([userId, playerInfo]: [string, any]) => {
-        const isSpectator = playerInfo.isSpectator === true || playerInfo.side === 'spectator';
-        return !isSpectator;
-      }
-    );
-    
-    console.log(`🔍 checkGameReadiness for room ${roomId}:`, {
-      totalPlayersSize: room.players.size,
-      actualPlayersCount: actualPlayers.length,
-      player1Id,
-      player2Id,
-      player1Ready,
-      player2Ready,
-      status,
-      allPlayerIds: Array.from(room.players.entries()).map(p => p[0]),
-      actualPlayerIds: actualPlayers.map(p => p[0])
-    });
+    if (!isAIDifficulty(difficulty)) {
+      socket.emit('error', { message: `Unknown AI difficulty: ${difficulty}` });
+      return;
+    }
+    if (!isAIPersonality(personality)) {
+      socket.emit('error', { message: `Unknown AI personality: ${personality}` });
+      return;
+    }
 
-    // Ensure player IDs are set from the actual players (excluding spectators)
-    if (actualPlayers.length >= 1 && !room.gameState.player1Id) {
-      room.gameState.player1Id = actualPlayers[0][0];
-      console.log(`✅ Set player1Id to ${room.gameState.player1Id}`);
+    // Tournament brackets get their AI players from the participant list
+    if (room.mode !== 'classic' || room.tournamentId > 0) {
+      socket.emit('error', { message: 'AI opponents can only join classic rooms outside tournaments' });
+      return;
     }
-    if (actualPlayers.length >= 2 && !room.gameState.player2Id) {
-      room.gameState.player2Id = actualPlayers[1][0];
-      console.log(`✅ Set player2Id to ${room.gameState.player2Id}`);
+
+    // The adaptive AI starts from the player's rating
+    const opponentRating = adaptive ? await this.getPlayerRating(userId) : null;
+
+    // Checked after the lookup: the room may have filled up meanwhile
+    const side = room.gameState.status === 'waiting' ? this.getFreeClassicSide(room) : undefined;
+    if (!side) {
+      socket.emit('error', { message: 'There is no free side for an AI opponent' });
+      return;
     }
 
-    // Check if both actual players (not spectators) are present and game hasn't started yet
-    // Auto-start game when both players join (no need for manual ready)
-    if (actualPlayers.length >= 2 && status !== 'ready' && status !== 'playing') {
-      // Set player IDs from the actual players map (ensure they're set, excluding spectators)
-      if (actualPlayers.length >= 2) {
-        room.gameState.player1Id = actualPlayers[0][0]; // First actual player's userId
-        room.gameState.player2Id = actualPlayers[1][0]; // Second actual player's userId
-        console.log(`✅ Updated player IDs: player1Id=${room.gameState.player1Id}, player2Id=${room.gameState.player2Id}`);
-      }
-      
-      room.gameState.status = 'ready';
-      room.gameState.player1Ready = true;
-      room.gameState.player2Ready = true;
-      
-      console.log(`🎮 Starting game in room ${roomId} with players: ${room.gameState.player1Id} vs ${room.gameState.player2Id}`);
-      
+    this.seatBot(room, `bot-${room.id}-${side}`, getAIDisplayName(difficulty), side, difficulty, {
+      personality,
+      adaptive,
+      opponentRating
+    });
+    this.checkGameReadiness(room.id);
+  }
+
+  /**
+   * Rating of a registered player (null for guests); players without a rated
+   * match are estimated from their win record
+   */
+  private async getPlayerRating(userId: string): Promise<number | null> {
+    if (userId.startsWith('guest_')) return null;
+    try {
+      const { UserService } = await import('./userService.js');
+      const stats = await UserService.getUserStatistics(userId) as { gamesWon: number; totalGames: number; rating: number; ratedGames: number } | null;
+      if (!stats) return null;
+      return stats.ratedGames > 0 ? stats.rating : estimatePlayerRating(stats.gamesWon, stats.totalGames);
+    } catch (error) {
+      console.error(`❌ Error looking up rating of ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether this worker hosts the matchmaking queue
+   */
+  hostsMatchmaking(): boolean {
+    return isRoomOwner(MATCHMAKING_ROOM, this.worker);
+  }
+
+  /**
+   * Put a player in the matchmaking queue, at the rating of their record
+   * @param viaSocket - Queued from a socket (otherwise over REST, and kept while polling)
+   * @throws Error if the player is in a running match
+   */
+  async joinMatchmaking(userId: string, gameSpeed: 'slow' | 'normal' | 'fast' = 'normal', viaSocket: boolean = false): Promise<MatchmakingStatus> {
+    const currentRoom = this.gameRooms.get(this.playerRooms.get(userId) ?? '');
+    if (currentRoom && (isMatchRunning(currentRoom.gameState.status) || currentRoom.gameState.status === 'paused')) {
+      throw new Error('Finish or leave your current match before searching for an opponent');
+    }
+    if (!['slow', 'normal', 'fast'].includes(gameSpeed)) {
+      throw new Error(`Invalid game speed: ${gameSpeed}`);
+    }
+
+    if (this.matchmaking.has(userId)) {
+      this.matchmaking.touch(userId, Date.now(), viaSocket);
+    } else {
+      const rating = (await this.getPlayerRating(userId)) ?? MATCHMAKING_DEFAULT_RATING;
+      const now = Date.now();
+      this.matchesFound.delete(userId);
+      if (this.matchmaking.join({ userId, rating, gameSpeed, joinedAt: now, lastSeenAt: now, viaSocket })) {
+        console.log(`🔎 ${userId} joined the matchmaking queue (rating ${Math.round(rating)}, ${gameSpeed}), ${this.matchmaking.size} searching`);
+      }
+    }
+
+    if (!this.matchmakingTimer) {
+      this.matchmakingTimer = setInterval(() => this.runMatchmakingRound(), MATCHMAKING_TICK_MS);
+    }
+    return this.getMatchmakingStatus(userId);
+  }
+
+  /**
+   * Take a player out of the matchmaking queue
+   */
+  leaveMatchmaking(userId: string): MatchmakingStatus {
+    if (this.matchmaking.leave(userId)) {
+      console.log(`🔎 ${userId} left the matchmaking queue, ${this.matchmaking.size} searching`);
+    }
+    return this.getMatchmakingStatus(userId);
+  }
+
+  /**
+   * Queue status of a player; a match found for them is handed out once
+   * (polling also keeps a REST player in the queue)
+   */
+  getMatchmakingStatus(userId: string): MatchmakingStatus {
+    const now = Date.now();
+    this.matchmaking.touch(userId, now);
+    const match = this.matchesFound.get(userId) ?? null;
+    this.matchesFound.delete(userId);
+    return { ...this.matchmaking.getStatus(userId, now), match };
+  }
+
+  /**
+   * One pairing round: seat every pair found in a room of their own, then
+   * tell the players still searching how the search goes
+   */
+  private runMatchmakingRound() {
+    if (this.matchmakingRound) return;
+
+    this.matchmakingRound = (async () => {
+      const now = Date.now();
+      for (const userId of this.matchmaking.prune(now)) {
+        console.log(`🔎 ${userId} stopped polling and left the matchmaking queue`);
+      }
+
+      const pairings = await this.matchmaking.findPairings(now, (first, second) => this.canBeMatched(first, second));
+      for (const pairing of pairings) {
+        this.createMatchmakingRoom(pairing);
+      }
+
+      for (const userId of this.matchmaking.userIds()) {
+        this.io.to(this.getUserRoom(userId)).emit('queue_status', this.matchmaking.getStatus(userId, now));
+      }
+
+      if (this.matchmaking.size === 0 && this.matchmakingTimer) {
+        clearInterval(this.matchmakingTimer);
+        this.matchmakingTimer = null;
+      }
+    })()
+      .catch(error => console.error('❌ Error in matchmaking round:', error))
+      .finally(() => {
+        this.matchmakingRound = null;
+      });
+  }
+
+  /**
+   * Whether two queued players may be matched: neither has blocked the other
+   */
+  private async canBeMatched(first: QueueEntry, second: QueueEntry): Promise<boolean> {
+    if (first.userId.startsWith('guest_') || second.userId.startsWith('guest_')) return true;
+    try {
+      const { FriendsService } = await import('./friendsService.js');
+      return !(await FriendsService.isBlocked(first.userId, second.userId));
+    } catch (error) {
+      console.error(`❌ Error checking blocks between ${first.userId} and ${second.userId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Create a classic room for a pair found by matchmaking, with both seats
+   * reserved, and tell both players where to go
+   */
+  private createMatchmakingRoom({ first, second }: QueuePairing) {
+    const roomId = this.createMatchmakingRoomId();
+    const [left, right] = Math.random() < 0.5 ? [first, second] : [second, first];
+
+    // A finished match the players never left does not keep them
+    this.leaveGameRoom(left.userId);
+    this.leaveGameRoom(right.userId);
+
+    const room: GameRoom = {
+      id: roomId,
+      tournamentId: 0,
+      matchId: parseInt(roomId, 10),
+      players: new Map(),
+      gameSpeed: first.gameSpeed,
+      rules: getDefaultMatchRules(first.gameSpeed),
+      mode: 'classic',
+      gameState: {
+        status: 'waiting',
+        player1Id: left.userId,
+        player2Id: right.userId,
+        player1Ready: false,
+        player2Ready: false
+      },
+      ...this.createPhysicsContext()
+    };
+    this.gameRooms.set(roomId, room);
+
+    for (const [entry, side, opponent] of [[left, 'left', right], [right, 'right', left]] as const) {
+      // Seated without a socket; joining the room attaches the player's game socket
+      room.players.set(entry.userId, {
+        socket: null,
+        userId: entry.userId,
+        side,
+        ready: false,
+        isSpectator: false
+      });
+      this.playerRooms.set(entry.userId, roomId);
+
+      const match: MatchFound = { roomId, playerSide: side, opponentId: opponent.userId, gameSpeed: room.gameSpeed };
+      if (!entry.viaSocket) {
+        this.matchesFound.set(entry.userId, match);
+      }
+      this.io.to(this.getUserRoom(entry.userId)).emit('match_found', match);
+    }
+    console.log(`🔎 Matched ${left.userId} (${Math.round(left.rating)}) with ${right.userId} (${Math.round(right.rating)}) in room ${roomId}`);
+
+    // Release the seats of players who never show up
+    setTimeout(() => {
+      if (this.gameRooms.get(roomId) !== room || room.gameState.status !== 'waiting') return;
+      for (const player of Array.from(room.players.values())) {
+        if (!player.socket && !player.bot) {
+          console.log(`🔎 ${player.userId} never joined matchmaking room ${roomId}`);
+          this.matchesFound.delete(player.userId);
+          this.leaveGameRoom(player.userId);
+        }
+      }
+    }, MATCHMAKING_JOIN_TIMEOUT_MS);
+  }
+
+  /**
+   * Numeric room id (the format of regular multiplayer rooms) unused so far,
+   * owned by this worker so the players are routed to the room's host
+   */
+  private createMatchmakingRoomId(): string {
+    for (;;) {
+      const roomId = String(100000000 + Math.floor(Math.random() * 900000000));
+      if (!this.gameRooms.has(roomId) && isRoomOwner(roomId, this.worker)) {
+        return roomId;
+      }
+    }
+  }
+
+  private getFreeClassicSide(room: GameRoom): PaddleSide | undefined {
+    const taken = new Set(Array.from(room.players.values()).map((player: any) => player.side));
+    return (['left', 'right'] as PaddleSide[]).find(side => !taken.has(side));
+  }
+
+  /**
+   * Remove the AI players of a room nobody plays in or watches any more
+   */
+  private dismissIdleBots(room: GameRoom) {
+    const players = Array.from(room.players.values());
+    if (players.length === 0 || !players.every((player: any) => player.bot)) return;
+
+    console.log(`🤖 Only AI players left in room ${room.id}, closing it`);
+    for (const player of players) {
+      this.leaveGameRoom(player.userId);
+    }
+  }
+
+  /**
+   * Let the AI players of a room look at the game and press or release their
+   * paddle keys
+   */
+  private driveBots(room: GameRoom, gameData: PongState) {
+    const now = performance.now();
+    for (const player of room.players.values()) {
+      if (!player?.bot) continue;
+
+      const direction = player.bot.update(gameData, now);
+      if (direction !== room.inputs[player.side as PaddleSide]) {
+        this.handlePaddleMovement(player.userId, direction);
+      }
+    }
+  }
+
+  /**
+   * A player dropped out of a running match: pause it and give them
+   * RECONNECT_GRACE_SECONDS to come back before they forfeit
+   */
+  private startReconnectGrace(room: GameRoom, userId: string, side: FfaSide) {
+    if (this.reconnectGraces.has(userId)) return;
+
+    if (isMatchRunning(room.gameState.status)) {
+      room.gameState.status = 'paused';
+      room.pausedForReconnect = true;
+    }
+
+    // Nobody is holding the absent player's paddle any more
+    if (room.mode === 'ffa') {
+      room.ffaInputs[side] = 0;
+    } else if (side === 'left' || side === 'right') {
+      room.inputs[side] = 0;
+    }
+    room.replay?.recordInput(room.tick, side, 0);
+
+    console.log(`🔌 Player ${userId} (${side}) dropped out of room ${room.id}, waiting ${RECONNECT_GRACE_SECONDS}s for them to return`);
+    this.broadcastToRoom(room.id, 'player_disconnected', {
+      userId,
+      side,
+      graceSeconds: RECONNECT_GRACE_SECONDS,
+      roomState: room.gameState,
+      message: `Player ${userId} disconnected`
+    });
+
+    const grace: ReconnectGrace = {
+      roomId: room.id,
+      side,
+      secondsLeft: RECONNECT_GRACE_SECONDS,
+      timer: setInterval(() => {
+        grace.secondsLeft--;
+        const current = this.gameRooms.get(grace.roomId);
+        if (!current || current.gameState.status === 'finished') {
+          this.clearReconnectGrace(userId);
+          return;
+        }
+
+        if (grace.secondsLeft > 0) {
+          this.broadcastToRoom(grace.roomId, 'reconnect_countdown', {
+            userId,
+            side,
+            secondsLeft: grace.secondsLeft
+          });
+          return;
+        }
+
+        this.clearReconnectGrace(userId);
+        this.forfeitAbsentPlayer(current, userId, side).catch(error => {
+          console.error(`❌ Error forfeiting player ${userId} in room ${grace.roomId}:`, error);
+        });
+      }, 1000)
+    };
+    this.reconnectGraces.set(userId, grace);
+  }
+
+  /**
+   * Stop a player's reconnection countdown
+   * @returns The countdown that was pending, if any
+   */
+  private clearReconnectGrace(userId: string): ReconnectGrace | undefined {
+    const grace = this.reconnectGraces.get(userId);
+    if (grace) {
+      clearInterval(grace.timer);
+      this.reconnectGraces.delete(userId);
+    }
+    return grace;
+  }
+
+  private hasPendingReconnects(roomId: string): boolean {
+    return Array.from(this.reconnectGraces.values()).some(grace => grace.roomId === roomId);
+  }
+
+  /**
+   * A player came back within the grace period
+   */
+  private endReconnectGrace(room: GameRoom, userId: string) {
+    const grace = this.clearReconnectGrace(userId);
+    if (!grace) return;
+
+    console.log(`🔌 Player ${userId} returned to room ${room.id} with ${grace.secondsLeft}s to spare`);
+    this.resumeAfterReconnect(room);
+  }
+
+  /**
+   * Resume a match paused for a disconnect once nobody is missing any more
+   */
+  private resumeAfterReconnect(room: GameRoom) {
+    if (!room.pausedForReconnect || this.hasPendingReconnects(room.id) || !this.resumeMatch(room)) return;
+
+    console.log(`▶️ Game resumed in room ${room.id}, all players are back`);
+    this.broadcastToRoom(room.id, 'game_playing', {
+      roomState: room.gameState,
+      gameState: room.gameState.gameData,
+      message: 'Game resumed after reconnection'
+    });
+  }
+
+  /**
+   * Pause a player's match, for both pause requests; only a running match
+   * pauses, anything else is counted as a violation
+   * @returns Whether the match paused
+   */
+  private pauseMatch(room: GameRoom, userId: string): boolean {
+    // Only a running match pauses: pausing and resuming a finished one would replay its end
+    if (!isMatchRunning(room.gameState.status)) {
+      this.reportViolation(userId, 'match_pause', `room ${room.id} is ${room.gameState.status}`);
+      return false;
+    }
+    room.gameState.status = 'paused';
+    this.stopGameLoop(room.id);
+    return true;
+  }
+
+  /**
+   * Resume a paused match; refused while it waits for a disconnected player,
+   * so nobody can restart it during the grace period
+   * @returns Whether the match resumed
+   */
+  private resumeMatch(room: GameRoom): boolean {
+    if (room.gameState.status !== 'paused') {
+      console.error(`❌ Cannot resume game: Room ${room.id} status is ${room.gameState.status}`);
+      return false;
+    }
+    if (this.hasPendingReconnects(room.id)) {
+      console.error(`❌ Cannot resume game: Room ${room.id} is waiting for a disconnected player`);
+      return false;
+    }
+
+    room.pausedForReconnect = false;
+    room.gameState.status = 'playing';
+    // Restarts the clock too, so time spent paused is not simulated
+    this.startGameLoop(room.id);
+    return true;
+  }
+
+  /**
+   * The grace period ran out and the absent player forfeits: a classic match
+   * goes to their opponent, in free-for-all they are eliminated and the match
+   * goes on while more than one player is left
+   */
+  private async forfeitAbsentPlayer(room: GameRoom, userId: string, side: FfaSide) {
+    if (!room.gameState.gameData) return;
+
+    console.log(`🏳️ Player ${userId} (${side}) did not return to room ${room.id} and forfeits`);
+    room.replay?.recordForfeit(room.tick, side);
+
+    if (room.mode === 'ffa') {
+      const gameData = forfeitFfaSide(room.gameState.gameData, side);
+      room.gameState.gameData = gameData;
+      this.broadcastToRoom(room.id, 'player_eliminated', {
+        side,
+        userId,
+        placement: getFfaPlacements(gameData)[side],
+        forfeit: true
+      });
+
+      if (gameData.winner) {
+        await this.finishFfaMatch(room, gameData, userId);
+      } else {
+        this.resumeAfterReconnect(room);
+      }
+    } else {
+      const gameData = forfeitMatch(room.gameState.gameData as PowerUpGameState, side as PaddleSide);
+      room.gameState.gameData = gameData;
+      await this.finishClassicMatch(room, gameData, userId);
+    }
+
+    this.leaveGameRoom(userId);
+  }
+
+  /**
+   * Player ready status
+   */
+  private setPlayerReady(userId: string, ready: boolean) {
+    const roomId = this.playerRooms.get(userId);
+    if (!roomId) return;
+
+    const room = this.gameRooms.get(roomId);
+    if (!room) return;
+
+    // Set ready status
+    if (room.gameState.player1Id === userId) {
+      room.gameState.player1Ready = ready;
+    } else if (room.gameState.player2Id === userId) {
+      room.gameState.player2Ready = ready;
+    }
+
+    console.log(`Player ${userId} ready status: ${ready}`, room.gameState);
+
+    // Notify all players
+    this.broadcastToRoom(roomId, 'player_ready', {
+      userId,
+      ready,
+      roomState: room.gameState
+    });
+
+    // Check if both players are ready
+    this.checkGameReadiness(roomId);
+  }
+
+  /**
+   * Start game when both players are ready
+   */
+  private checkGameReadiness(roomId: string) {
+    const room = this.gameRooms.get(roomId);
+    if (!room) {
+      console.log(`❌ Room ${roomId} not found in checkGameReadiness`);
+      return;
+    }
+
+    if (room.mode === 'ffa') {
+      this.checkFfaReadiness(room);
+      return;
+    }
+
+    const { player1Id, player2Id, player1Ready, player2Ready, status } = room.gameState;
+    
+    // Filter out spectators - only count actual players
+    const actualPlayers = Array.from(room.players.entries()).filter(
+      ([userId, playerInfo]: [string, any]) => {
+        const isSpectator = playerInfo.isSpectator === true || playerInfo.side === 'spectator';
+        return !isSpectator;
+      }
+    );
+    
+    console.log(`🔍 checkGameReadiness for room ${roomId}:`, {
+      totalPlayersSize: room.players.size,
+      actualPlayersCount: actualPlayers.length,
+      player1Id,
+      player2Id,
+      player1Ready,
+      player2Ready,
+      status,
+      allPlayerIds: Array.from(room.players.entries()).map(p => p[0]),
+      actualPlayerIds: actualPlayers.map(p => p[0])
+    });
+
+    // Ensure player IDs are set from the actual players (excluding spectators)
+    if (actualPlayers.length >= 1 && !room.gameState.player1Id) {
+      room.gameState.player1Id = actualPlayers[0][0];
+      console.log(`✅ Set player1Id to ${room.gameState.player1Id}`);
+    }
+    if (actualPlayers.length >= 2 && !room.gameState.player2Id) {
+      room.gameState.player2Id = actualPlayers[1][0];
+      console.log(`✅ Set player2Id to ${room.gameState.player2Id}`);
+    }
+
+    // Seats reserved by matchmaking have no socket until their player joins
+    const allPresent = actualPlayers.every(([, playerInfo]: [string, any]) => playerInfo.socket || playerInfo.bot);
+
+    // Check if both actual players (not spectators) are present and game hasn't started yet
+    // Auto-start game when both players join (no need for manual ready)
+    if (actualPlayers.length >= 2 && allPresent && status !== 'ready' && status !== 'paused' && !isMatchRunning(status)) {
+      // Set player IDs from the actual players map (ensure they're set, excluding spectators)
+      if (actualPlayers.length >= 2) {
+        room.gameState.player1Id = actualPlayers[0][0]; // First actual player's userId
+        room.gameState.player2Id = actualPlayers[1][0]; // Second actual player's userId
+        console.log(`✅ Updated player IDs: player1Id=${room.gameState.player1Id}, player2Id=${room.gameState.player2Id}`);
+      }
+      
+      room.gameState.status = 'ready';
+      room.gameState.player1Ready = true;
+      room.gameState.player2Ready = true;
+      
+      console.log(`🎮 Starting game in room ${roomId} with players: ${room.gameState.player1Id} vs ${room.gameState.player2Id}`);
+      
       // Notify all players (including spectators) to start game
       console.log(`📢 Broadcasting game_start to room ${roomId} with ${room.players.size} total players (${actualPlayers.length} actual players)`);
       this.broadcastToRoom(roomId, 'game_start', {
         roomState: room.gameState,
+        rules: room.rules,
         message: 'Both players joined! Starting game...'
       });
 
@@ -1284,19 +2248,8 @@ class SocketIOService {
       setTimeout(() => {
         room.gameState.status = 'playing';
         
-        // Get speed values based on gameSpeed
-        const speedValues = getSpeedValues(room.gameSpeed);
-        
         // Initialize game data with speed values from gameSpeed
-        const initialGameData = {
-          leftPaddle: { y: 200 },
-          rightPaddle: { y: 200 },
-          ball: { x: 400, y: 200, dx: speedValues.ballSpeed, dy: speedValues.ballSpeed * 0.6 },
-          leftScore: 0,
-          rightScore: 0
-        };
-        
-        room.gameState.gameData = initialGameData;
+        const initialGameData = this.initializeGameData(room);
         
         console.log(`Broadcasting game_playing to room ${roomId} with ${room.players.size} players`);
         this.broadcastToRoom(roomId, 'game_playing', {
@@ -1311,6 +2264,40 @@ class SocketIOService {
     }
   }
 
+  /**
+   * Start a free-for-all match once all four sides are taken
+   */
+  private checkFfaReadiness(room: GameRoom) {
+    const sides = room.gameState.sides ?? {};
+    const seated = FFA_SIDES.filter(side => sides[side]);
+    if (seated.length < FFA_SIDES.length || room.gameState.status !== 'waiting') {
+      return;
+    }
+
+    room.gameState.status = 'ready';
+    console.log(`🎮 Starting free-for-all in room ${room.id}:`, sides);
+
+    this.broadcastToRoom(room.id, 'game_start', {
+      roomState: room.gameState,
+      mode: room.mode,
+      rules: room.rules,
+      message: 'All four players joined! Starting game...'
+    });
+
+    setTimeout(() => {
+      room.gameState.status = 'playing';
+      const initialGameData = this.initializeGameData(room);
+
+      this.broadcastToRoom(room.id, 'game_playing', {
+        roomState: room.gameState,
+        gameState: initialGameData,
+        message: 'Game is now playing!'
+      });
+
+      this.startGameLoop(room.id);
+    }, 2000);
+  }
+
   /**
    * Broadcast message to all players in a room
    */
@@ -1318,61 +2305,65 @@ class SocketIOService {
     this.io.to(roomId).emit(event, data);
   }
 
+  /**
+   * Send the current game state to every socket in a room as a delta against
+   * the last snapshot that socket acknowledged (keyframes at intervals).
+   * Spectators receive snapshots at a lower rate.
+   */
+  private broadcastSnapshot(room: GameRoom, gameData: PongState | FfaState) {
+    // Frozen, quantized copy shared by all encoders as a future delta base
+    const snapshot = quantizeState(gameData);
+
+    for (const player of room.players.values()) {
+      const socket: Socket | undefined = player && typeof player === 'object' && 'socket' in player ? player.socket : player;
+      if (!socket || typeof socket.emit !== 'function') continue;
+
+      let encoder = this.snapshotEncoders.get(socket);
+      if (!encoder) {
+        encoder = new SnapshotEncoder<PongState | FfaState>({
+          keyframeInterval: SNAPSHOT_KEYFRAME_INTERVAL,
+          minTickInterval: player?.isSpectator ? SPECTATOR_SNAPSHOT_TICK_INTERVAL : 0
+        });
+        this.snapshotEncoders.set(socket, encoder);
+      }
+      if (!encoder.isDue(room.tick)) continue;
+
+      socket.emit('game_state_update', {
+        ...encoder.encode(room.tick, snapshot),
+        inputAcks: room.inputAcks,
+        fromPlayer: 'server'
+      });
+    }
+  }
+
   /**
    * Handle game state updates
    */
-  private updateGameState(userId: string, gameState: any) {
-    const roomId = this.playerRooms.get(userId);
-    if (!roomId) return;
+  private updateGameState(socket: Socket, gameState: any) {
+    const userId = socket.playerId!;
+
+    // Only control requests are taken from clients; the server physics owns the
+    // game state, so paddle positions or whole states sent by a client are dropped
+    const type = gameState?.type;
+    if (type !== 'game_reset' && type !== 'game_pause' && type !== 'game_resume') {
+      this.reportViolation(userId, 'client_state', `type ${JSON.stringify(type)}`);
+      return;
+    }
 
-    const room = this.gameRooms.get(roomId);
+    const room = this.getControlledRoom(socket);
     if (!room) return;
+    const roomId = room.id;
 
-    // Handle different types of game state updates
-    if (gameState.type === 'paddle_move') {
-      // Handle paddle movement
-      console.log('Paddle move from player:', userId, gameState);
-      
-      // Update room's game data with paddle position
-      if (!room.gameState.gameData) {
-        const speedValues = getSpeedValues(room.gameSpeed);
-        room.gameState.gameData = {
-          leftPaddle: { y: 200 },
-          rightPaddle: { y: 200 },
-          ball: { x: 400, y: 200, dx: speedValues.ballSpeed, dy: speedValues.ballSpeed * 0.6 },
-          leftScore: 0,
-          rightScore: 0
-        };
-      }
-      
-      // Update the specific paddle position
-      if (gameState.player === 'left') {
-        room.gameState.gameData.leftPaddle = { y: gameState.y };
-      } else if (gameState.player === 'right') {
-        room.gameState.gameData.rightPaddle = { y: gameState.y };
-      }
-
-      // Broadcast paddle move to other players (not the sender)
-      const socket = room.players.get(userId);
-      if (socket) {
-        socket.to(roomId).emit('game_state_update', {
-          gameState: gameState,
-          fromPlayer: userId
-        });
-      }
-    } else if (gameState.type === 'game_reset') {
+    if (gameState.type === 'game_reset') {
       // Handle game reset
       console.log('🔄 RESET REQUESTED by player:', userId);
+      if (!isResettable(room.gameState.status)) {
+        this.reportViolation(userId, 'match_reset', `room ${roomId} is ${room.gameState.status}`);
+        return;
+      }
       
       // Reset game data to initial state with gameSpeed-based speeds
-      const speedValues = getSpeedValues(room.gameSpeed);
-      room.gameState.gameData = {
-        leftPaddle: { y: 200 },
-        rightPaddle: { y: 200 },
-        ball: { x: 400, y: 200, dx: speedValues.ballSpeed, dy: speedValues.ballSpeed * 0.6 },
-        leftScore: 0,
-        rightScore: 0
-      };
+      this.initializeGameData(room);
       
       // Set game status to ready
       room.gameState.status = 'ready';
@@ -1407,12 +2398,7 @@ class SocketIOService {
     } else if (gameState.type === 'game_pause') {
       // Handle game pause
       console.log('⏸️ PAUSE REQUESTED by player:', userId);
-      
-      // Set game status to paused
-      room.gameState.status = 'paused';
-      
-      // Stop current game loop
-      this.stopGameLoop(roomId);
+      if (!this.pauseMatch(room, userId)) return;
       
       // Broadcast pause to all players in the room
       console.log(`📡 Broadcasting pause to ${room.players.size} players in room ${roomId}`);
@@ -1435,11 +2421,8 @@ class SocketIOService {
       // Handle game resume
       console.log('▶️ RESUME REQUESTED by player:', userId);
       
-      // Set game status to playing
-      room.gameState.status = 'playing';
-      
-      // Start game loop again
-      this.startGameLoop(roomId);
+      // Set game status to playing and start the game loop again
+      if (!this.resumeMatch(room)) return;
       
       // Broadcast resume to all players in the room
       console.log(`📡 Broadcasting resume to ${room.players.size} players in room ${roomId}`);
@@ -1458,41 +2441,56 @@ class SocketIOService {
       });
       
       console.log('✅ RESUME COMPLETED for room:', roomId);
-    } else {
-      // Handle other game state updates
-      room.gameState.gameData = gameState;
-
-      // Broadcast to other players (not the sender)
-      const socket = room.players.get(userId);
-      if (socket) {
-        socket.to(roomId).emit('game_state_update', {
-          gameState: gameState,
-          fromPlayer: userId
-        });
-      }
     }
   }
 
   /**
-   * Handle game end
+   * Player a socket acts for: the one it joined its game room as, whatever id
+   * the payload names (naming someone else counts as impersonation)
+   * @returns null if the socket is not in a game room or names another player
    */
-  private endGame(userId: string, gameResult: any) {
-    const roomId = this.playerRooms.get(userId);
-    if (!roomId) return;
-
-    const room = this.gameRooms.get(roomId);
-    if (!room) return;
+  private resolveSocketPlayer(socket: Socket, claimedUserId: unknown): string | null {
+    const playerId = socket.playerId;
+    if (!playerId) return null;
+
+    // Naming a player is optional; naming anyone but the socket's own player is refused
+    const claimed = claimedUserId === undefined ? playerId : String(claimedUserId);
+    if (claimed !== playerId) {
+      this.reportViolation(playerId, 'impersonation', `payload named ${claimed}`);
+      return null;
+    }
+    return playerId;
+  }
 
-    room.gameState.status = 'finished';
-    
-    // Stop game loop when game ends
-    this.stopGameLoop(roomId);
+  /**
+   * Room a socket may control: the one its verified player joined, as a
+   * player (spectators and sockets outside the room control nothing)
+   */
+  private getControlledRoom(socket: Socket): GameRoom | null {
+    const playerId = socket.playerId;
+    const roomId = playerId ? this.playerRooms.get(playerId) : undefined;
+    const room = roomId ? this.gameRooms.get(roomId) : undefined;
+    if (!playerId || !room) return null;
+
+    const player = room.players.get(playerId);
+    if (!player || player.isSpectator) {
+      console.log(`👁️ ${player ? 'Spectator' : 'Non-member'} ${playerId} attempted to control room ${room.id}, ignoring`);
+      return null;
+    }
+    return room;
+  }
 
-    this.broadcastToRoom(roomId, 'game_end', {
-      gameResult,
-      roomState: room.gameState,
-      message: 'Game finished!'
-    });
+  /**
+   * Count a violation against a user and log it the first time and then
+   * every VIOLATION_LOG_INTERVAL times
+   */
+  private reportViolation(userId: string, violation: InputViolation, detail: string) {
+    const count = this.inputGuard.recordViolation(userId, violation);
+    if (count === 1 || count % VIOLATION_LOG_INTERVAL === 0) {
+      console.warn(`🚨 Input violation by user ${userId}: ${violation} #${count} (${detail.slice(0, 200)})`, {
+        violations: this.inputGuard.getViolations(userId)
+      });
+    }
   }
 
   /**
@@ -1523,6 +2521,14 @@ class SocketIOService {
       clearInterval(existingLoop);
     }
 
+    // Restart the fixed-timestep clock so time spent paused is not simulated
+    const now = performance.now();
+    if (room.clock) {
+      room.clock.reset(now);
+    } else {
+      room.clock = new FixedTimestep(now);
+    }
+
     console.log(`Starting game loop for room ${roomId}`);
     
     // Game loop runs at 30 FPS (33ms intervals)
@@ -1544,7 +2550,7 @@ class SocketIOService {
           });
         }
       }
-    }, 33);
+    }, GAME_LOOP_INTERVAL_MS);
 
     this.gameLoops.set(roomId, gameLoop);
   }
@@ -1568,7 +2574,7 @@ class SocketIOService {
   private async updateGamePhysics(roomId: string) {
     try {
       const room = this.gameRooms.get(roomId);
-      if (!room || !room.gameState.gameData || room.gameState.status !== 'playing') {
+      if (!room || !room.gameState.gameData || !isMatchRunning(room.gameState.status)) {
         // Don't log when paused to reduce console noise
         if (room?.gameState?.status !== 'paused') {
           console.log(`Game physics update skipped for room ${roomId}:`, {
@@ -1580,98 +2586,49 @@ class SocketIOService {
         return;
       }
 
-      const gameData = room.gameState.gameData;
+      if (room.mode === 'ffa') {
+        await this.updateFfaPhysics(room);
+        return;
+      }
+
+      let gameData: PowerUpGameState = room.gameState.gameData;
     
     // Ensure ball exists and has required properties
-    if (!gameData.ball || typeof gameData.ball.x !== 'number' || typeof gameData.ball.y !== 'number') {
+    if (!gameData.ball || typeof gameData.ball.x !== 'number' || typeof gameData.ball.y !== 'number' ||
+        typeof gameData.ball.dx !== 'number' || typeof gameData.ball.dy !== 'number') {
       console.log(`⚠️ Ball data is invalid, reinitializing for room ${roomId}:`, gameData.ball);
-      const speedValues = getSpeedValues(room.gameSpeed);
-      gameData.ball = { x: 400, y: 200, dx: speedValues.ballSpeed, dy: speedValues.ballSpeed * 0.6 };
+      gameData.ball = createInitialState(matchRulesToConfig(room.rules)).ball;
     }
     
-    // Ensure ball has velocity properties
-    if (typeof gameData.ball.dx !== 'number' || typeof gameData.ball.dy !== 'number') {
-      const speedValues = getSpeedValues(room.gameSpeed);
-      gameData.ball.dx = gameData.ball.dx || speedValues.ballSpeed;
-      gameData.ball.dy = gameData.ball.dy || speedValues.ballSpeed * 0.6;
+    // Drain the accumulator in fixed ticks of the shared physics core
+    const ticksDue = room.clock ? room.clock.advance(performance.now()) : 1;
+    if (ticksDue === 0) {
+      return;
     }
-    
-    // Debug logging disabled for cleaner console
-    // console.log(`Updating game physics for room ${roomId}, ball position:`, gameData.ball);
-    
-    // Update ball position
-    gameData.ball.x += gameData.ball.dx;
-    gameData.ball.y += gameData.ball.dy;
-
-    // Ball collision with top and bottom walls
-    if (gameData.ball.y <= 5 || gameData.ball.y >= 395) {
-      gameData.ball.dy = -gameData.ball.dy;
-    }
-
-    // Ball collision with left paddle
-    if (gameData.ball.x <= 20 && 
-        gameData.ball.x >= 10 && 
-        gameData.ball.y >= gameData.leftPaddle.y && 
-        gameData.ball.y <= gameData.leftPaddle.y + 100) {
-      gameData.ball.dx = -gameData.ball.dx;
-      // Add some randomness to ball direction
-      gameData.ball.dy += (Math.random() - 0.5) * 2;
-    }
-
-    // Ball collision with right paddle
-    if (gameData.ball.x >= 780 && 
-        gameData.ball.x <= 790 && 
-        gameData.ball.y >= gameData.rightPaddle.y && 
-        gameData.ball.y <= gameData.rightPaddle.y + 100) {
-      gameData.ball.dx = -gameData.ball.dx;
-      // Add some randomness to ball direction
-      gameData.ball.dy += (Math.random() - 0.5) * 2;
-    }
-
-    // Scoring
-    if (gameData.ball.x < 0) {
-      // Right player scores
-      gameData.rightScore++;
-      this.resetBall(gameData, room.gameSpeed);
-    } else if (gameData.ball.x > 800) {
-      // Left player scores
-      gameData.leftScore++;
-      this.resetBall(gameData, room.gameSpeed);
-    }
-
-    // Check for game end condition (10 points)
-    const WINNING_SCORE = 10;
-    if (gameData.leftScore >= WINNING_SCORE || gameData.rightScore >= WINNING_SCORE) {
-      const winner = gameData.leftScore >= WINNING_SCORE ? 'left' : 'right';
-      console.log(`🎯 GAME ENDED! Winner: ${winner}, Final score: ${gameData.leftScore} - ${gameData.rightScore}`);
-      
-      // Stop game loop
-      this.stopGameLoop(roomId);
-      
-      // Set game status to finished
-      room.gameState.status = 'finished';
-      
-      // Save tournament match result if this is a tournament game
-      console.log(`💾 Attempting to save tournament match result for room: ${roomId}`);
-      await this.saveTournamentMatchResult(roomId, gameData, winner);
-      
-      // Broadcast game end
-      console.log(`📡 Broadcasting game end to room ${roomId}:`, {
-        winner,
-        leftScore: gameData.leftScore,
-        rightScore: gameData.rightScore
-      });
-      
-      this.broadcastToRoom(roomId, 'game_end', {
-        gameResult: {
-          winner,
-          leftScore: gameData.leftScore,
-          rightScore: gameData.rightScore
-        },
-        roomState: room.gameState,
-        message: 'Game finished!'
+
+    this.driveBots(room, gameData);
+
+    const config = matchRulesToConfig(room.rules);
+    const arena = getArenaMap(room.rules.map);
+    const previous = gameData;
+    for (let i = 0; i < ticksDue && !gameData.winner; i++) {
+      const stepStart = gameData;
+      gameData = stepWithPowerUps(gameData, room.inputs, TICK_SECONDS, {
+        config,
+        rng: room.rng,
+        enabled: room.rules.powerUps,
+        arena,
+        onPaddleHit: room.telemetry?.recordHit
       });
-      
+      room.telemetry?.recordStep(stepStart, gameData, TICK_SECONDS);
+      room.tick++;
+    }
+    room.gameState.gameData = gameData;
+    this.updateServePhase(room, previous, gameData);
+
+    // Check for game end condition
+    if (gameData.winner) {
+      await this.finishClassicMatch(room, gameData);
       return; // Exit early since game ended
     }
 
@@ -1685,10 +2642,7 @@ class SocketIOService {
     // });
     
     try {
-      this.broadcastToRoom(roomId, 'game_state_update', {
-        gameState: gameData,
-        fromPlayer: 'server'
-      });
+      this.broadcastSnapshot(room, gameData);
     } catch (broadcastError) {
       console.error(`Error broadcasting game state update for room ${roomId}:`, broadcastError);
       // Continue game loop even if broadcast fails
@@ -1712,20 +2666,244 @@ class SocketIOService {
   }
 
   /**
-   * Reset ball to center after scoring
+   * Advance a free-for-all room; announces eliminations and ends the match
+   * once a single player is left
+   */
+  private async updateFfaPhysics(room: GameRoom) {
+    const ticksDue = room.clock ? room.clock.advance(performance.now()) : 1;
+    if (ticksDue === 0) {
+      return;
+    }
+
+    const config = matchRulesToFfaConfig(room.rules);
+    const previous: FfaState = room.gameState.gameData;
+    let gameData = previous;
+    for (let i = 0; i < ticksDue && !gameData.winner; i++) {
+      gameData = stepFfa(gameData, room.ffaInputs, TICK_SECONDS, { config, rng: room.rng });
+      room.tick++;
+    }
+    room.gameState.gameData = gameData;
+
+    const placements = getFfaPlacements(gameData);
+    for (const side of gameData.eliminated.slice(previous.eliminated.length)) {
+      console.log(`💥 ${side} eliminated in room ${room.id}, placement ${placements[side]}`);
+      this.broadcastToRoom(room.id, 'player_eliminated', {
+        side,
+        userId: room.gameState.sides?.[side],
+        placement: placements[side]
+      });
+    }
+
+    if (gameData.winner) {
+      await this.finishFfaMatch(room, gameData);
+      return;
+    }
+
+    try {
+      this.broadcastSnapshot(room, gameData);
+    } catch (broadcastError) {
+      console.error(`Error broadcasting game state update for room ${room.id}:`, broadcastError);
+    }
+  }
+
+  /**
+   * Keep the room status on 'serving' while the serve countdown runs and
+   * announce every second of it (3, 2, 1, then 0 when the ball is served)
+   */
+  private updateServePhase(room: GameRoom, previous: PowerUpGameState, gameData: PowerUpGameState) {
+    if (gameData.winner) return;
+
+    const count = Math.ceil(gameData.serveCountdown ?? 0);
+    // Resuming from a pause or kicking off announces the current count again
+    const previousCount = room.gameState.status === 'serving' ? Math.ceil(previous.serveCountdown ?? 0) : 0;
+
+    room.gameState.status = count > 0 ? 'serving' : 'playing';
+    if (count !== previousCount) {
+      this.broadcastToRoom(room.id, 'serve_countdown', {
+        count,
+        servingTo: gameData.ball.dx > 0 ? 'right' : 'left',
+        roomState: room.gameState
+      });
+    }
+  }
+
+  /**
+   * End a classic match that has a winner: save its replay and result, then
+   * announce it to the room
+   * @param forfeitedBy - Player who lost by not returning after a disconnect
+   */
+  private async finishClassicMatch(room: GameRoom, gameData: PowerUpGameState, forfeitedBy?: string) {
+    // A match is recorded once, whatever restarts its loop afterwards
+    if (room.gameState.status === 'finished') return;
+    const roomId = room.id;
+    const winner = gameData.winner!;
+    console.log(`🎯 GAME ENDED! Winner: ${winner}, Final score: ${gameData.leftScore} - ${gameData.rightScore}`);
+    
+    // Stop game loop
+    this.stopGameLoop(roomId);
+    
+    // Set game status to finished
+    room.gameState.status = 'finished';
+    
+    // Save the replay first so a tournament match can link to it
+    const replayId = await this.saveMatchReplay(room, gameData);
+    const telemetry = room.telemetry?.finish(gameData);
+    room.telemetry = undefined;
+
+    // Save tournament match result if this is a tournament game
+    console.log(`💾 Attempting to save tournament match result for room: ${roomId}`);
+    await this.saveTournamentMatchResult(roomId, gameData, winner, replayId, forfeitedBy !== undefined, telemetry);
+    
+    // Broadcast game end
+    console.log(`📡 Broadcasting game end to room ${roomId}:`, {
+      winner,
+      leftScore: gameData.leftScore,
+      rightScore: gameData.rightScore,
+      forfeitedBy
+    });
+    
+    this.broadcastToRoom(roomId, 'game_end', {
+      gameResult: {
+        winner,
+        leftScore: gameData.leftScore,
+        rightScore: gameData.rightScore,
+        replayId,
+        ...(forfeitedBy !== undefined ? { forfeit: true, forfeitedBy } : {})
+      },
+      roomState: room.gameState,
+      message: 'Game finished!'
+    });
+
+    // A match between two AI players closes once it is decided
+    this.dismissIdleBots(room);
+  }
+
+  /**
+   * End a free-for-all match that has a winner
+   * @param forfeitedBy - Player whose forfeit left a single player standing
+   */
+  private async finishFfaMatch(room: GameRoom, gameData: FfaState, forfeitedBy?: string) {
+    if (room.gameState.status === 'finished') return;
+    const placements = getFfaPlacements(gameData);
+    console.log(`🎯 FREE-FOR-ALL ENDED! Winner: ${gameData.winner}`, placements);
+
+    this.stopGameLoop(room.id);
+    room.gameState.status = 'finished';
+
+    const replayId = await this.saveMatchReplay(room, gameData);
+    await this.saveFfaMatchHistory(room, gameData, placements);
+
+    this.broadcastToRoom(room.id, 'game_end', {
+      gameResult: {
+        winner: gameData.winner,
+        placements,
+        lives: gameData.lives,
+        replayId,
+        ...(forfeitedBy !== undefined ? { forfeit: true, forfeitedBy } : {})
+      },
+      roomState: room.gameState,
+      message: 'Game finished!'
+    });
+  }
+
+  /**
+   * Resolve the rules for a new room: tournament settings take precedence over
+   * rules requested by the player creating the room, then gameSpeed defaults
+   */
+  private async resolveMatchRules(tournamentId: number, gameSpeed: 'slow' | 'normal' | 'fast', requestedRules?: Partial<MatchRules>): Promise<MatchRules> {
+    const defaults = getDefaultMatchRules(gameSpeed);
+
+    if (tournamentId > 0) {
+      try {
+        const { TournamentService } = await import('./tournamentService.js');
+        const tournamentRules = await TournamentService.getMatchRules(tournamentId);
+        if (tournamentRules) {
+          const validation = validateMatchRules(tournamentRules, defaults);
+          if (validation.valid) {
+            return validation.rules;
+          }
+          console.error(`❌ Invalid match rules in tournament ${tournamentId} settings:`, validation.errors);
+        }
+      } catch (error) {
+        console.error(`❌ Error loading match rules for tournament ${tournamentId}:`, error);
+      }
+    }
+
+    return validateMatchRules(requestedRules, defaults).rules;
+  }
+
+  /**
+   * Fresh physics context for a room: seeded RNG, idle paddle inputs and tick counter
+   */
+  private createPhysicsContext(): Pick<GameRoom, 'seed' | 'rng' | 'rngDraws' | 'inputs' | 'ffaInputs' | 'tick' | 'inputAcks'> {
+    const seed = createRandomSeed();
+    const random = createCountingRandom(seed);
+    return {
+      seed,
+      rng: random.next,
+      rngDraws: random.draws,
+      inputs: { left: 0, right: 0 },
+      ffaInputs: {},
+      tick: 0,
+      inputAcks: {}
+    };
+  }
+
+  /**
+   * Initialize game data for a new match using the shared physics core and
+   * start recording its replay
+   */
+  private initializeGameData(room: GameRoom): PongState | FfaState {
+    Object.assign(room, this.createPhysicsContext());
+    const initialGameData = room.mode === 'ffa'
+      ? createFfaState(matchRulesToFfaConfig(room.rules), room.rng)
+      : createInitialState(matchRulesToConfig(room.rules));
+    room.gameState.gameData = initialGameData;
+    room.telemetry = room.mode === 'ffa' ? undefined : new TelemetryRecorder();
+    room.replay = new ReplayRecorder({
+      mode: room.mode,
+      seed: room.seed,
+      rngDraws: room.rngDraws(),
+      rules: room.rules,
+      initialState: initialGameData
+    });
+    return initialGameData;
+  }
+
+  /**
+   * Save the replay of a finished match
+   * @returns The game session id the replay is stored under, if it was saved
    */
-  private resetBall(gameData: any, gameSpeed: 'slow' | 'normal' | 'fast' = 'normal') {
-    const speedValues = getSpeedValues(gameSpeed);
-    gameData.ball.x = 400;
-    gameData.ball.y = 200;
-    gameData.ball.dx = (Math.random() > 0.5 ? 1 : -1) * speedValues.ballSpeed;
-    gameData.ball.dy = (Math.random() - 0.5) * speedValues.ballSpeed * 1.2;
+  private async saveMatchReplay(room: GameRoom, finalState: ReplayState): Promise<number | undefined> {
+    if (!room.replay) return undefined;
+
+    const replay = room.replay.finish(room.tick, finalState);
+    room.replay = undefined;
+    try {
+      const { ReplayService } = await import('./replayService.js');
+      const gameType = room.tournamentId > 0 ? 'tournament' : room.mode === 'ffa' ? 'ffa' : 'multiplayer';
+      const sessionId = await ReplayService.saveReplay(room.id, gameType, replay);
+      console.log(`🎬 Saved replay ${sessionId} for room ${room.id} (${replay.ticks} ticks, ${replay.inputs.length} inputs)`);
+      return sessionId;
+    } catch (error) {
+      console.error(`❌ Error saving replay for room ${room.id}:`, error);
+      return undefined;
+    }
   }
 
   /**
    * Save tournament match result to database
+   * @param gameSessionId - Game session holding the match replay
+   * @param forfeit - The loser forfeited by not returning after a disconnect
    */
-  private async saveTournamentMatchResult(roomId: string, gameData: any, winner: string) {
+  private async saveTournamentMatchResult(
+    roomId: string,
+    gameData: any,
+    winner: string,
+    gameSessionId?: number,
+    forfeit: boolean = false,
+    telemetry?: MatchTelemetry
+  ) {
     try {
       console.log(`🔍 Parsing roomId: "${roomId}"`);
       
@@ -1753,7 +2931,7 @@ class SocketIOService {
         const simpleRoomMatch = roomId.match(/^\d+$/);
         if (simpleRoomMatch) {
           console.log('🎮 Regular multiplayer game detected (simple roomId), updating user statistics directly');
-          await this.updateRegularMultiplayerStatistics(roomId, gameData, winner);
+          await this.updateRegularMultiplayerStatistics(roomId, gameData, winner, telemetry);
           return;
         } else {
           console.log('ℹ️ Not a tournament game and not a simple number, skipping match result save');
@@ -1771,7 +2949,7 @@ class SocketIOService {
         const simpleRoomMatch = roomId.match(/^\d+$/);
         if (simpleRoomMatch) {
           console.log('🎮 Attempting to handle as regular multiplayer game');
-          await this.updateRegularMultiplayerStatistics(roomId, gameData, winner);
+          await this.updateRegularMultiplayerStatistics(roomId, gameData, winner, telemetry);
         }
         return;
       }
@@ -1779,7 +2957,7 @@ class SocketIOService {
       // Handle regular multiplayer games (tournamentId = 0) - CHECK THIS FIRST
       if (tournamentId === 0) {
         console.log('🎮 Regular multiplayer game detected, updating user statistics directly');
-        await this.updateRegularMultiplayerStatistics(roomId, gameData, winner);
+        await this.updateRegularMultiplayerStatistics(roomId, gameData, winner, telemetry);
         return;
       }
 
@@ -1837,14 +3015,14 @@ class SocketIOService {
       // Get tournament participants to map user_id to participant_id
       const { DatabaseService } = await import('./databaseService.js');
       const participant1 = await DatabaseService.get(
-        'SELECT id, user_id, guest_alias FROM tournament_participants WHERE id = ?',
+        'SELECT id, user_id, guest_alias, guest_id, bot_difficulty FROM tournament_participants WHERE id = ?',
         [match.player1_id]
-      ) as { id: number; user_id: number | null; guest_alias: string | null } | null;
+      ) as { id: number; user_id: number | null; guest_alias: string | null; guest_id: string | null; bot_difficulty: string | null } | null;
       
       const participant2 = await DatabaseService.get(
-        'SELECT id, user_id, guest_alias FROM tournament_participants WHERE id = ?',
+        'SELECT id, user_id, guest_alias, guest_id, bot_difficulty FROM tournament_participants WHERE id = ?',
         [match.player2_id]
-      ) as { id: number; user_id: number | null; guest_alias: string | null } | null;
+      ) as { id: number; user_id: number | null; guest_alias: string | null; guest_id: string | null; bot_difficulty: string | null } | null;
       
       console.log(`🔍 Tournament participants:`, {
         participant1: participant1 ? { id: participant1.id, user_id: participant1.user_id, guest_alias: participant1.guest_alias } : 'none',
@@ -1853,31 +3031,25 @@ class SocketIOService {
         rightUserId
       });
       
-      // Get user_id from participants (handle both registered users and guests)
-      const player1UserId = participant1?.user_id ? String(participant1.user_id) : null;
-      const player2UserId = participant2?.user_id ? String(participant2.user_id) : null;
+      // Room player id of each participant: registered users play under their user id,
+      // AI participants under their bot id and guests under the guest id they joined with
+      const getParticipantPlayerId = (participant: typeof participant1): string | null => {
+        if (participant?.user_id) return String(participant.user_id);
+        if (participant?.bot_difficulty) return tournamentBotId(participant.id);
+        return participant?.guest_id ?? null;
+      };
+      const player1UserId = getParticipantPlayerId(participant1);
+      const player2UserId = getParticipantPlayerId(participant2);
       
-      // For guests, we need to check guest_alias or use participant mapping
-      // Check if player1 is on left or right side by comparing user_id
+      // Check if player1 is on left or right side by comparing player ids
       const player1IsLeft = player1UserId && leftUserId && String(player1UserId) === String(leftUserId);
       const player1IsRight = player1UserId && rightUserId && String(player1UserId) === String(rightUserId);
       
-      // If user_id doesn't match, check if it's a guest (this is a fallback)
-      let player1IsLeftGuest = false;
-      let player1IsRightGuest = false;
-      if (!player1IsLeft && !player1IsRight && participant1?.guest_alias) {
-        // For guests, we might need to use playerIdMapping or other method
-        // For now, we'll try to match by checking if the userId matches the guest pattern
-        const leftIsGuest = leftUserId && leftUserId.startsWith('guest_');
-        const rightIsGuest = rightUserId && rightUserId.startsWith('guest_');
-        // This is a simplified check - in practice, you might need more sophisticated matching
-      }
-      
       // Set scores based on which side each player is on
-      if (player1IsLeft || player1IsLeftGuest) {
+      if (player1IsLeft) {
         player1Score = gameData.leftScore;
         player2Score = gameData.rightScore;
-      } else if (player1IsRight || player1IsRightGuest) {
+      } else if (player1IsRight) {
         player1Score = gameData.rightScore;
         player2Score = gameData.leftScore;
       } else {
@@ -1957,7 +3129,9 @@ class SocketIOService {
         matchId,
         winnerId,
         player1Score,
-        player2Score
+        player2Score,
+        gameSessionId !== undefined ? String(gameSessionId) : undefined,
+        forfeit ? 'forfeit' : 'completed'
       );
       console.log('✅ Match result updated in database');
 
@@ -1966,11 +3140,41 @@ class SocketIOService {
       await this.updateUserStatistics(match, winnerId, player1Score, player2Score);
       console.log('✅ User statistics update completed');
 
+      // Only matches between two registered players are rated
+      if (participant1?.user_id && participant2?.user_id) {
+        await this.rateMatch(String(participant1.user_id), String(participant2.user_id), winnerId === match.player1_id, {
+          matchType: 'tournament',
+          tournamentId,
+          matchId
+        });
+      }
+
       // Save match history for both players (only for registered users, not guests)
       console.log('📝 Saving match history for tournament match...');
-      await this.saveTournamentMatchHistory(match, participant1, participant2, player1UserId, player2UserId, player1Score, player2Score, winnerId, leftUserId, rightUserId);
+      await this.saveTournamentMatchHistory(match, participant1, participant2, player1UserId, player2UserId, player1Score, player2Score, winnerId, leftUserId, rightUserId, telemetry);
       console.log('✅ Match history saved for tournament match');
 
+      // Tournament bots count as AI opponents for the achievements
+      const longestRally = getLongestRally(gameData);
+      const sides = [
+        { participant: participant1, opponent: participant2, score: player1Score, opponentScore: player2Score, won: winnerId === match.player1_id },
+        { participant: participant2, opponent: participant1, score: player2Score, opponentScore: player1Score, won: winnerId === match.player2_id }
+      ];
+      for (const side of sides) {
+        if (!side.participant?.user_id) continue;
+        const opponentDifficulty = side.opponent?.bot_difficulty;
+        await AchievementService.record({
+          type: 'match_finished',
+          userId: String(side.participant.user_id),
+          mode: 'tournament',
+          won: side.won,
+          score: side.score,
+          opponentScore: side.opponentScore,
+          aiDifficulty: isAIDifficulty(opponentDifficulty) ? opponentDifficulty : undefined,
+          longestRally
+        });
+      }
+
       console.log('✅ Tournament match result saved successfully!');
     } catch (error) {
       console.error('❌ Error saving tournament match result:', error);
@@ -1999,73 +3203,10 @@ class SocketIOService {
     }
   }
 
-  /**
-   * Extract user ID from JWT token
-   */
-  private async extractUserIdFromToken(token: string): Promise<string | null> {
-    try {
-      // Simple JWT decode without verification (for now)
-      // Token format: "header.payload.signature"
-      const parts = token.split('.');
-      if (parts.length !== 3) {
-        console.log('⚠️ Invalid JWT token format: expected 3 parts, got', parts.length);
-        return null;
-      }
-      
-      // JWT uses base64url encoding (not standard base64)
-      // Convert base64url to base64 by replacing characters
-      let base64Payload = parts[1].replace(/-/g, '+').replace(/_/g, '/');
-      
-      // Add padding if needed
-      while (base64Payload.length % 4) {
-        base64Payload += '=';
-      }
-      
-      try {
-        const payload = Buffer.from(base64Payload, 'base64').toString('utf-8');
-        const decoded = JSON.parse(payload);
-        
-        console.log('🔍 Decoded JWT payload:', decoded);
-        
-        // Try userId first, then id (different JWT implementations use different field names)
-        if (decoded && decoded.userId) {
-          console.log('✅ Extracted userId from token (userId field):', decoded.userId);
-          return decoded.userId.toString();
-        } else if (decoded && decoded.id) {
-          console.log('✅ Extracted userId from token (id field):', decoded.id);
-          return decoded.id.toString();
-        } else {
-          console.log('⚠️ JWT payload does not contain userId or id. Available fields:', Object.keys(decoded || {}));
-        }
-      } catch (decodeError) {
-        console.error('❌ Error decoding JWT payload:', decodeError);
-        // Try standard base64 as fallback
-        try {
-          const payload = Buffer.from(parts[1], 'base64').toString('utf-8');
-          const decoded = JSON.parse(payload);
-          if (decoded && decoded.userId) {
-            console.log('✅ Extracted userId from token (fallback, userId field):', decoded.userId);
-            return decoded.userId.toString();
-          } else if (decoded && decoded.id) {
-            console.log('✅ Extracted userId from token (fallback, id field):', decoded.id);
-            return decoded.id.toString();
-          }
-        } catch (fallbackError) {
-          console.error('❌ Fallback decode also failed:', fallbackError);
-        }
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('❌ Error extracting user ID from token:', error);
-      return null;
-    }
-  }
-
   /**
    * Update user statistics for regular multiplayer games
    */
-  private async updateRegularMultiplayerStatistics(roomId: string, gameData: any, winner: string) {
+  private async updateRegularMultiplayerStatistics(roomId: string, gameData: any, winner: string, telemetry?: MatchTelemetry) {
     try {
       console.log('🎮 Updating regular multiplayer statistics for room:', roomId);
       
@@ -2100,15 +3241,13 @@ class SocketIOService {
       const leftPlayerWon = winner === 'left';
       const rightPlayerWon = winner === 'right';
       
-      // Get real user IDs from mapping
-      const realLeftUserId = this.playerIdMapping.get(leftPlayer.userId) || leftPlayer.userId;
-      const realRightUserId = this.playerIdMapping.get(rightPlayer.userId) || rightPlayer.userId;
-      
-      console.log(`🔍 Player ID mappings: Left ${leftPlayer.userId} -> ${realLeftUserId}, Right ${rightPlayer.userId} -> ${realRightUserId}`);
+      // Room players are keyed by the identity verified at the handshake
+      const realLeftUserId = leftPlayer.userId;
+      const realRightUserId = rightPlayer.userId;
       
       // Update left player statistics
       // Check both the original userId and the real userId to determine if it's a guest
-      const isLeftGuest = (leftPlayer.userId && leftPlayer.userId.startsWith('guest_')) || 
+      const isLeftGuest = leftPlayer.bot || (leftPlayer.userId && leftPlayer.userId.startsWith('guest_')) || 
                           (realLeftUserId && realLeftUserId.startsWith('guest_'));
       if (!isLeftGuest && realLeftUserId) {
         try {
@@ -2127,7 +3266,7 @@ class SocketIOService {
 
       // Update right player statistics
       // Check both the original userId and the real userId to determine if it's a guest
-      const isRightGuest = (rightPlayer.userId && rightPlayer.userId.startsWith('guest_')) || 
+      const isRightGuest = rightPlayer.bot || (rightPlayer.userId && rightPlayer.userId.startsWith('guest_')) || 
                            (realRightUserId && realRightUserId.startsWith('guest_'));
       if (!isRightGuest && realRightUserId) {
         try {
@@ -2144,21 +3283,26 @@ class SocketIOService {
         console.log(`⚠️ Right player is guest (userId: ${rightPlayer.userId}, realUserId: ${realRightUserId}), skipping statistics update`);
       }
 
+      // Only matches between two registered players are rated
+      if (!isLeftGuest && !isRightGuest && realLeftUserId && realRightUserId) {
+        await this.rateMatch(realLeftUserId, realRightUserId, leftPlayerWon, { matchType: 'multiplayer' });
+      }
+
       // Save match history for both players (only if they are real users, not guests)
       console.log('📝 Saving match history...');
       
       // Save match history for left player
-      const isLeftGuestForHistory = (leftPlayer.userId && leftPlayer.userId.startsWith('guest_')) || 
+      const isLeftGuestForHistory = leftPlayer.bot || (leftPlayer.userId && leftPlayer.userId.startsWith('guest_')) || 
                                      (realLeftUserId && realLeftUserId.startsWith('guest_'));
       if (!isLeftGuestForHistory && realLeftUserId) {
         try {
           const leftUserIdInt = parseInt(realLeftUserId.toString());
-          const isRightGuestForHistory = (rightPlayer.userId && rightPlayer.userId.startsWith('guest_')) || 
+          const isRightGuestForHistory = rightPlayer.bot || (rightPlayer.userId && rightPlayer.userId.startsWith('guest_')) || 
                                          (realRightUserId && realRightUserId.startsWith('guest_'));
           const rightUserIdInt = isRightGuestForHistory ? null : parseInt(realRightUserId.toString());
           
           // Get opponent username
-          let opponentName = rightPlayer.userId || 'Opponent';
+          let opponentName = rightPlayer.name || rightPlayer.userId || 'Opponent';
           if (!isRightGuestForHistory && rightUserIdInt) {
             try {
               const opponentUser = await DatabaseService.query(
@@ -2174,8 +3318,8 @@ class SocketIOService {
           }
           
           await DatabaseService.run(
-            `INSERT INTO match_history (user_id, opponent_id, opponent_name, user_score, opponent_score, result, game_mode, played_at)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP)`,
+            `INSERT INTO match_history (user_id, opponent_id, opponent_name, user_score, opponent_score, result, game_mode, ai_profile, telemetry, played_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, CURRENT_TIMESTAMP)`,
             [
               leftUserIdInt,
               rightUserIdInt,
@@ -2183,7 +3327,9 @@ class SocketIOService {
               gameData.leftScore,
               gameData.rightScore,
               leftPlayerWon ? 'win' : 'loss',
-              'multiplayer'
+              'multiplayer',
+              rightPlayer.bot ? formatAIProfile(rightPlayer.bot.profile) : null,
+              telemetry ? JSON.stringify(telemetry.left) : null
             ]
           );
           console.log(`✅ Saved match history for left player ${realLeftUserId} vs ${opponentName}`);
@@ -2193,17 +3339,17 @@ class SocketIOService {
       }
       
       // Save match history for right player
-      const isRightGuestForHistory = (rightPlayer.userId && rightPlayer.userId.startsWith('guest_')) || 
+      const isRightGuestForHistory = rightPlayer.bot || (rightPlayer.userId && rightPlayer.userId.startsWith('guest_')) || 
                                       (realRightUserId && realRightUserId.startsWith('guest_'));
       if (!isRightGuestForHistory && realRightUserId) {
         try {
           const rightUserIdInt = parseInt(realRightUserId.toString());
-          const isLeftGuestForHistory2 = (leftPlayer.userId && leftPlayer.userId.startsWith('guest_')) || 
+          const isLeftGuestForHistory2 = leftPlayer.bot || (leftPlayer.userId && leftPlayer.userId.startsWith('guest_')) || 
                                          (realLeftUserId && realLeftUserId.startsWith('guest_'));
           const leftUserIdInt = isLeftGuestForHistory2 ? null : parseInt(realLeftUserId.toString());
           
           // Get opponent username
-          let opponentName = leftPlayer.userId || 'Opponent';
+          let opponentName = leftPlayer.name || leftPlayer.userId || 'Opponent';
           if (!isLeftGuestForHistory2 && leftUserIdInt) {
             try {
               const opponentUser = await DatabaseService.query(
@@ -2219,8 +3365,8 @@ class SocketIOService {
           }
           
           await DatabaseService.run(
-            `INSERT INTO match_history (user_id, opponent_id, opponent_name, user_score, opponent_score, result, game_mode, played_at)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP)`,
+            `INSERT INTO match_history (user_id, opponent_id, opponent_name, user_score, opponent_score, result, game_mode, ai_profile, telemetry, played_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, CURRENT_TIMESTAMP)`,
             [
               rightUserIdInt,
               leftUserIdInt,
@@ -2228,7 +3374,9 @@ class SocketIOService {
               gameData.rightScore,
               gameData.leftScore,
               rightPlayerWon ? 'win' : 'loss',
-              'multiplayer'
+              'multiplayer',
+              leftPlayer.bot ? formatAIProfile(leftPlayer.bot.profile) : null,
+              telemetry ? JSON.stringify(telemetry.right) : null
             ]
           );
           console.log(`✅ Saved match history for right player ${realRightUserId} vs ${opponentName}`);
@@ -2237,12 +3385,111 @@ class SocketIOService {
         }
       }
 
+      const longestRally = getLongestRally(gameData);
+      if (!isLeftGuest && realLeftUserId) {
+        await AchievementService.record({
+          type: 'match_finished',
+          userId: realLeftUserId,
+          mode: 'multiplayer',
+          won: leftPlayerWon,
+          score: gameData.leftScore,
+          opponentScore: gameData.rightScore,
+          aiDifficulty: rightPlayer.bot?.profile.difficulty,
+          longestRally
+        });
+      }
+      if (!isRightGuest && realRightUserId) {
+        await AchievementService.record({
+          type: 'match_finished',
+          userId: realRightUserId,
+          mode: 'multiplayer',
+          won: rightPlayerWon,
+          score: gameData.rightScore,
+          opponentScore: gameData.leftScore,
+          aiDifficulty: leftPlayer.bot?.profile.difficulty,
+          longestRally
+        });
+      }
+
       console.log('✅ Regular multiplayer statistics and match history updated successfully!');
     } catch (error) {
       console.error('❌ Error updating regular multiplayer statistics:', error);
     }
   }
 
+  /**
+   * Record a free-for-all result: one match_history row with the placement
+   * for every registered participant (guests are skipped)
+   */
+  private async saveFfaMatchHistory(room: GameRoom, gameData: FfaState, placements: Record<FfaSide, number>) {
+    try {
+      const { UserService } = await import('./userService.js');
+      const { DatabaseService } = await import('./databaseService.js');
+      const sides = room.gameState.sides ?? {};
+
+      for (const side of FFA_SIDES) {
+        const playerId = sides[side];
+        if (!playerId) continue;
+
+        const realUserId = playerId;
+        const userIdInt = parseInt(realUserId, 10);
+        if (realUserId.startsWith('guest_') || isNaN(userIdInt)) {
+          console.log(`⚠️ ${side} player is guest (userId: ${realUserId}), skipping match history`);
+          continue;
+        }
+
+        const won = placements[side] === 1;
+        const opponents = FFA_SIDES.filter(other => other !== side);
+        const bestOpponentLives = Math.max(...opponents.map(other => gameData.lives[other]));
+
+        try {
+          await UserService.updateUserStatistics(realUserId, gameData.lives[side], won);
+          await DatabaseService.run(
+            `INSERT INTO match_history (user_id, opponent_id, opponent_name, user_score, opponent_score, result, game_mode, placement, played_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP)`,
+            [
+              userIdInt,
+              null,
+              `${opponents.length} opponents`,
+              gameData.lives[side],
+              bestOpponentLives,
+              won ? 'win' : 'loss',
+              'ffa',
+              placements[side]
+            ]
+          );
+          console.log(`✅ Saved free-for-all result for ${realUserId}: placement ${placements[side]}`);
+          await AchievementService.record({
+            type: 'match_finished',
+            userId: realUserId,
+            mode: 'ffa',
+            won,
+            score: gameData.lives[side],
+            opponentScore: bestOpponentLives
+          });
+        } catch (error) {
+          console.error(`❌ Error saving free-for-all result for ${realUserId}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Error saving free-for-all match history:', error);
+    }
+  }
+
+  /**
+   * Update the ratings of two registered players after a rated match
+   * @param firstWon - Whether the first player won
+   */
+  private async rateMatch(firstUserId: string, secondUserId: string, firstWon: boolean, source: RatedMatchSource) {
+    try {
+      const { RatingService } = await import('./ratingService.js');
+      const [first, second] = await RatingService.recordMatch(firstUserId, secondUserId, firstWon ? 1 : 0, source);
+      console.log(`📈 Rated ${source.matchType} match: ${first.userId} ${Math.round(first.ratingBefore)} → ${Math.round(first.ratingAfter)}, ${second.userId} ${Math.round(second.ratingBefore)} → ${Math.round(second.ratingAfter)}`);
+    } catch (error) {
+      console.error(`❌ Error rating match between ${firstUserId} and ${secondUserId}:`, error);
+    }
+  }
+
   /**
    * Update user statistics for tournament match
    */
@@ -2354,46 +3601,46 @@ class SocketIOService {
   /**
    * Handle pause game request
    */
-  private handlePauseGame(socket: any, tournamentId: number, matchId: number) {
-    const roomId = `tournament-${tournamentId}-match-${matchId}`;
-    const room = this.gameRooms.get(roomId);
-    
+  private handlePauseGame(socket: Socket) {
+    const room = this.getControlledRoom(socket);
     if (!room) {
-      console.error(`❌ Cannot pause game: Room ${roomId} not found`);
+      console.error(`❌ Cannot pause game: socket ${socket.id} is not a player of a game room`);
       return;
     }
+    const roomId = room.id;
 
     // Toggle pause/resume
-    if (room.gameState.status === 'playing') {
-      room.gameState.status = 'paused';
-      console.log(`⏸️ Game paused in room ${roomId}`);
-      
-      this.broadcastToRoom(roomId, 'game_pause', {
-        roomState: room.gameState,
-        message: 'Game paused'
-      });
-    } else if (room.gameState.status === 'paused') {
-      room.gameState.status = 'playing';
+    if (room.gameState.status === 'paused') {
+      if (!this.resumeMatch(room)) return;
       console.log(`▶️ Game resumed in room ${roomId}`);
       
       this.broadcastToRoom(roomId, 'game_start', {
         roomState: room.gameState,
         message: 'Game resumed'
       });
-    } else {
-      console.error(`❌ Cannot pause/resume game: Room ${roomId} status is ${room.gameState.status}`);
+    } else if (this.pauseMatch(room, socket.playerId!)) {
+      console.log(`⏸️ Game paused in room ${roomId}`);
+      
+      this.broadcastToRoom(roomId, 'game_pause', {
+        roomState: room.gameState,
+        message: 'Game paused'
+      });
     }
   }
 
   /**
    * Handle reset game request
    */
-  private handleResetGame(socket: any, tournamentId: number, matchId: number) {
-    const roomId = `tournament-${tournamentId}-match-${matchId}`;
-    const room = this.gameRooms.get(roomId);
-    
+  private handleResetGame(socket: Socket) {
+    const room = this.getControlledRoom(socket);
     if (!room) {
-      console.error(`❌ Room ${roomId} not found`);
+      console.error(`❌ Cannot reset game: socket ${socket.id} is not a player of a game room`);
+      return;
+    }
+    const roomId = room.id;
+
+    if (!isResettable(room.gameState.status)) {
+      this.reportViolation(socket.playerId!, 'match_reset', `room ${roomId} is ${room.gameState.status}`);
       return;
     }
 
@@ -2427,6 +3674,7 @@ class SocketIOService {
         
         this.broadcastToRoom(roomId, 'game_start', {
           roomState: room.gameState,
+          rules: room.rules,
           message: 'Game restarted! Starting new game...'
         });
 
@@ -2435,16 +3683,7 @@ class SocketIOService {
           room.gameState.status = 'playing';
           
           // Initialize fresh game data with gameSpeed-based speeds
-          const speedValues = getSpeedValues(room.gameSpeed);
-          const initialGameData = {
-            leftPaddle: { y: 200 },
-            rightPaddle: { y: 200 },
-            ball: { x: 400, y: 200, dx: speedValues.ballSpeed, dy: speedValues.ballSpeed * 0.6 },
-            leftScore: 0,
-            rightScore: 0
-          };
-          
-          room.gameState.gameData = initialGameData;
+          const initialGameData = this.initializeGameData(room);
           
           console.log(`Broadcasting game_playing after reset to room ${roomId} with ${room.players.size} players`);
           this.broadcastToRoom(roomId, 'game_playing', {
@@ -2463,7 +3702,14 @@ class SocketIOService {
   /**
    * Handle paddle movement
    */
-  private handlePaddleMovement(userId: string, direction: number) {
+  private handlePaddleMovement(userId: string, direction: unknown, sequence?: unknown) {
+    // Only the input intents -1, 0 and 1 are accepted, never a speed or position
+    const intent = parseInputIntent(direction);
+    if (intent === null || !isValidInputSequence(sequence)) {
+      this.reportViolation(userId, 'invalid_input', `direction ${JSON.stringify(direction)}, sequence ${JSON.stringify(sequence)}`);
+      return;
+    }
+
     const roomId = this.playerRooms.get(userId);
     if (!roomId) {
       console.error(`❌ User ${userId} not in any room`);
@@ -2471,7 +3717,7 @@ class SocketIOService {
     }
 
     const room = this.gameRooms.get(roomId);
-    if (!room || room.gameState.status !== 'playing') {
+    if (!room || !isMatchRunning(room.gameState.status)) {
       return;
     }
     
@@ -2482,19 +3728,12 @@ class SocketIOService {
       return;
     }
 
-    // Update paddle position in game state
+    // Paddle input only applies once game data exists
     if (!room.gameState.gameData) {
       console.error(`❌ No game data found for room ${roomId}`);
       return;
     }
 
-    const gameData = room.gameState.gameData;
-    // Get speed values based on gameSpeed - all players use the same speed
-    const speedValues = getSpeedValues(room.gameSpeed);
-    const paddleSpeed = speedValues.paddleSpeed;
-    const paddleHeight = 80;
-    const canvasHeight = 400;
-
     // Find the player's assigned side from the room's player data
     const playerInfo = room.players.get(userId);
     if (!playerInfo) {
@@ -2502,30 +3741,171 @@ class SocketIOService {
       return;
     }
 
-    const playerSide = playerInfo.side;
-    console.log(`🎮 Paddle movement: User ${userId} (side: ${playerSide}), direction ${direction}`);
-
-    // Determine which paddle to move based on player's assigned SIDE (not player1/player2)
-    if (playerSide === 'left') {
-      // Player controls left paddle
-      gameData.leftPaddle.y += direction * paddleSpeed;
-      gameData.leftPaddle.y = Math.max(0, Math.min(canvasHeight - paddleHeight, gameData.leftPaddle.y));
-      console.log(`   Left paddle moved to: ${gameData.leftPaddle.y}`);
-    } else if (playerSide === 'right') {
-      // Player controls right paddle
-      gameData.rightPaddle.y += direction * paddleSpeed;
-      gameData.rightPaddle.y = Math.max(0, Math.min(canvasHeight - paddleHeight, gameData.rightPaddle.y));
-      console.log(`   Right paddle moved to: ${gameData.rightPaddle.y}`);
+    // Inputs are budgeted per physics tick; the excess is dropped. The budget
+    // is for what clients send, so the server's own AI players are not counted
+    if (!playerInfo.bot && !this.inputGuard.allowInput(userId, room.tick)) {
+      this.reportViolation(userId, 'rate_limited', `tick ${room.tick}`);
+      return;
+    }
+
+    const playerSide: FfaSide | 'spectator' = playerInfo.side;
+    console.log(`🎮 Paddle movement: User ${userId} (side: ${playerSide}), direction ${intent}`);
+
+    if (room.mode === 'ffa' && playerSide !== 'spectator') {
+      room.ffaInputs[playerSide] = intent;
+      room.replay?.recordInput(room.tick, playerSide, intent);
+      return;
+    }
+
+    // Hold the direction for the player's assigned SIDE (not player1/player2);
+    // the game loop applies it on every physics tick until it changes
+    if (playerSide === 'left' || playerSide === 'right') {
+      room.inputs[playerSide] = intent;
+      room.replay?.recordInput(room.tick, playerSide, intent);
+      // Acknowledged in the next snapshot, together with the first tick it applies to
+      if (typeof sequence === 'number') {
+        room.inputAcks[playerSide] = { sequence, tick: room.tick + 1 };
+      }
     } else {
       console.error(`❌ Invalid player side: ${playerSide} for user ${userId}`);
-      return;
+    }
+  }
+
+  /**
+   * Restore the matches saved before the last shutdown, then keep snapshotting
+   * the running ones: every restored room comes back paused and its players get
+   * the usual grace period to reconnect and resume
+   */
+  private async restoreRooms() {
+    // Other workers restore the rooms they own
+    const snapshots = (await this.roomStore.loadSnapshots())
+      .filter(snapshot => isRoomOwner(snapshot.id, this.worker));
+    for (const snapshot of snapshots) {
+      try {
+        this.restoreRoom(snapshot);
+      } catch (error) {
+        console.error(`❌ Error restoring room ${snapshot.id}:`, error);
+      }
+    }
+    if (snapshots.length > 0) {
+      console.log(`♻️ Restored ${snapshots.length} room(s) from before the restart`);
     }
 
-    // Broadcast updated game state to all players
-    this.broadcastToRoom(roomId, 'game_state_update', {
-      gameState: gameData,
-      fromPlayer: userId
-    });
+    this.roomStore.startSnapshots(() => this.captureRoomSnapshots());
+  }
+
+  /**
+   * Rebuild a room from its snapshot, paused until its players are back
+   */
+  private restoreRoom(snapshot: RoomSnapshot) {
+    if (this.gameRooms.has(snapshot.id)) return;
+
+    const random = createCountingRandom(snapshot.seed, snapshot.rngDraws);
+    const room: GameRoom = {
+      id: snapshot.id,
+      tournamentId: snapshot.tournamentId,
+      matchId: snapshot.matchId,
+      players: new Map(),
+      gameSpeed: snapshot.gameSpeed,
+      rules: snapshot.rules,
+      mode: snapshot.mode,
+      gameState: { ...snapshot.gameState, status: 'paused' },
+      seed: snapshot.seed,
+      rng: random.next,
+      rngDraws: random.draws,
+      inputs: { left: 0, right: 0 },
+      ffaInputs: {},
+      tick: snapshot.tick,
+      inputAcks: {},
+      replay: snapshot.replay ? ReplayRecorder.resume(snapshot.replay) : undefined,
+      telemetry: snapshot.telemetry ? new TelemetryRecorder(snapshot.telemetry) : undefined,
+      pausedForReconnect: true
+    };
+    this.gameRooms.set(room.id, room);
+
+    for (const player of snapshot.players) {
+      const bot = player.bot && (player.side === 'left' || player.side === 'right')
+        ? new AIPaddleController(player.side, player.bot.difficulty, matchRulesToConfig(room.rules), Math.random, {
+          personality: player.bot.personality,
+          adaptive: player.bot.adaptive
+        })
+        : undefined;
+      room.players.set(player.userId, {
+        socket: null,
+        userId: player.userId,
+        name: player.name,
+        side: player.side,
+        ready: player.ready,
+        isSpectator: false,
+        ...(bot ? { bot } : {})
+      });
+      this.playerRooms.set(player.userId, room.id);
+    }
+
+    // Each player reconnects like after a dropped connection, or forfeits
+    for (const player of snapshot.players) {
+      if (!player.bot) {
+        this.startReconnectGrace(room, player.userId, player.side);
+      }
+    }
+    console.log(`♻️ Restored room ${room.id} at tick ${room.tick} (${snapshot.gameState.status} when saved), waiting for its players`);
+  }
+
+  /**
+   * Snapshots of the rooms with a match in progress, for the room store
+   */
+  private captureRoomSnapshots(): RoomSnapshot[] {
+    const snapshots: RoomSnapshot[] = [];
+    for (const room of this.gameRooms.values()) {
+      const { status, gameData } = room.gameState;
+      if (!gameData || !(isMatchRunning(status) || status === 'paused')) continue;
+
+      snapshots.push({
+        id: room.id,
+        tournamentId: room.tournamentId,
+        matchId: room.matchId,
+        mode: room.mode,
+        gameSpeed: room.gameSpeed,
+        rules: room.rules,
+        gameState: {
+          status,
+          player1Id: room.gameState.player1Id,
+          player2Id: room.gameState.player2Id,
+          player1Ready: room.gameState.player1Ready,
+          player2Ready: room.gameState.player2Ready,
+          sides: room.gameState.sides,
+          gameData
+        },
+        seed: room.seed,
+        rngDraws: room.rngDraws(),
+        tick: room.tick,
+        players: Array.from(room.players.values())
+          .filter((player: any) => !player.isSpectator && FFA_SIDES.includes(player.side))
+          .map((player: any) => ({
+            userId: player.userId,
+            side: player.side,
+            ready: player.ready === true,
+            name: player.name,
+            bot: player.bot?.profile
+          })),
+        replay: room.replay?.finish(room.tick, gameData),
+        telemetry: room.telemetry?.getTotals(),
+        savedAt: Date.now()
+      });
+    }
+    return snapshots;
+  }
+
+  /**
+   * Save a last snapshot of the running matches before the server stops
+   */
+  async shutdown(): Promise<void> {
+    if (this.matchmakingTimer) {
+      clearInterval(this.matchmakingTimer);
+      this.matchmakingTimer = null;
+    }
+    this.stopAchievementPush();
+    await this.roomStore.stopSnapshots();
   }
 
   /**
@@ -2556,15 +3936,16 @@ class SocketIOService {
    */
   private async saveTournamentMatchHistory(
     match: any,
-    participant1: { id: number; user_id: number | null; guest_alias: string | null } | null,
-    participant2: { id: number; user_id: number | null; guest_alias: string | null } | null,
+    participant1: { id: number; user_id: number | null; guest_alias: string | null; bot_difficulty: string | null } | null,
+    participant2: { id: number; user_id: number | null; guest_alias: string | null; bot_difficulty: string | null } | null,
     player1UserId: string | null,
     player2UserId: string | null,
     player1Score: number,
     player2Score: number,
     winnerId: number,
     leftUserId: string | null,
-    rightUserId: string | null
+    rightUserId: string | null,
+    telemetry?: MatchTelemetry
   ): Promise<void> {
     const { DatabaseService } = await import('./databaseService.js');
     
@@ -2573,6 +3954,9 @@ class SocketIOService {
     const player1IsRight = player1UserId && rightUserId && String(player1UserId) === String(rightUserId);
     const player2IsLeft = player2UserId && leftUserId && String(player2UserId) === String(leftUserId);
     const player2IsRight = player2UserId && rightUserId && String(player2UserId) === String(rightUserId);
+    const player1Side: PaddleSide | null = player1IsLeft || player2IsRight ? 'left' : player1IsRight || player2IsLeft ? 'right' : null;
+    const getTelemetry = (side: PaddleSide | null): string | null =>
+      telemetry && side ? JSON.stringify(telemetry[side]) : null;
     
     // Save match history for player1 (if registered user)
     if (participant1?.user_id && !participant1.user_id.toString().startsWith('guest_')) {
@@ -2602,8 +3986,8 @@ class SocketIOService {
         const opponentScore = player2Score; // player2Score is already the score for player2
         
         await DatabaseService.run(
-          `INSERT INTO match_history (user_id, opponent_id, opponent_name, user_score, opponent_score, result, game_mode, played_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP)`,
+          `INSERT INTO match_history (user_id, opponent_id, opponent_name, user_score, opponent_score, result, game_mode, ai_profile, telemetry, played_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, CURRENT_TIMESTAMP)`,
           [
             player1UserIdInt,
             player2UserIdInt,
@@ -2611,7 +3995,9 @@ class SocketIOService {
             userScore,
             opponentScore,
             player1Won ? 'win' : 'loss',
-            'tournament'
+            'tournament',
+            getTournamentBotProfile(participant2),
+            getTelemetry(player1Side)
           ]
         );
         console.log(`✅ Saved tournament match history for player1 (user_id: ${player1UserIdInt}) vs ${opponentName}`);
@@ -2648,8 +4034,8 @@ class SocketIOService {
         const opponentScore = player1Score; // player1Score is already the score for player1
         
         await DatabaseService.run(
-          `INSERT INTO match_history (user_id, opponent_id, opponent_name, user_score, opponent_score, result, game_mode, played_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP)`,
+          `INSERT INTO match_history (user_id, opponent_id, opponent_name, user_score, opponent_score, result, game_mode, ai_profile, telemetry, played_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, CURRENT_TIMESTAMP)`,
           [
             player2UserIdInt,
             player1UserIdInt,
@@ -2657,7 +4043,9 @@ class SocketIOService {
             userScore,
             opponentScore,
             player2Won ? 'win' : 'loss',
-            'tournament'
+            'tournament',
+            getTournamentBotProfile(participant1),
+            getTelemetry(player1Side && (player1Side === 'left' ? 'right' : 'left'))
           ]
         );
         console.log(`✅ Saved tournament match history for player2 (user_id: ${player2UserIdInt}) vs ${opponentName}`);
@@ -6,6 +6,9 @@
  */
 
 import { DatabaseService } from './databaseService';
+import { MatchRules, validateMatchRules } from '../game/matchRules';
+import { AIDifficulty, getAIDisplayName, isAIDifficulty } from '../game/aiPlayer';
+import { AchievementService } from './achievementService';
 
 // Tournament Types
 export type TournamentStatus = 'registration' | 'active' | 'completed' | 'cancelled';
@@ -32,6 +35,8 @@ export interface TournamentParticipant {
   tournament_id: number;
   user_id?: number | null;
   guest_alias?: string | null;
+  /** Guest id a guest joined with; match rooms recognise guests by it */
+  guest_id?: string | null;
   display_name: string;
   avatar_url?: string | null;
   joined_at: string;
@@ -39,6 +44,8 @@ export interface TournamentParticipant {
   final_rank?: number | null;
   seed?: number | null;
   is_ready: boolean;
+  /** Set for AI players added by the organizer; the server plays their matches */
+  bot_difficulty?: AIDifficulty | null;
   user?: {
     id: number;
     username: string;
@@ -91,8 +98,10 @@ export interface JoinTournamentInput {
   tournament_id: number;
   user_id?: number;
   guest_alias?: string;
+  guest_id?: string; // Guest id of the guest token the guest joined with
   display_name: string;
   avatar_url?: string;
+  bot_difficulty?: AIDifficulty;
 }
 
 export interface TournamentStats {
@@ -151,6 +160,17 @@ export class TournamentService {
       }
     }
 
+    // Validate match rules carried in settings (applied to every match of the tournament)
+    if (settings && settings.matchRules !== undefined) {
+      const validation = validateMatchRules(settings.matchRules);
+      if (!validation.valid) {
+        throw new Error(`Invalid match rules: ${validation.errors.join(', ')}`);
+      }
+    }
+    if (settings && settings.allowPowerUps !== undefined && typeof settings.allowPowerUps !== 'boolean') {
+      throw new Error('Invalid match rules: allowPowerUps must be a boolean');
+    }
+
     const settingsJson = settings ? JSON.stringify(settings) : null;
     // Convert created_by 0 to null for guest users
     const createdByValue = created_by && created_by > 0 ? created_by : null;
@@ -187,6 +207,29 @@ export class TournamentService {
     return row as Tournament | null;
   }
 
+  /**
+   * Get the match rules configured in a tournament's settings, if any.
+   * `settings.allowPowerUps: false` forces power-ups off for every match.
+   */
+  static async getMatchRules(tournamentId: number): Promise<Partial<MatchRules> | null> {
+    const tournament = await this.getTournament(tournamentId);
+    if (!tournament || !tournament.settings) {
+      return null;
+    }
+
+    try {
+      const settings = JSON.parse(tournament.settings);
+      const matchRules = settings && typeof settings.matchRules === 'object' ? settings.matchRules : null;
+      if (settings && settings.allowPowerUps === false) {
+        return { ...matchRules, powerUps: [] };
+      }
+      return matchRules;
+    } catch (error) {
+      console.error(`Invalid settings JSON for tournament ${tournamentId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * List tournaments with optional filters
    */
@@ -240,7 +283,7 @@ export class TournamentService {
    * Join a tournament
    */
   static async joinTournament(input: JoinTournamentInput): Promise<TournamentParticipant> {
-    const { tournament_id, user_id, guest_alias, display_name, avatar_url } = input;
+    const { tournament_id, user_id, guest_alias, guest_id, display_name, avatar_url, bot_difficulty } = input;
 
     // Validate input
     if (!display_name || display_name.trim().length === 0) {
@@ -309,9 +352,9 @@ export class TournamentService {
 
     // Add participant
     const result = await DatabaseService.run(
-      `INSERT INTO tournament_participants (tournament_id, user_id, guest_alias, display_name, avatar_url)
-       VALUES (?, ?, ?, ?, ?)`,
-      [tournament_id, user_id, guest_alias, display_name, avatar_url]
+      `INSERT INTO tournament_participants (tournament_id, user_id, guest_alias, guest_id, display_name, avatar_url, bot_difficulty)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [tournament_id, user_id, guest_alias, guest_id ?? null, display_name, avatar_url, bot_difficulty ?? null]
     );
 
     const participantId = result.lastInsertRowid || result.lastID;
@@ -327,6 +370,52 @@ export class TournamentService {
     return participant;
   }
 
+  /**
+   * Check whether another guest holds an alias in a tournament that is not over
+   */
+  static async isGuestAliasClaimed(guestAlias: string, guestId: string): Promise<boolean> {
+    const claim = await DatabaseService.get(
+      `SELECT tp.id FROM tournament_participants tp
+       JOIN tournaments t ON t.id = tp.tournament_id
+       WHERE tp.guest_alias = ? AND tp.guest_id IS NOT NULL AND tp.guest_id != ?
+         AND t.status IN ('registration', 'active')`,
+      [guestAlias, guestId]
+    );
+    return !!claim;
+  }
+
+  /**
+   * Add an AI player to a tournament; the server plays its matches at the
+   * given difficulty, so brackets can be filled without enough people
+   */
+  static async addBot(tournamentId: number, difficulty: AIDifficulty, displayName?: string): Promise<TournamentParticipant> {
+    if (!isAIDifficulty(difficulty)) {
+      throw new Error(`Unknown AI difficulty: ${difficulty}`);
+    }
+
+    let name = displayName?.trim();
+    if (!name) {
+      // "AI Hard", then "AI Hard 2", ... for further bots of the same level
+      const base = getAIDisplayName(difficulty);
+      const taken = await DatabaseService.query(
+        'SELECT guest_alias FROM tournament_participants WHERE tournament_id = ? AND guest_alias LIKE ?',
+        [tournamentId, `${base}%`]
+      ) as { guest_alias: string }[];
+      const aliases = new Set(taken.map(row => row.guest_alias));
+      name = base;
+      for (let n = 2; aliases.has(name); n++) {
+        name = `${base} ${n}`;
+      }
+    }
+
+    return this.joinTournament({
+      tournament_id: tournamentId,
+      guest_alias: name,
+      display_name: name,
+      bot_difficulty: difficulty
+    });
+  }
+
   /**
    * Leave a tournament
    */
@@ -402,7 +491,8 @@ export class TournamentService {
         eliminated_at: row.eliminated_at,
         final_rank: row.final_rank,
         seed: row.seed,
-        is_ready: row.is_ready === 1
+        is_ready: row.is_ready === 1,
+        bot_difficulty: row.bot_difficulty
       };
       
       // Add user information if exists
@@ -948,7 +1038,8 @@ export class TournamentService {
     winnerId: number,
     player1Score: number,
     player2Score: number,
-    gameSessionId?: string
+    gameSessionId?: string,
+    status: Extract<MatchStatus, 'completed' | 'forfeit'> = 'completed'
   ): Promise<void> {
     const match = await this.getMatch(matchId);
     if (!match) {
@@ -970,7 +1061,7 @@ export class TournamentService {
        SET winner_id = ?, player1_score = ?, player2_score = ?, status = ?, 
            finished_at = CURRENT_TIMESTAMP, game_session_id = ?
        WHERE id = ?`,
-      [winnerId, player1Score, player2Score, 'completed', gameSessionId, matchId]
+      [winnerId, player1Score, player2Score, status, gameSessionId, matchId]
     );
 
     // Get tournament to determine type
@@ -989,6 +1080,24 @@ export class TournamentService {
       // Handle other tournament types (round robin, etc.)
     await this.checkTournamentCompletion(match.tournament_id);
     }
+
+    await this.recordChampion(match.tournament_id);
+  }
+
+  /**
+   * Report the winner of a tournament that just completed to the achievements
+   */
+  private static async recordChampion(tournamentId: number): Promise<void> {
+    const champion = await DatabaseService.get(
+      `SELECT p.user_id FROM tournament_participants p
+       JOIN tournaments t ON t.id = p.tournament_id
+       WHERE p.tournament_id = ? AND p.final_rank = 1 AND t.status = 'completed'`,
+      [tournamentId]
+    ) as { user_id: number | null } | undefined;
+
+    if (champion?.user_id) {
+      await AchievementService.record({ type: 'tournament_won', userId: String(champion.user_id), tournamentId });
+    }
   }
 
   /**
@@ -1277,7 +1386,7 @@ export class TournamentService {
     // Check if all matches in current round are completed
     const pendingMatches = await DatabaseService.get(
       `SELECT COUNT(*) as count FROM tournament_matches 
-       WHERE tournament_id = ? AND round = ? AND bracket_position = ? AND status != 'completed'`,
+       WHERE tournament_id = ? AND round = ? AND bracket_position = ? AND status NOT IN ('completed', 'forfeit')`,
       [tournamentId, currentRound, bracketPosition]
     ) as { count: number };
 
@@ -1310,7 +1419,7 @@ export class TournamentService {
     // Get grand final match to find runner-up
     const grandFinalMatch = await DatabaseService.get(
       `SELECT player1_id, player2_id FROM tournament_matches 
-       WHERE tournament_id = ? AND bracket_position = 3 AND status = 'completed'`,
+       WHERE tournament_id = ? AND bracket_position = 3 AND status IN ('completed', 'forfeit')`,
       [tournamentId]
     ) as { player1_id: number; player2_id: number } | null;
 
@@ -1377,7 +1486,7 @@ export class TournamentService {
     const finalRound = Math.max(...matches.map(m => m.round));
     
     // Get final match
-    const finalMatch = matches.find(m => m.round === finalRound && m.status === 'completed');
+    const finalMatch = matches.find(m => m.round === finalRound && (m.status === 'completed' || m.status === 'forfeit'));
     if (!finalMatch) return;
 
     // Winner gets rank 1
@@ -1433,7 +1542,7 @@ export class TournamentService {
 
     // Calculate stats from completed matches
     matches.forEach((match: TournamentMatch) => {
-      if (match.status === 'completed') {
+      if (match.status === 'completed' || match.status === 'forfeit') {
         const player1Stats = stats.get(match.player1_id || 0)!;
         const player2Stats = stats.get(match.player2_id || 0)!;
 
@@ -1987,7 +2096,7 @@ export class TournamentService {
 
     // Calculate stats from completed matches
     matches.forEach(match => {
-      if (match.status === 'completed') {
+      if (match.status === 'completed' || match.status === 'forfeit') {
         const player1Stats = stats.get(match.player1_id || 0)!;
         const player2Stats = stats.get(match.player2_id || 0)!;
 
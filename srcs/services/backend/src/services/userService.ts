@@ -8,6 +8,7 @@
 import bcrypt from 'bcryptjs';
 import { DatabaseService } from './databaseService';
 import { User, UserWithoutPassword } from '../types/auth';
+import { INITIAL_RATING, isProvisional } from '../game/glicko2';
 
 /**
  * User Service Class
@@ -283,7 +284,7 @@ export class UserService {
   }
 
   /**
-   * Get user statistics
+   * Get user statistics, with the player's rating
    * @param userId - User's unique ID
    * @returns Promise<object | null> - User statistics
    */
@@ -293,9 +294,11 @@ export class UserService {
         us.total_games, us.games_won, us.games_lost, 
         us.total_score, us.highest_score, us.average_score,
         us.created_at, us.updated_at,
-        u.username
+        u.username,
+        pr.rating, pr.rating_deviation, pr.games_played AS rated_games
        FROM user_statistics us
        JOIN users u ON us.user_id = u.id
+       LEFT JOIN player_ratings pr ON pr.user_id = us.user_id
        WHERE us.user_id = $1`,
       [userId]
     );
@@ -313,6 +316,10 @@ export class UserService {
       totalScore: parseInt(stats.total_score),
       highestScore: parseInt(stats.highest_score),
       averageScore: parseFloat(stats.average_score),
+      rating: stats.rating ?? INITIAL_RATING.rating,
+      ratingDeviation: stats.rating_deviation ?? INITIAL_RATING.deviation,
+      ratedGames: stats.rated_games ?? 0,
+      provisional: isProvisional({ deviation: stats.rating_deviation ?? INITIAL_RATING.deviation }),
       createdAt: stats.created_at,
       updatedAt: stats.updated_at
     };
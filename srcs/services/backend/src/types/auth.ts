@@ -5,6 +5,16 @@
  * including user data, login/register requests, and JWT payload
  */
 
+import '@fastify/jwt';
+
+// Guest tokens are signed under their own namespace (fastify.jwt.guest),
+// so they are never accepted where a user token is required
+declare module '@fastify/jwt' {
+  interface JWT {
+    guest: JWT;
+  }
+}
+
 export interface User {
   id: string;
   username: string;
@@ -35,6 +45,21 @@ export interface JWTPayload {
   exp: number;
 }
 
+/**
+ * Payload of a guest token, issued to players without an account so sockets
+ * can still be bound to a stable, signed identity
+ */
+export interface GuestTokenPayload {
+  guestId: string;
+  guestAlias?: string; // Tournament guest alias the guest plays under
+}
+
+export interface GuestAuthResponse {
+  token: string;
+  guestId: string;
+  guestAlias: string | null;
+}
+
 export interface AuthResponse {
   user: UserWithoutPassword;
   token: string;
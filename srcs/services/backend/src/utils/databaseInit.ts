@@ -97,6 +97,15 @@ export async function initializeDatabase(): Promise<void> {
       )
     `);
     console.log('Game sessions table created');
+
+    // Check if replay_data column exists, if not add it (migration)
+    try {
+      await DatabaseService.run('SELECT replay_data FROM game_sessions LIMIT 1');
+    } catch (error) {
+      console.log('Adding replay_data column to existing game_sessions table...');
+      await DatabaseService.run('ALTER TABLE game_sessions ADD COLUMN replay_data TEXT');
+      console.log('replay_data column added');
+    }
     
     // Create game results table
     await DatabaseService.run(`
@@ -131,6 +140,102 @@ export async function initializeDatabase(): Promise<void> {
       )
     `);
     console.log('User statistics table created');
+
+    // Create player ratings table (Glicko-2, updated by rated matches)
+    await DatabaseService.run(`
+      CREATE TABLE IF NOT EXISTS player_ratings (
+        user_id INTEGER PRIMARY KEY,
+        rating REAL NOT NULL,
+        rating_deviation REAL NOT NULL,
+        volatility REAL NOT NULL,
+        games_played INTEGER NOT NULL DEFAULT 0,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create rating history table (one row per player and rated match)
+    await DatabaseService.run(`
+      CREATE TABLE IF NOT EXISTS rating_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        opponent_id INTEGER,
+        result TEXT NOT NULL,
+        match_type TEXT NOT NULL,
+        tournament_id INTEGER,
+        match_id INTEGER,
+        rating_before REAL NOT NULL,
+        rating_after REAL NOT NULL,
+        deviation_after REAL NOT NULL,
+        opponent_rating REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+        FOREIGN KEY (opponent_id) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Rating tables created');
+
+    // Create seasons table (back-to-back competitive seasons, see SeasonService)
+    await DatabaseService.run(`
+      CREATE TABLE IF NOT EXISTS seasons (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        starts_at DATETIME NOT NULL UNIQUE,
+        ends_at DATETIME NOT NULL,
+        archived_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK (ends_at > starts_at)
+      )
+    `);
+
+    // Create season ratings table (ratings reset at the start of each season)
+    await DatabaseService.run(`
+      CREATE TABLE IF NOT EXISTS season_ratings (
+        season_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        rating REAL NOT NULL,
+        rating_deviation REAL NOT NULL,
+        volatility REAL NOT NULL,
+        games_played INTEGER NOT NULL DEFAULT 0,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (season_id, user_id),
+        FOREIGN KEY (season_id) REFERENCES seasons(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create season standings table (final leaderboard archived when a season ends)
+    await DatabaseService.run(`
+      CREATE TABLE IF NOT EXISTS season_standings (
+        season_id INTEGER NOT NULL,
+        rank INTEGER NOT NULL,
+        user_id INTEGER,
+        username TEXT NOT NULL,
+        rating REAL NOT NULL,
+        rating_deviation REAL NOT NULL,
+        total_games INTEGER NOT NULL,
+        games_won INTEGER NOT NULL,
+        games_lost INTEGER NOT NULL,
+        total_score INTEGER NOT NULL,
+        highest_score INTEGER NOT NULL,
+        PRIMARY KEY (season_id, rank),
+        FOREIGN KEY (season_id) REFERENCES seasons(id) ON DELETE CASCADE,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+      )
+    `);
+    console.log('Season tables created');
+
+    // Create user achievements table (unlocked achievements, see src/game/achievements.ts)
+    await DatabaseService.run(`
+      CREATE TABLE IF NOT EXISTS user_achievements (
+        user_id INTEGER NOT NULL,
+        achievement_id TEXT NOT NULL,
+        unlocked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, achievement_id),
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      )
+    `);
+    console.log('User achievements table created');
     
     // Create indexes
     await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_users_username ON users(username)');
@@ -141,6 +246,9 @@ export async function initializeDatabase(): Promise<void> {
     await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_game_results_session_id ON game_results(session_id)');
     await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_game_results_player_id ON game_results(player_id)');
     await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_user_statistics_user_id ON user_statistics(user_id)');
+    await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_player_ratings_rating ON player_ratings(rating)');
+    await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_rating_history_user_id ON rating_history(user_id)');
+    await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_seasons_ends_at ON seasons(ends_at)');
     console.log('Indexes created');
     
     // Create tournament system tables
@@ -202,6 +310,24 @@ export async function initializeDatabase(): Promise<void> {
     `);
     console.log('Tournament participants table created');
 
+    // Check if bot_difficulty column exists, if not add it (migration)
+    try {
+      await DatabaseService.run('SELECT bot_difficulty FROM tournament_participants LIMIT 1');
+    } catch (error) {
+      console.log('Adding bot_difficulty column to existing tournament_participants table...');
+      await DatabaseService.run('ALTER TABLE tournament_participants ADD COLUMN bot_difficulty TEXT');
+      console.log('bot_difficulty column added');
+    }
+
+    // Check if guest_id column exists, if not add it (migration)
+    try {
+      await DatabaseService.run('SELECT guest_id FROM tournament_participants LIMIT 1');
+    } catch (error) {
+      console.log('Adding guest_id column to existing tournament_participants table...');
+      await DatabaseService.run('ALTER TABLE tournament_participants ADD COLUMN guest_id TEXT');
+      console.log('guest_id column added');
+    }
+
     // Create tournament matches table
     await DatabaseService.run(`
       CREATE TABLE IF NOT EXISTS tournament_matches (
@@ -309,6 +435,34 @@ export async function initializeDatabase(): Promise<void> {
     `);
     console.log('Match history table created');
 
+    // Check if placement column exists, if not add it (migration)
+    try {
+      await DatabaseService.run('SELECT placement FROM match_history LIMIT 1');
+    } catch (error) {
+      console.log('Adding placement column to existing match_history table...');
+      await DatabaseService.run('ALTER TABLE match_history ADD COLUMN placement INTEGER');
+      console.log('placement column added');
+    }
+
+    // Check if ai_profile column exists, if not add it (migration)
+    try {
+      await DatabaseService.run('SELECT ai_profile FROM match_history LIMIT 1');
+    } catch (error) {
+      console.log('Adding ai_profile column to existing match_history table...');
+      await DatabaseService.run('ALTER TABLE match_history ADD COLUMN ai_profile TEXT');
+      console.log('ai_profile column added');
+    }
+
+    // Check if telemetry column exists, if not add it (migration)
+    // Metrics of server-run matches from the player's side, as JSON (see src/game/matchTelemetry.ts)
+    try {
+      await DatabaseService.run('SELECT telemetry FROM match_history LIMIT 1');
+    } catch (error) {
+      console.log('Adding telemetry column to existing match_history table...');
+      await DatabaseService.run('ALTER TABLE match_history ADD COLUMN telemetry TEXT');
+      console.log('telemetry column added');
+    }
+
     // Create friends and match history indexes
     await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_friends_user_id ON friends(user_id)');
     await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_friends_friend_id ON friends(friend_id)');
@@ -317,6 +471,7 @@ export async function initializeDatabase(): Promise<void> {
     await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_blocked_users_blocked_user_id ON blocked_users(blocked_user_id)');
     await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_match_history_user_id ON match_history(user_id)');
     await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_match_history_opponent_id ON match_history(opponent_id)');
+    await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_match_history_played_at ON match_history(played_at)');
     console.log('Friends and match history indexes created');
 
     // Create 2FA table
@@ -417,6 +572,24 @@ export async function initializeDatabase(): Promise<void> {
     `);
     console.log('Game invitations table created');
 
+    // Create live room snapshots table (running matches, restored after a restart)
+    await DatabaseService.run(`
+      CREATE TABLE IF NOT EXISTS live_room_snapshots (
+        room_id TEXT PRIMARY KEY,
+        worker_id INTEGER NOT NULL DEFAULT 0,
+        snapshot TEXT NOT NULL,
+        saved_at INTEGER NOT NULL
+      )
+    `);
+
+    try {
+      await DatabaseService.run('SELECT worker_id FROM live_room_snapshots LIMIT 1');
+    } catch (error) {
+      console.log('Adding worker_id column to live_room_snapshots table...');
+      await DatabaseService.run('ALTER TABLE live_room_snapshots ADD COLUMN worker_id INTEGER NOT NULL DEFAULT 0');
+    }
+    console.log('Live room snapshots table created');
+
     // Create chat indexes
     await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_chat_channels_owner ON chat_channels(owner_id)');
     await DatabaseService.run('CREATE INDEX IF NOT EXISTS idx_chat_channels_type ON chat_channels(type)');
@@ -0,0 +1,105 @@
+/**
+ * Achievement Tests
+ * - Tests the achievement rules and how unlocks are stored and reported
+ */
+
+import { DatabaseService } from '../src/services/databaseService';
+import { AchievementService, UnlockedAchievement } from '../src/services/achievementService';
+import { FriendsService } from '../src/services/friendsService';
+import { ACHIEVEMENTS, MatchFinishedEvent, getUnlockedAchievements } from '../src/game/achievements';
+
+function matchFinished(userId: string, event: Partial<MatchFinishedEvent> = {}): MatchFinishedEvent {
+  return { type: 'match_finished', userId, mode: 'multiplayer', won: true, score: 10, opponentScore: 4, ...event };
+}
+
+/**
+ * Test suite for the achievement rules
+ */
+describe('Achievement Rules', () => {
+  it('should have unique ids', () => {
+    const ids = ACHIEVEMENTS.map(achievement => achievement.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should unlock the achievements whose conditions an event meets', () => {
+    const ids = (event: MatchFinishedEvent) => getUnlockedAchievements(event).map(achievement => achievement.id);
+
+    expect(ids(matchFinished('1', { won: false, score: 3, opponentScore: 10 }))).toEqual([]);
+    expect(ids(matchFinished('1'))).toEqual(['first_win']);
+    expect(ids(matchFinished('1', { opponentScore: 0 }))).toEqual(['first_win', 'shutout']);
+    expect(ids(matchFinished('1', { mode: 'ai', aiDifficulty: 'expert', longestRally: 50 }))).toEqual(['first_win', 'expert_slayer', 'marathon_rally']);
+    expect(ids(matchFinished('1', { mode: 'ai', aiDifficulty: 'hard', won: false, score: 2, opponentScore: 10 }))).toEqual([]);
+  });
+});
+
+/**
+ * Test suite for the achievement service
+ */
+describe('Achievement Service', () => {
+  let aliceId: string;
+  let bobId: string;
+
+  beforeAll(async () => {
+    process.env.DB_PATH = ':memory:';
+    await DatabaseService.initialize();
+    const { initializeDatabase } = await import('../src/utils/databaseInit');
+    await initializeDatabase();
+
+    for (const username of ['alice', 'bob']) {
+      await DatabaseService.run(
+        'INSERT INTO users (username, email, password_hash) VALUES ($1, $2, $3)',
+        [username, `${username}@example.com`, 'hash']
+      );
+    }
+    const users = await DatabaseService.query('SELECT id FROM users ORDER BY id');
+    aliceId = String(users[0].id);
+    bobId = String(users[1].id);
+  });
+
+  afterAll(async () => {
+    await DatabaseService.close();
+  });
+
+  beforeEach(async () => {
+    await DatabaseService.run('DELETE FROM user_achievements');
+  });
+
+  it('should unlock an achievement once and tell the listeners', async () => {
+    const unlocks: Array<[string, UnlockedAchievement]> = [];
+    const stop = AchievementService.onUnlock((userId, achievement) => unlocks.push([userId, achievement]));
+
+    const first = await AchievementService.record(matchFinished(aliceId, { opponentScore: 0 }));
+    const again = await AchievementService.record(matchFinished(aliceId, { opponentScore: 0 }));
+    stop();
+    await AchievementService.record(matchFinished(bobId));
+
+    expect(first.map(achievement => achievement.id)).toEqual(['first_win', 'shutout']);
+    expect(first[0].unlockedAt).toEqual(expect.any(String));
+    expect(again).toEqual([]);
+    expect(unlocks.map(([userId, achievement]) => [userId, achievement.id])).toEqual([
+      [aliceId, 'first_win'],
+      [aliceId, 'shutout']
+    ]);
+  });
+
+  it('should list every achievement with when it was unlocked', async () => {
+    await AchievementService.record({ type: 'message_sent', userId: bobId, channel: 'direct' });
+    await AchievementService.record({ type: 'message_sent', userId: 'guest_1', channel: 'channel' });
+
+    const achievements = await AchievementService.getAchievements(bobId);
+    expect(achievements.map(achievement => achievement.id)).toEqual(ACHIEVEMENTS.map(achievement => achievement.id));
+    expect(achievements.find(achievement => achievement.id === 'first_message')?.unlockedAt).toEqual(expect.any(String));
+    expect(achievements.filter(achievement => achievement.unlockedAt !== null)).toHaveLength(1);
+  });
+
+  it('should unlock the social achievements for both new friends', async () => {
+    await FriendsService.sendFriendRequest(aliceId, 'bob');
+    const [request] = await FriendsService.getPendingRequests(bobId);
+    await FriendsService.acceptFriendRequest(bobId, request.id);
+
+    for (const userId of [aliceId, bobId]) {
+      const unlocked = (await AchievementService.getAchievements(userId)).filter(achievement => achievement.unlockedAt !== null);
+      expect(unlocked.map(achievement => achievement.id)).toEqual(['first_friend']);
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  AIDifficulty,
+  AIPaddleController,
+  extrapolateBall,
+  formatAIProfile,
+  getAdaptiveSkill,
+  getAdaptiveStartSkill,
+  getAISkillSettings,
+  parseAIProfile,
+  predictBallY
+} from '../src/game/aiPlayer';
+import { PongState, createInitialState, createPongConfig, step } from '../src/game/pongPhysics';
+import { createSeededRandom } from '../src/game/random';
+import { TICK_MS, TICK_SECONDS } from '../src/game/fixedTimestep';
+
+const config = createPongConfig('normal');
+
+/**
+ * Let two AI controllers play each other for `seconds` of game time
+ */
+function playMatch(left: AIDifficulty, right: AIDifficulty, seconds: number, seed: number): PongState {
+  const matchConfig = { ...config, winningScore: 1000 };
+  const rng = createSeededRandom(seed);
+  const leftAI = new AIPaddleController('left', left, matchConfig, createSeededRandom(seed + 1));
+  const rightAI = new AIPaddleController('right', right, matchConfig, createSeededRandom(seed + 2));
+
+  let state: PongState = createInitialState(matchConfig);
+  for (let tick = 0; tick < seconds * 60; tick++) {
+    const now = tick * TICK_MS;
+    const inputs = { left: leftAI.update(state, now), right: rightAI.update(state, now) };
+    state = step(state, inputs, TICK_SECONDS, { config: matchConfig, rng });
+  }
+  return state;
+}
+
+/**
+ * Test suite for the server-side AI player
+ */
+describe('AI Player', () => {
+  it('should predict where the ball reaches a paddle after wall bounces', () => {
+    const ball = { x: 400, y: 200, dx: 5, dy: 5 };
+
+    // 76 frames to x = 780: 380 px down, off the bottom wall at 395 and back to 210
+    expect(predictBallY(ball, 780, config)).toBeCloseTo(210);
+    expect(predictBallY(ball, 20, config)).toBeNull();
+    expect(extrapolateBall(ball, 1000, config)).toEqual({ x: 700, y: 290, dx: 5, dy: -5 });
+  });
+
+  it('should only see the game once per second', () => {
+    const ai = new AIPaddleController('right', 'expert', config, () => 0.5);
+    const base = createInitialState(config);
+    const towardsBottom: PongState = { ...base, ball: { x: 400, y: 395, dx: 5, dy: 0 } };
+    const towardsTop: PongState = { ...base, ball: { x: 400, y: 5, dx: 5, dy: 0 } };
+
+    expect(ai.update(towardsBottom, 0)).toBe(1);
+    // The ball changed course, but the AI still plays on what it saw
+    expect(ai.update(towardsTop, 500)).toBe(1);
+    expect(ai.update(towardsTop, 1000)).toBe(-1);
+  });
+
+  it('should hold the ball still for the serve countdown it saw', () => {
+    const ai = new AIPaddleController('left', 'expert', config, () => 0.5);
+    const base = createInitialState(config);
+    // Close to the left paddle, but only moving once two more seconds have passed
+    const serving: PongState = { ...base, ball: { x: 60, y: 395, dx: -5, dy: 0 }, serveCountdown: 2 };
+
+    ai.update(serving, 0);
+    // Had the ball been moving it would be past the paddle by now, and the AI back in the middle
+    expect(ai.update(serving, 500)).toBe(1);
+  });
+
+  it('should interpolate settings between difficulties', () => {
+    expect(getAISkillSettings(1)).toEqual({ reactionDelay: 100, accuracy: 0.85, predictionAccuracy: 0.85 });
+    expect(getAISkillSettings(1.5).reactionDelay).toBeCloseTo(80);
+    expect(getAISkillSettings(9)).toEqual(getAISkillSettings(3));
+  });
+
+  it('should start adaptive play from the rating and follow the score gap', () => {
+    expect(getAdaptiveStartSkill('hard')).toBe(2);
+    expect(getAdaptiveStartSkill('hard', 1000)).toBe(1);
+    expect(getAdaptiveStartSkill('easy', 1300)).toBe(2.5);
+
+    expect(getAdaptiveSkill(1, 0, 2)).toBe(2);
+    expect(getAdaptiveSkill(1, 3, 0)).toBe(0);
+
+    const ai = new AIPaddleController('right', 'easy', config, () => 0.5, { adaptive: true, opponentRating: 1000 });
+    ai.update({ ...createInitialState(config), leftScore: 4, rightScore: 0 }, 0);
+    expect(ai.currentSkill).toBe(3);
+  });
+
+  it('should store profiles in a readable form', () => {
+    const profile = { difficulty: 'hard' as const, personality: 'aggressive' as const, adaptive: true };
+
+    expect(formatAIProfile(profile)).toBe('adaptive:hard/aggressive');
+    expect(parseAIProfile('adaptive:hard/aggressive')).toEqual(profile);
+    expect(parseAIProfile('medium/balanced')).toEqual({ difficulty: 'medium', personality: 'balanced', adaptive: false });
+    expect(parseAIProfile('hard/sneaky')).toBeNull();
+  });
+
+  it('should hold the key past the target when human-like', () => {
+    const base = createInitialState(config);
+    // Ball heading away: both wait in the middle, where the paddles already are
+    const state: PongState = { ...base, ball: { x: 400, y: 200, dx: -5, dy: 0 } };
+    const balanced = new AIPaddleController('right', 'expert', config, () => 0.5);
+    const humanlike = new AIPaddleController('right', 'expert', config, () => 0.5, { personality: 'humanlike' });
+
+    // Both first see their paddle at the top and hold the key down to come back to the middle
+    const atTop: PongState = { ...state, rightPaddle: { ...state.rightPaddle, y: 0 } };
+    for (const ai of [balanced, humanlike]) {
+      expect(ai.update(atTop, 0)).toBe(1);
+      ai.update(state, 1000);
+    }
+    expect(balanced.direction).toBe(0);
+    expect(humanlike.direction).toBe(1);
+    // ...and then has to come back up to it
+    expect(humanlike.update(state, 1100)).toBe(-1);
+  });
+
+  it('should beat a weaker AI', () => {
+    for (const seed of [1, 2]) {
+      const state = playMatch('easy', 'expert', 60, seed);
+
+      expect(state.rightScore).toBeGreaterThan(state.leftScore);
+      expect(state.leftScore).toBeLessThanOrEqual(1);
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  ARENA_MAP_IDS,
+  ArenaMap,
+  BUILT_IN_ARENA_MAPS,
+  getArenaLayout,
+  getArenaMap,
+  validateArenaMap
+} from '../src/game/arenaMaps';
+import { PongState, createInitialState, createPongConfig, step } from '../src/game/pongPhysics';
+
+const DT = 1 / 60;
+const config = createPongConfig('normal');
+const idle = { left: 0, right: 0 } as const;
+
+function onMap(obstacles: ArenaMap['obstacles']): ArenaMap {
+  return { id: 'test', name: 'Test', obstacles };
+}
+
+function withBall(ball: PongState['ball']): PongState {
+  return { ...createInitialState(config), ball };
+}
+
+/**
+ * Test suite for arena maps and obstacle collisions
+ */
+describe('Arena Maps', () => {
+  it('should ship valid built-in maps, starting with the empty classic field', () => {
+    expect(ARENA_MAP_IDS[0]).toBe('classic');
+    expect(getArenaMap('classic').obstacles).toEqual([]);
+    expect(getArenaMap('missing')).toBe(BUILT_IN_ARENA_MAPS.classic);
+
+    for (const id of ARENA_MAP_IDS) {
+      expect(validateArenaMap(BUILT_IN_ARENA_MAPS[id], config)).toEqual({ valid: true, map: BUILT_IN_ARENA_MAPS[id], errors: [] });
+    }
+  });
+
+  it('should reject obstacles in paddle lanes, on the serve point or outside the field', () => {
+    const result = validateArenaMap(onMap([
+      { type: 'block', x: 20, y: 100, width: 20, height: 20 },
+      { type: 'block', x: 390, y: 190, width: 20, height: 20 },
+      { type: 'bumper', x: 300, y: 300, width: 10, height: 50, axis: 'y', distance: 100, period: 2 },
+      { type: 'spike' } as never
+    ]), config);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'obstacles[0] blocks a paddle lane',
+      'obstacles[1] covers the serve point',
+      'obstacles[2] is outside the field',
+      'obstacles[3] has unknown type: spike'
+    ]);
+  });
+
+  it('should bounce the ball off a block without tunneling at full speed', () => {
+    const arena = onMap([{ type: 'block', x: 300, y: 150, width: 20, height: 100 }]);
+
+    const next = step(withBall({ x: 280, y: 200, dx: 10, dy: 0 }), idle, DT * 2, { config, arena });
+
+    expect(next.ball.dx).toBe(-10);
+    expect(next.ball.x).toBeCloseTo(290, 6);
+
+    const fast = step(withBall({ x: 200, y: 200, dx: 200, dy: 0 }), idle, DT, { config, arena });
+    expect(fast.ball.dx).toBe(-200);
+    expect(fast.ball.x).toBeLessThan(300);
+  });
+
+  it('should move bumpers with the time of play', () => {
+    const arena = onMap([{ type: 'bumper', x: 300, y: 40, width: 16, height: 60, axis: 'y', distance: 100, period: 4 }]);
+
+    expect(getArenaLayout(arena, 0).blocks[0].y).toBe(40);
+    expect(getArenaLayout(arena, 2).blocks[0].y).toBeCloseTo(140, 6);
+
+    let state = createInitialState(config);
+    for (let i = 0; i < 120; i++) {
+      state = step(state, idle, DT, { config, arena, rng: () => 0.5 });
+    }
+    expect(state.time).toBeCloseTo(2, 6);
+
+    // The empty classic map behaves exactly like no map at all
+    const plain = createInitialState(config);
+    expect(step(plain, idle, DT, { config, arena: getArenaMap('classic') })).toEqual(step(plain, idle, DT, { config }));
+  });
+
+  it('should send the ball through a portal pair keeping its velocity', () => {
+    const arena = onMap([{ type: 'portal', a: { x: 300, y: 100 }, b: { x: 500, y: 300 }, radius: 15 }]);
+
+    const teleported = step(withBall({ x: 280, y: 100, dx: 5, dy: 0 }), idle, DT * 2, { config, arena });
+
+    expect(teleported.ball).toEqual({ x: 500, y: 300, dx: 5, dy: 0 });
+
+    // Leaving the exit portal does not send it back
+    const leaving = step(teleported, idle, DT, { config, arena });
+    expect(leaving.ball.x).toBe(505);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Cluster Tests
+ * - Tests room ownership, connection routing and the cross-worker adapter
+ */
+
+import { createServer } from 'http';
+import { Server as SocketIOServer } from 'socket.io';
+import { getRoomOwner, getWorkerIdentity, isRoomOwner } from '../src/services/roomOwnership';
+import { parseRequestedRoom, routeConnection } from '../src/services/clusterPrimary';
+import { MemoryClusterBus, createClusterAdapter } from '../src/services/clusterAdapter';
+
+/**
+ * Test suite for running the backend as several workers
+ */
+describe('Cluster', () => {
+  it('should give every room exactly one owner', () => {
+    const roomIds = Array.from({ length: 200 }, (_, i) => `tournament-${i}-match-${i + 1}`);
+    const owners = new Set<number>();
+
+    for (const roomId of roomIds) {
+      const owner = getRoomOwner(roomId, 4);
+      expect(owner).toBe(getRoomOwner(roomId, 4));
+      expect(owner).toBeGreaterThanOrEqual(0);
+      expect(owner).toBeLessThan(4);
+      owners.add(owner);
+
+      const claims = [0, 1, 2, 3].filter(workerId => isRoomOwner(roomId, { workerId, workerCount: 4 }));
+      expect(claims).toEqual([owner]);
+    }
+    // Rooms are spread over all the workers
+    expect(owners.size).toBe(4);
+    expect(getRoomOwner('tournament-1-match-2', 1)).toBe(0);
+  });
+
+  it('should read the worker identity from the environment', () => {
+    const saved = { ...process.env };
+    try {
+      process.env.BACKEND_WORKERS = '3';
+      process.env.BACKEND_WORKER_ID = '2';
+      expect(getWorkerIdentity()).toEqual({ workerId: 2, workerCount: 3 });
+
+      // An id out of range falls back to a single process owning everything
+      process.env.BACKEND_WORKER_ID = '5';
+      expect(getWorkerIdentity()).toEqual({ workerId: 0, workerCount: 1 });
+    } finally {
+      process.env = saved;
+    }
+  });
+
+  it('should route game sockets to the owner of their room', () => {
+    const handshake = 'GET /socket.io/?room=tournament-3-match-9&EIO=4&transport=websocket HTTP/1.1\r\nHost: localhost\r\n\r\n';
+    expect(parseRequestedRoom(handshake)).toBe('tournament-3-match-9');
+    expect(routeConnection(handshake, '10.0.0.1', 4)).toBe(getRoomOwner('tournament-3-match-9', 4));
+
+    // Other requests stick to a worker picked from the client address
+    const apiRequest = 'GET /api/ping HTTP/1.1\r\nHost: localhost\r\n\r\n';
+    expect(parseRequestedRoom(apiRequest)).toBeNull();
+    expect(routeConnection(apiRequest, '10.0.0.1', 4)).toBe(routeConnection(apiRequest, '10.0.0.1', 4));
+    expect(parseRequestedRoom('\x16\x03\x01 not http')).toBeNull();
+  });
+
+  it('should carry server-side events and socket lookups between servers', async () => {
+    const bus = new MemoryClusterBus();
+    const first = new SocketIOServer(createServer(), { adapter: createClusterAdapter(bus) });
+    const second = new SocketIOServer(createServer(), { adapter: createClusterAdapter(bus) });
+
+    try {
+      // Let the servers discover each other through their first heartbeat
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(await first.of('/').adapter.serverCount()).toBe(2);
+
+      const received = new Promise(resolve => second.on('room_closed', resolve));
+      first.serverSideEmit('room_closed', { roomId: 'tournament-1-match-2' });
+      expect(await received).toEqual({ roomId: 'tournament-1-match-2' });
+
+      expect(await first.in('user-1').fetchSockets()).toEqual([]);
+    } finally {
+      first.close();
+      second.close();
+    }
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  FFA_SIDES,
+  FfaState,
+  createFfaConfig,
+  createFfaState,
+  forfeitFfaSide,
+  getFfaPaddleFace,
+  getFfaPlacements,
+  stepFfa
+} from '../src/game/ffaPhysics';
+import { createSeededRandom } from '../src/game/random';
+
+const DT = 1 / 60;
+const config = createFfaConfig('normal');
+
+/**
+ * State with the ball about to cross the given goal line, its paddle out of the way
+ */
+function aboutToBreach(state: FfaState, side: 'left' | 'top'): FfaState {
+  const paddles = { ...state.paddles, [side]: config.width - config.paddleHeight - 30 };
+  const ball = side === 'left'
+    ? { x: 3, y: 50, dx: -5, dy: 0 }
+    : { x: 50, y: 3, dx: 0, dy: -5 };
+  return { ...state, paddles, ball };
+}
+
+/**
+ * Test suite for four-player free-for-all physics
+ */
+describe('Free-for-all Physics', () => {
+  it('should start with centered paddles and full lives for all four sides', () => {
+    const state = createFfaState(config, createSeededRandom(1));
+
+    expect(Object.keys(state.paddles).sort()).toEqual([...FFA_SIDES].sort());
+    FFA_SIDES.forEach(side => {
+      expect(state.paddles[side]).toBe((config.width - config.paddleHeight) / 2);
+      expect(state.lives[side]).toBe(config.lives);
+    });
+    expect(Math.hypot(state.ball.dx, state.ball.dy)).toBeCloseTo(config.ballSpeed, 6);
+  });
+
+  it('should take a life when a goal is breached and eliminate the side at zero', () => {
+    const start = createFfaState(config, createSeededRandom(2));
+
+    const hit = stepFfa(aboutToBreach(start, 'left'), {}, DT, { config, rng: () => 0.5 });
+
+    expect(hit.lives.left).toBe(config.lives - 1);
+    expect(hit.eliminated).toEqual([]);
+    expect(hit.ball.x).toBe(config.width / 2);
+
+    const out = stepFfa(aboutToBreach({ ...hit, lives: { ...hit.lives, left: 1 } }, 'left'), {}, DT, { config, rng: () => 0.5 });
+
+    expect(out.lives.left).toBe(0);
+    expect(out.eliminated).toEqual(['left']);
+  });
+
+  it('should bounce the ball off the wall of an eliminated side', () => {
+    const state: FfaState = {
+      ...createFfaState(config, createSeededRandom(3)),
+      ball: { x: 10, y: 300, dx: -5, dy: 0 },
+      lives: { left: 0, right: 3, top: 3, bottom: 3 },
+      eliminated: ['left']
+    };
+
+    const next = stepFfa(state, {}, DT * 3, { config });
+
+    expect(next.ball.dx).toBe(5);
+    expect(next.lives).toEqual(state.lives);
+  });
+
+  it('should rank players by elimination order and crown the last one standing', () => {
+    let state: FfaState = {
+      ...createFfaState(config, createSeededRandom(4)),
+      lives: { left: 0, right: 0, top: 1, bottom: 2 },
+      eliminated: ['right', 'left']
+    };
+
+    expect(getFfaPlacements(state)).toEqual({ right: 4, left: 3, top: 1, bottom: 1 });
+
+    state = stepFfa(aboutToBreach(state, 'top'), {}, DT, { config });
+
+    expect(state.winner).toBe('bottom');
+    expect(getFfaPlacements(state)).toEqual({ right: 4, left: 3, top: 2, bottom: 1 });
+    expect(stepFfa(state, { bottom: 1 }, DT, { config })).toBe(state);
+  });
+
+  it('should keep paddles on their side and the ball from tunneling through them', () => {
+    const rng = createSeededRandom(5);
+    const fast = { ...config, ballSpeed: 14 };
+    let state = createFfaState(fast, rng);
+    const face = getFfaPaddleFace('right', fast);
+
+    for (let i = 0; i < 500; i++) {
+      // Keep the paddle center inside the range the paddle can reach
+      const y = 70 + rng() * (fast.height - 140);
+      const paddles = { ...state.paddles, right: y - fast.paddleHeight / 2 };
+      const next = stepFfa({ ...state, paddles, ball: { x: face - 20, y, dx: 28, dy: 0 } }, {}, DT, { config: fast, rng });
+
+      expect(next.lives.right).toBe(fast.lives);
+      expect(next.ball.dx).toBeLessThan(0);
+      state = next;
+    }
+
+    const moved = stepFfa(state, { top: 1, left: -1 }, 10, { config: fast });
+    expect(moved.paddles.top).toBe(fast.width - fast.paddleOffset - fast.paddleWidth - fast.paddleHeight);
+    expect(moved.paddles.left).toBe(fast.paddleOffset + fast.paddleWidth);
+  });
+
+  it('should replay identically for the same seed', () => {
+    const run = () => {
+      const rng = createSeededRandom(6);
+      let state = createFfaState(config, rng);
+      for (let tick = 0; tick < 60 * 60 && !state.winner; tick++) {
+        state = stepFfa(state, { left: tick % 120 < 60 ? 1 : -1 }, DT, { config, rng });
+      }
+      return state;
+    };
+
+    expect(run()).toEqual(run());
+  });
+
+  it('should eliminate a forfeiting side and crown the last player standing', () => {
+    let state = createFfaState(config, createSeededRandom(8));
+
+    state = forfeitFfaSide(state, 'top');
+    expect(state.lives.top).toBe(0);
+    expect(state.eliminated).toEqual(['top']);
+    expect(forfeitFfaSide(state, 'top')).toBe(state);
+
+    state = forfeitFfaSide(forfeitFfaSide(state, 'left'), 'bottom');
+    expect(state.winner).toBe('right');
+    expect(getFfaPlacements(state)).toEqual({ top: 4, left: 3, bottom: 2, right: 1 });
+  });
+});
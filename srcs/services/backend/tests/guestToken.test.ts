@@ -0,0 +1,95 @@
+/**
+ * Guest Token Tests
+ * - Tests the guest tokens issued for playing without an account
+ */
+
+import request from 'supertest';
+import Fastify from 'fastify';
+import jwt from '@fastify/jwt';
+import { authRoutes } from '../src/routes/auth';
+import { DatabaseService } from '../src/services/databaseService';
+import { GuestTokenPayload } from '../src/types/auth';
+
+describe('Guest tokens', () => {
+  let app: ReturnType<typeof Fastify>;
+
+  beforeAll(async () => {
+    process.env.DB_PATH = ':memory:';
+    await DatabaseService.initialize();
+    const { initializeDatabase } = await import('../src/utils/databaseInit');
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await DatabaseService.close();
+  });
+
+  beforeEach(async () => {
+    app = Fastify();
+    await app.register(jwt, { secret: 'user-token-secret-for-guest-token-tests' });
+    await app.register(jwt, { namespace: 'guest', secret: 'guest-token-secret-for-guest-token-tests' });
+    await app.register(authRoutes);
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should issue a signed guest token carrying the alias', async () => {
+    const res = await request(app.server)
+      .post('/api/auth/guest')
+      .send({ alias: '  Paddler  ' });
+    expect(res.status).toBe(200);
+    expect(res.body.guestId).toMatch(/^guest_/);
+    expect(res.body.guestAlias).toBe('Paddler');
+
+    const payload: GuestTokenPayload = app.jwt.guest.verify(res.body.token);
+    expect(payload.guestId).toBe(res.body.guestId);
+    expect(payload.guestAlias).toBe('Paddler');
+  });
+
+  it('should keep the guest id when a guest signs a new alias', async () => {
+    const first = await request(app.server).post('/api/auth/guest').send({});
+    const second = await request(app.server)
+      .post('/api/auth/guest')
+      .set('Authorization', `Bearer ${first.body.token}`)
+      .send({ alias: 'Renamed' });
+
+    expect(second.body.guestId).toBe(first.body.guestId);
+    expect(second.body.guestAlias).toBe('Renamed');
+  });
+
+  it('should never accept a guest token as a user token', async () => {
+    const res = await request(app.server).post('/api/auth/guest').send({});
+    expect(() => app.jwt.verify(res.body.token)).toThrow();
+
+    // Nor is a user token taken over as a guest identity
+    const userToken = app.jwt.sign({ userId: 1, username: 'player' });
+    const reissued = await request(app.server)
+      .post('/api/auth/guest')
+      .set('Authorization', `Bearer ${userToken}`)
+      .send({});
+    expect(reissued.body.guestId).toMatch(/^guest_/);
+  });
+
+  it('should refuse an alias another guest holds in a running tournament', async () => {
+    const owner = await request(app.server).post('/api/auth/guest').send({ alias: 'Taken' });
+    await DatabaseService.run("INSERT INTO tournaments (name, status) VALUES ('Spring Cup', 'registration')");
+    const tournament = await DatabaseService.get('SELECT id FROM tournaments');
+    await DatabaseService.run(
+      'INSERT INTO tournament_participants (tournament_id, guest_alias, guest_id, display_name) VALUES ($1, $2, $3, $4)',
+      [tournament.id, 'Taken', owner.body.guestId, 'Taken']
+    );
+
+    const other = await request(app.server).post('/api/auth/guest').send({ alias: 'Taken' });
+    expect(other.status).toBe(409);
+
+    const reissued = await request(app.server)
+      .post('/api/auth/guest')
+      .set('Authorization', `Bearer ${owner.body.token}`)
+      .send({ alias: 'Taken' });
+    expect(reissued.status).toBe(200);
+    expect(reissued.body.guestId).toBe(owner.body.guestId);
+  });
+});
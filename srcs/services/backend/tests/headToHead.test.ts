@@ -0,0 +1,99 @@
+/**
+ * Head-to-Head Tests
+ * - Tests the record of a player against one opponent
+ */
+
+import { DatabaseService } from '../src/services/databaseService';
+import { HeadToHeadService } from '../src/services/headToHeadService';
+
+/**
+ * Test suite for the head-to-head records
+ */
+describe('Head-to-Head Service', () => {
+  let aliceId: number;
+  let bobId: number;
+  let carolId: number;
+
+  async function addMatch(userId: number, opponentId: number, userScore: number, opponentScore: number, playedAt: string, gameMode: string = 'multiplayer') {
+    await DatabaseService.run(
+      `INSERT INTO match_history (user_id, opponent_id, opponent_name, user_score, opponent_score, result, game_mode, played_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [userId, opponentId, 'opponent', userScore, opponentScore, userScore > opponentScore ? 'win' : 'loss', gameMode, playedAt]
+    );
+  }
+
+  beforeAll(async () => {
+    process.env.DB_PATH = ':memory:';
+    await DatabaseService.initialize();
+    const { initializeDatabase } = await import('../src/utils/databaseInit');
+    await initializeDatabase();
+
+    for (const username of ['alice', 'bob', 'carol']) {
+      await DatabaseService.run(
+        'INSERT INTO users (username, email, password_hash) VALUES ($1, $2, $3)',
+        [username, `${username}@example.com`, 'hash']
+      );
+    }
+    const users = await DatabaseService.query('SELECT id FROM users ORDER BY id');
+    [aliceId, bobId, carolId] = users.map((user: any) => user.id);
+
+    // Each player keeps their own side of the match
+    await addMatch(aliceId, bobId, 10, 4, '2026-01-01 10:00:00');
+    await addMatch(bobId, aliceId, 4, 10, '2026-01-01 10:00:00');
+    await addMatch(aliceId, bobId, 7, 10, '2026-01-02 10:00:00');
+    await addMatch(aliceId, bobId, 10, 9, '2026-01-03 10:00:00', 'tournament');
+    await addMatch(aliceId, carolId, 0, 10, '2026-01-04 10:00:00');
+
+    await DatabaseService.run("INSERT INTO tournaments (name, status) VALUES ('Winter Cup', 'completed')");
+    const tournament = await DatabaseService.get('SELECT id FROM tournaments');
+    for (const [userId, name] of [[bobId, 'bob'], [aliceId, 'alice']] as const) {
+      await DatabaseService.run(
+        'INSERT INTO tournament_participants (tournament_id, user_id, display_name) VALUES ($1, $2, $3)',
+        [tournament.id, userId, name]
+      );
+    }
+    const [bob, alice] = await DatabaseService.query('SELECT id FROM tournament_participants ORDER BY id');
+    await DatabaseService.run(
+      `INSERT INTO tournament_matches (tournament_id, round, match_number, player1_id, player2_id, winner_id, status, player1_score, player2_score, finished_at)
+       VALUES ($1, 2, 1, $2, $3, $4, 'completed', 9, 10, '2026-01-03 10:05:00')`,
+      [tournament.id, bob.id, alice.id, alice.id]
+    );
+  });
+
+  afterAll(async () => {
+    await DatabaseService.close();
+  });
+
+  it('should total the matches against the opponent only', async () => {
+    const record = await HeadToHeadService.getHeadToHead(aliceId, bobId);
+
+    expect(record).toMatchObject({
+      matches: 3,
+      wins: 2,
+      losses: 1,
+      draws: 0,
+      pointsFor: 27,
+      pointsAgainst: 23,
+      pointDifferential: 4
+    });
+    expect(record.recentMatches.map(match => match.userScore)).toEqual([10, 7, 10]);
+  });
+
+  it('should limit the recent matches to the latest ones', async () => {
+    const record = await HeadToHeadService.getHeadToHead(aliceId, bobId, 1);
+
+    expect(record.matches).toBe(3);
+    expect(record.recentMatches).toEqual([
+      expect.objectContaining({ userScore: 10, opponentScore: 9, result: 'win', gameMode: 'tournament' })
+    ]);
+  });
+
+  it('should list tournament meetings from each player\'s side', async () => {
+    const [aliceView] = (await HeadToHeadService.getHeadToHead(aliceId, bobId)).tournamentMeetings;
+    const [bobView] = (await HeadToHeadService.getHeadToHead(bobId, aliceId)).tournamentMeetings;
+
+    expect(aliceView).toMatchObject({ tournamentName: 'Winter Cup', round: 2, userScore: 10, opponentScore: 9, won: true, forfeit: false });
+    expect(bobView).toMatchObject({ userScore: 9, opponentScore: 10, won: false });
+    expect((await HeadToHeadService.getHeadToHead(aliceId, carolId)).tournamentMeetings).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { INPUT_BURST, InputGuard, isValidInputSequence, parseInputIntent } from '../src/game/inputGuard';
+
+/**
+ * Test suite for the paddle input guard
+ */
+describe('Input Guard', () => {
+  it('should only accept the directions -1, 0 and 1', () => {
+    expect(parseInputIntent(-1)).toBe(-1);
+    expect(parseInputIntent(0)).toBe(0);
+    expect(parseInputIntent(1)).toBe(1);
+
+    for (const direction of [5, 0.5, -Infinity, NaN, '1', null, undefined, { y: 100 }]) {
+      expect(parseInputIntent(direction)).toBeNull();
+    }
+  });
+
+  it('should only accept non-negative integer sequence numbers', () => {
+    expect(isValidInputSequence(undefined)).toBe(true);
+    expect(isValidInputSequence(42)).toBe(true);
+    expect(isValidInputSequence(-1)).toBe(false);
+    expect(isValidInputSequence(1.5)).toBe(false);
+    expect(isValidInputSequence('3')).toBe(false);
+  });
+
+  it('should allow a burst of inputs and then one per tick', () => {
+    const guard = new InputGuard();
+
+    for (let i = 0; i < INPUT_BURST; i++) {
+      expect(guard.allowInput('1', 10)).toBe(true);
+    }
+    expect(guard.allowInput('1', 10)).toBe(false);
+    // Budgets are per player
+    expect(guard.allowInput('2', 10)).toBe(true);
+
+    expect(guard.allowInput('1', 11)).toBe(true);
+    expect(guard.allowInput('1', 11)).toBe(false);
+  });
+
+  it('should not regain budget when the tick goes back after a reset', () => {
+    const guard = new InputGuard(1, 2);
+    guard.allowInput('1', 500);
+    guard.allowInput('1', 500);
+
+    expect(guard.allowInput('1', 0)).toBe(false);
+    expect(guard.allowInput('1', 1)).toBe(true);
+  });
+
+  it('should count violations per user and kind', () => {
+    const guard = new InputGuard();
+    expect(guard.recordViolation('1', 'rate_limited')).toBe(1);
+    expect(guard.recordViolation('1', 'rate_limited')).toBe(2);
+    guard.recordViolation('1', 'client_result');
+    guard.release('1');
+
+    expect(guard.getViolations('1')).toEqual({ rate_limited: 2, client_result: 1 });
+    expect(guard.getViolations('2')).toEqual({});
+  });
+});
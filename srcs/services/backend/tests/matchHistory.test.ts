@@ -0,0 +1,162 @@
+/**
+ * Match History Tests
+ * - Tests the match history filters, cursor pagination and exports
+ * - Tests the match history routes' validation
+ */
+
+import request from 'supertest';
+import Fastify from 'fastify';
+import jwt from '@fastify/jwt';
+import { userRoutes } from '../src/routes/users';
+import { DatabaseService } from '../src/services/databaseService';
+import {
+  InvalidCursorError,
+  InvalidDateError,
+  MatchHistoryEntry,
+  MatchHistoryFilters,
+  MatchHistoryService,
+  toCsvLines,
+  toJsonChunks
+} from '../src/services/matchHistoryService';
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
+/**
+ * Test suite for the match history service
+ */
+describe('Match History Service', () => {
+  let userId: number;
+
+  /** Scores of every page, following the cursors */
+  async function pageScores(filters: MatchHistoryFilters, limit: number): Promise<number[][]> {
+    const pages: number[][] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await MatchHistoryService.getPage(userId, filters, cursor, limit);
+      pages.push(page.matches.map(match => match.userScore));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    return pages;
+  }
+
+  beforeAll(async () => {
+    process.env.DB_PATH = ':memory:';
+    await DatabaseService.initialize();
+    const { initializeDatabase } = await import('../src/utils/databaseInit');
+    await initializeDatabase();
+
+    await DatabaseService.run(
+      'INSERT INTO users (username, email, password_hash) VALUES ($1, $2, $3)',
+      ['alice', 'alice@example.com', 'hash']
+    );
+    userId = (await DatabaseService.get('SELECT id FROM users')).id;
+
+    // Two matches share a timestamp, so pages have to break ties by id
+    const matches: Array<[string, number, number, string, number, string]> = [
+      ['bob', 10, 2, 'multiplayer', 300, '2026-01-01 09:00:00'],
+      ['AI', 4, 10, 'ai', 120, '2026-01-02 09:00:00'],
+      ['bob', 10, 8, 'tournament', 600, '2026-01-02 09:00:00'],
+      ['carol, "the wall"', 9, 10, 'multiplayer', 450, '2026-01-03 09:00:00'],
+      ['AI', 10, 0, 'ai', 90, '2026-01-04 23:59:59']
+    ];
+    for (const [opponent, userScore, opponentScore, gameMode, duration, playedAt] of matches) {
+      await DatabaseService.run(
+        `INSERT INTO match_history (user_id, opponent_name, user_score, opponent_score, result, game_mode, duration, played_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [userId, opponent, userScore, opponentScore, userScore > opponentScore ? 'win' : 'loss', gameMode, duration, playedAt]
+      );
+    }
+  });
+
+  afterAll(async () => {
+    await DatabaseService.close();
+  });
+
+  it('should page through every match once, newest first', async () => {
+    expect(await pageScores({}, 2)).toEqual([[10, 9], [10, 4], [10]]);
+  });
+
+  it('should page through the other sorts', async () => {
+    expect((await pageScores({ sort: 'oldest' }, 2)).flat()).toEqual([10, 4, 10, 9, 10]);
+    expect((await pageScores({ sort: 'longest' }, 3)).flat()).toEqual([10, 9, 10, 4, 10]);
+    expect((await pageScores({ sort: 'margin' }, 2)).flat()).toEqual([10, 10, 10, 9, 4]);
+  });
+
+  it('should filter by date range, mode, result and opponent', async () => {
+    const scores = async (filters: MatchHistoryFilters) => (await pageScores(filters, 10)).flat();
+
+    expect(await scores({ from: '2026-01-02', to: '2026-01-03' })).toEqual([9, 10, 4]);
+    expect(await scores({ to: '2026-01-04' })).toEqual([10, 9, 10, 4, 10]);
+    expect(await scores({ mode: 'ai' })).toEqual([10, 4]);
+    expect(await scores({ result: 'loss' })).toEqual([9, 4]);
+    expect(await scores({ opponent: 'bo', result: 'win' })).toEqual([10, 10]);
+    expect(await scores({ opponent: '%' })).toEqual([]);
+  });
+
+  it('should reject a cursor it did not return', async () => {
+    await expect(MatchHistoryService.getPage(userId, {}, 'not-a-cursor')).rejects.toThrow(InvalidCursorError);
+  });
+
+  it('should reject a date that does not exist', async () => {
+    await expect(MatchHistoryService.getPage(userId, { from: '2024-13-45' })).rejects.toThrow(InvalidDateError);
+    await expect(MatchHistoryService.getPage(userId, { to: '2024-02-31T25:00' })).rejects.toThrow(InvalidDateError);
+    // Real months are too short for these, rather than out of range
+    await expect(MatchHistoryService.getPage(userId, { to: '2024-02-30' })).rejects.toThrow(InvalidDateError);
+    await expect(MatchHistoryService.getPage(userId, { from: '2023-02-29' })).rejects.toThrow(InvalidDateError);
+    await expect(MatchHistoryService.getPage(userId, { from: '2024-04-31T10:00' })).rejects.toThrow(InvalidDateError);
+    await expect(MatchHistoryService.getPage(userId, { from: '2024-02-29', to: '2024-12-31T23:59:59Z' })).resolves.toBeDefined();
+  });
+
+  it('should answer 400 to a date that does not exist in the list and the export', async () => {
+    const app = Fastify();
+    await app.register(jwt, { secret: 'user-token-secret-for-match-history-tests' });
+    await app.register(userRoutes);
+    await app.ready();
+    const token = app.jwt.sign({ userId, username: 'alice' });
+
+    try {
+      for (const date of ['2024-13-45', '2024-02-30']) {
+        for (const url of [`/api/users/match-history?from=${date}`, `/api/users/match-history/export?to=${date}`]) {
+          const res = await request(app.server).get(url).set('Authorization', `Bearer ${token}`);
+          expect(res.status).toBe(400);
+          expect(res.body.error).toBe(`Invalid date: ${date}`);
+        }
+      }
+
+      const res = await request(app.server).get('/api/users/match-history?from=2026-01-04').set('Authorization', `Bearer ${token}`);
+      expect(res.status).toBe(200);
+      expect(res.body.matches).toHaveLength(1);
+    } finally {
+      await app.close();
+    }
+  });
+
+  it('should export the whole history as CSV and JSON', async () => {
+    const lines = await collect(toCsvLines(MatchHistoryService.iterate(userId, { sort: 'oldest' })));
+    expect(lines).toHaveLength(6);
+    expect(lines[0]).toBe('id,playedAt,gameMode,opponentName,userScore,opponentScore,result,duration,placement,aiProfile\r\n');
+    expect(lines[4]).toContain(',"carol, ""the wall""",9,10,loss,450,,\r\n');
+
+    const json = (await collect(toJsonChunks(MatchHistoryService.iterate(userId, { mode: 'ai' })))).join('');
+    expect(JSON.parse(json).map((match: MatchHistoryEntry) => match.userScore)).toEqual([10, 4]);
+  });
+
+  it('should keep formulas in player names from running in a spreadsheet', async () => {
+    const [match] = (await MatchHistoryService.getPage(userId, {}, undefined, 1)).matches;
+    async function* named(...names: string[]) {
+      for (const opponentName of names) yield { ...match, opponentName };
+    }
+
+    const lines = await collect(toCsvLines(named('=HYPERLINK("http://evil")', '@SUM(A1)', '-2+3', 'bob')));
+    expect(lines[1]).toContain(`,"'=HYPERLINK(""http://evil"")",`);
+    expect(lines[2]).toContain(",'@SUM(A1),");
+    expect(lines[3]).toContain(",'-2+3,");
+    expect(lines[4]).toContain(',bob,');
+  });
+});
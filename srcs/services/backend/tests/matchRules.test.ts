@@ -0,0 +1,64 @@
+import { getDefaultMatchRules, matchRulesToConfig, validateMatchRules } from '../src/game/matchRules';
+import { createInitialState, step } from '../src/game/pongPhysics';
+
+/**
+ * Test suite for per-room match rules
+ */
+describe('Match Rules', () => {
+  it('should default to the classic 10-point game for the speed setting', () => {
+    expect(getDefaultMatchRules('fast')).toEqual({ maxScore: 10, ballSize: 10, paddleHeight: 80, ballSpeed: 7, paddleSpeed: 12, powerUps: [], map: 'classic', serveRule: 'alternate', serveCountdown: 3 });
+  });
+
+  it('should accept missing rules and fill partial rules from defaults', () => {
+    expect(validateMatchRules(undefined)).toEqual({ valid: true, rules: getDefaultMatchRules(), errors: [] });
+
+    const result = validateMatchRules({ maxScore: 5, paddleHeight: 120 }, getDefaultMatchRules('slow'));
+
+    expect(result.valid).toBe(true);
+    expect(result.rules).toEqual({ ...getDefaultMatchRules('slow'), maxScore: 5, paddleHeight: 120 });
+  });
+
+  it('should reject unknown keys, wrong types and out-of-range values', () => {
+    const result = validateMatchRules({ maxScore: 0, ballSize: 5.5, paddleSpeed: '3', gravity: 1 });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([
+      'maxScore must be between 1 and 21',
+      'ballSize must be an integer',
+      'paddleSpeed must be a number',
+      'Unknown match rule: gravity'
+    ]);
+    expect(validateMatchRules([1, 2]).valid).toBe(false);
+  });
+
+  it('should validate the enabled power-ups individually', () => {
+    expect(validateMatchRules({ powerUps: ['multiBall', 'slowMotion', 'multiBall'] }).rules.powerUps).toEqual(['multiBall', 'slowMotion']);
+    expect(validateMatchRules({ powerUps: ['teleport'] }).errors).toEqual(['Unknown power-ups: teleport']);
+    expect(validateMatchRules({ powerUps: 'multiBall' }).errors).toEqual(['powerUps must be an array']);
+  });
+
+  it('should only accept built-in map ids', () => {
+    expect(validateMatchRules({ map: 'portals' }).rules.map).toBe('portals');
+    expect(validateMatchRules({ map: 'moon' }).errors).toEqual(['Unknown map: moon']);
+    expect(validateMatchRules({ map: 3 }).valid).toBe(false);
+  });
+
+  it('should only accept known serve rules and countdowns of up to five seconds', () => {
+    expect(validateMatchRules({ serveRule: 'conceder', serveCountdown: 0 }).rules).toMatchObject({ serveRule: 'conceder', serveCountdown: 0 });
+    expect(validateMatchRules({ serveRule: 'winner' }).errors).toEqual(['Unknown serve rule: winner']);
+    expect(validateMatchRules({ serveCountdown: 6 }).errors).toEqual(['serveCountdown must be between 0 and 5']);
+  });
+
+  it('should end the match at the agreed score', () => {
+    const config = matchRulesToConfig({ ...getDefaultMatchRules(), maxScore: 3, ballSize: 6, paddleHeight: 40, serveCountdown: 0 });
+    const state = { ...createInitialState(config), leftScore: 2 };
+    state.ball = { x: config.width + 1, y: 10, dx: 5, dy: 0 };
+
+    const next = step(state, { left: 0, right: 0 }, 1 / 60, { config });
+
+    expect(config.ballSize).toBe(6);
+    expect(config.paddleHeight).toBe(40);
+    expect(next.leftScore).toBe(3);
+    expect(next.winner).toBe('left');
+  });
+});
@@ -0,0 +1,36 @@
+import { formatBenchmarkReport, runBenchmark, simulateMatch } from '../src/game/matchSimulator';
+import { getDefaultMatchRules } from '../src/game/matchRules';
+
+const rules = { ...getDefaultMatchRules(), maxScore: 3 };
+
+/**
+ * Test suite for the headless match simulator
+ */
+describe('Match Simulator', () => {
+  it('should play the same match again from the same seed', () => {
+    const first = simulateMatch({ left: 'medium', right: 'easy', seed: 7, rules });
+    const second = simulateMatch({ left: 'medium', right: 'easy', seed: 7, rules });
+
+    expect(second).toEqual(first);
+    expect(first.winner).not.toBeNull();
+    expect(first.rallies).toHaveLength(first.leftScore + first.rightScore);
+  });
+
+  it('should give up matches nobody wins in time', () => {
+    const match = simulateMatch({ left: 'perfect', right: 'perfect', seed: 1, rules, maxSeconds: 20 });
+
+    expect(match.winner).toBeNull();
+    expect(match.ticks).toBe(20 * 60);
+  });
+
+  it('should report win rates, rally lengths and final scores', () => {
+    const report = runBenchmark({ left: 'easy', right: 'perfect', matches: 5, seed: 3, rules });
+
+    expect(report.wins).toEqual({ left: 0, right: 5, unfinished: 0 });
+    expect(report.winRate.right).toBe(1);
+    expect(report.averageRallyLength).toBeGreaterThan(0);
+    expect(report.longestRally).toBeGreaterThanOrEqual(report.averageRallyLength);
+    expect(Object.values(report.scoreDistribution).reduce((sum, count) => sum + count, 0)).toBe(5);
+    expect(formatBenchmarkReport(report)).toContain('Win rate:      0.0% - 100.0%');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Match Telemetry Tests
+ * - Tests the metrics the server loop collects during a classic match
+ */
+
+import { PaddleInputs, PongState, createInitialState, createPongConfig, step } from '../src/game/pongPhysics';
+import { createSeededRandom } from '../src/game/random';
+import { TelemetryRecorder } from '../src/game/matchTelemetry';
+
+const DT = 1 / 60;
+
+/**
+ * Scripted inputs: both paddles sweep up and down on different periods
+ */
+function scriptedInputs(tick: number): PaddleInputs {
+  return {
+    left: Math.floor(tick / 45) % 2 === 0 ? 1 : -1,
+    right: Math.floor(tick / 70) % 2 === 0 ? -1 : 1
+  };
+}
+
+/**
+ * Test suite for the match telemetry
+ */
+describe('Match Telemetry', () => {
+  it('should collect the metrics of a whole match', () => {
+    const config = createPongConfig('fast');
+    const rng = createSeededRandom(7);
+    const recorder = new TelemetryRecorder();
+    let state = createInitialState(config);
+    let ticks = 0;
+    while (!state.winner && ticks < 200000) {
+      const next = step(state, scriptedInputs(ticks), DT, { config, rng, onPaddleHit: recorder.recordHit });
+      recorder.recordStep(state, next, DT);
+      state = next;
+      ticks++;
+    }
+
+    const { left, right } = recorder.finish(state);
+    expect(left.hits).toBe(right.opponentHits);
+    expect(left.hits + right.hits).toBeGreaterThanOrEqual(left.longestRally);
+    expect(left.longestRally).toBe(right.longestRally);
+    expect(left.maxBallSpeed).toBeGreaterThanOrEqual(left.averageBallSpeed);
+    expect(left.averageBallSpeed).toBeGreaterThanOrEqual(config.ballSpeed * 60 - 0.1);
+    expect(left.pointsFromServe).toBeLessThanOrEqual(state.leftScore);
+    expect(left.timeLeading + left.opponentTimeLeading).toBeLessThanOrEqual(ticks * DT + 0.1);
+  });
+
+  it('should count a point from the serve only when the serve was not returned', () => {
+    const config = createPongConfig('normal');
+    const recorder = new TelemetryRecorder();
+    const missedServe: PongState = {
+      ...createInitialState(config),
+      leftPaddle: { y: 0 },
+      ball: { x: 2, y: 300, dx: -5, dy: 0 }
+    };
+    recorder.recordStep(missedServe, step(missedServe, { left: 0, right: 0 }, DT, { config, rng: () => 0.5 }), DT);
+
+    const returned = { ...missedServe, rightScore: 1, rallyHits: 3 };
+    recorder.recordStep(returned, step(returned, { left: 0, right: 0 }, DT, { config, rng: () => 0.5 }), DT);
+
+    const { right } = recorder.finish(missedServe);
+    expect(right.pointsFromServe).toBe(1);
+    expect(recorder.getTotals().right.timeLeading).toBeCloseTo(DT, 5);
+  });
+
+  it('should carry on from the totals of a restored match', () => {
+    const recorder = new TelemetryRecorder();
+    recorder.recordHit('left');
+    recorder.recordHit('right');
+    recorder.recordHit('left');
+
+    const resumed = new TelemetryRecorder(recorder.getTotals());
+    resumed.recordHit('right');
+    const state = createInitialState(createPongConfig('normal'));
+    expect(resumed.finish(state).left).toMatchObject({ hits: 2, opponentHits: 2 });
+    expect(recorder.finish(state).right.hits).toBe(1);
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  MATCHMAKING_BASE_WINDOW,
+  MATCHMAKING_MAX_WINDOW,
+  MATCHMAKING_POLL_TIMEOUT_MS,
+  MatchmakingQueue,
+  QueueEntry,
+  getSearchWindow
+} from '../src/services/matchmakingQueue';
+
+function entry(userId: string, rating: number, joinedAt: number = 0, overrides: Partial<QueueEntry> = {}): QueueEntry {
+  return { userId, rating, gameSpeed: 'normal', joinedAt, lastSeenAt: joinedAt, viaSocket: true, ...overrides };
+}
+
+const anyone = async () => true;
+
+/**
+ * Test suite for the matchmaking queue
+ */
+describe('Matchmaking Queue', () => {
+  it('should widen the search window over time, up to a limit', () => {
+    expect(getSearchWindow(0)).toBe(MATCHMAKING_BASE_WINDOW);
+    expect(getSearchWindow(10000)).toBeGreaterThan(getSearchWindow(5000));
+    expect(getSearchWindow(60 * 60 * 1000)).toBe(MATCHMAKING_MAX_WINDOW);
+  });
+
+  it('should pair the closest rated players once their windows cover each other', async () => {
+    const queue = new MatchmakingQueue();
+    queue.join(entry('1', 1000));
+    queue.join(entry('2', 1400));
+    queue.join(entry('3', 1050));
+
+    const pairings = await queue.findPairings(0, anyone);
+    expect(pairings.map(({ first, second }) => [first.userId, second.userId])).toEqual([['1', '3']]);
+    expect(queue.userIds()).toEqual(['2']);
+
+    // The lone player waits until someone far away is within reach
+    queue.join(entry('4', 1800, 0));
+    expect(await queue.findPairings(1000, anyone)).toEqual([]);
+    expect((await queue.findPairings(30000, anyone)).length).toBe(1);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should never pair players who may not play each other', async () => {
+    const queue = new MatchmakingQueue();
+    queue.join(entry('1', 1000));
+    queue.join(entry('2', 1010));
+    queue.join(entry('3', 1090));
+    queue.join(entry('4', 1000, 0, { gameSpeed: 'fast' }));
+
+    const blocked = async (first: QueueEntry, second: QueueEntry) =>
+      !(first.userId === '1' && second.userId === '2');
+    const pairings = await queue.findPairings(0, blocked);
+
+    expect(pairings.map(({ first, second }) => [first.userId, second.userId])).toEqual([['1', '3']]);
+    // Different game speeds are never matched
+    expect(queue.userIds()).toEqual(['2', '4']);
+  });
+
+  it('should report the queue and drop players who stopped polling', async () => {
+    const queue = new MatchmakingQueue();
+    queue.join(entry('rest', 1000, 0, { viaSocket: false }));
+    queue.join(entry('socket', 3000, 0));
+    expect(queue.join(entry('rest', 1000, 5000, { viaSocket: false }))).toBe(false);
+
+    const status = queue.getStatus('rest', 8000);
+    expect(status).toMatchObject({ queued: true, size: 2, waitMs: 8000, averageWaitMs: null });
+    expect(queue.getStatus('nobody', 8000).queued).toBe(false);
+
+    // Joining again counts as polling
+    expect(queue.prune(5000 + MATCHMAKING_POLL_TIMEOUT_MS)).toEqual([]);
+    expect(queue.prune(5001 + MATCHMAKING_POLL_TIMEOUT_MS)).toEqual(['rest']);
+    expect(queue.userIds()).toEqual(['socket']);
+  });
+
+  it('should average the wait of recent pairings', async () => {
+    const queue = new MatchmakingQueue();
+    queue.join(entry('1', 1000, 0));
+    queue.join(entry('2', 1000, 4000));
+    await queue.findPairings(6000, anyone);
+
+    expect(queue.getStatus('3', 6000).averageWaitMs).toBe(4000);
+  });
+});
@@ -0,0 +1,165 @@
+import { FixedTimestep, TICK_MS, TICK_SECONDS } from '../src/game/fixedTimestep';
+import { InputAck, PaddlePredictor } from '../src/game/paddlePrediction';
+import { advancePaddle, createPongConfig } from '../src/game/pongPhysics';
+
+const config = createPongConfig('normal');
+const START_Y = (config.height - config.paddleHeight) / 2;
+
+interface SimulationResult {
+  maxPredictionError: number;
+  maxServerViewError: number;
+  finalPredictedY: number;
+  finalServerY: number;
+}
+
+/**
+ * Simulate one paddle over a link with the given one-way latency.
+ *
+ * The server applies held inputs on fixed ticks and sends a snapshot every two
+ * ticks; the client predicts locally and reconciles on every snapshot. Errors
+ * are measured against the paddle the player would see with zero latency.
+ */
+function simulate(oneWayLatencyMs: number, script: Array<{ at: number; direction: number }>, durationMs: number): SimulationResult {
+  const toServer: Array<{ deliverAt: number; sequence: number; direction: number }> = [];
+  const toClient: Array<{ deliverAt: number; y: number; tick: number; ack?: InputAck }> = [];
+
+  // Server state
+  let serverY = START_Y;
+  let serverDirection = 0;
+  let serverTick = 0;
+  let ack: InputAck | undefined;
+  let nextTickAt = TICK_MS;
+
+  // Client state
+  const predictor = new PaddlePredictor(config, START_Y, 0);
+  let sequence = 0;
+  let lastServerViewY = START_Y;
+  let referenceY = START_Y;
+  let referenceDirection = 0;
+  let scriptIndex = 0;
+
+  let maxPredictionError = 0;
+  let maxServerViewError = 0;
+
+  for (let now = 0; now <= durationMs; now++) {
+    // Client input
+    while (scriptIndex < script.length && script[scriptIndex].at === now) {
+      const { direction } = script[scriptIndex++];
+      sequence++;
+      predictor.applyInput(sequence, direction, now);
+      toServer.push({ deliverAt: now + oneWayLatencyMs, sequence, direction });
+      referenceDirection = direction;
+    }
+
+    // Server receives inputs
+    while (toServer.length > 0 && toServer[0].deliverAt <= now) {
+      const input = toServer.shift()!;
+      serverDirection = input.direction;
+      ack = { sequence: input.sequence, tick: serverTick + 1 };
+    }
+
+    // Server fixed ticks
+    while (nextTickAt <= now) {
+      serverY = advancePaddle(serverY, serverDirection, TICK_SECONDS, config);
+      serverTick++;
+      nextTickAt += TICK_MS;
+      if (serverTick % 2 === 0) {
+        toClient.push({ deliverAt: now + oneWayLatencyMs, y: serverY, tick: serverTick, ack: ack && { ...ack } });
+      }
+    }
+
+    // Client receives snapshots
+    while (toClient.length > 0 && toClient[0].deliverAt <= now) {
+      const snapshot = toClient.shift()!;
+      predictor.reconcile(snapshot.y, snapshot.tick, snapshot.ack, now);
+      lastServerViewY = snapshot.y;
+    }
+
+    if (now > 0) {
+      referenceY = advancePaddle(referenceY, referenceDirection, 1 / 1000, config);
+    }
+    maxPredictionError = Math.max(maxPredictionError, Math.abs(predictor.predict(now) - referenceY));
+    maxServerViewError = Math.max(maxServerViewError, Math.abs(lastServerViewY - referenceY));
+  }
+
+  return {
+    maxPredictionError,
+    maxServerViewError,
+    finalPredictedY: predictor.predict(durationMs),
+    finalServerY: serverY
+  };
+}
+
+/**
+ * Test suite for the fixed-timestep loop and client-side paddle prediction
+ */
+describe('Fixed Timestep and Paddle Prediction', () => {
+  describe('FixedTimestep', () => {
+    it('should drain whole ticks and carry the remainder', () => {
+      const clock = new FixedTimestep(0, 10);
+
+      expect(clock.advance(25)).toBe(2);
+      expect(clock.advance(30)).toBe(1);
+      expect(clock.advance(31)).toBe(0);
+    });
+
+    it('should cap the number of ticks after a long stall', () => {
+      const clock = new FixedTimestep(0, 10, 5);
+
+      expect(clock.advance(1000)).toBe(5);
+      expect(clock.advance(1010)).toBe(1);
+    });
+
+    it('should discard accumulated time on reset', () => {
+      const clock = new FixedTimestep(0, 10);
+      clock.advance(9);
+      clock.reset(500);
+
+      expect(clock.advance(505)).toBe(0);
+    });
+  });
+
+  describe('PaddlePredictor', () => {
+    const script = [
+      { at: 100, direction: 1 },
+      { at: 400, direction: 0 },
+      { at: 700, direction: -1 },
+      { at: 1100, direction: 0 },
+      { at: 1300, direction: 1 },
+      { at: 1350, direction: -1 },
+      { at: 1500, direction: 0 }
+    ];
+
+    it('should stay responsive at 100ms latency', () => {
+      const result = simulate(100, script, 2500);
+
+      // Without prediction the player would see the paddle lag far behind
+      expect(result.maxServerViewError).toBeGreaterThan(50);
+      // With prediction the error stays within about one tick of paddle movement
+      expect(result.maxPredictionError).toBeLessThanOrEqual(config.paddleSpeed + 1);
+    });
+
+    it('should converge to the authoritative position once inputs are acknowledged', () => {
+      const result = simulate(150, script, 2500);
+
+      expect(result.finalPredictedY).toBeCloseTo(result.finalServerY, 6);
+    });
+
+    it('should follow the server when no input was sent', () => {
+      const predictor = new PaddlePredictor(config, START_Y, 0);
+      predictor.reconcile(42, 10, undefined, 200);
+
+      expect(predictor.predict(300)).toBe(42);
+      expect(predictor.getPendingCount()).toBe(0);
+    });
+
+    it('should drop history that does not match the acknowledgement', () => {
+      const predictor = new PaddlePredictor(config, START_Y, 0);
+      predictor.applyInput(1, 1, 10);
+      predictor.reconcile(100, 20, { sequence: 99, tick: 5 }, 50);
+
+      expect(predictor.getPendingCount()).toBe(0);
+      expect(predictor.predict(100)).toBe(100);
+    });
+  });
+});
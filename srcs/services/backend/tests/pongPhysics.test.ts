@@ -0,0 +1,281 @@
+import {
+  PaddleInputs,
+  PongState,
+  ServeRule,
+  createInitialState,
+  createPongConfig,
+  getMaxBallSpeed,
+  getLongestRally,
+  getPaddleFaceX,
+  step
+} from '../src/game/pongPhysics';
+import { createSeededRandom } from '../src/game/random';
+
+const DT = 1 / 60;
+
+/**
+ * Scripted inputs: both paddles sweep up and down on different periods
+ */
+function scriptedInputs(tick: number): PaddleInputs {
+  return {
+    left: Math.floor(tick / 45) % 2 === 0 ? 1 : -1,
+    right: Math.floor(tick / 70) % 2 === 0 ? -1 : 1
+  };
+}
+
+/**
+ * Run a full match with the given seed and return the final state
+ */
+function simulateMatch(seed: number, maxTicks = 200000): PongState {
+  const config = createPongConfig('fast');
+  const rng = createSeededRandom(seed);
+  let state = createInitialState(config);
+  for (let tick = 0; tick < maxTicks && !state.winner; tick++) {
+    state = step(state, scriptedInputs(tick), DT, { config, rng });
+  }
+  return state;
+}
+
+/**
+ * Test suite for the shared Pong physics core
+ */
+describe('Pong Physics Core', () => {
+  it('should produce the same score for the same seed and input sequence', () => {
+    const first = simulateMatch(42);
+    const second = simulateMatch(42);
+
+    expect(first.winner).toBeDefined();
+    expect(second).toEqual(first);
+  });
+
+  it('should produce identical random sequences for the same seed', () => {
+    const a = createSeededRandom(1234);
+    const b = createSeededRandom(1234);
+    const c = createSeededRandom(4321);
+    const seqA = Array.from({ length: 5 }, () => a());
+    const seqB = Array.from({ length: 5 }, () => b());
+    const seqC = Array.from({ length: 5 }, () => c());
+
+    expect(seqA).toEqual(seqB);
+    expect(seqA).not.toEqual(seqC);
+    seqA.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('should not mutate the given state', () => {
+    const config = createPongConfig('normal');
+    const state = createInitialState(config);
+    const snapshot = JSON.parse(JSON.stringify(state));
+
+    step(state, { left: 1, right: -1 }, DT, { config, rng: createSeededRandom(1) });
+
+    expect(state).toEqual(snapshot);
+  });
+
+  it('should keep paddles inside the field', () => {
+    const config = createPongConfig('normal');
+    let state = createInitialState(config);
+    for (let i = 0; i < 120; i++) {
+      state = step(state, { left: -1, right: 1 }, DT, { config, rng: createSeededRandom(1) });
+    }
+
+    expect(state.leftPaddle.y).toBe(0);
+    expect(state.rightPaddle.y).toBe(config.height - config.paddleHeight);
+  });
+
+  it('should bounce the ball off a paddle in its path', () => {
+    const config = createPongConfig('normal');
+    const state: PongState = {
+      ...createInitialState(config),
+      leftPaddle: { y: 160 },
+      ball: { x: 28, y: 200, dx: -5, dy: 0 }
+    };
+
+    const next = step(state, { left: 0, right: 0 }, DT, { config, rng: () => 0.5 });
+
+    // Center hit: straight back, slightly faster, from the contact point
+    expect(next.ball.dx).toBeGreaterThan(5);
+    expect(next.ball.dy).toBe(0);
+    expect(next.ball.x).toBeCloseTo(getPaddleFaceX('left', config) + config.ballSize / 2 + next.ball.dx * 0.4, 6);
+  });
+
+  it('should set the bounce angle from where the ball hits the paddle', () => {
+    const config = createPongConfig('normal');
+    const hitAt = (ballY: number) => step(
+      { ...createInitialState(config), rightPaddle: { y: 160 }, ball: { x: 772, y: ballY, dx: 5, dy: 0 } },
+      { left: 0, right: 0 },
+      DT,
+      { config }
+    ).ball;
+
+    const top = hitAt(165);
+    const middle = hitAt(200);
+    const bottom = hitAt(235);
+
+    expect(top.dx).toBeLessThan(0);
+    expect(top.dy).toBeLessThan(0);
+    expect(middle.dy).toBe(0);
+    expect(bottom.dy).toBeCloseTo(-top.dy, 6);
+    expect(Math.abs(top.dy)).toBeGreaterThan(Math.abs(hitAt(185).dy));
+  });
+
+  it('should speed up on every hit but never beyond the cap', () => {
+    const config = createPongConfig('fast');
+    let state: PongState = { ...createInitialState(config), ball: { x: 400, y: 200, dx: -config.ballSpeed, dy: 0 } };
+    const speeds: number[] = [];
+
+    // Paddles track the ball so the rally never ends
+    for (let tick = 0; tick < 3000; tick++) {
+      const lastDx = state.ball.dx;
+      const tracked = { y: state.ball.y - config.paddleHeight / 2 };
+      state = step({ ...state, leftPaddle: tracked, rightPaddle: tracked }, { left: 0, right: 0 }, DT, { config });
+      if (Math.sign(state.ball.dx) !== Math.sign(lastDx)) {
+        speeds.push(Math.hypot(state.ball.dx, state.ball.dy));
+      }
+    }
+
+    expect(state.leftScore + state.rightScore).toBe(0);
+    expect(speeds[1]).toBeGreaterThan(speeds[0]);
+    expect(speeds[speeds.length - 1]).toBeCloseTo(getMaxBallSpeed(config), 6);
+    speeds.forEach(speed => expect(speed).toBeLessThanOrEqual(getMaxBallSpeed(config) + 1e-9));
+  });
+
+  it('should never let the ball tunnel through a paddle up to the maximum speed', () => {
+    const config = createPongConfig('normal', { ballSpeed: 12 });
+    const maxSpeed = getMaxBallSpeed(config);
+    const rng = createSeededRandom(99);
+
+    for (let i = 0; i < 2000; i++) {
+      const side = i % 2 === 0 ? 'left' : 'right';
+      const angle = (rng() - 0.5) * (Math.PI / 2);
+      const dx = (side === 'left' ? -1 : 1) * maxSpeed * Math.cos(angle);
+      const dy = maxSpeed * Math.sin(angle);
+      // Large frame times (up to 6 reference frames) move the ball far past the paddle
+      const dt = (1 + rng() * 5) / 60;
+      const frames = dt * 60;
+      // Place the ball so that it crosses the paddle face during this step
+      const contactX = side === 'left'
+        ? getPaddleFaceX('left', config) + config.ballSize / 2
+        : getPaddleFaceX('right', config) - config.ballSize / 2;
+      const before = rng() * frames;
+      const ball = { x: contactX - dx * before, y: 200 - dy * before, dx, dy };
+      const paddleY = 200 - config.paddleHeight / 2 + (rng() - 0.5) * config.paddleHeight;
+      const state: PongState = { ...createInitialState(config), leftPaddle: { y: paddleY }, rightPaddle: { y: paddleY }, ball };
+
+      const next = step(state, { left: 0, right: 0 }, dt, { config, rng });
+
+      expect(next.leftScore + next.rightScore).toBe(0);
+      expect(Math.sign(next.ball.dx)).toBe(side === 'left' ? 1 : -1);
+      if (side === 'left') {
+        expect(next.ball.x).toBeGreaterThanOrEqual(contactX - 1e-6);
+      } else {
+        expect(next.ball.x).toBeLessThanOrEqual(contactX + 1e-6);
+      }
+    }
+  });
+
+  it('should keep the ball inside the walls at any speed and step size', () => {
+    const config = createPongConfig('normal', { ballSpeed: 12 });
+    const maxSpeed = getMaxBallSpeed(config);
+    const radius = config.ballSize / 2;
+    const rng = createSeededRandom(5);
+    let state: PongState = {
+      ...createInitialState(config),
+      ball: { x: 400, y: radius, dx: 0.5, dy: -maxSpeed }
+    };
+
+    for (let i = 0; i < 500; i++) {
+      state = step(state, { left: 0, right: 0 }, (1 + rng() * 5) / 60, { config, rng });
+      expect(state.ball.y).toBeGreaterThanOrEqual(radius);
+      expect(state.ball.y).toBeLessThanOrEqual(config.height - radius);
+    }
+  });
+
+  it('should score and serve from the center when the ball leaves the field', () => {
+    const config = createPongConfig('normal');
+    const state: PongState = {
+      ...createInitialState(config),
+      leftPaddle: { y: 0 },
+      ball: { x: 2, y: 300, dx: -5, dy: 0 }
+    };
+
+    const next = step(state, { left: 0, right: 0 }, DT, { config, rng: () => 0.75 });
+
+    expect(next.rightScore).toBe(1);
+    expect(next.ball.x).toBe(config.width / 2);
+    expect(next.ball.y).toBe(config.height / 2);
+  });
+
+  it('should count the paddle hits of a rally and keep the longest one', () => {
+    const config = createPongConfig('normal');
+    const state: PongState = {
+      ...createInitialState(config),
+      leftPaddle: { y: 160 },
+      rallyHits: 7,
+      longestRally: 4,
+      ball: { x: 28, y: 200, dx: -5, dy: 0 }
+    };
+
+    const hit = step(state, { left: 0, right: 0 }, DT, { config, rng: () => 0.5 });
+    expect(hit.rallyHits).toBe(8);
+
+    // The point ends the rally
+    const scored = step({ ...hit, leftPaddle: { y: 0 }, ball: { x: 2, y: 300, dx: -5, dy: 0 } }, { left: 0, right: 0 }, DT, { config, rng: () => 0.5 });
+    expect(scored.rallyHits).toBeUndefined();
+    expect(scored.longestRally).toBe(8);
+    expect(getLongestRally({ ...scored, rallyHits: 11 })).toBe(11);
+  });
+
+  it('should declare a winner and stop stepping at the winning score', () => {
+    const config = createPongConfig('normal', { winningScore: 3 });
+    const state: PongState = {
+      ...createInitialState(config),
+      rightPaddle: { y: 0 },
+      leftScore: 2,
+      ball: { x: 798, y: 300, dx: 5, dy: 0 }
+    };
+
+    const finished = step(state, { left: 0, right: 0 }, DT, { config, rng: () => 0.25 });
+
+    expect(finished.winner).toBe('left');
+    expect(step(finished, { left: 1, right: 1 }, DT, { config })).toBe(finished);
+  });
+
+  it('should hold the ball at the center for the serve countdown while paddles move', () => {
+    const config = createPongConfig('normal', { serveDelay: 1 });
+    let state = createInitialState(config);
+    const paddleY = state.leftPaddle.y;
+
+    expect(state.serveCountdown).toBe(1);
+    for (let tick = 0; tick < 59; tick++) {
+      state = step(state, { left: 1, right: 0 }, DT, { config });
+    }
+    expect(state.ball).toEqual(createInitialState(config).ball);
+    expect(state.leftPaddle.y).toBeGreaterThan(paddleY);
+
+    state = step(step(state, { left: 0, right: 0 }, DT, { config }), { left: 0, right: 0 }, DT, { config });
+    expect(state.serveCountdown).toBeUndefined();
+    expect(state.ball.x).toBeGreaterThan(config.width / 2);
+  });
+
+  it('should serve alternately or towards the player who conceded', () => {
+    const scoreFor = (side: 'left' | 'right', state: PongState, serveRule: ServeRule) => {
+      const config = createPongConfig('normal', { serveRule, serveDelay: 3 });
+      const ball = side === 'left' ? { x: 798, y: 300, dx: 5, dy: 0 } : { x: 2, y: 300, dx: -5, dy: 0 };
+      // Skip the countdown of the previous serve
+      return step({ ...state, serveCountdown: undefined, leftPaddle: { y: 0 }, rightPaddle: { y: 0 }, ball }, { left: 0, right: 0 }, DT, { config, rng: () => 0.75 });
+    };
+    const start = createInitialState(createPongConfig('normal'));
+
+    const first = scoreFor('left', start, 'alternate');
+    expect(first.servedTo).toBe('left');
+    expect(first.ball.dx).toBeLessThan(0);
+    expect(first.serveCountdown).toBe(3);
+    expect(scoreFor('left', first, 'alternate').servedTo).toBe('right');
+
+    expect(scoreFor('left', start, 'conceder').servedTo).toBe('right');
+    expect(scoreFor('right', start, 'conceder').servedTo).toBe('left');
+  });
+});
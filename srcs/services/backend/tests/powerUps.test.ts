@@ -0,0 +1,97 @@
+import { PowerUpGameState, PowerUpItem, createPowerUpState, stepWithPowerUps } from '../src/game/powerUps';
+import { createInitialState, createPongConfig, step } from '../src/game/pongPhysics';
+import { createSeededRandom } from '../src/game/random';
+
+const DT = 1 / 60;
+const config = createPongConfig('normal');
+const idle = { left: 0, right: 0 } as const;
+
+/**
+ * State with one item placed right in front of a ball travelling to the right
+ */
+function stateWithItem(kind: PowerUpItem['kind']): PowerUpGameState {
+  return {
+    ...createInitialState(config),
+    ball: { x: 390, y: 200, dx: 5, dy: 0 },
+    powerUps: { ...createPowerUpState(), items: [{ id: 1, kind, x: 400, y: 200 }], spawnIn: 100 }
+  };
+}
+
+/**
+ * Test suite for power-ups and gameplay modifiers
+ */
+describe('Power-ups', () => {
+  it('should leave the physics untouched when no power-up is enabled', () => {
+    const state = createInitialState(config);
+
+    expect(stepWithPowerUps(state, idle, DT, { config, rng: () => 0.3, enabled: [] }))
+      .toEqual(step(state, idle, DT, { config, rng: () => 0.3 }));
+  });
+
+  it('should only spawn enabled power-ups, deterministically for a seed', () => {
+    const run = () => {
+      const rng = createSeededRandom(11);
+      let state: PowerUpGameState = createInitialState(config);
+      const spawned = new Set<string>();
+      let maxItems = 0;
+      for (let tick = 0; tick < 120 * 60; tick++) {
+        // Keep the ball out of the way so items are not collected
+        state = stepWithPowerUps({ ...state, ball: { x: 400, y: 5, dx: 0, dy: 0 } }, idle, DT, { config, rng, enabled: ['slowMotion', 'multiBall'] });
+        state.powerUps!.items.forEach(item => spawned.add(item.kind));
+        maxItems = Math.max(maxItems, state.powerUps!.items.length);
+        // Clear the field every 30 seconds so new items keep spawning
+        if (tick % (30 * 60) === 0) state.powerUps!.items = [];
+      }
+      return { state, spawned, maxItems };
+    };
+
+    const first = run();
+
+    expect(first.maxItems).toBe(2);
+    expect([...first.spawned].sort()).toEqual(['multiBall', 'slowMotion']);
+    expect(run().state).toEqual(first.state);
+  });
+
+  it('should grow the paddle of the player who sent the ball through the item until it wears off', () => {
+    let state = stepWithPowerUps(stateWithItem('paddleGrow'), idle, DT * 3, { config, enabled: ['paddleGrow'] });
+
+    expect(state.powerUps!.items).toEqual([]);
+    expect(state.powerUps!.effects).toEqual([{ kind: 'paddleGrow', target: 'left', remaining: 8 }]);
+    expect(state.leftPaddle.height).toBe(config.paddleHeight * 1.5);
+    expect(state.rightPaddle.height).toBeUndefined();
+
+    state = stepWithPowerUps({ ...state, ball: { x: 400, y: 200, dx: 0, dy: 0 } }, idle, 8, { config, enabled: ['paddleGrow'] });
+
+    expect(state.powerUps!.effects).toEqual([]);
+    expect(state.leftPaddle.height).toBeUndefined();
+  });
+
+  it('should reverse the opponent controls', () => {
+    const reversed = stepWithPowerUps(stateWithItem('reverseControls'), idle, DT * 3, { config, enabled: ['reverseControls'] });
+    const next = stepWithPowerUps(reversed, { left: 1, right: 1 }, DT, { config, enabled: ['reverseControls'] });
+
+    expect(next.leftPaddle.y).toBeGreaterThan(reversed.leftPaddle.y);
+    expect(next.rightPaddle.y).toBeLessThan(reversed.rightPaddle.y);
+  });
+
+  it('should slow the ball down in slow motion', () => {
+    const slowed = stepWithPowerUps(stateWithItem('slowMotion'), idle, DT * 3, { config, enabled: ['slowMotion'] });
+    const next = stepWithPowerUps(slowed, idle, DT, { config, enabled: ['slowMotion'] });
+
+    expect(next.ball.x - slowed.ball.x).toBeCloseTo(slowed.ball.dx / 2, 6);
+  });
+
+  it('should add an extra ball that scores and leaves play', () => {
+    let state = stepWithPowerUps(stateWithItem('multiBall'), idle, DT * 3, { config, enabled: ['multiBall'] });
+
+    expect(state.extraBalls).toHaveLength(1);
+
+    // Move the paddles out of the way and let the balls run out of the field
+    for (let tick = 0; tick < 200 && state.extraBalls; tick++) {
+      state = stepWithPowerUps({ ...state, rightPaddle: { y: 0 } }, idle, DT, { config, rng: () => 0.5, enabled: ['multiBall'] });
+    }
+
+    expect(state.extraBalls).toBeUndefined();
+    expect(state.leftScore).toBe(2);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Rating Tests
+ * - Tests the Glicko-2 rating updates and how rated matches are stored
+ */
+
+import { DatabaseService } from '../src/services/databaseService';
+import { RatingService } from '../src/services/ratingService';
+import { INITIAL_RATING, MIN_DEVIATION, getExpectedScore, isProvisional, rateGame, updateRating } from '../src/game/glicko2';
+
+/**
+ * Test suite for the Glicko-2 rating system
+ */
+describe('Glicko-2 Rating', () => {
+  it('should match the worked example of the Glicko-2 paper', () => {
+    // Glickman's example, moved from a 1500 to a 1000 centred scale
+    const player = { rating: 1000, deviation: 200, volatility: 0.06 };
+    const updated = updateRating(player, [
+      { opponent: { rating: 900, deviation: 30, volatility: 0.06 }, score: 1 },
+      { opponent: { rating: 1050, deviation: 100, volatility: 0.06 }, score: 0 },
+      { opponent: { rating: 1200, deviation: 300, volatility: 0.06 }, score: 0 }
+    ]);
+
+    expect(updated.rating).toBeCloseTo(964.06, 1);
+    expect(updated.deviation).toBeCloseTo(151.52, 1);
+    expect(updated.volatility).toBeCloseTo(0.05999, 4);
+  });
+
+  it('should move an upset further than an expected result', () => {
+    const strong = { rating: 1400, deviation: 80, volatility: 0.06 };
+    const weak = { rating: 1000, deviation: 80, volatility: 0.06 };
+    expect(getExpectedScore(strong, weak)).toBeGreaterThan(0.8);
+
+    const [strongAfterWin] = rateGame(strong, weak, 1);
+    const [strongAfterLoss] = rateGame(strong, weak, 0);
+    expect(strongAfterWin.rating - strong.rating).toBeLessThan(strong.rating - strongAfterLoss.rating);
+  });
+
+  it('should settle provisional ratings as games are played', () => {
+    let player = INITIAL_RATING;
+    const opponent = { rating: 1000, deviation: 50, volatility: 0.06 };
+    expect(isProvisional(player)).toBe(true);
+
+    for (let game = 0; game < 20; game++) {
+      player = updateRating(player, [{ opponent, score: game % 2 === 0 ? 1 : 0 }]);
+    }
+    expect(isProvisional(player)).toBe(false);
+    expect(player.deviation).toBeGreaterThanOrEqual(MIN_DEVIATION);
+
+    // Without games the uncertainty grows again
+    expect(updateRating(player, []).deviation).toBeGreaterThan(player.deviation);
+  });
+});
+
+/**
+ * Test suite for the rating service
+ */
+describe('Rating Service', () => {
+  let aliceId: string;
+  let bobId: string;
+
+  beforeAll(async () => {
+    process.env.DB_PATH = ':memory:';
+    await DatabaseService.initialize();
+    const { initializeDatabase } = await import('../src/utils/databaseInit');
+    await initializeDatabase();
+
+    for (const username of ['alice', 'bob']) {
+      await DatabaseService.run(
+        'INSERT INTO users (username, email, password_hash) VALUES ($1, $2, $3)',
+        [username, `${username}@example.com`, 'hash']
+      );
+    }
+    const users = await DatabaseService.query('SELECT id, username FROM users ORDER BY id');
+    aliceId = String(users[0].id);
+    bobId = String(users[1].id);
+  });
+
+  afterAll(async () => {
+    await DatabaseService.close();
+  });
+
+  it('should give players without rated matches the initial provisional rating', async () => {
+    const rating = await RatingService.getRating(aliceId);
+    expect(rating).toMatchObject({ rating: INITIAL_RATING.rating, gamesPlayed: 0, provisional: true });
+  });
+
+  it('should update both players and their history for a rated match', async () => {
+    const [alice, bob] = await RatingService.recordMatch(aliceId, bobId, 1, { matchType: 'tournament', tournamentId: 3, matchId: 9 });
+    expect(alice.ratingAfter).toBeGreaterThan(alice.ratingBefore);
+    expect(bob.ratingAfter).toBeLessThan(bob.ratingBefore);
+
+    const aliceRating = await RatingService.getRating(aliceId);
+    expect(aliceRating.rating).toBeCloseTo(alice.ratingAfter);
+    expect(aliceRating.gamesPlayed).toBe(1);
+
+    await RatingService.recordMatch(bobId, aliceId, 1, { matchType: 'multiplayer' });
+    const history = await RatingService.getHistory(aliceId);
+    expect(history.map(entry => [entry.result, entry.matchType, entry.opponentId])).toEqual([
+      ['loss', 'multiplayer', bobId],
+      ['win', 'tournament', bobId]
+    ]);
+    expect(history[1]).toMatchObject({ tournamentId: 3, matchId: 9 });
+    expect(history[0].ratingBefore).toBeCloseTo(history[1].ratingAfter);
+    expect((await RatingService.getRating(bobId)).gamesPlayed).toBe(2);
+  });
+
+  it('should refuse to rate a player against themselves', async () => {
+    await expect(RatingService.recordMatch(aliceId, aliceId, 1, { matchType: 'multiplayer' })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Reconnect Grace Tests
+ * - Tests the grace period a player who drops out of a running match gets,
+ *   through real Socket.IO clients
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import Fastify from 'fastify';
+import jwt from '@fastify/jwt';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import type SocketIOService from '../src/services/socketIOService';
+import { DatabaseService } from '../src/services/databaseService';
+import { TournamentService } from '../src/services/tournamentService';
+
+/** Seconds a dropped player has to return in these tests */
+const GRACE_SECONDS = 2;
+
+/**
+ * Next event of that name whose data passes the check
+ */
+function nextEvent(socket: ClientSocket, event: string, check: (data: any) => boolean = () => true): Promise<any> {
+  return new Promise(resolve => {
+    const listener = (data: any) => {
+      if (!check(data)) return;
+      socket.off(event, listener);
+      resolve(data);
+    };
+    socket.on(event, listener);
+  });
+}
+
+/**
+ * Wait until the server handled everything the socket sent before
+ */
+async function roundTrip(socket: ClientSocket): Promise<void> {
+  const pong = nextEvent(socket, 'pong');
+  socket.emit('ping');
+  await pong;
+}
+
+/**
+ * Test suite for the reconnection grace period of tournament matches
+ */
+describe('Reconnect Grace', () => {
+  const app = Fastify();
+  const httpServer = http.createServer();
+  const clients: ClientSocket[] = [];
+  let service: SocketIOService;
+  let url: string;
+  let users: Array<{ id: number; token: string }>;
+  let tournamentCount = 0;
+
+  /** Connected client of a user */
+  async function connectAs(token: string): Promise<ClientSocket> {
+    const client = connect(url, { auth: { token }, transports: ['websocket'], forceNew: true });
+    clients.push(client);
+    await nextEvent(client, 'connected');
+    return client;
+  }
+
+  /** A user's client joined to a tournament match room on the side they ask for */
+  async function joinMatch(token: string, roomId: string, playerSide: 'left' | 'right'): Promise<ClientSocket> {
+    const client = await connectAs(token);
+    const [, tournamentId, matchId] = roomId.match(/tournament-(\d+)-match-(\d+)/)!.map(Number);
+    client.emit('join_game_room', { roomId, tournamentId, matchId, playerSide });
+    return client;
+  }
+
+  /**
+   * A running tournament match between the two users: the first plays left, the second right
+   */
+  async function startMatch() {
+    tournamentCount++;
+    const tournament = await TournamentService.createTournament({ name: `Cup ${tournamentCount}`, max_participants: 2 });
+    for (const [index, user] of users.entries()) {
+      await TournamentService.joinTournament({ tournament_id: tournament.id, user_id: user.id, display_name: `player${index}` });
+    }
+    await TournamentService.startTournament(tournament.id);
+    const [match] = await TournamentService.getTournamentMatches(tournament.id);
+    const roomId = `tournament-${tournament.id}-match-${match.id}`;
+
+    const left = await joinMatch(users[0].token, roomId, 'left');
+    const playing = nextEvent(left, 'game_playing');
+    const right = await joinMatch(users[1].token, roomId, 'right');
+    await playing;
+    return { roomId, matchId: match.id, left, right };
+  }
+
+  beforeAll(async () => {
+    process.env.DB_PATH = ':memory:';
+    process.env.RECONNECT_GRACE_SECONDS = String(GRACE_SECONDS);
+    await DatabaseService.initialize();
+    const { initializeDatabase } = await import('../src/utils/databaseInit');
+    await initializeDatabase();
+
+    await app.register(jwt, { secret: 'user-token-secret-for-reconnect-tests' });
+    await app.register(jwt, { namespace: 'guest', secret: 'guest-token-secret-for-reconnect-tests' });
+    await app.ready();
+
+    users = [];
+    for (const username of ['alice', 'bob']) {
+      const result = await DatabaseService.run(
+        'INSERT INTO users (username, email, password_hash) VALUES ($1, $2, $3)',
+        [username, `${username}@example.com`, 'hash']
+      );
+      const id = Number(result.lastInsertRowid);
+      users.push({ id, token: app.jwt.sign({ userId: id, username }) });
+    }
+
+    // Loaded after the grace period is configured
+    const { default: SocketIOServiceClass } = await import('../src/services/socketIOService');
+    service = new SocketIOServiceClass(httpServer, app.jwt);
+    await new Promise<void>(resolve => httpServer.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    for (const client of clients.splice(0)) {
+      client.disconnect();
+    }
+    service.clearAllGameRooms();
+  });
+
+  afterAll(async () => {
+    await service.shutdown();
+    await new Promise(resolve => httpServer.close(resolve));
+    await app.close();
+    await DatabaseService.close();
+  });
+
+  it('should forfeit the match of a player who does not return in time', async () => {
+    const { roomId, matchId, left, right } = await startMatch();
+
+    const disconnected = nextEvent(right, 'player_disconnected');
+    const ended = nextEvent(right, 'game_end');
+    left.disconnect();
+    expect(await disconnected).toMatchObject({ userId: String(users[0].id), side: 'left', graceSeconds: GRACE_SECONDS });
+    expect(service.getRoomState(roomId)?.status).toBe('paused');
+
+    const { gameResult } = await ended;
+    expect(gameResult).toMatchObject({ forfeit: true, forfeitedBy: String(users[0].id), winner: 'right' });
+
+    // The result went through saveTournamentMatchResult as a forfeit
+    const match = await TournamentService.getMatch(matchId);
+    const winner = await TournamentService.getParticipant(match!.winner_id!);
+    expect(match!.status).toBe('forfeit');
+    expect(winner!.user_id).toBe(users[1].id);
+  }, 20000);
+
+  it('should give a returning player their own side back and resume the match', async () => {
+    const { roomId, left, right } = await startMatch();
+
+    const disconnected = nextEvent(right, 'player_disconnected');
+    left.disconnect();
+    await disconnected;
+
+    // Asking for the other side does not move the returning player there
+    const reconnected = nextEvent(right, 'player_reconnected');
+    const resumed = nextEvent(right, 'game_playing', data => data.message === 'Game resumed after reconnection');
+    await joinMatch(users[0].token, roomId, 'right');
+    expect(await reconnected).toMatchObject({ userId: String(users[0].id), playerSide: 'left' });
+
+    await resumed;
+    expect(service.getRoomState(roomId)?.status).toBe('playing');
+  }, 20000);
+
+  it('should refuse a client resume while a dropped player can still return', async () => {
+    const { roomId, left, right } = await startMatch();
+
+    const disconnected = nextEvent(right, 'player_disconnected');
+    left.disconnect();
+    await disconnected;
+
+    // Neither resume request restarts the match
+    right.emit('game_state_update', { gameState: { type: 'game_resume' } });
+    await roundTrip(right);
+    expect(service.getRoomState(roomId)?.status).toBe('paused');
+    right.emit('pause_game', {});
+    await roundTrip(right);
+    expect(service.getRoomState(roomId)?.status).toBe('paused');
+
+    // The match only goes on once the player is back
+    const resumed = nextEvent(right, 'game_playing', data => data.message === 'Game resumed after reconnection');
+    await joinMatch(users[0].token, roomId, 'left');
+    await resumed;
+    expect(service.getRoomState(roomId)?.status).toBe('playing');
+  }, 20000);
+});
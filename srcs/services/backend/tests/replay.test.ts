@@ -0,0 +1,159 @@
+import { MatchReplay, ReplayPlayer, ReplayRecorder, ReplayState } from '../src/game/replay';
+import { createCountingRandom, createSeededRandom } from '../src/game/random';
+import { MatchRules, getDefaultMatchRules, matchRulesToConfig, matchRulesToFfaConfig } from '../src/game/matchRules';
+import { createInitialState } from '../src/game/pongPhysics';
+import { PowerUpGameState, stepWithPowerUps } from '../src/game/powerUps';
+import { FfaState, createFfaState, forfeitFfaSide, stepFfa } from '../src/game/ffaPhysics';
+import { getArenaMap } from '../src/game/arenaMaps';
+import { TICK_SECONDS } from '../src/game/fixedTimestep';
+
+const SEED = 1234;
+
+/**
+ * Play a classic match the way the server does, recording its replay; paddle
+ * directions change at random moments between ticks
+ */
+function recordClassicMatch(maxTicks: number): { replay: MatchReplay; states: ReplayState[] } {
+  const rules: MatchRules = { ...getDefaultMatchRules(), maxScore: 15, powerUps: ['multiBall', 'slowMotion'], map: 'bumpers' };
+  const config = matchRulesToConfig(rules);
+  const random = createCountingRandom(SEED);
+  const players = createSeededRandom(99);
+
+  let state: PowerUpGameState = createInitialState(config);
+  const recorder = new ReplayRecorder({ mode: 'classic', seed: SEED, rngDraws: random.draws(), rules, initialState: state });
+  const inputs = { left: 0 as -1 | 0 | 1, right: 0 as -1 | 0 | 1 };
+  const states: ReplayState[] = [state];
+
+  let tick = 0;
+  for (; tick < maxTicks && !state.winner; tick++) {
+    if (players() < 0.05) {
+      const side = players() < 0.5 ? 'left' : 'right';
+      inputs[side] = (Math.floor(players() * 3) - 1) as -1 | 0 | 1;
+      recorder.recordInput(tick, side, inputs[side]);
+    }
+    state = stepWithPowerUps(state, inputs, TICK_SECONDS, { config, rng: random.next, enabled: rules.powerUps, arena: getArenaMap(rules.map) });
+    states.push(state);
+  }
+
+  return { replay: recorder.finish(tick, state), states };
+}
+
+/**
+ * Test suite for match replay recording and playback
+ */
+describe('Match Replays', () => {
+  it('should resume a seeded sequence after skipping drawn numbers', () => {
+    const random = createCountingRandom(SEED);
+    for (let i = 0; i < 25; i++) random.next();
+
+    expect(random.draws()).toBe(25);
+    expect(createSeededRandom(SEED, 25)()).toBe(random.next());
+  });
+
+  it('should only record changes of a held direction, last one per tick', () => {
+    const rules = getDefaultMatchRules();
+    const recorder = new ReplayRecorder({ mode: 'classic', seed: SEED, rngDraws: 0, rules, initialState: createInitialState() });
+
+    recorder.recordInput(0, 'left', 0);
+    recorder.recordInput(3, 'left', 1);
+    recorder.recordInput(3, 'right', -1);
+    recorder.recordInput(3, 'left', -5);
+    recorder.recordInput(8, 'left', -1);
+    recorder.recordInput(9, 'right', 0);
+
+    expect(recorder.finish(10, createInitialState()).inputs).toEqual([
+      { tick: 3, side: 'right', direction: -1 },
+      { tick: 3, side: 'left', direction: -1 },
+      { tick: 9, side: 'right', direction: 0 }
+    ]);
+  });
+
+  it('should carry on recording a match resumed from a partial replay', () => {
+    const rules = getDefaultMatchRules();
+    const recorder = new ReplayRecorder({ mode: 'classic', seed: SEED, rngDraws: 0, rules, initialState: createInitialState() });
+    recorder.recordInput(2, 'left', 1);
+    recorder.recordInput(4, 'right', -1);
+    recorder.recordForfeit(6, 'right');
+
+    const partial = recorder.finish(10, createInitialState());
+    const resumed = ReplayRecorder.resume(JSON.parse(JSON.stringify(partial)));
+
+    // The held directions carry over, so holding the same one again is not recorded
+    for (const continued of [recorder, resumed]) {
+      continued.recordInput(12, 'left', 1);
+      continued.recordInput(14, 'left', 0);
+    }
+    expect(resumed.finish(20, createInitialState())).toEqual(recorder.finish(20, createInitialState()));
+  });
+
+  it('should re-simulate a recorded match to the same final state', () => {
+    const { replay } = recordClassicMatch(60 * 60 * 5);
+    const player = new ReplayPlayer(JSON.parse(JSON.stringify(replay)));
+
+    expect(player.state).toEqual(replay.initialState);
+    expect(player.advance(replay.ticks + 100)).toEqual(replay.finalState);
+    expect(player.tick).toBe(replay.ticks);
+  });
+
+  it('should seek forward and backward to the exact recorded state', () => {
+    const { replay, states } = recordClassicMatch(60 * 60 * 5);
+    const player = new ReplayPlayer(replay);
+    // Long enough to span several keyframes
+    expect(replay.ticks).toBeGreaterThan(60 * 20);
+
+    const ticks = [0.6, 0.01, 1, 0.3, 0, 0.75].map(fraction => Math.floor(fraction * replay.ticks));
+    for (const tick of [...ticks, ticks[5] + 1]) {
+      expect(player.seek(tick)).toEqual(states[tick]);
+      expect(player.tick).toBe(tick);
+    }
+    expect(player.seek(-5)).toEqual(states[0]);
+    expect(player.seek(1e9)).toEqual(states[replay.ticks]);
+  });
+
+  it('should replay free-for-all matches including the serve drawn before the first tick', () => {
+    const rules = getDefaultMatchRules();
+    const config = matchRulesToFfaConfig(rules);
+    const random = createCountingRandom(SEED);
+    let state: FfaState = createFfaState(config, random.next);
+    const recorder = new ReplayRecorder({ mode: 'ffa', seed: SEED, rngDraws: random.draws(), rules, initialState: state });
+
+    let tick = 0;
+    for (; tick < 60 * 30 && !state.winner; tick++) {
+      const top = tick % 90 < 45 ? 1 : -1;
+      recorder.recordInput(tick, 'top', top);
+      state = stepFfa(state, { top }, TICK_SECONDS, { config, rng: random.next });
+    }
+
+    const replay = recorder.finish(tick, state);
+    expect(replay.rngDraws).toBeGreaterThan(0);
+    expect(new ReplayPlayer(replay).seek(tick)).toEqual(state);
+  });
+
+  it('should apply forfeits at the tick they were recorded', () => {
+    const rules = getDefaultMatchRules();
+    const config = matchRulesToFfaConfig(rules);
+    const random = createCountingRandom(SEED);
+    let state: FfaState = createFfaState(config, random.next);
+    const recorder = new ReplayRecorder({ mode: 'ffa', seed: SEED, rngDraws: random.draws(), rules, initialState: state });
+
+    let tick = 0;
+    for (; tick < 60 * 20 && !state.winner; tick++) {
+      if (tick === 30) {
+        recorder.recordForfeit(tick, 'left');
+        state = forfeitFfaSide(state, 'left');
+      }
+      state = stepFfa(state, {}, TICK_SECONDS, { config, rng: random.next });
+    }
+
+    const player = new ReplayPlayer(recorder.finish(tick, state));
+    expect((player.seek(29) as FfaState).lives.left).toBe(config.lives);
+    expect((player.seek(30) as FfaState).eliminated).toEqual(['left']);
+    expect(player.seek(tick)).toEqual(state);
+  });
+
+  it('should refuse replays of another format version', () => {
+    const { replay } = recordClassicMatch(60);
+
+    expect(() => new ReplayPlayer({ ...replay, version: 99 })).toThrow('Unsupported replay version: 99');
+  });
+});
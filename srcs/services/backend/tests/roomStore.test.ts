@@ -0,0 +1,102 @@
+/**
+ * Room Store Tests
+ * - Tests the room snapshots that let live matches survive a restart
+ */
+
+import { DatabaseService } from '../src/services/databaseService';
+import { MemoryRoomStore, ROOM_SNAPSHOT_MAX_AGE_MS, RoomSnapshot, SqliteRoomStore } from '../src/services/roomStore';
+import { getDefaultMatchRules } from '../src/game/matchRules';
+import { createInitialState } from '../src/game/pongPhysics';
+
+function createSnapshot(id: string, savedAt: number = Date.now()): RoomSnapshot {
+  return {
+    id,
+    tournamentId: 0,
+    matchId: 7,
+    mode: 'classic',
+    gameSpeed: 'normal',
+    rules: getDefaultMatchRules(),
+    gameState: {
+      status: 'playing',
+      player1Id: '1',
+      player2Id: 'bot-1',
+      player1Ready: true,
+      player2Ready: true,
+      gameData: { ...createInitialState(), leftScore: 3, rightScore: 2 }
+    },
+    seed: 42,
+    rngDraws: 5,
+    tick: 900,
+    players: [
+      { userId: '1', side: 'left', ready: true },
+      { userId: 'bot-1', side: 'right', ready: true, name: 'AI (Hard)', bot: { difficulty: 'hard', personality: 'aggressive', adaptive: false } }
+    ],
+    savedAt
+  };
+}
+
+/**
+ * Test suite for the room stores
+ */
+describe('Room Store', () => {
+  beforeAll(async () => {
+    process.env.DB_PATH = ':memory:';
+    await DatabaseService.initialize();
+    const { initializeDatabase } = await import('../src/utils/databaseInit');
+    await initializeDatabase();
+  });
+
+  afterAll(async () => {
+    await DatabaseService.close();
+  });
+
+  beforeEach(async () => {
+    await DatabaseService.run('DELETE FROM live_room_snapshots');
+  });
+
+  it('should not keep anything across restarts in memory', async () => {
+    const store = new MemoryRoomStore<{ id: string }>();
+    store.rooms.set('7', { id: '7' });
+    store.startSnapshots(() => [createSnapshot('7')]);
+    await store.stopSnapshots();
+
+    expect(await new MemoryRoomStore().loadSnapshots()).toEqual([]);
+  });
+
+  it('should restore the rooms saved by the previous store', async () => {
+    let rooms = [createSnapshot('7'), createSnapshot('tournament-1-match-2')];
+    const store = new SqliteRoomStore(60000);
+    store.startSnapshots(() => rooms);
+    await store.stopSnapshots();
+
+    expect(await new SqliteRoomStore().loadSnapshots()).toEqual(rooms);
+
+    // A match that ended is gone from the next snapshot
+    rooms = rooms.slice(1);
+    store.startSnapshots(() => rooms);
+    await store.stopSnapshots();
+    expect((await new SqliteRoomStore().loadSnapshots()).map(snapshot => snapshot.id)).toEqual(['tournament-1-match-2']);
+  });
+
+  it('should not restore stale snapshots', async () => {
+    const store = new SqliteRoomStore(60000);
+    store.startSnapshots(() => [createSnapshot('old', Date.now() - ROOM_SNAPSHOT_MAX_AGE_MS - 1000), createSnapshot('new')]);
+    await store.stopSnapshots();
+
+    expect((await store.loadSnapshots()).map(snapshot => snapshot.id)).toEqual(['new']);
+  });
+
+  it('should only replace the snapshots of its own worker', async () => {
+    const first = new SqliteRoomStore(60000, 0);
+    const second = new SqliteRoomStore(60000, 1);
+    first.startSnapshots(() => [createSnapshot('room-a')]);
+    await first.stopSnapshots();
+    second.startSnapshots(() => [createSnapshot('room-b')]);
+    await second.stopSnapshots();
+
+    // The second worker has no running match anymore; the first worker's room is kept
+    second.startSnapshots(() => []);
+    await second.stopSnapshots();
+    expect((await first.loadSnapshots()).map(snapshot => snapshot.id)).toEqual(['room-a']);
+  });
+});
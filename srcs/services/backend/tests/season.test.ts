@@ -0,0 +1,130 @@
+/**
+ * Season Tests
+ * - Tests the season schedule, the season ratings and the archived standings
+ */
+
+import { DatabaseService } from '../src/services/databaseService';
+import { RatingService } from '../src/services/ratingService';
+import { SeasonService, toSqlTimestamp } from '../src/services/seasonService';
+import { LeaderboardService } from '../src/services/leaderboardService';
+import { INITIAL_RATING, SEASON_START_DEVIATION, getSeasonStartRating } from '../src/game/glicko2';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function addMatch(userId: string, result: 'win' | 'loss', gameMode: string, playedAt: Date) {
+  await DatabaseService.run(
+    `INSERT INTO match_history (user_id, opponent_name, user_score, opponent_score, result, game_mode, played_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [parseInt(userId, 10), 'Opponent', result === 'win' ? 10 : 4, result === 'win' ? 4 : 10, result, gameMode, toSqlTimestamp(playedAt)]
+  );
+}
+
+/**
+ * Test suite for the seasons
+ */
+describe('Seasons', () => {
+  let aliceId: string;
+  let bobId: string;
+
+  beforeAll(async () => {
+    process.env.DB_PATH = ':memory:';
+    process.env.SEASON_LENGTH_DAYS = '30';
+    await DatabaseService.initialize();
+    const { initializeDatabase } = await import('../src/utils/databaseInit');
+    await initializeDatabase();
+
+    for (const username of ['alice', 'bob']) {
+      await DatabaseService.run(
+        'INSERT INTO users (username, email, password_hash) VALUES ($1, $2, $3)',
+        [username, `${username}@example.com`, 'hash']
+      );
+    }
+    const users = await DatabaseService.query('SELECT id FROM users ORDER BY id');
+    aliceId = String(users[0].id);
+    bobId = String(users[1].id);
+  });
+
+  afterAll(async () => {
+    delete process.env.SEASON_LENGTH_DAYS;
+    await DatabaseService.close();
+  });
+
+  beforeEach(async () => {
+    await DatabaseService.run('DELETE FROM seasons');
+    await DatabaseService.run('DELETE FROM match_history');
+    await DatabaseService.run('DELETE FROM player_ratings');
+  });
+
+  it('should pull ratings back towards the initial rating for a new season', () => {
+    const start = getSeasonStartRating({ rating: 1400, deviation: 60, volatility: 0.06 });
+    expect(start.rating).toBe(1200);
+    expect(start.deviation).toBe(SEASON_START_DEVIATION);
+    expect(getSeasonStartRating(INITIAL_RATING)).toEqual(INITIAL_RATING);
+  });
+
+  it('should schedule seasons back to back, skipping the ones nobody played', async () => {
+    const start = new Date('2030-01-01T00:00:00Z');
+    const first = await SeasonService.ensureCurrentSeason(start);
+    expect(first).toMatchObject({ name: 'Season 1', startsAt: '2030-01-01 00:00:00', endsAt: '2030-01-31 00:00:00', status: 'active' });
+    expect((await SeasonService.ensureCurrentSeason(new Date(start.getTime() + DAY_MS)))?.id).toBe(first?.id);
+
+    // Nothing ran for two seasons
+    const later = await SeasonService.ensureCurrentSeason(new Date(start.getTime() + 75 * DAY_MS));
+    expect(later).toMatchObject({ name: 'Season 2', startsAt: '2030-03-02 00:00:00', endsAt: '2030-04-01 00:00:00' });
+    expect((await SeasonService.getSeasons(new Date(start.getTime() + 75 * DAY_MS))).map(season => season.status)).toEqual(['active', 'ended']);
+  });
+
+  it('should rate the current season separately from the overall rating', async () => {
+    await DatabaseService.run(
+      'INSERT INTO player_ratings (user_id, rating, rating_deviation, volatility, games_played) VALUES ($1, $2, $3, $4, $5)',
+      [parseInt(aliceId, 10), 1400, 60, 0.06, 40]
+    );
+    const season = await SeasonService.ensureCurrentSeason();
+
+    await RatingService.recordMatch(aliceId, bobId, 1, { matchType: 'multiplayer' });
+
+    const overall = await RatingService.getRating(aliceId);
+    const seasonal = await RatingService.getSeasonRating(aliceId, season!.id);
+    expect(overall.rating).toBeGreaterThan(1400);
+    expect(seasonal!.rating).toBeGreaterThan(1200);
+    expect(seasonal!.rating).toBeLessThan(overall.rating);
+    expect(seasonal!.gamesPlayed).toBe(1);
+  });
+
+  it('should archive the final standings when a season ends', async () => {
+    const start = new Date(Date.now() - 10 * DAY_MS);
+    const season = await SeasonService.ensureCurrentSeason(start);
+    await addMatch(aliceId, 'win', 'multiplayer', new Date(start.getTime() + DAY_MS));
+    await addMatch(bobId, 'loss', 'multiplayer', new Date(start.getTime() + DAY_MS));
+    await addMatch(bobId, 'win', 'ai', new Date(start.getTime() + 2 * DAY_MS));
+
+    const end = new Date(start.getTime() + 31 * DAY_MS);
+    expect(await SeasonService.archiveEndedSeasons(end)).toEqual([season!.id]);
+    expect(await SeasonService.archiveEndedSeasons(end)).toEqual([]);
+
+    const archived = await SeasonService.getSeason(season!.id, end);
+    expect(archived?.status).toBe('archived');
+    const standings = await LeaderboardService.getLeaderboard({ season: archived! });
+    expect(standings.map(entry => [entry.rank, entry.username, entry.totalGames])).toEqual([
+      [1, 'bob', 2],
+      [2, 'alice', 1]
+    ]);
+  });
+
+  it('should scope the leaderboard to a mode and a period', async () => {
+    const now = Date.now();
+    await addMatch(aliceId, 'win', 'ai', new Date(now - DAY_MS));
+    await addMatch(aliceId, 'win', 'ai', new Date(now - 20 * DAY_MS));
+    await addMatch(bobId, 'win', 'tournament', new Date(now - DAY_MS));
+    await addMatch(bobId, 'win', 'ffa', new Date(now - 2 * DAY_MS));
+
+    const ai = await LeaderboardService.getLeaderboard({ mode: 'ai' });
+    expect(ai.map(entry => [entry.username, entry.gamesWon])).toEqual([['alice', 2]]);
+
+    const aiThisWeek = await LeaderboardService.getLeaderboard({ mode: 'ai', period: 'week' });
+    expect(aiThisWeek.map(entry => [entry.username, entry.gamesWon])).toEqual([['alice', 1]]);
+
+    const multiplayer = await LeaderboardService.getLeaderboard({ mode: 'multiplayer', period: 'month' });
+    expect(multiplayer.map(entry => entry.username)).toEqual(['bob']);
+  });
+});
@@ -7,9 +7,23 @@
  * - AI must simulate keyboard input (like human behavior)
  * - AI must predict bounces and other actions
  * - AI must be capable of winning occasionally
+ *
+ * Difficulty levels, personalities and the adaptive mode are shared with the
+ * server-hosted AI (game/aiPlayer)
  */
 
-export type AIDifficulty = 'easy' | 'medium' | 'hard' | 'expert';
+import {
+  applyAIFatigue,
+  getAdaptiveSkill,
+  getAdaptiveStartSkill,
+  getAIPersonalityProfile,
+  getAISkill,
+  getAISkillSettings,
+  type AIDifficulty,
+  type AIPlayerOptions
+} from '@game/aiPlayer';
+
+export type { AIDifficulty };
 
 export interface AIDebugInfo {
   lastMove: string;
@@ -20,6 +34,8 @@ export interface AIDebugInfo {
   consecutiveMisses: number;
   consecutiveHits: number;
   difficulty: AIDifficulty;
+  /** Skill the AI currently plays at (0: easy ... 3: expert) */
+  skill: number;
   prediction: { x: number; y: number } | null;
   ballPosition: { x: number; y: number };
   shouldMove: boolean;
@@ -38,7 +54,8 @@ export const useAIController = (
   setPaddleMovement: (side: 'left' | 'right', direction: number) => void,
   gameStateStore: any,
   difficulty: AIDifficulty = 'medium',
-  onDebugInfo?: (info: AIDebugInfo) => void
+  onDebugInfo?: (info: AIDebugInfo) => void,
+  options: AIPlayerOptions = {}
 ) => {
   let lastMove = 'none';
   let consecutiveMisses = 0;
@@ -57,19 +74,49 @@ export const useAIController = (
    * AI must be capable of winning occasionally, so higher difficulties need better accuracy
    * Note: Paddle speed is the same for both user and AI (controlled by gameSpeed setting)
    */
-  const getDifficultySettings = (diff: AIDifficulty) => {
-    switch (diff) {
-      case 'easy':
-        return { reactionDelay: 200, accuracy: 0.65, predictionAccuracy: 0.7 };
-      case 'medium':
-        return { reactionDelay: 100, accuracy: 0.85, predictionAccuracy: 0.85 };
-      case 'hard':
-        return { reactionDelay: 60, accuracy: 0.92, predictionAccuracy: 0.92 };
-      case 'expert':
-        return { reactionDelay: 30, accuracy: 0.97, predictionAccuracy: 0.97 };
-      default:
-        return { reactionDelay: 100, accuracy: 0.85, predictionAccuracy: 0.85 };
+  const getDifficultySettings = (diff: AIDifficulty) => getAISkillSettings(getAISkill(diff));
+
+  // Personality and current skill (the adaptive mode moves it with the score gap)
+  const personality = getAIPersonalityProfile(options.personality ?? 'balanced');
+  const startSkill = options.adaptive
+    ? getAdaptiveStartSkill(difficulty, options.opponentRating)
+    : getAISkill(difficulty);
+  let skill = startSkill;
+  let settings = getAISkillSettings(skill);
+  let matchStartTime: number | null = null;
+  let lastScoreTotal = 0;
+  let overshootUntil: number | null = null;
+  // Paddle edge aimed at the ball (-1: bottom edge, 1: top edge)
+  let aimSide: -1 | 1 = 1;
+
+  /**
+   * Re-read the score and play time whenever the AI looks at the game
+   * Adaptive AIs play better while behind, tiring personalities react slower over time
+   */
+  const refreshSkill = (currentState: any) => {
+    const currentTime = Date.now();
+    // The controller outlives a reset, so a score going back down starts the fatigue over
+    const scoreTotal = (currentState.leftScore ?? 0) + (currentState.rightScore ?? 0);
+    if (matchStartTime === null || scoreTotal < lastScoreTotal) matchStartTime = currentTime;
+    lastScoreTotal = scoreTotal;
+    skill = options.adaptive
+      ? getAdaptiveSkill(startSkill, currentState.rightScore ?? 0, currentState.leftScore ?? 0)
+      : startSkill;
+    settings = applyAIFatigue(getAISkillSettings(skill), personality, (currentTime - matchStartTime) / 60000);
+    aimSide = personality.aimOffset > 0 && Math.random() < 0.5 ? -1 : 1;
+  };
+
+  /**
+   * Keep the key pressed a little past the target (human-like personality)
+   */
+  const applyOvershoot = (direction: number, currentTime: number) => {
+    if (direction !== 0) {
+      overshootUntil = null;
+      return direction;
     }
+    if (lastKeyboardDirection === 0 || personality.overshootMs <= 0) return 0;
+    if (overshootUntil === null) overshootUntil = currentTime + personality.overshootMs;
+    return currentTime < overshootUntil ? lastKeyboardDirection : 0;
   };
 
   /**
@@ -186,7 +233,6 @@ export const useAIController = (
    * AI must anticipate bounces and other actions (requirement)
    */
   const predictBallPosition = (ball: { x: number; y: number; dx: number; dy: number }, paddleY: number) => {
-    const settings = getDifficultySettings(difficulty);
     const paddleX = 790; // Right paddle X position
     const gameWidth = 800;
     const gameHeight = 400;
@@ -211,7 +257,6 @@ export const useAIController = (
    * But can make movement decisions more frequently based on cached/predicted state
    */
   const calculateMovement = (ball: { x: number; y: number; dx: number; dy: number }, paddleY: number, forceUpdate: boolean = false) => {
-    const settings = getDifficultySettings(difficulty);
     const currentTime = Date.now();
 
     // REQUIREMENT: AI can only refresh its view of the game once per second
@@ -304,27 +349,31 @@ export const useAIController = (
     let shouldMove = false;
     let prediction: { x: number; y: number } | null = null;
     let distance = 0; // Initialize distance variable
+    const paddleHeight = 80;
+    const centerY = 200 - paddleHeight / 2; // Center of screen minus half paddle height
 
     // Only react if ball is moving towards AI (right side)
     if (ball.dx <= 0) {
       // Ball is moving away, move to center position for better defense
-      const centerY = 200 - 40; // Center of screen minus half paddle height
-      targetY = centerY;
-      distance = Math.abs(paddleY - centerY);
+      // (aggressive personalities stay level with the ball instead)
+      targetY = centerY + (ball.y - paddleHeight / 2 - centerY) * personality.restTracking;
+      distance = Math.abs(paddleY - targetY);
       shouldMove = distance > 3;
       if (shouldMove) {
-        direction = paddleY < centerY ? 1 : -1;
+        direction = paddleY < targetY ? 1 : -1;
         lastMove = direction > 0 ? 'down' : 'up';
       } else {
         direction = 0;
         lastMove = 'none';
       }
+      direction = applyOvershoot(direction, currentTime);
     } else {
       // Ball is moving towards AI, predict and react
       // Predict ball position (AI must anticipate bounces and other actions)
       prediction = predictBallPosition(ball, paddleY);
-      const paddleHeight = 80;
-      targetY = prediction.y - paddleHeight / 2; // Center of paddle
+      const meetY = prediction.y - paddleHeight / 2; // Center of paddle
+      // Defensive personalities keep close to the middle, aggressive ones hit with an edge
+      targetY = meetY + (centerY - meetY) * personality.centerPull + (aimSide * personality.aimOffset * paddleHeight) / 2;
       distance = Math.abs(paddleY - targetY);
       shouldMove = distance > 2; // Very small threshold for precise movement
 
@@ -340,6 +389,7 @@ export const useAIController = (
         direction = 0;
       lastMove = 'none';
     }
+      direction = applyOvershoot(direction, currentTime);
 
       // Apply accuracy factor (for difficulty variation)
       // Lower difficulties make more mistakes, higher difficulties are more accurate
@@ -347,7 +397,7 @@ export const useAIController = (
     if (Math.random() > settings.accuracy) {
         // Make a mistake: move in wrong direction or don't move
         // But for hard/expert, mistakes should be smaller
-        if (difficulty === 'hard' || difficulty === 'expert') {
+        if (skill >= getAISkill('hard')) {
           // Small mistakes only (slight delay or small direction error)
           if (Math.random() > 0.7) {
             direction = 0; // Small delay
@@ -373,6 +423,7 @@ export const useAIController = (
       consecutiveMisses,
       consecutiveHits,
       difficulty,
+      skill,
       prediction,
       ballPosition: ball,
       shouldMove,
@@ -437,6 +488,7 @@ export const useAIController = (
         ball: { ...currentState.ball },
         rightPaddle: { ...currentState.rightPaddle }
       };
+      refreshSkill(currentState);
       shouldUpdateView = true;
     } else {
       // Use cached game state if available, but predictively update it using physics
@@ -500,6 +552,7 @@ export const useAIController = (
           ball: { ...currentState.ball },
           rightPaddle: { ...currentState.rightPaddle }
         };
+        refreshSkill(currentState);
         shouldUpdateView = true;
       }
     }
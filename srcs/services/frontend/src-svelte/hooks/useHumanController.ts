@@ -57,7 +57,8 @@ export const useHumanController = (
 
   /**
    * Continuous movement loop (similar to AI controller)
-   * Updates paddle position every frame while keys are pressed
+   * Reports the held direction every frame while keys are pressed, including 0
+   * when only keys belonging to the other player are down
    */
   const startMovementLoop = () => {
     if (isRunning) return;
@@ -66,10 +67,7 @@ export const useHumanController = (
     const movementLoop = () => {
       if (!isRunning) return;
       
-      const direction = getMovementDirection();
-      if (direction !== 0) {
-        setPaddleMovement(side, direction);
-      }
+      setPaddleMovement(side, getMovementDirection());
       
       animationId = requestAnimationFrame(movementLoop);
     };
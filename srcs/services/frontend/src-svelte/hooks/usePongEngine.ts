@@ -4,52 +4,150 @@
  */
 
 import { writable } from 'svelte/store';
+import {
+  createInitialState,
+  createPongConfig,
+  getLongestRally,
+  getPaddleFaceX,
+  getPaddleHeight,
+  normalizeDirection,
+  type PaddleInputs,
+  type PongConfig,
+  type ServeRule
+} from '@game/pongPhysics';
+import { getDefaultMatchRules } from '@game/matchRules';
+import {
+  POWER_UP_RADIUS,
+  stepWithPowerUps,
+  type PowerUpGameState,
+  type PowerUpKind
+} from '@game/powerUps';
+import { DEFAULT_ARENA_MAP_ID, getArenaLayout, getArenaMap, type ArenaMap } from '@game/arenaMaps';
+import { FFA_SIDES, type FfaConfig, type FfaState } from '@game/ffaPhysics';
 
 /**
  * Defines the shape of the game's state that components will use for rendering.
+ * Physics fields come from the shared Pong physics core.
  */
-export interface GameState {
-  leftPaddle: { y: number };
-  rightPaddle: { y: number };
-  ball: { x: number; y: number; dx: number; dy: number; };
-  leftScore: number;
-  rightScore: number;
-  status: 'ready' | 'playing' | 'paused' | 'finished';
-  winner?: 'left' | 'right';
+export interface GameState extends PowerUpGameState {
+  /** 'serving': running, with the ball held for the serve countdown */
+  status: 'ready' | 'playing' | 'serving' | 'paused' | 'finished';
 }
 
 /**
- * Game constants and configuration
+ * Whether the game loop runs in this status (the serve countdown included)
+ */
+export const isGameRunning = (status: GameState['status'] | undefined): boolean =>
+  status === 'playing' || status === 'serving';
+
+/** Item colors on the canvas */
+const POWER_UP_COLORS: Record<PowerUpKind, string> = {
+  paddleGrow: '#22c55e',
+  paddleShrink: '#ef4444',
+  multiBall: '#eab308',
+  slowMotion: '#3b82f6',
+  reverseControls: '#a855f7'
+};
+
+/** Obstacle colors on the canvas */
+const BLOCK_COLOR = '#6b7280';
+const PORTAL_COLORS = ['#06b6d4', '#f97316'];
+
+/**
+ * Draw the arena map's obstacles where the physics has them at the state's time of play
+ */
+const drawArena = (ctx: CanvasRenderingContext2D, arena: ArenaMap, time: number) => {
+  const layout = getArenaLayout(arena, time);
+
+  ctx.fillStyle = BLOCK_COLOR;
+  for (const block of layout.blocks) {
+    ctx.fillRect(block.x, block.y, block.width, block.height);
+  }
+
+  ctx.lineWidth = 3;
+  for (const portal of layout.portals) {
+    [portal.a, portal.b].forEach((point, index) => {
+      ctx.strokeStyle = PORTAL_COLORS[index];
+      ctx.beginPath();
+      ctx.arc(point.x, point.y, portal.radius, 0, Math.PI * 2);
+      ctx.stroke();
+    });
+  }
+  ctx.lineWidth = 1;
+};
+
+/**
+ * Draw map obstacles, paddles (with their current heights), all balls and
+ * power-up items. Shared by the local engine and the multiplayer view.
+ */
+export const drawPlayfield = (ctx: CanvasRenderingContext2D, state: PowerUpGameState, config: PongConfig, arena?: ArenaMap) => {
+  if (arena) {
+    drawArena(ctx, arena, state.time ?? 0);
+  }
+
+  // Draw paddles
+  ctx.fillStyle = 'white';
+  ctx.fillRect(config.paddleOffset, state.leftPaddle.y, config.paddleWidth, getPaddleHeight(state.leftPaddle, config));
+  ctx.fillRect(getPaddleFaceX('right', config), state.rightPaddle.y, config.paddleWidth, getPaddleHeight(state.rightPaddle, config));
+
+  // Draw power-up items
+  for (const item of state.powerUps?.items ?? []) {
+    ctx.fillStyle = POWER_UP_COLORS[item.kind];
+    ctx.beginPath();
+    ctx.arc(item.x, item.y, POWER_UP_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Draw balls
+  ctx.fillStyle = 'white';
+  for (const ball of [state.ball, ...(state.extraBalls ?? [])]) {
+    ctx.beginPath();
+    ctx.arc(ball.x, ball.y, config.ballSize / 2, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+/**
+ * Draw a free-for-all field: the four paddles, walls closing the sides of
+ * eliminated players, and the ball
+ */
+export const drawFfaPlayfield = (ctx: CanvasRenderingContext2D, state: FfaState, config: FfaConfig) => {
+  const { width, height, paddleOffset, paddleWidth, paddleHeight } = config;
+
+  for (const side of FFA_SIDES) {
+    if (state.eliminated.includes(side)) {
+      ctx.fillStyle = BLOCK_COLOR;
+      if (side === 'left') ctx.fillRect(0, 0, paddleWidth / 2, height);
+      if (side === 'right') ctx.fillRect(width - paddleWidth / 2, 0, paddleWidth / 2, height);
+      if (side === 'top') ctx.fillRect(0, 0, width, paddleWidth / 2);
+      if (side === 'bottom') ctx.fillRect(0, height - paddleWidth / 2, width, paddleWidth / 2);
+      continue;
+    }
+
+    const position = state.paddles[side];
+    ctx.fillStyle = 'white';
+    if (side === 'left') ctx.fillRect(paddleOffset, position, paddleWidth, paddleHeight);
+    if (side === 'right') ctx.fillRect(width - paddleOffset - paddleWidth, position, paddleWidth, paddleHeight);
+    if (side === 'top') ctx.fillRect(position, paddleOffset, paddleHeight, paddleWidth);
+    if (side === 'bottom') ctx.fillRect(position, height - paddleOffset - paddleWidth, paddleHeight, paddleWidth);
+  }
+
+  ctx.fillStyle = 'white';
+  ctx.beginPath();
+  ctx.arc(state.ball.x, state.ball.y, config.ballSize / 2, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+/**
+ * Rendering and loop configuration (physics values live in the shared core)
  */
 const GAME_CONFIG = {
   WIDTH: 800,
   HEIGHT: 400,
-  PADDLE_WIDTH: 10,
   CENTER_LINE_DASH: [5, 15],
-  BALL_RESTART_DELAY: 1000,
-  BALL_VERTICAL_FACTOR: 0.6,
-  MAX_BALL_SPEED_MULTIPLIER: 2,
-  BOUNCE_FACTOR: 6,
-  PADDLE_COLLISION_LEFT: 20,
-  PADDLE_COLLISION_RIGHT: 10,
-  WINNING_SCORE: 10, // Game ends when a player reaches this score
+  MAX_FRAME_SECONDS: 0.05, // Avoid huge jumps after the tab was in the background
 } as const;
 
-/**
- * Convert game speed setting to actual speed values
- */
-function getSpeedValues(gameSpeed: 'slow' | 'normal' | 'fast' = 'normal') {
-  switch (gameSpeed) {
-    case 'slow':
-      return { ballSpeed: 3, paddleSpeed: 5 };
-    case 'fast':
-      return { ballSpeed: 7, paddleSpeed: 12 };
-    case 'normal':
-    default:
-      return { ballSpeed: 5, paddleSpeed: 8 };
-  }
-}
-
 /**
  * The core Pong game engine for Svelte
  */
@@ -57,31 +155,26 @@ export const usePongEngine = (
   canvasElement: HTMLCanvasElement | null = null,
   width: number = GAME_CONFIG.WIDTH, 
   height: number = GAME_CONFIG.HEIGHT,
-  onGameEnd?: (winner: 'left' | 'right', leftScore: number, rightScore: number) => void,
-  gameSpeed: 'slow' | 'normal' | 'fast' = 'normal'
+  onGameEnd?: (winner: 'left' | 'right', leftScore: number, rightScore: number, longestRally: number) => void,
+  gameSpeed: 'slow' | 'normal' | 'fast' = 'normal',
+  powerUps: PowerUpKind[] = [],
+  mapId: string = DEFAULT_ARENA_MAP_ID,
+  serveRule: ServeRule = getDefaultMatchRules().serveRule,
+  serveCountdown: number = getDefaultMatchRules().serveCountdown
 ) => {
   let canvasRef: HTMLCanvasElement | null = canvasElement;
-  let status: 'ready' | 'playing' | 'paused' | 'finished' = 'ready';
+  let status: 'ready' | 'playing' | 'serving' | 'paused' | 'finished' = 'ready';
   
-  // Get speed values based on gameSpeed setting
-  const speedValues = getSpeedValues(gameSpeed);
-  
-  // Use default game settings with speed values
-  const defaultSettings = {
-    paddleHeight: 80,
-    paddleWidth: 15,
-    ballSize: 10,
-    ballSpeed: speedValues.ballSpeed,
-    paddleSpeed: speedValues.paddleSpeed,
-  };
+  // Shared physics config with speed values for the gameSpeed setting
+  const config = createPongConfig(gameSpeed, { width, height, serveRule, serveDelay: serveCountdown });
+  const arena = getArenaMap(mapId);
+
+  // Currently held paddle directions, applied on every physics step
+  let inputs: PaddleInputs = { left: 0, right: 0 };
 
   // Game state using Svelte store for reactivity
   const gameState = writable<GameState>({
-    leftPaddle: { y: height / 2 - defaultSettings.paddleHeight / 2 },
-    rightPaddle: { y: height / 2 - defaultSettings.paddleHeight / 2 },
-    ball: { x: width / 2, y: height / 2, dx: defaultSettings.ballSpeed, dy: 0 },
-    leftScore: 0,
-    rightScore: 0,
+    ...createInitialState(config),
     status: 'ready',
   });
 
@@ -124,16 +217,7 @@ export const usePongEngine = (
     ctx.stroke();
     ctx.setLineDash([]);
 
-    // Draw paddles
-    ctx.fillStyle = 'white';
-    ctx.fillRect(10, currentState.leftPaddle.y, defaultSettings.paddleWidth, defaultSettings.paddleHeight);
-    ctx.fillRect(width - 20, currentState.rightPaddle.y, defaultSettings.paddleWidth, defaultSettings.paddleHeight);
-
-    // Draw ball
-    ctx.fillStyle = 'white';
-    ctx.beginPath();
-    ctx.arc(currentState.ball.x, currentState.ball.y, defaultSettings.ballSize / 2, 0, Math.PI * 2);
-    ctx.fill();
+    drawPlayfield(ctx, currentState, config, arena);
 
     // Draw scores
     ctx.fillStyle = 'white';
@@ -141,59 +225,33 @@ export const usePongEngine = (
     ctx.textAlign = 'center';
     ctx.fillText(currentState.leftScore.toString(), width / 4, 60);
     ctx.fillText(currentState.rightScore.toString(), (3 * width) / 4, 60);
+
+    // Serve countdown
+    if (currentState.serveCountdown) {
+      ctx.font = '72px Arial';
+      ctx.fillText(Math.ceil(currentState.serveCountdown).toString(), width / 2, height / 2 - 30);
+    }
   };
 
   /**
    * Update game state
    */
   const update = (deltaTime: number, currentState: GameState) => {
-    if (currentState.status !== 'playing') return;
+    if (!isGameRunning(currentState.status)) return;
 
-    // Create a new state object for updates
-    const newState = { ...currentState };
-    newState.ball = { ...currentState.ball };
-    newState.leftPaddle = { ...currentState.leftPaddle };
-    newState.rightPaddle = { ...currentState.rightPaddle };
-
-    // Update ball position
-    newState.ball.x += newState.ball.dx;
-    newState.ball.y += newState.ball.dy;
-
-    // Ball collision with top/bottom walls
-    if (newState.ball.y <= defaultSettings.ballSize / 2 || newState.ball.y >= height - defaultSettings.ballSize / 2) {
-      newState.ball.dy = -newState.ball.dy;
-    }
-
-    // Ball collision with paddles
-    if (newState.ball.x <= GAME_CONFIG.PADDLE_COLLISION_LEFT + defaultSettings.paddleWidth &&
-        newState.ball.y >= newState.leftPaddle.y &&
-        newState.ball.y <= newState.leftPaddle.y + defaultSettings.paddleHeight) {
-      newState.ball.dx = Math.abs(newState.ball.dx);
-      newState.ball.dy = (newState.ball.y - (newState.leftPaddle.y + defaultSettings.paddleHeight / 2)) * GAME_CONFIG.BOUNCE_FACTOR / defaultSettings.paddleHeight;
-    }
-
-    if (newState.ball.x >= width - GAME_CONFIG.PADDLE_COLLISION_RIGHT - defaultSettings.paddleWidth &&
-        newState.ball.y >= newState.rightPaddle.y &&
-        newState.ball.y <= newState.rightPaddle.y + defaultSettings.paddleHeight) {
-      newState.ball.dx = -Math.abs(newState.ball.dx);
-      newState.ball.dy = (newState.ball.y - (newState.rightPaddle.y + defaultSettings.paddleHeight / 2)) * GAME_CONFIG.BOUNCE_FACTOR / defaultSettings.paddleHeight;
-    }
-
-    // Ball out of bounds
-    if (newState.ball.x < 0) {
-      newState.rightScore++;
-      resetBall(newState);
-    } else if (newState.ball.x > width) {
-      newState.leftScore++;
-      resetBall(newState);
-    }
+    // Advance the shared physics core (deltaTime is in milliseconds)
+    const dt = Math.min(deltaTime / 1000, GAME_CONFIG.MAX_FRAME_SECONDS);
+    const stepped = stepWithPowerUps(currentState, inputs, dt, { config, enabled: powerUps, arena });
+    const newState: GameState = {
+      ...stepped,
+      status: stepped.serveCountdown ? 'serving' : 'playing'
+    };
 
     // Check for winner
-    if (newState.leftScore >= GAME_CONFIG.WINNING_SCORE || newState.rightScore >= GAME_CONFIG.WINNING_SCORE) {
+    if (newState.winner) {
       newState.status = 'finished';
-      newState.winner = newState.leftScore >= GAME_CONFIG.WINNING_SCORE ? 'left' : 'right';
       if (onGameEnd) {
-        onGameEnd(newState.winner, newState.leftScore, newState.rightScore);
+        onGameEnd(newState.winner, newState.leftScore, newState.rightScore, getLongestRally(newState));
       }
     }
 
@@ -201,16 +259,6 @@ export const usePongEngine = (
     gameState.set(newState);
   };
 
-  /**
-   * Reset ball to center
-   */
-  const resetBall = (currentState: GameState) => {
-    currentState.ball.x = width / 2;
-    currentState.ball.y = height / 2;
-    currentState.ball.dx = defaultSettings.ballSpeed * (Math.random() > 0.5 ? 1 : -1);
-    currentState.ball.dy = (Math.random() - 0.5) * defaultSettings.ballSpeed * GAME_CONFIG.BALL_VERTICAL_FACTOR;
-  };
-
   // Store current state for game loop
   let currentGameState: GameState;
 
@@ -227,7 +275,7 @@ export const usePongEngine = (
       const deltaTime = currentTime - lastTime;
       lastTime = currentTime;
 
-      if (currentGameState && currentGameState.status === 'playing') {
+      if (currentGameState && isGameRunning(currentGameState.status)) {
         try {
           update(deltaTime, currentGameState);
         } catch (error) {
@@ -280,7 +328,7 @@ export const usePongEngine = (
    * Pause the game
    */
   const pauseGame = () => {
-    if (currentGameState && currentGameState.status === 'playing') {
+    if (currentGameState && isGameRunning(currentGameState.status)) {
       const newState = { ...currentGameState, status: 'paused' as const };
       gameState.set(newState);
       if (animationId) {
@@ -295,13 +343,10 @@ export const usePongEngine = (
    */
   const resetGame = () => {
     const newState: GameState = {
-      leftPaddle: { y: height / 2 - defaultSettings.paddleHeight / 2 },
-      rightPaddle: { y: height / 2 - defaultSettings.paddleHeight / 2 },
-      ball: { x: width / 2, y: height / 2, dx: defaultSettings.ballSpeed, dy: 0 },
-      leftScore: 0,
-      rightScore: 0,
+      ...createInitialState(config),
       status: 'ready',
     };
+    inputs = { left: 0, right: 0 };
     
     gameState.set(newState);
     
@@ -321,21 +366,10 @@ export const usePongEngine = (
 
   /**
    * Set paddle movement
+   * The direction is held until changed and applied on every physics step
    */
   const setPaddleMovement = (side: 'left' | 'right', direction: number) => {
-    if (currentGameState && currentGameState.status === 'playing') {
-      const newState = { ...currentGameState };
-      newState.leftPaddle = { ...currentGameState.leftPaddle };
-      newState.rightPaddle = { ...currentGameState.rightPaddle };
-
-      const paddle = side === 'left' ? newState.leftPaddle : newState.rightPaddle;
-      paddle.y += direction * defaultSettings.paddleSpeed;
-      
-      // Keep paddle within bounds
-      paddle.y = Math.max(0, Math.min(height - defaultSettings.paddleHeight, paddle.y));
-      
-      gameState.set(newState);
-    }
+    inputs = { ...inputs, [side]: normalizeDirection(direction) };
   };
 
 
@@ -348,7 +382,7 @@ export const usePongEngine = (
       if (currentGameState) {
         if (currentGameState.status === 'ready' || currentGameState.status === 'paused') {
           startGame();
-        } else if (currentGameState.status === 'playing') {
+        } else if (isGameRunning(currentGameState.status)) {
           pauseGame();
         }
       }
@@ -5,7 +5,7 @@
  * Provides methods for user registration, login, logout, and profile management.
  */
 
-import { LoginRequest, RegisterRequest, AuthResponse, User, ErrorResponse } from '../types/auth';
+import { LoginRequest, RegisterRequest, AuthResponse, User, ErrorResponse, GuestAuthResponse, SocketIdentity } from '../types/auth';
 
 /**
  * Get API base URL dynamically at runtime
@@ -41,6 +41,20 @@ function getApiBaseUrl(): string {
 // Don't cache API_BASE_URL - get it dynamically each time
 // This ensures it uses the current window.location, not the location when the module was loaded
 
+const GUEST_TOKEN_KEY = 'pong_guest_token';
+
+/**
+ * Decode the payload of a JWT (without verifying it; the server does that)
+ * @returns any - Payload, or null if the token is malformed
+ */
+function decodeTokenPayload(token: string): any {
+  try {
+    return JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+  } catch (error) {
+    return null;
+  }
+}
+
 /**
  * Authentication Service Class
  * Provides methods for user authentication and management
@@ -286,6 +300,56 @@ export class AuthService {
     }
   }
 
+  /**
+   * Get a signed guest token for playing without an account
+   * The stored guest token is reused while it is valid; asking for another
+   * alias signs a new token for the same guest id
+   * @param alias - Tournament guest alias to carry in the token
+   * @returns Promise<string> - Guest token
+   */
+  static async getGuestToken(alias?: string): Promise<string> {
+    const storedToken = localStorage.getItem(GUEST_TOKEN_KEY);
+    const payload = storedToken ? decodeTokenPayload(storedToken) : null;
+    const isValid = payload?.guestId && (!payload.exp || payload.exp > Math.floor(Date.now() / 1000));
+
+    if (storedToken && isValid && (!alias || payload.guestAlias === alias)) {
+      return storedToken;
+    }
+
+    const response = await fetch(`${getApiBaseUrl()}/api/auth/guest`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(storedToken && isValid ? { 'Authorization': `Bearer ${storedToken}` } : {}),
+      },
+      body: JSON.stringify(alias ? { alias } : {}),
+    });
+
+    if (!response.ok) {
+      const error: ErrorResponse = await response.json();
+      throw new Error(error.message || 'Failed to get guest token');
+    }
+
+    const data: GuestAuthResponse = await response.json();
+    localStorage.setItem(GUEST_TOKEN_KEY, data.token);
+    return data.token;
+  }
+
+  /**
+   * Get the token to connect sockets with and the user id the server will bind them to:
+   * the user's JWT when logged in, a guest token (with the saved tournament alias) otherwise
+   * @returns Promise<SocketIdentity> - Token and user id
+   */
+  static async getSocketIdentity(): Promise<SocketIdentity> {
+    const token = await this.getTokenOrRefresh();
+    if (token) {
+      return { token, userId: String(decodeTokenPayload(token)?.userId) };
+    }
+
+    const guestToken = await this.getGuestToken(localStorage.getItem('guestAlias') || undefined);
+    return { token: guestToken, userId: decodeTokenPayload(guestToken)?.guestId };
+  }
+
   /**
    * Make an authenticated API request with automatic token refresh
    * @param url - API endpoint URL
@@ -5,7 +5,10 @@
  * Provides methods for saving game results and retrieving user statistics.
  */
 
+import { io } from 'socket.io-client';
 import { AuthService } from './authService';
+import type { MatchReplay } from '@game/replay';
+import type { LocalMatch } from './matchHistoryService';
 
 /**
  * Get API base URL dynamically at runtime
@@ -35,13 +38,25 @@ export interface GameResult {
   score: number;
   won: boolean;
   gameType: 'single' | 'multiplayer' | 'ai';
+  /** Games against the AI: the AI's score, game length in seconds and AI profile (e.g. "hard/aggressive") */
+  opponentScore?: number;
+  duration?: number;
+  aiProfile?: string;
+  /** Most paddle hits in one rally */
+  longestRally?: number;
 }
 
 /**
  * User statistics interface
  */
 export interface UserStatistics {
+  id?: string; // Leaderboard entries only
+  rank?: number; // Leaderboard entries only
   username: string;
+  rating: number; // Glicko-2 rating
+  ratingDeviation: number;
+  ratedGames?: number; // Own statistics only
+  provisional: boolean; // Too few rated games for the rating to be trusted yet
   totalGames: number;
   gamesWon: number;
   gamesLost: number;
@@ -52,6 +67,96 @@ export interface UserStatistics {
   updatedAt: string;
 }
 
+/**
+ * Competitive season; ratings reset and the standings are archived when it ends
+ */
+export interface Season {
+  id: number;
+  name: string;
+  startsAt: string;
+  endsAt: string;
+  status: 'scheduled' | 'active' | 'ended' | 'archived';
+}
+
+/**
+ * Leaderboard scope: a season, a game mode and/or a recent period (everything if not set)
+ */
+export interface LeaderboardFilters {
+  season?: number | 'current';
+  mode?: 'ai' | 'multiplayer' | 'tournament';
+  period?: 'week' | 'month' | 'all';
+}
+
+/**
+ * Achievement with when the player unlocked it (null: still locked)
+ */
+export interface Achievement {
+  id: string;
+  category: 'match' | 'tournament' | 'social' | 'chat';
+  icon: string;
+  unlockedAt: string | null;
+}
+
+/**
+ * A player's record against one opponent, from the player's side
+ */
+export interface HeadToHead {
+  user: { id: string; username: string };
+  opponent: { id: string; username: string };
+  matches: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  pointDifferential: number;
+  recentMatches: Array<{
+    id: number;
+    userScore: number;
+    opponentScore: number;
+    result: 'win' | 'loss' | 'draw';
+    gameMode: string;
+    playedAt: string;
+  }>;
+  tournamentMeetings: Array<{
+    tournamentId: number;
+    tournamentName: string;
+    round: number;
+    userScore: number;
+    opponentScore: number;
+    won: boolean;
+    forfeit: boolean;
+    finishedAt: string | null;
+  }>;
+}
+
+/**
+ * Recorded replay of a game session
+ */
+export interface StoredReplay {
+  sessionId: number;
+  roomId: string;
+  gameType: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  replay: MatchReplay;
+}
+
+/**
+ * Career totals of the per-match telemetry (matches without telemetry are left out)
+ */
+export interface CareerStats {
+  trackedMatches: number;
+  totalHits: number;
+  averageHits: number;
+  longestRally: number;
+  averageBallSpeed: number; // Pixels per second
+  maxBallSpeed: number;
+  pointsFromServe: number;
+  timeLeading: number; // Seconds
+  leadShare: number; // Percentage of the time either player led that the user did
+}
+
 /**
  * Game Statistics Service Class
  * Provides methods for game statistics management
@@ -92,6 +197,7 @@ export class GameStatsService {
    * @param rightScore - Right player's final score
    * @param gameType - Type of game ('single', 'multiplayer', 'ai')
    * @param playerSide - Which side the current user was playing ('left' | 'right')
+   * @param ai - Games against the AI: its profile, the game length in seconds and the longest rally
    * @returns Promise<boolean> - True if saved successfully
    */
   static async saveGameResultSimple(
@@ -99,14 +205,21 @@ export class GameStatsService {
     leftScore: number,
     rightScore: number,
     gameType: 'single' | 'multiplayer' | 'ai',
-    playerSide: 'left' | 'right'
+    playerSide: 'left' | 'right',
+    ai?: { aiProfile: string; duration: number; longestRally?: number }
   ): Promise<boolean> {
     const gameResult: GameResult = {
       sessionId: `session-${Date.now()}`,
       playerSide,
       score: playerSide === 'left' ? leftScore : rightScore,
       won: (playerSide === 'left' && winner === 'left') || (playerSide === 'right' && winner === 'right'),
-      gameType
+      gameType,
+      ...(ai && {
+        opponentScore: playerSide === 'left' ? rightScore : leftScore,
+        duration: ai.duration,
+        aiProfile: ai.aiProfile,
+        longestRally: ai.longestRally
+      })
     };
 
     // Debug logging
@@ -152,10 +265,16 @@ export class GameStatsService {
   /**
    * Get leaderboard
    * @param limit - Number of top players to return (default: 10)
+   * @param filters - Season, game mode and period to rank the players for
    * @returns Promise<UserStatistics[]> - Array of top players
    */
-  static async getLeaderboard(limit: number = 10): Promise<UserStatistics[]> {
-    const response = await fetch(`${getApiBaseUrl()}/api/game/leaderboard?limit=${limit}`, {
+  static async getLeaderboard(limit: number = 10, filters: LeaderboardFilters = {}): Promise<UserStatistics[]> {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (filters.season !== undefined) params.set('season', String(filters.season));
+    if (filters.mode) params.set('mode', filters.mode);
+    if (filters.period) params.set('period', filters.period);
+
+    const response = await fetch(`${getApiBaseUrl()}/api/game/leaderboard?${params}`, {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
@@ -171,6 +290,97 @@ export class GameStatsService {
     return data.leaderboard;
   }
 
+  /**
+   * Get the competitive seasons
+   * @returns Promise<Season[]> - Seasons, most recent first
+   */
+  static async getSeasons(): Promise<Season[]> {
+    const response = await fetch(`${getApiBaseUrl()}/api/game/seasons`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to get seasons');
+    }
+
+    const data = await response.json();
+    return data.seasons;
+  }
+
+  /**
+   * Get a player's achievements
+   * @param username - Player whose achievements to get
+   * @returns Promise<Achievement[]> - Every achievement, unlocked or not
+   */
+  static async getAchievements(username: string): Promise<Achievement[]> {
+    const response = await fetch(`${getApiBaseUrl()}/api/users/${encodeURIComponent(username)}/achievements`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to get achievements');
+    }
+
+    const data = await response.json();
+    return data.achievements;
+  }
+
+  /**
+   * Get a player's head-to-head record against an opponent
+   * @param username - Player whose side the record is from
+   * @param opponent - Opponent's username
+   * @param limit - Number of recent matches to list (server default: 5)
+   * @returns Promise<HeadToHead> - Record, recent matches and tournament meetings
+   */
+  static async getHeadToHead(username: string, opponent: string, limit?: number): Promise<HeadToHead> {
+    const query = limit !== undefined ? `?limit=${limit}` : '';
+    const response = await fetch(
+      `${getApiBaseUrl()}/api/users/${encodeURIComponent(username)}/head-to-head/${encodeURIComponent(opponent)}${query}`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to get head-to-head record');
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Listen to the achievements the current user unlocks, pushed by the server
+   * @param onUnlock - Called with each unlocked achievement
+   * @returns Stops listening
+   */
+  static watchAchievements(onUnlock: (achievement: Achievement) => void): () => void {
+    const token = AuthService.getToken();
+    if (!token) {
+      return () => {};
+    }
+
+    const socket = io(getApiBaseUrl(), {
+      transports: ['websocket', 'polling'],
+      auth: { token }
+    });
+    socket.on('achievement_unlocked', onUnlock);
+    return () => {
+      socket.disconnect();
+    };
+  }
+
   /**
    * Create game session
    * @param gameType - Type of game ('single', 'multiplayer', 'ai')
@@ -227,4 +437,58 @@ export class GameStatsService {
 
     return true;
   }
-} 
\ No newline at end of file
+
+  /**
+   * Get the replay recorded for a game session
+   * @param sessionId - Game session ID (e.g. a tournament match's game_session_id)
+   * @returns Promise<StoredReplay> - Replay with its session details
+   */
+  static async getReplay(sessionId: string | number): Promise<StoredReplay> {
+    const token = AuthService.getToken();
+    if (!token) {
+      throw new Error('Authentication required');
+    }
+
+    const response = await fetch(`${getApiBaseUrl()}/api/game/replays/${sessionId}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Failed to get replay');
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Aggregate the telemetry of matches into career stats
+   * @param matches - Matches from the match history
+   * @returns CareerStats - Totals over the matches that have telemetry
+   */
+  static getCareerStats(matches: LocalMatch[]): CareerStats {
+    const telemetry = matches.flatMap(match => match.telemetry ? [match.telemetry] : []);
+    const totalHits = telemetry.reduce((sum, t) => sum + t.hits, 0);
+    const timeLeading = telemetry.reduce((sum, t) => sum + t.timeLeading, 0);
+    const anyoneLeading = telemetry.reduce((sum, t) => sum + t.timeLeading + t.opponentTimeLeading, 0);
+    // Weight each match's average speed by its hits, so short matches count less
+    const rallies = telemetry.reduce((sum, t) => sum + t.hits + t.opponentHits, 0);
+    const weightedSpeed = telemetry.reduce((sum, t) => sum + t.averageBallSpeed * (t.hits + t.opponentHits), 0);
+
+    return {
+      trackedMatches: telemetry.length,
+      totalHits,
+      averageHits: telemetry.length > 0 ? totalHits / telemetry.length : 0,
+      longestRally: Math.max(0, ...telemetry.map(t => t.longestRally)),
+      averageBallSpeed: rallies > 0 ? weightedSpeed / rallies : 0,
+      maxBallSpeed: Math.max(0, ...telemetry.map(t => t.maxBallSpeed)),
+      pointsFromServe: telemetry.reduce((sum, t) => sum + t.pointsFromServe, 0),
+      timeLeading,
+      leadShare: anyoneLeading > 0 ? (timeLeading / anyoneLeading) * 100 : 0
+    };
+  }
+}
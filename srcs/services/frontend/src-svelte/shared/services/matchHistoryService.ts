@@ -23,6 +23,25 @@ export interface LocalMatch {
   duration: number; // in seconds
   playedAt: string;
   playerSide?: 'left' | 'right';
+  placement?: number; // Free-for-all finishing place (1 = winner)
+  aiProfile?: string; // AI games: difficulty and personality of the AI (e.g. "adaptive:hard/aggressive")
+  telemetry?: MatchTelemetry; // Matches run by the server only
+}
+
+/**
+ * Metrics the server collected during a match, from the user's side
+ * (ball speeds in pixels per second, times in seconds)
+ */
+export interface MatchTelemetry {
+  hits: number;
+  opponentHits: number;
+  longestRally: number;
+  averageBallSpeed: number;
+  maxBallSpeed: number;
+  pointsFromServe: number;
+  opponentPointsFromServe: number;
+  timeLeading: number;
+  opponentTimeLeading: number;
 }
 
 export interface GameStats {
@@ -35,40 +54,75 @@ export interface GameStats {
   averageScore: number;
 }
 
+/** Which opponents to show: everyone, only AI players or only people */
+export type OpponentFilter = 'all' | 'ai' | 'players';
+
+/**
+ * Server-side match history filters; dates are YYYY-MM-DD and `to` covers that whole day
+ */
+export interface MatchHistoryFilters {
+  from?: string;
+  to?: string;
+  mode?: 'ai' | 'multiplayer' | 'tournament' | 'ffa';
+  result?: 'win' | 'loss' | 'draw';
+  opponent?: string; // Part of the opponent's name
+  sort?: 'newest' | 'oldest' | 'longest' | 'margin';
+}
+
+export interface MatchPage {
+  matches: LocalMatch[];
+  nextCursor: string | null; // null on the last page
+}
+
 const STORAGE_KEY = 'match_history';
-const MAX_MATCHES = 50;
+const MAX_MATCHES = 50; // localStorage fallback only; the server keeps the full history
+const PAGE_SIZE = 20;
+
+function toQueryParams(filters: MatchHistoryFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  return params;
+}
 
 export class MatchHistoryService {
   /**
-   * Get all matches from backend API
+   * Get a page of matches from backend API
+   * @param filters - Date range, game mode, result, opponent and sort order
+   * @param cursor - nextCursor of the previous page (first page if not set)
    */
-  static async getMatches(): Promise<LocalMatch[]> {
-    try {
-      const token = AuthService.getToken();
-      if (!token) {
-        console.log('⚠️ No token found, returning empty matches');
-        return [];
-      }
+  static async getMatchPage(filters: MatchHistoryFilters = {}, cursor?: string): Promise<MatchPage> {
+    const token = AuthService.getToken();
+    if (!token) {
+      console.log('⚠️ No token found, returning empty matches');
+      return { matches: [], nextCursor: null };
+    }
+
+    const params = toQueryParams(filters);
+    if (cursor) params.set('cursor', cursor);
+    params.set('limit', String(PAGE_SIZE));
+
+    const response = await fetch(`${getApiBaseUrl()}/api/users/match-history?${params}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+    });
 
-      const response = await fetch(`${getApiBaseUrl()}/api/users/match-history`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          console.log('⚠️ Unauthorized, returning empty matches');
-          return [];
-        }
-        const error = await response.json();
-        throw new Error(error.message || 'Failed to get match history');
+    if (!response.ok) {
+      if (response.status === 401) {
+        console.log('⚠️ Unauthorized, returning empty matches');
+        return { matches: [], nextCursor: null };
       }
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to get match history');
+    }
 
-      const matches = await response.json();
-      return matches.map((match: any) => ({
+    const page = await response.json();
+    return {
+      matches: page.matches.map((match: any) => ({
         id: match.id,
         opponentName: match.opponentName,
         userScore: match.userScore,
@@ -77,13 +131,57 @@ export class MatchHistoryService {
         gameMode: match.gameMode,
         duration: match.duration || 0,
         playedAt: match.playedAt,
-      }));
-    } catch (error) {
-      console.error('❌ Error fetching matches from backend:', error);
-      return [];
+        placement: match.placement ?? undefined,
+        aiProfile: match.aiProfile ?? undefined,
+        telemetry: match.telemetry ?? undefined,
+      })),
+      nextCursor: page.nextCursor
+    };
+  }
+
+  /**
+   * Download the full match history matching the filters as a CSV or JSON file
+   */
+  static async exportMatches(format: 'csv' | 'json', filters: MatchHistoryFilters = {}): Promise<void> {
+    const token = AuthService.getToken();
+    if (!token) {
+      throw new Error('Authentication required');
     }
+
+    const params = toQueryParams(filters);
+    params.set('format', format);
+    const response = await fetch(`${getApiBaseUrl()}/api/users/match-history/export?${params}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || error.error || 'Failed to export match history');
+    }
+
+    // The export needs the token, so it is fetched and saved rather than linked to
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `match-history.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
   }
-  
+
+  /**
+   * Keep only the matches against AI players, or only those against people
+   * (AI games and tournament matches against an AI both carry its profile)
+   */
+  static filterByOpponent(matches: LocalMatch[], filter: OpponentFilter): LocalMatch[] {
+    if (filter === 'all') {
+      return matches;
+    }
+    return matches.filter(m => Boolean(m.aiProfile) === (filter === 'ai'));
+  }
+
   /**
    * Calculate game statistics from matches
    */
@@ -0,0 +1,200 @@
+/**
+ * Matchmaking Service
+ *
+ * Searches for an opponent of a similar rating: over a Socket.IO connection
+ * to the server hosting the queue, or by polling the REST API when the socket
+ * cannot connect (registered players only)
+ */
+
+import { io, Socket } from 'socket.io-client';
+import { AuthService } from './authService';
+
+/** Room the backend routes matchmaking connections by */
+const MATCHMAKING_ROOM = 'matchmaking';
+
+/** Time between two polls of the REST fallback */
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Get API base URL dynamically at runtime
+ * Derives from the current hostname, the backend runs on port 8000
+ */
+function getApiBaseUrl(): string {
+  const protocol = window.location.protocol;
+  const hostname = window.location.hostname;
+  if (hostname === 'localhost' || hostname === '127.0.0.1') {
+    return 'http://localhost:8000';
+  }
+  return `${protocol}//${hostname}:8000`;
+}
+
+export type GameSpeed = 'slow' | 'normal' | 'fast';
+
+/**
+ * Room the server matched the player into
+ */
+export interface MatchFound {
+  roomId: string;
+  playerSide: 'left' | 'right';
+  opponentId: string;
+  gameSpeed: GameSpeed;
+}
+
+/**
+ * Queue status shown while searching
+ */
+export interface MatchmakingStatus {
+  queued: boolean;
+  size: number; // Players in the queue
+  waitMs: number;
+  searchWindow: number; // Rating difference currently accepted
+  averageWaitMs: number | null;
+  match?: MatchFound | null; // Only in REST responses
+}
+
+export interface MatchmakingHandlers {
+  onStatus: (status: MatchmakingStatus) => void;
+  onMatchFound: (match: MatchFound) => void;
+  onError: (message: string) => void;
+}
+
+export class MatchmakingService {
+  private socket: Socket | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private searching = false;
+
+  constructor(private handlers: MatchmakingHandlers) {}
+
+  /**
+   * Join the queue; the handlers are called until a match is found or stop() is called
+   */
+  async start(gameSpeed: GameSpeed): Promise<void> {
+    this.stop();
+    this.searching = true;
+    const identity = await AuthService.getSocketIdentity();
+    if (!this.searching) return;
+
+    this.socket = io(getApiBaseUrl(), {
+      transports: ['websocket', 'polling'],
+      timeout: 20000,
+      forceNew: true,
+      reconnection: false,
+      auth: { token: identity.token },
+      // Lets the backend route this socket to the server hosting the queue
+      query: { room: MATCHMAKING_ROOM }
+    });
+
+    this.socket.on('connect', () => {
+      this.socket?.emit('queue_join', { gameSpeed });
+    });
+
+    this.socket.on('queue_status', (status: MatchmakingStatus) => {
+      this.handlers.onStatus(status);
+    });
+
+    this.socket.on('match_found', (match: MatchFound) => {
+      this.finish(match);
+    });
+
+    this.socket.on('queue_error', (data: { message: string }) => {
+      this.handlers.onError(data.message);
+    });
+
+    this.socket.on('error', (data: { message?: string }) => {
+      this.handlers.onError(data?.message || 'Matchmaking error');
+    });
+
+    this.socket.on('connect_error', (error) => {
+      console.error('❌ Matchmaking socket connection error:', error);
+      this.closeSocket();
+      // Registered players can still search over REST
+      if (this.searching && AuthService.getToken()) {
+        this.startPolling(gameSpeed);
+      } else {
+        this.handlers.onError(error.message);
+      }
+    });
+  }
+
+  /**
+   * Leave the queue
+   */
+  stop(): void {
+    const wasPolling = this.pollTimer !== null;
+    this.searching = false;
+    if (this.socket) {
+      this.socket.emit('queue_leave');
+    }
+    this.closeSocket();
+    this.stopPolling();
+    if (wasPolling) {
+      this.request('DELETE').catch(error => console.error('❌ Error leaving the matchmaking queue:', error));
+    }
+  }
+
+  private finish(match: MatchFound) {
+    this.searching = false;
+    this.closeSocket();
+    this.stopPolling();
+    this.handlers.onMatchFound(match);
+  }
+
+  private closeSocket() {
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.disconnect();
+      this.socket = null;
+    }
+  }
+
+  private async startPolling(gameSpeed: GameSpeed) {
+    try {
+      this.handlers.onStatus(await this.request('POST', { gameSpeed }));
+    } catch (error) {
+      this.handlers.onError(error instanceof Error ? error.message : 'Failed to join the queue');
+      return;
+    }
+    if (!this.searching) return;
+
+    this.pollTimer = setInterval(async () => {
+      try {
+        const status = await this.request('GET');
+        if (status.match) {
+          this.finish(status.match);
+        } else {
+          this.handlers.onStatus(status);
+        }
+      } catch (error) {
+        console.error('❌ Error polling the matchmaking queue:', error);
+      }
+    }, POLL_INTERVAL_MS);
+  }
+
+  private stopPolling() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Call the REST fallback; `room` lets the backend route the request to the
+   * server hosting the queue
+   */
+  private async request(method: 'GET' | 'POST' | 'DELETE', body?: object): Promise<MatchmakingStatus> {
+    const token = await AuthService.getTokenOrRefresh();
+    const response = await fetch(`${getApiBaseUrl()}/api/matchmaking/queue?room=${MATCHMAKING_ROOM}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        ...(body ? { 'Content-Type': 'application/json' } : {})
+      },
+      ...(body ? { body: JSON.stringify(body) } : {})
+    });
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Matchmaking request failed');
+    }
+    return result.data;
+  }
+}
@@ -4,6 +4,10 @@
  */
 
 import { io, Socket } from 'socket.io-client';
+import { SnapshotDecoder } from '@game/snapshotDelta';
+import type { MatchRules } from '@game/matchRules';
+import type { AIDifficulty, AIPersonality } from '@game/aiPlayer';
+import { AuthService } from './authService';
 
 // GameRoomState interface removed as it's not used in Socket.IO implementation
 
@@ -11,11 +15,14 @@ interface SocketIOEventHandlers {
   onConnected?: (data: any) => void;
   onPlayerJoined?: (data: any) => void;
   onPlayerLeft?: (data: any) => void;
+  onPlayerDisconnected?: (data: any) => void;
+  onReconnectCountdown?: (data: any) => void;
   onPlayerReady?: (data: any) => void;
   onSpectatorMode?: (data: any) => void;
   onGameStart?: (data: any) => void;
   onGamePlaying?: (data: any) => void;
   onGamePause?: (data: any) => void;
+  onServeCountdown?: (data: any) => void;
   onGameStateUpdate?: (data: any) => void;
   onGameState?: (data: any) => void;
   onGameReset?: (data: any) => void;
@@ -27,15 +34,18 @@ interface SocketIOEventHandlers {
 
 class SocketIOService {
   private socket: Socket | null = null;
-  private userId: string | null = null;
+  private userId: string | null = null; // Identity the server bound this socket to at the handshake
   private tournamentId: number | null = null;
   private matchId: number | null = null;
   private gameSpeed: 'slow' | 'normal' | 'fast' = 'normal';
+  private rules: Partial<MatchRules> | undefined; // Match rules requested when creating a room
   private eventHandlers: SocketIOEventHandlers = {};
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
   private pingInterval: NodeJS.Timeout | null = null;
+  private inputSequence = 0; // Sequence number of the last paddle input sent
+  private snapshotDecoder = new SnapshotDecoder(); // Rebuilds full states from delta snapshots
 
   constructor() {
     this.setupMessageHandlers();
@@ -43,14 +53,20 @@ class SocketIOService {
 
   /**
    * Connect to Socket.IO server
+   * The server identifies the player by the token sent in the handshake:
+   * the user's JWT, or a guest token for players without an account
    */
-  connect(tournamentId: number, matchId: number, userId: string, roomId?: string, playerSide?: 'left' | 'right', gameSpeed: 'slow' | 'normal' | 'fast' = 'normal'): Promise<void> {
+  async connect(tournamentId: number, matchId: number, roomId?: string, playerSide?: 'left' | 'right', gameSpeed: 'slow' | 'normal' | 'fast' = 'normal', rules?: Partial<MatchRules>): Promise<void> {
+    const identity = await AuthService.getSocketIdentity();
+
     return new Promise((resolve, reject) => {
       try {
         this.tournamentId = tournamentId;
         this.matchId = matchId;
-        this.userId = userId;
+        this.userId = identity.userId;
         this.gameSpeed = gameSpeed;
+        this.rules = rules;
+        this.snapshotDecoder.reset();
 
         // Socket.IO server runs on the backend port (8000)
         // Dynamically determine URL at runtime (no rebuild needed when IP changes)
@@ -66,58 +82,42 @@ class SocketIOService {
         console.log('🔍 Socket.IO URL:', socketUrl);
         console.log('Connecting to Socket.IO server:', socketUrl);
 
+        // Use provided roomId or generate one
+        const finalRoomId = roomId || `tournament-${tournamentId}-match-${matchId}`;
+
         this.socket = io(socketUrl, {
           transports: ['websocket', 'polling'], // Enable fallback to polling
           timeout: 20000,
-          forceNew: true
+          forceNew: true,
+          auth: { token: identity.token },
+          // Lets the backend route this socket to the worker hosting the room
+          query: { room: finalRoomId }
         });
 
         this.socket.on('connect', () => {
           console.log('Socket.IO connected:', this.socket?.id);
           this.reconnectAttempts = 0;
           
-          // Use provided roomId or generate one
-          const finalRoomId = roomId || `tournament-${tournamentId}-match-${matchId}`;
           console.log('🔍 SocketIOService joining room:', finalRoomId);
           console.log('🔍 SocketIOService tournamentId:', tournamentId, 'matchId:', matchId);
           console.log('🔍 SocketIOService playerSide:', playerSide);
           
-          // Get JWT token from localStorage
-          const token = localStorage.getItem('token');
-          console.log('🔍 SocketIOService token:', token ? 'provided' : 'not provided');
-          console.log('🔍 SocketIOService userId:', userId);
+          console.log('🔍 SocketIOService userId (from token):', this.userId);
           console.log('🔍 SocketIOService roomId:', finalRoomId);
           
-          // Decode token to check userId (for debugging)
-          if (token) {
-            try {
-              const parts = token.split('.');
-              if (parts.length === 3) {
-                const payload = JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')));
-                console.log('🔍 SocketIOService token payload:', payload);
-                console.log('🔍 SocketIOService token userId:', payload.id || payload.userId);
-              }
-            } catch (e) {
-              console.log('🔍 SocketIOService failed to decode token:', e);
-            }
-          }
-          
           const joinData = {
             roomId: finalRoomId,
             tournamentId,
             matchId,
-            userId,
-            token,
             playerSide,
-            gameSpeed: this.gameSpeed
+            gameSpeed: this.gameSpeed,
+            rules: this.rules
           };
           
           console.log('🎯 SENDING join_game_room with data:');
           console.log('   roomId:', joinData.roomId);
           console.log('   tournamentId:', joinData.tournamentId);
           console.log('   matchId:', joinData.matchId);
-          console.log('   userId:', joinData.userId);
-          console.log('   token:', joinData.token ? 'provided' : 'not provided');
           console.log('   playerSide:', joinData.playerSide, '(type:', typeof joinData.playerSide + ')');
           console.log('   Full object:', JSON.stringify(joinData, null, 2));
           
@@ -166,15 +166,17 @@ class SocketIOService {
    */
   disconnect() {
     if (this.socket) {
-      this.socket.emit('leave_game_room', { userId: this.userId });
+      this.socket.emit('leave_game_room');
       this.socket.disconnect();
       this.socket = null;
     }
     this.stopPingInterval();
+    this.snapshotDecoder.reset();
     this.userId = null;
     this.tournamentId = null;
     this.matchId = null;
     this.gameSpeed = 'normal';
+    this.rules = undefined;
   }
 
   /**
@@ -190,34 +192,28 @@ class SocketIOService {
   sendPlayerReady(ready: boolean) {
     if (this.socket && this.userId) {
       this.socket.emit('player_ready', {
-        userId: this.userId,
         ready
       });
     }
   }
 
   /**
-   * Send game state update
+   * Send a game control request (game_reset, game_pause or game_resume);
+   * the server runs the physics and ignores any other game state
    */
   sendGameStateUpdate(gameState: any) {
     if (this.socket && this.userId) {
       this.socket.emit('game_state_update', {
-        userId: this.userId,
         gameState
       });
     }
   }
 
   /**
-   * Send game end result
+   * User id the server bound this socket to (a guest id for guests)
    */
-  sendGameEnd(gameResult: any) {
-    if (this.socket && this.userId) {
-      this.socket.emit('game_end', {
-        userId: this.userId,
-        gameResult
-      });
-    }
+  getUserId(): string | null {
+    return this.userId;
   }
 
   /**
@@ -256,6 +252,15 @@ class SocketIOService {
       this.eventHandlers.onPlayerLeft?.(data);
     });
 
+    this.socket.on('player_disconnected', (data) => {
+      console.log('Player disconnected:', data);
+      this.eventHandlers.onPlayerDisconnected?.(data);
+    });
+
+    this.socket.on('reconnect_countdown', (data) => {
+      this.eventHandlers.onReconnectCountdown?.(data);
+    });
+
     this.socket.on('spectator_mode', (data) => {
       console.log('Spectator mode activated:', data);
       this.eventHandlers.onSpectatorMode?.(data);
@@ -281,10 +286,28 @@ class SocketIOService {
       this.eventHandlers.onGamePause?.(data);
     });
 
+    this.socket.on('serve_countdown', (data) => {
+      console.log('Serve countdown:', data);
+      this.eventHandlers.onServeCountdown?.(data);
+    });
+
     this.socket.on('game_state_update', (data) => {
       // Game state updates are very frequent (30 FPS), so we don't log them
       // Uncomment the line below for debugging if needed
       // console.log('Game state update:', data);
+
+      // Server snapshots are delta-compressed: rebuild the full state and
+      // acknowledge the tick so the next delta can be based on it
+      if (data && typeof data.keyframe === 'boolean') {
+        const gameState = this.snapshotDecoder.decode(data);
+        if (!gameState) {
+          return; // Base not available; a keyframe will follow
+        }
+        this.socket?.emit('snapshot_ack', { tick: data.tick });
+        this.eventHandlers.onGameStateUpdate?.({ ...data, gameState });
+        return;
+      }
+
       this.eventHandlers.onGameStateUpdate?.(data);
     });
 
@@ -396,18 +419,37 @@ class SocketIOService {
     }
   }
 
+  /**
+   * Ask the server to seat its AI as the opponent in the current room
+   */
+  addBot(difficulty: AIDifficulty, personality: AIPersonality = 'balanced', adaptive: boolean = false) {
+    if (this.socket?.connected) {
+      console.log('Adding AI opponent:', difficulty, personality, adaptive ? '(adaptive)' : '');
+      this.socket.emit('add_bot', {
+        difficulty,
+        personality,
+        adaptive
+      });
+    } else {
+      console.error('Cannot add AI opponent: Socket not connected');
+    }
+  }
+
   /**
    * Send paddle movement
+   * @returns Sequence number the server acknowledges once the input is processed
    */
-  sendPaddleMovement(direction: number) {
+  sendPaddleMovement(direction: number): number {
+    const sequence = ++this.inputSequence;
     if (this.socket?.connected) {
       this.socket.emit('paddle_movement', {
         tournamentId: this.tournamentId,
         matchId: this.matchId,
-        userId: this.userId,
-        direction
+        direction,
+        sequence
       });
     }
+    return sequence;
   }
 
   /**
@@ -427,7 +469,7 @@ class SocketIOService {
     setTimeout(() => {
       if (this.tournamentId && this.matchId && this.userId) {
         // Don't pass roomId on reconnect, let it be regenerated
-        this.connect(this.tournamentId, this.matchId, this.userId, undefined, undefined, this.gameSpeed)
+        this.connect(this.tournamentId, this.matchId, undefined, undefined, this.gameSpeed)
           .catch(error => {
             console.error('Reconnection failed:', error);
           });
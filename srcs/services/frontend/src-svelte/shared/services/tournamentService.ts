@@ -4,6 +4,8 @@
  * Frontend service for tournament API communication
  */
 
+import type { AIDifficulty } from '@game/aiPlayer';
+
 /**
  * Get API base URL dynamically at runtime
  * Uses environment variable if set, otherwise derives from current hostname
@@ -54,6 +56,8 @@ export interface TournamentParticipant {
   final_rank?: number | null;
   seed?: number | null;
   is_ready: boolean;
+  /** Set for AI participants; the server plays their matches */
+  bot_difficulty?: AIDifficulty | null;
   user?: {
     id: number;
     username: string;
@@ -227,10 +231,12 @@ class TournamentService {
   }
 
   // Participant operations
-  async joinTournament(tournamentId: number, input: JoinTournamentInput): Promise<TournamentParticipant> {
+  async joinTournament(tournamentId: number, input: JoinTournamentInput, guestToken?: string): Promise<TournamentParticipant> {
+    // Guests join with their guest token, which the server binds the slot to
     return this.request<TournamentParticipant>(`/api/tournaments/${tournamentId}/join`, {
       method: 'POST',
       body: JSON.stringify(input),
+      ...(guestToken ? { headers: { 'Authorization': `Bearer ${guestToken}` } } : {}),
     });
   }
 
@@ -241,6 +247,13 @@ class TournamentService {
     });
   }
 
+  async addBot(tournamentId: number, difficulty: AIDifficulty): Promise<TournamentParticipant> {
+    return this.request<TournamentParticipant>(`/api/tournaments/${tournamentId}/bots`, {
+      method: 'POST',
+      body: JSON.stringify({ difficulty }),
+    });
+  }
+
   async getTournamentParticipants(tournamentId: number): Promise<TournamentParticipant[]> {
     return this.request<TournamentParticipant[]>(`/api/tournaments/${tournamentId}/participants`);
   }
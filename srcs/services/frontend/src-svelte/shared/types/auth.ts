@@ -29,6 +29,18 @@ export interface AuthResponse {
   token: string;
 }
 
+export interface GuestAuthResponse {
+  token: string;
+  guestId: string;
+  guestAlias: string | null;
+}
+
+/** Token a socket connects with, and the user id the server binds the socket to */
+export interface SocketIdentity {
+  token: string;
+  userId: string;
+}
+
 export interface ErrorResponse {
   error: string;
   message: string;
@@ -3,6 +3,10 @@
  * Defines the structure for game customization options
  */
 
+import type { PowerUpKind } from '@game/powerUps';
+import { SERVE_RULES, type ServeRule } from '@game/pongPhysics';
+import { DEFAULT_ARENA_MAP_ID } from '@game/arenaMaps';
+
 export interface GameSettings {
   // Difficulty settings
   difficulty: 'easy' | 'medium' | 'hard';
@@ -29,6 +33,10 @@ export interface GameSettings {
   maxScore: number; // 5-21
   ballSize: number; // 3-8
   paddleHeight: number; // 80-120
+  powerUps: PowerUpKind[]; // Enabled power-ups (empty: none)
+  map: string; // Arena map id
+  serveRule: ServeRule; // Who the ball is served towards after a point
+  serveCountdown: number; // 0-5 seconds before each serve
 }
 
 export const DEFAULT_GAME_SETTINGS: GameSettings = {
@@ -45,9 +53,43 @@ export const DEFAULT_GAME_SETTINGS: GameSettings = {
   showScore: true,
   maxScore: 11,
   ballSize: 5,
-  paddleHeight: 100
+  paddleHeight: 100,
+  powerUps: [],
+  map: DEFAULT_ARENA_MAP_ID,
+  serveRule: 'alternate',
+  serveCountdown: 3
 };
 
+/**
+ * Settings that are sent to the server as per-room match rules
+ */
+export type MatchRuleSettings = Pick<GameSettings, 'maxScore' | 'ballSize' | 'paddleHeight' | 'ballSpeed' | 'paddleSpeed' | 'powerUps' | 'map' | 'serveRule' | 'serveCountdown'>;
+
+const NUMERIC_MATCH_RULE_KEYS = ['maxScore', 'ballSize', 'paddleHeight', 'ballSpeed', 'paddleSpeed', 'serveCountdown'] as const;
+
+/**
+ * Pick the match rules out of (possibly partial) game settings
+ */
+export function getMatchRulesFromSettings(settings: Partial<GameSettings>): Partial<MatchRuleSettings> {
+  const rules: Partial<MatchRuleSettings> = {};
+  for (const key of NUMERIC_MATCH_RULE_KEYS) {
+    const value = settings[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      rules[key] = value;
+    }
+  }
+  if (Array.isArray(settings.powerUps)) {
+    rules.powerUps = [...settings.powerUps];
+  }
+  if (typeof settings.map === 'string') {
+    rules.map = settings.map;
+  }
+  if (settings.serveRule && SERVE_RULES.includes(settings.serveRule)) {
+    rules.serveRule = settings.serveRule;
+  }
+  return rules;
+}
+
 export interface GameSettingsContextType {
   settings: GameSettings;
   updateSettings: (newSettings: Partial<GameSettings>) => void;
@@ -27,6 +27,9 @@ export default defineConfig(({ mode }) => ({
   server: {
     port: 3001,
     host: true,
+    fs: {
+      allow: ['.', path.resolve(__dirname, '../backend/src/game')]
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:8000',
@@ -79,6 +82,8 @@ export default defineConfig(({ mode }) => ({
     alias: {
       '@shared': path.resolve(__dirname, './src-svelte/shared'),
       '@shared/*': path.resolve(__dirname, './src-svelte/shared/*'),
+      // Shared Pong physics core lives in the backend (authoritative server)
+      '@game': path.resolve(__dirname, '../backend/src/game'),
     }
   },
   